@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, useLocation, Navigate } from 'r
 import Navigation from './components/Navigation';
 import CreateAgentModal from './components/CreateAgentModal';
 import LoadingScreen from './components/LoadingScreen';
+import ExpiredPaymentNotice from './components/ExpiredPaymentNotice';
 import LilyFlowers from './components/LilyFlowers';
 import CursorFollower from './components/CursorFollower';
 import Home from './pages/Home';
@@ -15,6 +16,8 @@ import AgentDetail from './pages/AgentDetail';
 import APIDetail from './pages/APIDetail';
 import ContractAdmin from './pages/ContractAdmin';
 import X402Payments from './pages/X402Payments';
+import { solanaPaymentService } from './services/solanaPayment';
+import { getTransactionMonitor } from './services/transactionMonitor';
 import './lib/reown';
 
 function AppContent() {
@@ -23,6 +26,12 @@ function AppContent() {
   const location = useLocation();
   const isHomePage = location.pathname === '/' || location.pathname === '/home';
 
+  // Pick up payments that were still confirming when the page was last closed
+  useEffect(() => {
+    if (!walletAddress) return;
+    getTransactionMonitor(solanaPaymentService.getConnection()).resumePendingMonitors(walletAddress);
+  }, [walletAddress]);
+
   const handleWalletConnect = (address: string) => {
     setWalletAddress(address);
   };
@@ -53,6 +62,7 @@ function AppContent() {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
       />
+      <ExpiredPaymentNotice walletAddress={walletAddress} />
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/dashboard" element={<Dashboard />} />
@@ -1,8 +1,12 @@
 import { useState } from 'react';
-import { X, Loader2, CheckCircle, AlertCircle, ExternalLink, DollarSign } from 'lucide-react';
+import { X, Loader2, CheckCircle, AlertCircle, ExternalLink, DollarSign, QrCode } from 'lucide-react';
 import { solanaPaymentService } from '../services/solanaPayment';
+import type { SolanaPayFulfillment } from '../services/solanaPay';
+import SolanaPayQR from './SolanaPayQR';
+import PriceQuoteSummary from './PriceQuoteSummary';
 import { validateAndCreateWallet } from '../utils/walletValidation';
 import { useWallet } from '../hooks/useWallet';
+import { usePriceQuote } from '../hooks/usePriceQuote';
 import { supabase } from '../lib/supabase';
 
 interface APIPaymentModalProps {
@@ -13,10 +17,12 @@ interface APIPaymentModalProps {
   paymentType: 'subscription' | 'pay_per_call' | 'prepaid_credits';
   amount: number; // USD amount
   description: string;
+  /** API owner's wallet, paid directly minus the platform fee */
+  creatorWallet?: string | null;
   onPaymentComplete: (signature: string) => void;
 }
 
-type PaymentStep = 'review' | 'processing' | 'success' | 'error';
+type PaymentStep = 'review' | 'solana-pay' | 'processing' | 'success' | 'error';
 
 export default function APIPaymentModal({
   isOpen,
@@ -26,6 +32,7 @@ export default function APIPaymentModal({
   paymentType,
   amount,
   description,
+  creatorWallet,
   onPaymentComplete
 }: APIPaymentModalProps) {
   const { connected, publicKey, walletProvider } = useWallet();
@@ -34,6 +41,7 @@ export default function APIPaymentModal({
   const [errorMessage, setErrorMessage] = useState('');
   const [solAmount, setSolAmount] = useState<number>(0);
   const [conversionRate, setConversionRate] = useState<number>(0);
+  const priceQuote = usePriceQuote(amount, isOpen && step === 'review', publicKey);
 
   if (!isOpen) return null;
 
@@ -44,6 +52,13 @@ export default function APIPaymentModal({
       return;
     }
 
+    const quote = priceQuote.quote;
+    if (!quote) {
+      setErrorMessage('The price quote expired, please refresh it');
+      setStep('error');
+      return;
+    }
+
     setStep('processing');
     setErrorMessage('');
 
@@ -57,16 +72,42 @@ export default function APIPaymentModal({
 
       console.log('[APIPayment] Creating payment for', amount, 'USD');
 
-      const paymentResult = await solanaPaymentService.createPaymentTransaction(
+      const paymentResult = await solanaPaymentService.createSplitPaymentTransaction(
         walletResult.wallet,
         amount,
-        'other'
+        creatorWallet,
+        { transactionType: 'other', serviceType: 'api', serviceId: apiId, quote }
       );
 
       if (!paymentResult.success) {
         throw new Error(paymentResult.error || 'Payment failed');
       }
 
+      if (paymentResult.splits) {
+        const verification = await solanaPaymentService.verifySplitPayment(
+          paymentResult.signature!,
+          paymentResult.splits,
+          paymentResult.currency
+        );
+
+        if (!verification.valid) {
+          throw new Error(verification.error || 'Payment verification failed');
+        }
+      }
+
+      // The legs together must add up to the quoted amount
+      if (paymentResult.quoteId) {
+        const quoted = await solanaPaymentService.verifyQuotedPayment(
+          paymentResult.signature!,
+          quote,
+          paymentResult.splits?.map(split => split.recipient)
+        );
+
+        if (!quoted.valid) {
+          throw new Error(quoted.error || 'Payment does not match the price quote');
+        }
+      }
+
       console.log('[APIPayment] Payment successful:', paymentResult.signature);
       console.log('[APIPayment] SOL charged:', paymentResult.solAmount);
 
@@ -94,11 +135,34 @@ export default function APIPaymentModal({
     }
   };
 
-  const recordPayment = async (signature: string, solAmount: number, usdAmount: number) => {
+  const handleSolanaPayComplete = async (fulfillment: SolanaPayFulfillment) => {
+    const signature = fulfillment.signature!;
+    const charged = fulfillment.amount ?? 0;
+
+    setTransactionSignature(signature);
+    setStep('processing');
+    setSolAmount(charged);
+    setConversionRate(charged > 0 ? amount / charged : 0);
+
+    await recordPayment(signature, charged, amount, fulfillment.payerWallet);
+
+    setStep('success');
+
+    setTimeout(() => {
+      onPaymentComplete(signature);
+    }, 1500);
+  };
+
+  const recordPayment = async (
+    signature: string,
+    solAmount: number,
+    usdAmount: number,
+    walletAddress: string | null | undefined = publicKey
+  ) => {
     try {
       const paymentRecord: any = {
         api_id: apiId,
-        user_wallet_address: publicKey,
+        user_wallet_address: walletAddress,
         transaction_signature: signature,
         amount_sol: solAmount,
         amount_usd: usdAmount,
@@ -110,7 +174,7 @@ export default function APIPaymentModal({
       if (paymentType === 'subscription') {
         await supabase.from('api_subscriptions').insert({
           api_id: apiId,
-          user_wallet_address: publicKey,
+          user_wallet_address: walletAddress,
           status: 'active',
           started_at: new Date().toISOString(),
           expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
@@ -191,10 +255,19 @@ export default function APIPaymentModal({
             <AlertCircle size={18} />
           </div>
           <div className="text-sm text-blue-800">
-            <strong>Note:</strong> Payment will be processed in SOL at current market rate. You'll see the exact SOL amount in your wallet confirmation.
+            <strong>Note:</strong> Payment is made in SOL. The amount below is locked until the quote runs out; refresh it to get a new price.
           </div>
         </div>
 
+        <PriceQuoteSummary
+          quote={priceQuote.quote}
+          expired={priceQuote.expired}
+          secondsLeft={priceQuote.secondsLeft}
+          loading={priceQuote.loading}
+          error={priceQuote.error}
+          onRefresh={priceQuote.refresh}
+        />
+
         {!connected && (
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start gap-3">
             <AlertCircle size={18} className="text-amber-600 flex-shrink-0 mt-0.5" />
@@ -204,15 +277,43 @@ export default function APIPaymentModal({
 
         <button
           onClick={handlePayment}
-          disabled={!connected}
+          disabled={!connected || !priceQuote.quote}
           className="w-full bg-primary-500 hover:bg-primary-600 text-white px-6 py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
         >
           Proceed to Payment
         </button>
+
+        <button
+          onClick={() => setStep('solana-pay')}
+          className="w-full border border-gray-300 text-gray-700 px-6 py-3 rounded-lg font-medium hover:bg-gray-50 transition-colors flex items-center justify-center gap-2"
+        >
+          <QrCode size={18} />
+          Pay with Mobile Wallet
+        </button>
       </div>
     </>
   );
 
+  const renderSolanaPayStep = () => (
+    <>
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900 mb-1">Scan to Pay</h2>
+          <p className="text-sm text-gray-600">Use any Solana Pay wallet, no browser wallet needed</p>
+        </div>
+      </div>
+
+      <SolanaPayQR
+        purpose="api_payment"
+        usdAmount={amount}
+        params={{ api_id: apiId, payment_type: paymentType }}
+        message={`${apiName}: ${description}`}
+        onComplete={handleSolanaPayComplete}
+        onCancel={() => setStep('review')}
+      />
+    </>
+  );
+
   const renderProcessingStep = () => (
     <>
       <div className="flex items-start justify-between mb-6">
@@ -346,6 +447,8 @@ export default function APIPaymentModal({
     switch (step) {
       case 'review':
         return renderReviewStep();
+      case 'solana-pay':
+        return renderSolanaPayStep();
       case 'processing':
         return renderProcessingStep();
       case 'success':
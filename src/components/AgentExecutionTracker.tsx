@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Loader2, CheckCircle, AlertCircle, Clock, Zap, ExternalLink } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, Clock, Zap, ExternalLink, Lock, RotateCcw } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { getExplorerUrl } from '../lib/network';
+import { executionEscrowService } from '../services/executionEscrow';
+import type { ExecutionEscrow } from '../types';
 
 interface ExecutionTrackerProps {
   executionId: string;
@@ -22,6 +25,7 @@ interface ExecutionData {
 
 export default function AgentExecutionTracker({ executionId, agentName, onComplete }: ExecutionTrackerProps) {
   const [execution, setExecution] = useState<ExecutionData | null>(null);
+  const [escrow, setEscrow] = useState<ExecutionEscrow | null>(null);
   const [loading, setLoading] = useState(true);
   const [elapsedTime, setElapsedTime] = useState(0);
 
@@ -42,8 +46,22 @@ export default function AgentExecutionTracker({ executionId, agentName, onComple
       })
       .subscribe();
 
+    executionEscrowService.getEscrow(executionId).then(setEscrow);
+    const escrowSubscription = supabase
+      .channel(`execution_escrow_${executionId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'execution_escrows',
+        filter: `execution_id=eq.${executionId}`
+      }, (payload) => {
+        setEscrow(payload.new as ExecutionEscrow);
+      })
+      .subscribe();
+
     return () => {
       subscription.unsubscribe();
+      escrowSubscription.unsubscribe();
     };
   }, [executionId]);
 
@@ -145,6 +163,37 @@ export default function AgentExecutionTracker({ executionId, agentName, onComple
     }
   };
 
+  const getEscrowConfig = (current: ExecutionEscrow) => {
+    switch (current.status) {
+      case 'awaiting_funding':
+        return { icon: Clock, color: 'text-yellow-400', label: 'Awaiting deposit', description: 'Waiting for your payment to reach escrow' };
+      case 'funded':
+        return {
+          icon: Lock,
+          color: 'text-blue-400',
+          label: 'Held in escrow',
+          description: current.timeout_at
+            ? `Released to the creator when the execution completes, refunded if it fails or is not done by ${new Date(current.timeout_at).toLocaleTimeString()}`
+            : 'Released to the creator when the execution completes, refunded if it fails'
+        };
+      case 'releasing':
+        return { icon: Loader2, color: 'text-blue-400', label: 'Releasing', description: 'Paying the creator' };
+      case 'refunding':
+        return { icon: Loader2, color: 'text-orange-400', label: 'Refunding', description: 'Returning your payment' };
+      case 'released':
+        return { icon: CheckCircle, color: 'text-green-400', label: 'Released', description: 'Paid to the creator' };
+      case 'refunded':
+        return { icon: RotateCcw, color: 'text-green-400', label: 'Refunded', description: 'Your payment was returned to your wallet' };
+      case 'cancelled':
+        return {
+          icon: AlertCircle,
+          color: 'text-red-400',
+          label: 'Cancelled',
+          description: current.settlement_error || 'No payment was received'
+        };
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -219,7 +268,7 @@ export default function AgentExecutionTracker({ executionId, agentName, onComple
                 {execution.transaction_signature.slice(0, 16)}...
               </p>
               <a
-                href={`https://solscan.io/tx/${execution.transaction_signature}`}
+                href={getExplorerUrl(execution.transaction_signature)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
@@ -231,6 +280,38 @@ export default function AgentExecutionTracker({ executionId, agentName, onComple
           </div>
         )}
 
+        {escrow && (() => {
+          const escrowConfig = getEscrowConfig(escrow);
+          const EscrowIcon = escrowConfig.icon;
+
+          return (
+            <div className="bg-gray-900 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-gray-400">Payment</p>
+                <div className="flex items-center gap-1.5">
+                  <EscrowIcon
+                    size={14}
+                    className={`${escrowConfig.color} ${escrow.status === 'releasing' || escrow.status === 'refunding' ? 'animate-spin' : ''}`}
+                  />
+                  <span className={`text-sm font-medium ${escrowConfig.color}`}>{escrowConfig.label}</span>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">{escrowConfig.description}</p>
+              {escrow.settlement_signature && (escrow.status === 'released' || escrow.status === 'refunded') && (
+                <a
+                  href={getExplorerUrl(escrow.settlement_signature)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-2 inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                >
+                  View {escrow.status === 'released' ? 'release' : 'refund'}
+                  <ExternalLink size={12} />
+                </a>
+              )}
+            </div>
+          );
+        })()}
+
         {execution.status === 'processing' && (
           <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
             <div className="flex items-start gap-3">
@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react';
+import { Clock, CheckCircle, XCircle, RefreshCw, ArrowUpRight, Wallet, Banknote } from 'lucide-react';
+import {
+  CreatorBalance,
+  CreatorEarningsService,
+  MIN_WITHDRAWAL_USD
+} from '../services/creatorEarnings';
+import { solanaPaymentService } from '../services/solanaPayment';
+import { useWallet } from '../hooks/useWallet';
+import { validateAndCreateWallet } from '../utils/walletValidation';
+import type { PaymentCurrency } from '../utils/splToken';
+import type { CreatorEarning, CreatorWithdrawal } from '../types';
+
+interface CreatorPayoutsProps {
+  walletAddress: string;
+}
+
+const ENTRY_LABELS: Record<CreatorEarning['entry_type'], string> = {
+  earning: 'Earning',
+  platform_fee: 'Platform fee',
+  refund: 'Refund'
+};
+
+const formatUsd = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+export default function CreatorPayouts({ walletAddress }: CreatorPayoutsProps) {
+  const { connected, publicKey, walletProvider } = useWallet();
+  const [balance, setBalance] = useState<CreatorBalance | null>(null);
+  const [withdrawals, setWithdrawals] = useState<CreatorWithdrawal[]>([]);
+  const [entries, setEntries] = useState<CreatorEarning[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+  const [amount, setAmount] = useState<string>('');
+  const [currency, setCurrency] = useState<PaymentCurrency>('USDC');
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [creatorBalance, creatorWithdrawals, creatorEntries] = await Promise.all([
+          CreatorEarningsService.getBalance(walletAddress),
+          CreatorEarningsService.getWithdrawals(walletAddress),
+          CreatorEarningsService.getEntries(walletAddress, 10)
+        ]);
+
+        setBalance(creatorBalance);
+        setWithdrawals(creatorWithdrawals);
+        setEntries(creatorEntries);
+      } catch (err) {
+        console.error('Error loading payouts:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [walletAddress, reloadCount]);
+
+  const reload = () => setReloadCount(count => count + 1);
+
+  const handleWithdraw = async () => {
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Enter an amount to withdraw');
+      return;
+    }
+
+    const walletResult = validateAndCreateWallet(connected, publicKey, walletProvider);
+    if (!walletResult.wallet || publicKey !== walletAddress) {
+      setError(walletResult.error || 'Connect the creator wallet to withdraw');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+
+    const result = await CreatorEarningsService.requestWithdrawal(walletResult.wallet, value, currency);
+
+    setSubmitting(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to request withdrawal');
+      return;
+    }
+
+    setAmount('');
+    reload();
+  };
+
+  const handleCancel = async (withdrawal: CreatorWithdrawal) => {
+    const walletResult = validateAndCreateWallet(connected, publicKey, walletProvider);
+    if (!walletResult.wallet || publicKey !== walletAddress) {
+      setError(walletResult.error || 'Connect the creator wallet to cancel a withdrawal');
+      return;
+    }
+
+    const result = await CreatorEarningsService.cancelWithdrawal(walletResult.wallet, withdrawal.id);
+    if (!result.success) {
+      setError(result.error || 'Failed to cancel withdrawal');
+    }
+    reload();
+  };
+
+  const getStatusColor = (status: CreatorWithdrawal['status']) => {
+    switch (status) {
+      case 'completed':
+        return 'text-success-600 bg-success-50 border-success-200';
+      case 'processing':
+        return 'text-primary-600 bg-primary-50 border-primary-200';
+      case 'cancelled':
+        return 'text-gray-600 bg-gray-50 border-gray-200';
+      default:
+        return 'text-orange-600 bg-orange-50 border-orange-200';
+    }
+  };
+
+  if (loading && !balance) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl p-8 mb-8">
+        <div className="flex items-center justify-center">
+          <RefreshCw size={24} className="animate-spin text-primary-500" />
+        </div>
+      </div>
+    );
+  }
+
+  const available = balance?.available ?? 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl mb-8">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Payouts</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Earnings from your agents and APIs after platform fees and refunds
+            </p>
+          </div>
+          <button
+            onClick={reload}
+            title="Refresh"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <RefreshCw size={18} className={`text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-6 border-b border-gray-200">
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+            <Clock className="w-4 h-4" />
+            <span>Pending</span>
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{formatUsd(balance?.pending ?? 0)}</div>
+          <p className="text-xs text-gray-500 mt-1">Held for refunds before it can be withdrawn</p>
+        </div>
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+            <Wallet className="w-4 h-4" />
+            <span>Available</span>
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{formatUsd(available)}</div>
+          {(balance?.processing ?? 0) > 0 && (
+            <p className="text-xs text-gray-500 mt-1">{formatUsd(balance!.processing)} being withdrawn</p>
+          )}
+        </div>
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+            <CheckCircle className="w-4 h-4" />
+            <span>Paid</span>
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{formatUsd(balance?.paid ?? 0)}</div>
+          <p className="text-xs text-gray-500 mt-1">
+            {formatUsd(balance?.platformFees ?? 0)} in platform fees, {formatUsd(balance?.refunded ?? 0)} refunded
+          </p>
+        </div>
+      </div>
+
+      <div className="p-6 border-b border-gray-200 bg-gray-50 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Withdraw (USD)</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={MIN_WITHDRAWAL_USD}
+                step="0.01"
+                placeholder={`Minimum $${MIN_WITHDRAWAL_USD.toFixed(2)}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => setAmount(available > 0 ? available.toFixed(2) : '')}
+                className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+              >
+                Max
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Paid In</label>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as PaymentCurrency)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="USDC">USDC</option>
+              <option value="SOL">SOL</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">{error}</div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">Withdrawals are batched and sent to {walletAddress.slice(0, 4)}...{walletAddress.slice(-4)}</p>
+          <button
+            onClick={handleWithdraw}
+            disabled={submitting || available < MIN_WITHDRAWAL_USD}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-500 text-white hover:bg-primary-600 rounded-lg transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Banknote size={16} />
+            {submitting ? 'Requesting...' : 'Request Withdrawal'}
+          </button>
+        </div>
+      </div>
+
+      {withdrawals.length > 0 && (
+        <div className="divide-y divide-gray-200 border-b border-gray-200">
+          {withdrawals.map((withdrawal) => (
+            <div key={withdrawal.id} className="px-6 py-4 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <span className="font-semibold text-gray-900">{formatUsd(Number(withdrawal.amount))}</span>
+                <span className="text-sm text-gray-500">in {withdrawal.currency}</span>
+                <span
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
+                    withdrawal.status
+                  )}`}
+                >
+                  {withdrawal.status.charAt(0).toUpperCase() + withdrawal.status.slice(1)}
+                </span>
+                {withdrawal.error && withdrawal.status === 'requested' && (
+                  <span className="text-xs text-gray-500">Retrying: {withdrawal.error}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-sm text-gray-500">
+                <span>{new Date(withdrawal.created_at).toLocaleDateString()}</span>
+                {withdrawal.signature && (
+                  <a
+                    href={solanaPaymentService.getExplorerUrl(withdrawal.signature)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-primary-600 hover:text-primary-700"
+                  >
+                    View
+                    <ArrowUpRight size={14} />
+                  </a>
+                )}
+                {withdrawal.status === 'requested' && (
+                  <button
+                    onClick={() => handleCancel(withdrawal)}
+                    title="Cancel"
+                    className="p-1 hover:bg-red-50 rounded-lg transition-colors group"
+                  >
+                    <XCircle size={16} className="text-gray-400 group-hover:text-red-500" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-600">
+          Earnings show up here once your agents and APIs are paid
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {entries.map((entry) => (
+            <div key={entry.id} className="px-6 py-3 flex items-center justify-between text-sm">
+              <div className="flex items-center gap-3">
+                <span className="text-gray-900">{ENTRY_LABELS[entry.entry_type]}</span>
+                <span className="text-gray-500">
+                  {entry.settlement === 'direct' ? 'Paid to your wallet' : 'Held by the platform'}
+                  {entry.service_type ? ` · ${entry.service_type}` : ''}
+                </span>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-gray-500">{new Date(entry.occurred_at).toLocaleDateString()}</span>
+                <span className={`font-medium ${Number(entry.amount) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatUsd(Number(entry.amount))}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { solanaPaymentService } from '../services/solanaPayment';
+import { getTransactionMonitor, TransactionExpiry } from '../services/transactionMonitor';
+
+const DESCRIPTIONS: Record<TransactionExpiry['transactionType'], string> = {
+  agent_payment: 'agent payment',
+  x402_session: 'payment session',
+  x402_usage: 'x402 payment',
+  credit_purchase: 'credit top-up',
+  other: 'payment'
+};
+
+/** Tells the connected wallet when one of its payments expired without being charged */
+export default function ExpiredPaymentNotice({ walletAddress }: { walletAddress?: string }) {
+  const [expiries, setExpiries] = useState<TransactionExpiry[]>([]);
+
+  useEffect(() => {
+    const monitor = getTransactionMonitor(solanaPaymentService.getConnection());
+
+    return monitor.onTransactionExpired(expiry => {
+      setExpiries(prev => [...prev, expiry]);
+    });
+  }, []);
+
+  const visible = expiries.filter(expiry => expiry.walletAddress === walletAddress);
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const dismiss = (signature: string) => {
+    setExpiries(prev => prev.filter(expiry => expiry.signature !== signature));
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 max-w-sm">
+      {visible.map(expiry => (
+        <div key={expiry.signature} className="bg-amber-50 border border-amber-200 rounded-lg p-4 shadow-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 text-sm text-amber-800">
+            <p className="font-semibold">Your ${expiry.amountUsd.toFixed(2)} {DESCRIPTIONS[expiry.transactionType]} expired</p>
+            <p className="mt-1">
+              The network did not process the transaction in time. You were not charged
+              {expiry.executionsCancelled + expiry.sessionsRevoked + expiry.creditsReversed > 0
+                ? ' and what it paid for has been cancelled'
+                : ''}
+              . Please try again.
+            </p>
+          </div>
+          <button onClick={() => dismiss(expiry.signature)} className="text-amber-600 hover:text-amber-800">
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
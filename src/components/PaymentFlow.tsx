@@ -1,25 +1,59 @@
 import { useState } from 'react';
-import { DollarSign, ArrowRight, CheckCircle, AlertCircle, Loader2, ExternalLink } from 'lucide-react';
+import { DollarSign, ArrowRight, CheckCircle, AlertCircle, Loader2, ExternalLink, QrCode } from 'lucide-react';
 import { solanaPaymentService } from '../services/solanaPayment';
+import type { SolanaWallet } from '../services/solanaPayment';
+import { executionEscrowService } from '../services/executionEscrow';
+import type { SolanaPayFulfillment } from '../services/solanaPay';
+import SolanaPayQR from './SolanaPayQR';
 import { validateAndCreateWallet } from '../utils/walletValidation';
 import { useWallet } from '../hooks/useWallet';
+import { getNetworkConfig } from '../lib/network';
+import { DEFAULT_PLATFORM_FEE_PERCENT, isValidRecipient } from '../utils/paymentSplit';
+import type { TransactionSpeed } from '../utils/transactionUtils';
 
 interface PaymentFlowProps {
   agentName: string;
   costUsdc: number;
-  onPaymentComplete: (signature: string) => void;
+  /** Called after a direct payment to the creator */
+  onPaymentComplete?: (signature: string) => void;
   onCancel: () => void;
-  recipientAddress?: string;
+  /** Creator wallet that receives the payment minus the platform fee */
+  recipientAddress?: string | null;
+  agentId?: string;
+  /** Execution input, needed to create the execution when paying by QR code */
+  inputData?: Record<string, unknown>;
+  /** Enables Solana Pay; called once the execution was created for the payment */
+  onSolanaPayComplete?: (fulfillment: SolanaPayFulfillment) => void;
+  /**
+   * Holds the payment in escrow until the execution finishes instead of paying
+   * the creator up front; called once the execution was created and funded
+   */
+  onEscrowFunded?: (executionId: string, signature: string) => void;
 }
 
-type PaymentStep = 'review' | 'creating' | 'signing' | 'verifying' | 'complete' | 'error';
-
-export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, onCancel, recipientAddress }: PaymentFlowProps) {
+type PaymentStep = 'review' | 'solana-pay' | 'creating' | 'signing' | 'verifying' | 'complete' | 'error';
+
+export default function PaymentFlow({
+  agentName,
+  costUsdc,
+  onPaymentComplete,
+  onCancel,
+  recipientAddress,
+  agentId,
+  inputData,
+  onSolanaPayComplete,
+  onEscrowFunded
+}: PaymentFlowProps) {
   const { connected, publicKey, walletProvider } = useWallet();
   const [step, setStep] = useState<PaymentStep>('review');
   const [transactionSignature, setTransactionSignature] = useState<string>('');
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [confirmationCount, setConfirmationCount] = useState(0);
+  const [speed, setSpeed] = useState<TransactionSpeed>(solanaPaymentService.getTransactionSpeed());
+  // Execution opened for an escrow deposit that has not landed yet, reused when
+  // retrying; left to expire when the payment is abandoned
+  const [escrowExecutionId, setEscrowExecutionId] = useState<string | null>(null);
+  const escrowMode = !!onEscrowFunded && !!agentId;
 
   const initiatePayment = async () => {
     setStep('creating');
@@ -29,7 +63,7 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
       // Validate wallet and create adapter
       const walletResult = validateAndCreateWallet(connected, publicKey, walletProvider);
 
-      if (walletResult.error) {
+      if (!walletResult.wallet) {
         throw new Error(walletResult.error);
       }
 
@@ -37,14 +71,21 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
 
       setStep('signing');
 
+      if (escrowMode) {
+        await payIntoEscrow(wallet);
+        return;
+      }
+
       console.log('Creating payment transaction...');
       console.log('Wallet address:', publicKey);
       console.log('USD Amount:', costUsdc);
 
       // Service now handles USD to SOL conversion automatically
-      const paymentResult = await solanaPaymentService.createPaymentTransaction(
+      const paymentResult = await solanaPaymentService.createSplitPaymentTransaction(
         wallet,
-        costUsdc // Pass USD amount directly
+        costUsdc, // Pass USD amount directly
+        recipientAddress,
+        { serviceType: 'agent', serviceId: agentId, speed }
       );
 
       console.log('Payment result:', paymentResult);
@@ -62,6 +103,19 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
       setTransactionSignature(paymentResult.signature);
       setStep('verifying');
 
+      // Every leg of a split payment must have reached its recipient
+      if (paymentResult.splits) {
+        const verification = await solanaPaymentService.verifySplitPayment(
+          paymentResult.signature,
+          paymentResult.splits,
+          paymentResult.currency
+        );
+
+        if (!verification.valid) {
+          throw new Error(verification.error || 'Payment verification failed');
+        }
+      }
+
       // Wait for confirmations
       for (let i = 1; i <= 3; i++) {
         await new Promise(resolve => setTimeout(resolve, 800));
@@ -72,7 +126,7 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
 
       // Give user time to see success message before closing
       setTimeout(() => {
-        onPaymentComplete(paymentResult.signature!);
+        onPaymentComplete?.(paymentResult.signature!);
       }, 1500);
 
     } catch (err: any) {
@@ -82,6 +136,53 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
     }
   };
 
+  const payIntoEscrow = async (wallet: SolanaWallet) => {
+    const escrowResult = await executionEscrowService.payForExecution(wallet, {
+      agentId: agentId!,
+      usdAmount: costUsdc,
+      inputData: inputData || {},
+      speed,
+      executionId: escrowExecutionId ?? undefined
+    });
+
+    // A deposit that went through must not be sent again, only one that never landed
+    setEscrowExecutionId(escrowResult.payment?.success ? null : escrowResult.executionId ?? null);
+
+    if (!escrowResult.success || !escrowResult.executionId || !escrowResult.signature) {
+      if (escrowResult.payment?.success) {
+        throw new Error(
+          `Your payment (${escrowResult.signature?.slice(0, 16)}...) was sent but could not be recorded: ${escrowResult.error}. Please contact support.`
+        );
+      }
+
+      throw new Error(escrowResult.error || 'Payment failed');
+    }
+
+    setTransactionSignature(escrowResult.signature);
+    setStep('verifying');
+
+    for (let i = 1; i <= 3; i++) {
+      await new Promise(resolve => setTimeout(resolve, 800));
+      setConfirmationCount(i);
+    }
+
+    setStep('complete');
+
+    const { executionId, signature } = escrowResult;
+    setTimeout(() => {
+      onEscrowFunded?.(executionId, signature);
+    }, 1500);
+  };
+
+  const completeSolanaPay = (fulfillment: SolanaPayFulfillment) => {
+    setTransactionSignature(fulfillment.signature || '');
+    setStep('complete');
+
+    setTimeout(() => {
+      onSolanaPayComplete?.(fulfillment);
+    }, 1500);
+  };
+
   const retryPayment = () => {
     setStep('review');
     setTransactionSignature('');
@@ -134,7 +235,7 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
   return (
     <div className="fixed inset-0 bg-black/90 backdrop-blur-lg flex items-center justify-center z-[100] p-4">
       <div className="bg-white border border-gray-200 rounded-xl max-w-lg w-full p-8 animate-slideUp shadow-2xl">
-        {step !== 'error' && renderStepIndicator()}
+        {step !== 'error' && step !== 'solana-pay' && renderStepIndicator()}
 
         {step === 'review' && (
           <>
@@ -144,7 +245,9 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
               <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 flex items-start gap-3">
                 <AlertCircle size={20} className="text-red-500 flex-shrink-0 mt-0.5" />
                 <p className="text-sm text-red-700">
-                  Wallet not connected. Please connect your wallet to continue with payment.
+                  {onSolanaPayComplete
+                    ? 'Wallet not connected. Connect your wallet or pay with a mobile wallet by QR code.'
+                    : 'Wallet not connected. Please connect your wallet to continue with payment.'}
                 </p>
               </div>
             )}
@@ -166,9 +269,35 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
               </div>
 
               <div className="border-t border-gray-200 pt-4 space-y-2">
-                <div className="flex justify-between text-sm">
+                {isValidRecipient(recipientAddress) && (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        To Creator ({100 - DEFAULT_PLATFORM_FEE_PERCENT}%){escrowMode && ', on completion'}
+                      </span>
+                      <span className="text-gray-900">${(costUsdc * (100 - DEFAULT_PLATFORM_FEE_PERCENT) / 100).toFixed(4)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Platform Fee ({DEFAULT_PLATFORM_FEE_PERCENT}%)</span>
+                      <span className="text-gray-900">${(costUsdc * DEFAULT_PLATFORM_FEE_PERCENT / 100).toFixed(4)}</span>
+                    </div>
+                  </>
+                )}
+                <div className="flex justify-between items-center text-sm">
                   <span className="text-gray-600">Network Fee</span>
-                  <span className="text-gray-900">~$0.0001</span>
+                  <select
+                    value={speed}
+                    onChange={(e) => {
+                      const selected = e.target.value as TransactionSpeed;
+                      setSpeed(selected);
+                      solanaPaymentService.setTransactionSpeed(selected);
+                    }}
+                    className="px-2 py-1 border border-gray-200 rounded-lg text-gray-900 bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="economy">Economy</option>
+                    <option value="normal">Normal</option>
+                    <option value="fast">Fast (congested network)</option>
+                  </select>
                 </div>
                 <div className="flex justify-between font-medium">
                   <span className="text-gray-900">Total</span>
@@ -179,8 +308,9 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
 
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
               <p className="text-sm text-blue-700 leading-relaxed">
-                You'll be prompted to approve this transaction in your wallet. The payment will be sent
-                instantly via Solana mainnet.
+                {escrowMode
+                  ? `You'll be prompted to approve this transaction in your wallet. Your payment is held in escrow on ${getNetworkConfig().label} until the agent finishes: it goes to the creator when the execution completes and is refunded if it fails or times out.`
+                  : `You'll be prompted to approve this transaction in your wallet. The payment will be sent instantly via ${getNetworkConfig().label}.`}
               </p>
             </div>
 
@@ -200,6 +330,33 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
                 <ArrowRight size={18} />
               </button>
             </div>
+
+            {onSolanaPayComplete && agentId && (
+              <button
+                onClick={() => setStep('solana-pay')}
+                className="w-full mt-3 px-6 py-3 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                <QrCode size={18} />
+                Pay with Mobile Wallet
+              </button>
+            )}
+          </>
+        )}
+
+        {step === 'solana-pay' && agentId && (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Scan to Pay</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Payments by QR code are held in escrow on {getNetworkConfig().label} until the agent finishes.
+            </p>
+            <SolanaPayQR
+              purpose="agent_execution"
+              usdAmount={costUsdc}
+              params={{ agent_id: agentId, input_data: inputData || {} }}
+              message={`Run ${agentName}`}
+              onComplete={completeSolanaPay}
+              onCancel={() => setStep('review')}
+            />
           </>
         )}
 
@@ -262,7 +419,9 @@ export default function PaymentFlow({ agentName, costUsdc, onPaymentComplete, on
               <CheckCircle size={32} className="text-white" />
             </div>
             <h3 className="text-xl font-bold text-gray-900 mb-2">Payment Successful!</h3>
-            <p className="text-gray-600 mb-6">Your agent is now executing</p>
+            <p className="text-gray-600 mb-6">
+              {escrowMode ? 'Your payment is held in escrow while the agent executes' : 'Your agent is now executing'}
+            </p>
 
             {transactionSignature && (
               <a
@@ -0,0 +1,59 @@
+import { AlertCircle, Loader2, Lock, RefreshCw } from 'lucide-react';
+import type { PriceQuote } from '../services/priceQuote';
+
+interface PriceQuoteSummaryProps {
+  quote: PriceQuote | null;
+  expired: boolean;
+  secondsLeft: number;
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}
+
+/** The locked SOL amount a payment will send, with its remaining lifetime */
+export default function PriceQuoteSummary({ quote, expired, secondsLeft, loading, error, onRefresh }: PriceQuoteSummaryProps) {
+  if (loading) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex items-center gap-2 text-sm text-gray-600">
+        <Loader2 size={16} className="animate-spin" />
+        Fetching SOL price...
+      </div>
+    );
+  }
+
+  if (error || expired || !quote) {
+    return (
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center justify-between gap-3">
+        <div className="flex items-start gap-2">
+          <AlertCircle size={18} className="text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-700">
+            {error || (expired ? 'The price quote expired.' : 'No price quote yet.')}
+          </p>
+        </div>
+        <button
+          onClick={onRefresh}
+          className="flex items-center gap-1 text-sm font-medium text-amber-700 hover:text-amber-800 whitespace-nowrap"
+        >
+          <RefreshCw size={14} />
+          Refresh
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-600 flex items-center gap-1">
+          <Lock size={14} />
+          You pay
+        </span>
+        <span className="font-semibold text-gray-900">{quote.solAmount.toFixed(6)} SOL</span>
+      </div>
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>${quote.rate.toFixed(2)}/SOL</span>
+        <span>Price locked for {secondsLeft}s</span>
+      </div>
+    </div>
+  );
+}
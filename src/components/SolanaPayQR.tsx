@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import { AlertCircle, ExternalLink, Loader2, Smartphone } from 'lucide-react';
+import {
+  solanaPayService,
+  SolanaPayFulfillment,
+  SolanaPayPurpose,
+  SolanaPayTransferRequest
+} from '../services/solanaPay';
+import type { PaymentCurrency } from '../utils/splToken';
+
+interface SolanaPayQRProps {
+  purpose: SolanaPayPurpose;
+  usdAmount: number;
+  currency?: PaymentCurrency;
+  params?: Record<string, unknown>;
+  label?: string;
+  message?: string;
+  onComplete: (fulfillment: SolanaPayFulfillment) => void;
+  onCancel: () => void;
+}
+
+type QRStatus = 'creating' | 'waiting' | 'confirming' | 'error';
+
+/**
+ * Shows a Solana Pay transfer request as a QR code and waits for the payment
+ * to land on-chain. Scanning it with a mobile wallet is enough, nothing has
+ * to be connected in this browser.
+ */
+export default function SolanaPayQR({
+  purpose,
+  usdAmount,
+  currency = 'SOL',
+  params,
+  label,
+  message,
+  onComplete,
+  onCancel
+}: SolanaPayQRProps) {
+  const [request, setRequest] = useState<SolanaPayTransferRequest | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [status, setStatus] = useState<QRStatus>('creating');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [attempt, setAttempt] = useState(0);
+
+  // A new request is only created on mount or when the user asks for another
+  // code, not whenever the parent re-renders with an equal `params` object
+  const requestRef = useRef({ purpose, usdAmount, currency, params, label, message, onComplete });
+  requestRef.current = { purpose, usdAmount, currency, params, label, message, onComplete };
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const run = async () => {
+      setStatus('creating');
+      setErrorMessage('');
+
+      const { onComplete: complete, ...options } = requestRef.current;
+      const created = await solanaPayService.createTransferRequest(options);
+
+      if (controller.signal.aborted) return;
+
+      if (!created.success || !created.request) {
+        setErrorMessage(created.error || 'Failed to create payment request');
+        setStatus('error');
+        return;
+      }
+
+      setRequest(created.request);
+      setQrDataUrl(await QRCode.toDataURL(created.request.url, { width: 256, margin: 1 }));
+      setStatus('waiting');
+
+      const fulfillment = await solanaPayService.watchTransferRequest(created.request, { signal: controller.signal });
+
+      if (controller.signal.aborted) return;
+
+      if (fulfillment.success) {
+        setStatus('confirming');
+        complete(fulfillment);
+      } else {
+        setErrorMessage(fulfillment.error || 'Payment was not received');
+        setStatus('error');
+      }
+    };
+
+    run();
+
+    return () => controller.abort();
+  }, [attempt]);
+
+  if (status === 'creating') {
+    return (
+      <div className="text-center py-8">
+        <Loader2 size={40} className="animate-spin mx-auto mb-4 text-primary-500" />
+        <p className="text-gray-600">Creating payment request...</p>
+      </div>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <div className="space-y-4">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle size={20} className="text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700">{errorMessage}</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-6 py-3 bg-gray-200 hover:bg-gray-300 text-gray-900 rounded-lg transition-colors font-medium"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => setAttempt(attempt + 1)}
+            className="flex-1 px-6 py-3 bg-primary-500 text-white hover:bg-primary-600 rounded-lg transition-colors font-medium"
+          >
+            New QR Code
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center">
+        {qrDataUrl && (
+          <img
+            src={qrDataUrl}
+            alt="Solana Pay QR code"
+            className="w-56 h-56 border border-gray-200 rounded-lg"
+          />
+        )}
+        {request && (
+          <div className="mt-3 text-center">
+            <div className="text-lg font-semibold text-gray-900">
+              {request.currency === 'USDC' ? request.amount.toFixed(2) : request.amount.toFixed(6)} {request.currency}
+            </div>
+            <div className="text-xs text-gray-500">
+              ${request.usdAmount.toFixed(4)} &middot; expires {request.expiresAt.toLocaleTimeString()}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start gap-3">
+        <Smartphone size={18} className="text-blue-600 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-blue-700">
+          {status === 'confirming'
+            ? 'Payment received, confirming...'
+            : 'Scan with a Solana Pay wallet such as Phantom or Solflare. This page updates once the payment is confirmed.'}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+        <Loader2 size={14} className="animate-spin" />
+        Waiting for payment
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onCancel}
+          className="flex-1 px-6 py-3 bg-gray-200 hover:bg-gray-300 text-gray-900 rounded-lg transition-colors font-medium"
+        >
+          Back
+        </button>
+        {request && (
+          <a
+            href={request.url}
+            className="flex-1 px-6 py-3 bg-primary-500 text-white hover:bg-primary-600 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            Open in Wallet
+            <ExternalLink size={16} />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
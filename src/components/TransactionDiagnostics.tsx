@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { AlertCircle, CheckCircle, Loader2, X, ExternalLink } from 'lucide-react';
 import { useWallet } from '../hooks/useWallet';
 import { solanaPaymentService } from '../services/solanaPayment';
+import { genesisMatchesCluster, getNetworkConfig } from '../lib/network';
 import { PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL, Connection } from '@solana/web3.js';
 
 interface DiagnosticStep {
@@ -82,9 +83,22 @@ export default function TransactionDiagnostics({ onClose }: { onClose: () => voi
     try {
       const connection = solanaPaymentService.getConnection();
       const version = await connection.getVersion();
+      const genesisHash = await connection.getGenesisHash();
+      const network = getNetworkConfig();
+
+      if (!genesisMatchesCluster(genesisHash, network.cluster)) {
+        updateStep(2, {
+          status: 'error',
+          message: `RPC endpoint is not on ${network.label}`,
+          details: `Genesis hash: ${genesisHash}`
+        });
+        setRunning(false);
+        return;
+      }
+
       updateStep(2, {
         status: 'success',
-        message: 'RPC connection working',
+        message: `RPC connection working (${network.label})`,
         details: `Solana version: ${version['solana-core']}`
       });
     } catch (error: any) {
@@ -255,7 +269,7 @@ export default function TransactionDiagnostics({ onClose }: { onClose: () => voi
             <ul className="space-y-1 list-disc list-inside">
               <li>Ensure your wallet is connected via the "Connect Wallet" button</li>
               <li>Check that you have sufficient SOL for transaction fees (~0.001 SOL)</li>
-              <li>Verify you're on Solana mainnet in your wallet settings</li>
+              <li>Verify your wallet is on {getNetworkConfig().label}, the network selected in the wallet modal</li>
               <li>Try disconnecting and reconnecting your wallet</li>
               <li>Check browser console (F12) for detailed error messages</li>
             </ul>
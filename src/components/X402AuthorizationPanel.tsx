@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import { Shield, Pause, Play, Trash2, RefreshCw, Plus, Copy, CheckCircle, XCircle } from 'lucide-react';
+import {
+  X402AuthorizationManager,
+  X402AuthorizationSpend
+} from '../services/x402AuthorizationManager';
+import { X402ServiceConfig } from '../services/x402Protocol';
+import { useWallet } from '../hooks/useWallet';
+import { validateAndCreateWallet } from '../utils/walletValidation';
+import type { X402Authorization } from '../types';
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export default function X402AuthorizationPanel() {
+  const { publicKey, connected, walletProvider } = useWallet();
+  const [authorizations, setAuthorizations] = useState<X402Authorization[]>([]);
+  const [spend, setSpend] = useState<Record<string, X402AuthorizationSpend>>({});
+  const [services, setServices] = useState<X402ServiceConfig[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+  const [showForm, setShowForm] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    serviceKey: '',
+    perRequest: '',
+    perDay: '',
+    perMonth: '',
+    totalAuthorized: '',
+    expiresInDays: '30'
+  });
+
+  useEffect(() => {
+    if (!publicKey) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [userAuthorizations, authorizableServices] = await Promise.all([
+          X402AuthorizationManager.getAuthorizations(publicKey),
+          X402AuthorizationManager.getAuthorizableServices()
+        ]);
+
+        const spendEntries = await Promise.all(
+          userAuthorizations.map(async (authorization) => [
+            authorization.id,
+            await X402AuthorizationManager.getSpend(authorization.id)
+          ] as const)
+        );
+
+        setAuthorizations(userAuthorizations);
+        setServices(authorizableServices);
+        setSpend(Object.fromEntries(spendEntries));
+      } catch (err) {
+        console.error('Error loading authorizations:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [publicKey, reloadCount]);
+
+  const reload = () => setReloadCount(count => count + 1);
+
+  const getServiceName = (authorization: X402Authorization) => {
+    const service = services.find(
+      s => s.service_id === authorization.service_id && s.service_type === authorization.service_type
+    );
+    return service ? service.service_name : `${authorization.service_type} ${authorization.service_id.slice(0, 8)}...`;
+  };
+
+  const handleCreate = async () => {
+    if (!publicKey) return;
+
+    const service = services.find(s => `${s.service_type}:${s.service_id}` === form.serviceKey);
+    const totalAuthorized = parseLimit(form.totalAuthorized);
+
+    if (!service) {
+      setError('Choose a service to authorize');
+      return;
+    }
+
+    if (totalAuthorized === null) {
+      setError('Enter the total amount to authorize');
+      return;
+    }
+
+    const { wallet, error: walletError } = validateAndCreateWallet(connected, publicKey, walletProvider);
+    if (!wallet) {
+      setError(walletError);
+      return;
+    }
+
+    const expiresInDays = parseInt(form.expiresInDays);
+
+    setSaving(true);
+    setError('');
+
+    // Signed with the wallet and applied by the funding worker
+    const result = await X402AuthorizationManager.createAuthorization(
+      wallet,
+      service.service_id,
+      service.service_type,
+      {
+        perRequest: parseLimit(form.perRequest),
+        perDay: parseLimit(form.perDay),
+        perMonth: parseLimit(form.perMonth),
+        totalAuthorized,
+        expiresAt: expiresInDays > 0
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null
+      }
+    );
+
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to create authorization');
+      return;
+    }
+
+    setShowForm(false);
+    setForm({ serviceKey: '', perRequest: '', perDay: '', perMonth: '', totalAuthorized: '', expiresInDays: '30' });
+    reload();
+  };
+
+  const handleStatusChange = async (
+    authorization: X402Authorization,
+    action: 'pause' | 'resume' | 'revoke'
+  ) => {
+    if (action === 'revoke' && !confirm('Revoke this authorization? Agents using its token will stop being able to pay.')) {
+      return;
+    }
+
+    const { wallet, error: walletError } = validateAndCreateWallet(connected, publicKey, walletProvider);
+    if (!wallet) {
+      alert(walletError);
+      return;
+    }
+
+    const success = action === 'pause'
+      ? await X402AuthorizationManager.pauseAuthorization(wallet, authorization.id)
+      : action === 'resume'
+        ? await X402AuthorizationManager.resumeAuthorization(wallet, authorization.id)
+        : await X402AuthorizationManager.revokeAuthorization(wallet, authorization.id);
+
+    if (success) {
+      reload();
+    } else {
+      alert(`Failed to ${action} authorization`);
+    }
+  };
+
+  const handleCopyToken = async (authorization: X402Authorization) => {
+    await navigator.clipboard.writeText(authorization.authorization_token);
+    setCopiedId(authorization.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'text-success-600 bg-success-50 border-success-200';
+      case 'paused':
+        return 'text-orange-600 bg-orange-50 border-orange-200';
+      case 'revoked':
+        return 'text-red-600 bg-red-50 border-red-200';
+      default:
+        return 'text-gray-600 bg-gray-50 border-gray-200';
+    }
+  };
+
+  const formatLimit = (used: number, limit: number | null) =>
+    limit === null ? `$${used.toFixed(2)} / no limit` : `$${used.toFixed(2)} / $${Number(limit).toFixed(2)}`;
+
+  if (loading) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl p-8">
+        <div className="flex items-center justify-center">
+          <RefreshCw size={24} className="animate-spin text-primary-500" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Spending Authorizations</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Let agents pay for services from your credits within the limits you set
+            </p>
+          </div>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-500 text-white hover:bg-primary-600 rounded-lg transition-colors text-sm font-medium"
+          >
+            <Plus size={16} />
+            New Authorization
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="p-6 border-b border-gray-200 bg-gray-50 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Service</label>
+            <select
+              value={form.serviceKey}
+              onChange={(e) => setForm({ ...form, serviceKey: e.target.value })}
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">Select a service</option>
+              {services.map((service) => (
+                <option key={service.id} value={`${service.service_type}:${service.service_id}`}>
+                  {service.service_name} ({service.service_type}, ${Number(service.base_price).toFixed(4)} per request)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              ['perRequest', 'Per Request Limit'],
+              ['perDay', 'Rolling 24h Limit'],
+              ['perMonth', 'Rolling 30 Day Limit']
+            ] as const).map(([field, label]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="No limit"
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Total Authorized (USD)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.totalAuthorized}
+                onChange={(e) => setForm({ ...form, totalAuthorized: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Expires</label>
+              <select
+                value={form.expiresInDays}
+                onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="7">In 7 days</option>
+                <option value="30">In 30 days</option>
+                <option value="90">In 90 days</option>
+                <option value="0">Never</option>
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">{error}</div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="px-4 py-2 bg-primary-500 text-white hover:bg-primary-600 rounded-lg transition-colors text-sm font-medium"
+            >
+              {saving ? 'Saving...' : 'Authorize'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {authorizations.length === 0 ? (
+        <div className="p-12 text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Shield size={32} className="text-gray-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No Authorizations</h3>
+          <p className="text-sm text-gray-600">
+            Authorize a service so your agents can pay for it without wallet prompts
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {authorizations.map((authorization) => {
+            const usage = spend[authorization.id] || { spentToday: 0, spentThisMonth: 0 };
+
+            return (
+              <div key={authorization.id} className="p-6 hover:bg-gray-50 transition-colors">
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <h3 className="font-semibold text-gray-900">{getServiceName(authorization)}</h3>
+                    <span
+                      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
+                        authorization.status
+                      )}`}
+                    >
+                      {authorization.status === 'active' ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                      {authorization.status.charAt(0).toUpperCase() + authorization.status.slice(1)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {authorization.status === 'active' && (
+                      <button
+                        onClick={() => handleStatusChange(authorization, 'pause')}
+                        title="Pause"
+                        className="p-2 hover:bg-orange-50 rounded-lg transition-colors group"
+                      >
+                        <Pause size={18} className="text-gray-400 group-hover:text-orange-500" />
+                      </button>
+                    )}
+                    {authorization.status === 'paused' && (
+                      <button
+                        onClick={() => handleStatusChange(authorization, 'resume')}
+                        title="Resume"
+                        className="p-2 hover:bg-success-50 rounded-lg transition-colors group"
+                      >
+                        <Play size={18} className="text-gray-400 group-hover:text-success-500" />
+                      </button>
+                    )}
+                    {(authorization.status === 'active' || authorization.status === 'paused') && (
+                      <button
+                        onClick={() => handleStatusChange(authorization, 'revoke')}
+                        title="Revoke"
+                        className="p-2 hover:bg-red-50 rounded-lg transition-colors group"
+                      >
+                        <Trash2 size={18} className="text-gray-400 group-hover:text-red-500" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <div className="text-xs text-gray-600 mb-1">Per Request</div>
+                    <div className="font-semibold text-gray-900">
+                      {authorization.spending_limit_per_request === null
+                        ? 'No limit'
+                        : `$${Number(authorization.spending_limit_per_request).toFixed(4)}`}
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <div className="text-xs text-gray-600 mb-1">Last 24h</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatLimit(usage.spentToday, authorization.spending_limit_per_day)}
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <div className="text-xs text-gray-600 mb-1">Last 30 Days</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatLimit(usage.spentThisMonth, authorization.spending_limit_per_month)}
+                    </div>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <div className="text-xs text-gray-600 mb-1">Total</div>
+                    <div className="font-semibold text-gray-900">
+                      {formatLimit(Number(authorization.total_spent), authorization.total_authorized)}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <button
+                    onClick={() => handleCopyToken(authorization)}
+                    className="flex items-center gap-1 hover:text-gray-700 transition-colors"
+                  >
+                    <Copy size={12} />
+                    {copiedId === authorization.id ? 'Token copied' : 'Copy token for your agent'}
+                  </button>
+                  <div>
+                    {authorization.expires_at
+                      ? `Expires: ${new Date(authorization.expires_at).toLocaleDateString()}`
+                      : 'Does not expire'}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
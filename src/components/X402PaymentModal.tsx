@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react';
-import { DollarSign, Zap, Clock, Shield, CheckCircle, AlertCircle, Loader2, X } from 'lucide-react';
+import { DollarSign, Zap, Clock, Shield, CheckCircle, AlertCircle, Loader2, X, QrCode } from 'lucide-react';
 import { X402Protocol } from '../services/x402Protocol';
 import { X402CreditManager } from '../services/x402CreditManager';
 import { validateAndCreateWallet } from '../utils/walletValidation';
+import { buildServicePattern } from '../utils/resourcePatterns';
 import { useWallet } from '../hooks/useWallet';
+import type { PaymentCurrency } from '../utils/splToken';
+import type { SolanaPayFulfillment, SolanaPayPurpose } from '../services/solanaPay';
+import SolanaPayQR from './SolanaPayQR';
+import PriceQuoteSummary from './PriceQuoteSummary';
+import { usePriceQuote } from '../hooks/usePriceQuote';
 
 interface X402PaymentModalProps {
   serviceId: string;
@@ -15,7 +21,7 @@ interface X402PaymentModalProps {
 }
 
 type PaymentMode = 'session' | 'credits' | 'direct';
-type PaymentStep = 'choose' | 'session_setup' | 'credit_topup' | 'processing' | 'complete';
+type PaymentStep = 'choose' | 'session_setup' | 'credit_topup' | 'solana_pay' | 'processing' | 'complete';
 
 export default function X402PaymentModal({
   serviceId,
@@ -30,11 +36,21 @@ export default function X402PaymentModal({
   const [paymentMode, setPaymentMode] = useState<PaymentMode>('session');
   const [sessionAmount, setSessionAmount] = useState<number>(amount * 10);
   const [sessionDuration, setSessionDuration] = useState<number>(24);
+  const [autoRenew, setAutoRenew] = useState<boolean>(false);
+  const [maxRenewals, setMaxRenewals] = useState<number>(3);
   const [creditBalance, setCreditBalance] = useState<number>(0);
   const [sessionToken, setSessionToken] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const [customTopupAmount, setCustomTopupAmount] = useState<number>(0);
+  const [paymentCurrency, setPaymentCurrency] = useState<PaymentCurrency>('SOL');
+  const [solanaPayPurpose, setSolanaPayPurpose] = useState<SolanaPayPurpose>('x402_session');
+  // USDC is charged 1:1, only SOL payments need a locked quote
+  const priceQuote = usePriceQuote(
+    step === 'session_setup' ? sessionAmount : customTopupAmount,
+    paymentCurrency === 'SOL' && (step === 'session_setup' || step === 'credit_topup'),
+    publicKey
+  );
 
   useEffect(() => {
     if (connected && publicKey) {
@@ -58,6 +74,12 @@ export default function X402PaymentModal({
       return;
     }
 
+    const quote = priceQuote.quote;
+    if (paymentCurrency === 'SOL' && !quote) {
+      setError('The price quote expired, please refresh it.');
+      return;
+    }
+
     setLoading(true);
     setError('');
     setStep('processing');
@@ -79,10 +101,14 @@ export default function X402PaymentModal({
         wallet,
         publicKey,
         sessionAmount,
-        `${serviceType}/${serviceId}/*`,
+        buildServicePattern(serviceType, serviceId),
         sessionDuration,
-        false,
-        true // Execute payment (was false in demo mode)
+        autoRenew,
+        true, // Execute payment (was false in demo mode)
+        // Renew once the balance can no longer cover a request
+        { source: 'wallet', threshold: amount, maxRenewals },
+        paymentCurrency,
+        quote ?? undefined
       );
 
       if (!result.success || !result.sessionToken) {
@@ -117,20 +143,7 @@ export default function X402PaymentModal({
     setStep('processing');
 
     try {
-      console.log('[Credits] Spending credits for', amount, 'USD');
-
-      const result = await X402CreditManager.spendCredits(
-        publicKey,
-        serviceId,
-        serviceType,
-        amount
-      );
-
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to spend credits');
-      }
-
-      console.log('[Credits] Credits spent, new balance:', result.newBalance);
+      console.log('[Credits] Funding session with', amount, 'USD of credits');
 
       const walletResult = validateAndCreateWallet(connected, publicKey, walletProvider);
       if (walletResult.error) {
@@ -139,22 +152,30 @@ export default function X402PaymentModal({
 
       const wallet = walletResult.wallet;
 
+      // The session is funded by moving credits into it, and each call is
+      // charged against the session
       const sessionResult = await X402Protocol.createPaymentSession(
         wallet,
         publicKey,
         amount,
-        `${serviceType}/${serviceId}/*`,
+        buildServicePattern(serviceType, serviceId),
         1,
         false,
-        false
+        false,
+        {},
+        paymentCurrency,
+        undefined,
+        { serviceId, serviceType }
       );
 
       if (!sessionResult.success || !sessionResult.sessionToken) {
-        throw new Error('Failed to create session');
+        throw new Error(sessionResult.error || 'Failed to create session');
       }
 
+      console.log('[Credits] Session funded, new balance:', sessionResult.creditBalance);
+
       setSessionToken(sessionResult.sessionToken);
-      setCreditBalance(result.newBalance!);
+      setCreditBalance(sessionResult.creditBalance ?? 0);
       setStep('complete');
 
       setTimeout(() => {
@@ -175,6 +196,12 @@ export default function X402PaymentModal({
       return;
     }
 
+    const quote = priceQuote.quote;
+    if (paymentCurrency === 'SOL' && !quote) {
+      setError('The price quote expired, please refresh it.');
+      return;
+    }
+
     setLoading(true);
     setError('');
 
@@ -192,7 +219,9 @@ export default function X402PaymentModal({
         wallet,
         serviceId,
         serviceType,
-        topUpAmount
+        topUpAmount,
+        paymentCurrency,
+        quote ?? undefined
       );
 
       if (!result.success) {
@@ -216,6 +245,54 @@ export default function X402PaymentModal({
     }
   };
 
+  const handleSolanaPayComplete = async (fulfillment: SolanaPayFulfillment) => {
+    if (solanaPayPurpose === 'x402_session' && fulfillment.sessionToken) {
+      const token = fulfillment.sessionToken;
+      setSessionToken(token);
+      setStep('complete');
+
+      setTimeout(() => {
+        onPaymentComplete(token);
+      }, 2000);
+      return;
+    }
+
+    // Credits belong to the wallet that scanned the code
+    console.log('[Credits] Top-up by QR code for', fulfillment.payerWallet);
+    if (connected && publicKey) {
+      await loadCreditBalance();
+    }
+    setStep('choose');
+  };
+
+  const startSolanaPay = (purpose: SolanaPayPurpose) => {
+    setSolanaPayPurpose(purpose);
+    setError('');
+    setStep('solana_pay');
+  };
+
+  const renderMobileWalletButton = (purpose: SolanaPayPurpose) => (
+    <button
+      onClick={() => startSolanaPay(purpose)}
+      disabled={loading}
+      className="w-full mt-3 px-6 py-3 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+    >
+      <QrCode size={18} />
+      Pay with Mobile Wallet
+    </button>
+  );
+
+  const renderPriceQuote = () => (
+    <PriceQuoteSummary
+      quote={priceQuote.quote}
+      expired={priceQuote.expired}
+      secondsLeft={priceQuote.secondsLeft}
+      loading={priceQuote.loading}
+      error={priceQuote.error}
+      onRefresh={priceQuote.refresh}
+    />
+  );
+
   const renderChooseMode = () => (
     <>
       <div className="flex items-center justify-between mb-6">
@@ -367,6 +444,46 @@ export default function X402PaymentModal({
           </select>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Pay With
+          </label>
+          <select
+            value={paymentCurrency}
+            onChange={(e) => setPaymentCurrency(e.target.value as PaymentCurrency)}
+            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="SOL">SOL (converted at the current price)</option>
+            <option value="USDC">USDC</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={autoRenew}
+              onChange={(e) => setAutoRenew(e.target.checked)}
+              className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+            />
+            Auto-renew when the balance runs low or the session is about to expire
+          </label>
+          {autoRenew && (
+            <select
+              value={maxRenewals}
+              onChange={(e) => setMaxRenewals(Number(e.target.value))}
+              className="mt-2 w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value={1}>Renew at most once</option>
+              <option value={3}>Renew at most 3 times</option>
+              <option value={5}>Renew at most 5 times</option>
+              <option value={10}>Renew at most 10 times</option>
+            </select>
+          )}
+        </div>
+
+        {paymentCurrency === 'SOL' && renderPriceQuote()}
+
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
           <div className="flex items-center gap-2 mb-3">
             <Clock size={18} className="text-gray-600" />
@@ -401,7 +518,7 @@ export default function X402PaymentModal({
 
       <button
         onClick={handleSessionPayment}
-        disabled={loading}
+        disabled={loading || (paymentCurrency === 'SOL' && !priceQuote.quote)}
         className="w-full px-6 py-3 bg-primary-500 text-white hover:bg-primary-600 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
       >
         {loading ? (
@@ -416,6 +533,7 @@ export default function X402PaymentModal({
           </>
         )}
       </button>
+      {renderMobileWalletButton('x402_session')}
     </>
   );
 
@@ -513,6 +631,22 @@ export default function X402PaymentModal({
               New balance after top-up: ${(creditBalance + customAmount).toFixed(2)}
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Pay With
+            </label>
+            <select
+              value={paymentCurrency}
+              onChange={(e) => setPaymentCurrency(e.target.value as PaymentCurrency)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="SOL">SOL (converted at the current price)</option>
+              <option value="USDC">USDC</option>
+            </select>
+          </div>
+
+          {paymentCurrency === 'SOL' && renderPriceQuote()}
         </div>
 
         {error && (
@@ -524,7 +658,7 @@ export default function X402PaymentModal({
 
         <button
           onClick={() => handleCreditTopUp(customAmount)}
-          disabled={loading}
+          disabled={loading || (paymentCurrency === 'SOL' && !priceQuote.quote)}
           className="w-full px-6 py-3 bg-success-500 text-white hover:bg-success-600 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
         >
           {loading ? (
@@ -539,6 +673,40 @@ export default function X402PaymentModal({
             </>
           )}
         </button>
+        {renderMobileWalletButton('credit_top_up')}
+      </>
+    );
+  };
+
+  const renderSolanaPay = () => {
+    const isSession = solanaPayPurpose === 'x402_session';
+    const shortfall = amount - creditBalance;
+
+    return (
+      <>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Scan to Pay</h2>
+          <button
+            onClick={() => setStep(isSession ? 'session_setup' : 'credit_topup')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <SolanaPayQR
+          purpose={solanaPayPurpose}
+          usdAmount={isSession ? sessionAmount : customTopupAmount || Math.ceil(shortfall)}
+          currency={paymentCurrency}
+          params={
+            isSession
+              ? { resource_patterns: [buildServicePattern(serviceType, serviceId)], duration_hours: sessionDuration }
+              : { service_id: serviceId, service_type: serviceType }
+          }
+          message={isSession ? `x402 session for ${serviceName}` : `Credits for ${serviceName}`}
+          onComplete={handleSolanaPayComplete}
+          onCancel={() => setStep(isSession ? 'session_setup' : 'credit_topup')}
+        />
       </>
     );
   };
@@ -575,6 +743,7 @@ export default function X402PaymentModal({
         {step === 'choose' && renderChooseMode()}
         {step === 'session_setup' && renderSessionSetup()}
         {step === 'credit_topup' && renderCreditTopup()}
+        {step === 'solana_pay' && renderSolanaPay()}
         {step === 'processing' && renderProcessing()}
         {step === 'complete' && renderComplete()}
       </div>
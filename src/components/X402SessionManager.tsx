@@ -1,19 +1,56 @@
 import { useState, useEffect } from 'react';
 import { Clock, DollarSign, ExternalLink, Trash2, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
 import { X402Protocol, X402Session } from '../services/x402Protocol';
+import { createX402SessionRenewalEngine, X402RenewalEvent } from '../services/x402SessionRenewal';
+import { validateAndCreateWallet } from '../utils/walletValidation';
 import { useWallet } from '../hooks/useWallet';
 
 export default function X402SessionManager() {
-  const { publicKey } = useWallet();
+  const { publicKey, connected, walletProvider } = useWallet();
   const [sessions, setSessions] = useState<X402Session[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [renewalNotice, setRenewalNotice] = useState<{ success: boolean; message: string } | null>(null);
+  const [renewalCount, setRenewalCount] = useState<number>(0);
 
   useEffect(() => {
     if (publicKey) {
       loadSessions();
     }
-  }, [publicKey]);
+  }, [publicKey, renewalCount]);
+
+  useEffect(() => {
+    if (!connected || !publicKey || !walletProvider) return;
+
+    const engine = createX402SessionRenewalEngine({
+      walletAddress: publicKey,
+      getWallet: () => validateAndCreateWallet(connected, publicKey, walletProvider).wallet ?? null,
+      confirmRenewal: (session, trigger) =>
+        confirm(
+          `Your session for ${session.resource_pattern} is ${trigger === 'depletion' ? 'running low' : 'about to expire'}. ` +
+          `Renew it for $${Number(session.renewal_amount).toFixed(2)}?`
+        )
+    });
+
+    const unsubscribe = engine.subscribe((event: X402RenewalEvent) => {
+      if (event.type === 'renewal_succeeded') {
+        setRenewalNotice({
+          success: true,
+          message: `Session renewed: $${event.result.remainingBalance?.toFixed(2)} available`
+        });
+        setRenewalCount(count => count + 1);
+      } else if (event.type === 'renewal_failed') {
+        setRenewalNotice({ success: false, message: `Session renewal failed: ${event.result.error}` });
+      }
+    });
+
+    engine.start();
+
+    return () => {
+      unsubscribe();
+      engine.stop();
+    };
+  }, [connected, publicKey, walletProvider]);
 
   const loadSessions = async () => {
     if (!publicKey) return;
@@ -35,10 +72,17 @@ export default function X402SessionManager() {
     setRefreshing(false);
   };
 
-  const handleRevokeSession = async (sessionToken: string) => {
+  const handleRevokeSession = async (sessionId: string) => {
     if (!confirm('Are you sure you want to revoke this session?')) return;
 
-    const success = await X402Protocol.revokeSession(sessionToken);
+    const { wallet, error } = validateAndCreateWallet(connected, publicKey, walletProvider);
+    if (!wallet) {
+      alert(error);
+      return;
+    }
+
+    // Signed with the wallet and applied by the funding worker
+    const success = await X402Protocol.revokeSession(wallet, sessionId);
     if (success) {
       loadSessions();
     }
@@ -117,6 +161,16 @@ export default function X402SessionManager() {
         </div>
       </div>
 
+      {renewalNotice && (
+        <div
+          className={`mx-6 mt-4 px-3 py-2 rounded-lg text-sm ${
+            renewalNotice.success ? 'text-success-600 bg-success-50' : 'text-red-600 bg-red-50'
+          }`}
+        >
+          {renewalNotice.message}
+        </div>
+      )}
+
       {sessions.length === 0 ? (
         <div className="p-12 text-center">
           <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -135,7 +189,7 @@ export default function X402SessionManager() {
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="font-semibold text-gray-900">
-                      {session.resource_pattern}
+                      {(session.resource_patterns?.length ? session.resource_patterns : [session.resource_pattern]).join(', ')}
                     </h3>
                     <span
                       className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(
@@ -159,7 +213,7 @@ export default function X402SessionManager() {
                 </div>
                 {session.status === 'active' && (
                   <button
-                    onClick={() => handleRevokeSession(session.session_token)}
+                    onClick={() => handleRevokeSession(session.id)}
                     className="p-2 hover:bg-red-50 rounded-lg transition-colors group"
                   >
                     <Trash2 size={18} className="text-gray-400 group-hover:text-red-500" />
@@ -202,7 +256,14 @@ export default function X402SessionManager() {
               {session.auto_renew && (
                 <div className="mt-3 flex items-center gap-2 text-xs text-blue-600 bg-blue-50 px-3 py-2 rounded-lg">
                   <RefreshCw size={12} />
-                  Auto-renew enabled (${Number(session.renewal_amount).toFixed(2)})
+                  Auto-renew enabled (${Number(session.renewal_amount).toFixed(2)}
+                  {session.renewal_source === 'credits' ? ' from credits' : ' from wallet'})
+                  {session.renewal_count > 0 && (
+                    <span>
+                      · renewed {session.renewal_count}
+                      {session.max_renewals !== null ? `/${session.max_renewals}` : ''} times
+                    </span>
+                  )}
                 </div>
               )}
             </div>
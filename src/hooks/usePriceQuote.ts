@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { solanaPaymentService } from '../services/solanaPayment';
+import type { PriceQuote } from '../services/priceQuote';
+
+const QUOTE_DEBOUNCE_MS = 400;
+
+/**
+ * Keeps a locked SOL quote for `usdAmount` while `enabled`. A new quote is
+ * issued when the amount changes; an expired one is dropped and has to be
+ * refreshed, so a payment is never built from a stale price.
+ */
+export function usePriceQuote(usdAmount: number, enabled: boolean = true, walletAddress?: string | null) {
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const refresh = useCallback(async () => {
+    if (!enabled || !(usdAmount > 0)) {
+      setQuote(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setQuote(await solanaPaymentService.issuePriceQuote(usdAmount, walletAddress ?? undefined));
+      setNow(Date.now());
+    } catch (err) {
+      console.error('Failed to issue price quote:', err);
+      setQuote(null);
+      setError(err instanceof Error ? err.message : 'Failed to get a price quote');
+    } finally {
+      setLoading(false);
+    }
+  }, [usdAmount, enabled, walletAddress]);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, QUOTE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!quote) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  const secondsLeft = quote ? Math.max(0, Math.ceil((quote.expiresAt - now) / 1000)) : 0;
+  const expired = !!quote && secondsLeft === 0;
+
+  return {
+    quote: expired ? null : quote,
+    expired,
+    secondsLeft,
+    loading,
+    error,
+    refresh
+  };
+}
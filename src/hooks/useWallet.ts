@@ -1,16 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
-import { useAppKitAccount, useAppKitProvider } from '@reown/appkit/react';
+import { useAppKitAccount, useAppKitNetwork, useAppKitProvider } from '@reown/appkit/react';
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { walletManager, WalletState } from '../services/walletManager';
-
-const getHeliusEndpoint = () => {
-  const apiKey = import.meta.env.VITE_HELIUS_API_KEY;
-  return apiKey ? `https://mainnet.helius-rpc.com/?api-key=${apiKey}` : 'https://api.mainnet-beta.solana.com';
-};
+import { clusterFromChainId, getNetworkConfig } from '../lib/network';
 
 export function useWallet() {
   const { address, isConnected } = useAppKitAccount();
   const { walletProvider } = useAppKitProvider('solana');
+  const { chainId } = useAppKitNetwork();
 
   const [state, setState] = useState<WalletState>({
     connected: false,
@@ -23,7 +20,8 @@ export function useWallet() {
   const updateBalance = useCallback(async () => {
     if (isConnected && address) {
       try {
-        const connection = new Connection(getHeliusEndpoint(), 'confirmed');
+        const network = getNetworkConfig(clusterFromChainId(chainId) ?? undefined);
+        const connection = new Connection(network.rpcEndpoints[0], 'confirmed');
         const publicKey = new PublicKey(address);
         const balance = await connection.getBalance(publicKey);
         const balanceInSol = balance / LAMPORTS_PER_SOL;
@@ -33,7 +31,7 @@ export function useWallet() {
         setState(prev => ({ ...prev, error: error.message }));
       }
     }
-  }, [isConnected, address]);
+  }, [isConnected, address, chainId]);
 
   const connect = useCallback(async (onlyIfTrusted: boolean = false) => {
     console.log('Connect called, but using Reown AppKit modal instead');
@@ -0,0 +1,179 @@
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+export interface SolanaNetworkConfig {
+  cluster: SolanaCluster;
+  label: string;
+  /** Null for localnet, every `solana-test-validator` ledger has its own */
+  genesisHash: string | null;
+  /** Tried in order; the first one is the primary */
+  rpcEndpoints: string[];
+  /** Receives platform payments (agent fees, x402 sessions, credit top-ups) */
+  recipientWallet: string;
+  /** Receives the platform's share when a payment is split with a creator */
+  feeWallet: string;
+  /** Holds agent execution payments until the execution finishes; its key signs releases and refunds */
+  escrowWallet: string;
+  usdcMint: string | null;
+  /** Address lookup tables v0 transactions compile against */
+  lookupTables: string[];
+}
+
+const env = import.meta.env;
+
+const DEFAULT_RECIPIENT_WALLET = 'FbRDjtZRRtLmjok6NvzsxSey4gDAoTmr8RacPiaRZEWX';
+const LOCALNET_RPC_URL = 'http://127.0.0.1:8899';
+
+const getHeliusEndpoint = (subdomain: 'mainnet' | 'devnet') => {
+  const apiKey = env.VITE_HELIUS_API_KEY;
+  return apiKey ? `https://${subdomain}.helius-rpc.com/?api-key=${apiKey}` : null;
+};
+
+const addressList = (value: string | undefined) =>
+  (value || '').split(',').map(address => address.trim()).filter(Boolean);
+
+const endpoints = (...urls: (string | null | undefined)[]) => urls.filter(Boolean) as string[];
+
+const NETWORKS: Record<SolanaCluster, SolanaNetworkConfig> = {
+  'mainnet-beta': {
+    cluster: 'mainnet-beta',
+    label: 'Solana Mainnet',
+    genesisHash: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+    rpcEndpoints: endpoints(
+      env.VITE_MAINNET_RPC_URL,
+      getHeliusEndpoint('mainnet'),
+      'https://api.mainnet-beta.solana.com',
+      'https://solana-api.projectserum.com',
+      'https://rpc.ankr.com/solana'
+    ),
+    recipientWallet: env.VITE_MAINNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    feeWallet: env.VITE_MAINNET_FEE_WALLET || env.VITE_MAINNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    escrowWallet: env.VITE_MAINNET_ESCROW_WALLET || env.VITE_MAINNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    lookupTables: addressList(env.VITE_MAINNET_LOOKUP_TABLES)
+  },
+  devnet: {
+    cluster: 'devnet',
+    label: 'Solana Devnet',
+    genesisHash: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+    rpcEndpoints: endpoints(
+      env.VITE_DEVNET_RPC_URL,
+      getHeliusEndpoint('devnet'),
+      'https://api.devnet.solana.com'
+    ),
+    recipientWallet: env.VITE_DEVNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    feeWallet: env.VITE_DEVNET_FEE_WALLET || env.VITE_DEVNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    escrowWallet: env.VITE_DEVNET_ESCROW_WALLET || env.VITE_DEVNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    usdcMint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    lookupTables: addressList(env.VITE_DEVNET_LOOKUP_TABLES)
+  },
+  testnet: {
+    cluster: 'testnet',
+    label: 'Solana Testnet',
+    genesisHash: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY',
+    rpcEndpoints: endpoints(env.VITE_TESTNET_RPC_URL, 'https://api.testnet.solana.com'),
+    recipientWallet: env.VITE_TESTNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    feeWallet: env.VITE_TESTNET_FEE_WALLET || env.VITE_TESTNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    escrowWallet: env.VITE_TESTNET_ESCROW_WALLET || env.VITE_TESTNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    usdcMint: null,
+    lookupTables: addressList(env.VITE_TESTNET_LOOKUP_TABLES)
+  },
+  localnet: {
+    cluster: 'localnet',
+    label: 'Local Validator',
+    genesisHash: null,
+    rpcEndpoints: endpoints(env.VITE_LOCALNET_RPC_URL || LOCALNET_RPC_URL),
+    recipientWallet: env.VITE_LOCALNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    feeWallet: env.VITE_LOCALNET_FEE_WALLET || env.VITE_LOCALNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    escrowWallet: env.VITE_LOCALNET_ESCROW_WALLET || env.VITE_LOCALNET_RECIPIENT_WALLET || DEFAULT_RECIPIENT_WALLET,
+    // Mint a test token with `spl-token create-token --decimals 6` and set this
+    usdcMint: env.VITE_LOCALNET_USDC_MINT || null,
+    lookupTables: addressList(env.VITE_LOCALNET_LOOKUP_TABLES)
+  }
+};
+
+/** AppKit chain id of the local validator network, public clusters use their genesis hash prefix */
+export const LOCALNET_CHAIN_ID = 'localnet';
+
+const isCluster = (value: unknown): value is SolanaCluster =>
+  typeof value === 'string' && value in NETWORKS;
+
+export const DEFAULT_CLUSTER: SolanaCluster = isCluster(env.VITE_SOLANA_CLUSTER) ? env.VITE_SOLANA_CLUSTER : 'mainnet-beta';
+
+let activeCluster: SolanaCluster = DEFAULT_CLUSTER;
+const listeners = new Set<(cluster: SolanaCluster) => void>();
+
+export function getActiveCluster(): SolanaCluster {
+  return activeCluster;
+}
+
+export function getNetworkConfig(cluster: SolanaCluster = activeCluster): SolanaNetworkConfig {
+  return NETWORKS[cluster];
+}
+
+/**
+ * Switches the cluster everything else reads from. Called when the user picks
+ * a network in AppKit; services that hold a connection re-create it.
+ */
+export function setActiveCluster(cluster: SolanaCluster): void {
+  if (cluster === activeCluster) return;
+
+  console.log('[Network] Switching to', NETWORKS[cluster].label);
+  activeCluster = cluster;
+  listeners.forEach(listener => listener(cluster));
+}
+
+export function onClusterChange(listener: (cluster: SolanaCluster) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isLocalnetEnabled(): boolean {
+  return DEFAULT_CLUSTER === 'localnet' || !!env.VITE_LOCALNET_RPC_URL;
+}
+
+/** Maps an AppKit chain id (or a full genesis hash) to a cluster */
+export function clusterFromChainId(chainId: string | number | undefined): SolanaCluster | null {
+  if (chainId === undefined) return null;
+
+  const id = String(chainId);
+  if (id === LOCALNET_CHAIN_ID) return 'localnet';
+
+  const match = (Object.values(NETWORKS) as SolanaNetworkConfig[]).find(
+    network => network.genesisHash && network.genesisHash.startsWith(id.slice(0, 32))
+  );
+
+  return match?.cluster ?? null;
+}
+
+/**
+ * Whether an RPC node's genesis hash belongs to `cluster`. A local validator
+ * has no fixed hash, so any ledger that is not a public cluster matches it.
+ */
+export function genesisMatchesCluster(genesisHash: string, cluster: SolanaCluster = activeCluster): boolean {
+  const expected = NETWORKS[cluster].genesisHash;
+
+  if (expected) {
+    return genesisHash === expected;
+  }
+
+  return !(Object.values(NETWORKS) as SolanaNetworkConfig[]).some(network => network.genesisHash === genesisHash);
+}
+
+export function getExplorerUrl(
+  value: string,
+  kind: 'tx' | 'address' = 'tx',
+  cluster: SolanaCluster = activeCluster
+): string {
+  const base = `https://explorer.solana.com/${kind}/${value}`;
+
+  switch (cluster) {
+    case 'mainnet-beta':
+      return base;
+    case 'localnet':
+      return `${base}?cluster=custom&customUrl=${encodeURIComponent(NETWORKS.localnet.rpcEndpoints[0])}`;
+    default:
+      return `${base}?cluster=${cluster}`;
+  }
+}
@@ -1,6 +1,16 @@
 import { createAppKit } from '@reown/appkit/react'
 import { SolanaAdapter } from '@reown/appkit-adapter-solana/react'
-import { solana, solanaTestnet, solanaDevnet } from '@reown/appkit/networks'
+import { solana, solanaTestnet, solanaDevnet, defineChain } from '@reown/appkit/networks'
+import type { AppKitNetwork } from '@reown/appkit/networks'
+import {
+  LOCALNET_CHAIN_ID,
+  clusterFromChainId,
+  getActiveCluster,
+  getNetworkConfig,
+  isLocalnetEnabled,
+  setActiveCluster,
+  type SolanaCluster
+} from './network'
 
 const projectId = import.meta.env.VITE_REOWN_PROJECT_ID
 
@@ -10,6 +20,31 @@ if (!projectId) {
 
 const solanaWeb3JsAdapter = new SolanaAdapter()
 
+// A `solana-test-validator` node, only offered when VITE_SOLANA_CLUSTER or VITE_LOCALNET_RPC_URL asks for it
+const solanaLocalnet = defineChain({
+  id: LOCALNET_CHAIN_ID,
+  name: 'Solana Localnet',
+  network: 'solana-localnet',
+  nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+  rpcUrls: {
+    default: { http: [getNetworkConfig('localnet').rpcEndpoints[0]] }
+  },
+  testnet: true,
+  chainNamespace: 'solana',
+  caipNetworkId: `solana:${LOCALNET_CHAIN_ID}`
+})
+
+const clusterNetworks: Record<SolanaCluster, AppKitNetwork> = {
+  'mainnet-beta': solana,
+  devnet: solanaDevnet,
+  testnet: solanaTestnet,
+  localnet: solanaLocalnet
+}
+
+const networks: [AppKitNetwork, ...AppKitNetwork[]] = isLocalnetEnabled()
+  ? [solana, solanaTestnet, solanaDevnet, solanaLocalnet]
+  : [solana, solanaTestnet, solanaDevnet]
+
 const metadata = {
   name: 'Lily AI Agents',
   description: 'AI Agent Marketplace on Solana - Build, deploy, and monetize AI agents with instant crypto payments',
@@ -19,8 +54,8 @@ const metadata = {
 
 export const modal = createAppKit({
   adapters: [solanaWeb3JsAdapter],
-  networks: [solana, solanaTestnet, solanaDevnet],
-  defaultNetwork: solana,
+  networks,
+  defaultNetwork: clusterNetworks[getActiveCluster()],
   projectId: projectId || 'demo',
   metadata,
   features: {
@@ -34,3 +69,11 @@ export const modal = createAppKit({
     '--w3m-border-radius-master': '8px'
   }
 })
+
+// The network picked in the modal drives RPC endpoints, recipient wallets and explorer links
+modal.subscribeNetwork(({ chainId }) => {
+  const cluster = clusterFromChainId(chainId)
+  if (cluster) {
+    setActiveCluster(cluster)
+  }
+})
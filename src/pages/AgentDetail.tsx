@@ -6,7 +6,10 @@ import PaymentFlow from '../components/PaymentFlow';
 import X402PaymentModal from '../components/X402PaymentModal';
 import AgentExecutionTracker from '../components/AgentExecutionTracker';
 import LilyFlowers from '../components/LilyFlowers';
+import type { SolanaPayFulfillment } from '../services/solanaPay';
+import { X402ExecutionPaymentManager } from '../services/x402ExecutionPayments';
 import { useWallet } from '../hooks/useWallet';
+import { validateAndCreateWallet } from '../utils/walletValidation';
 
 import type { Agent } from '../types';
 
@@ -15,7 +18,7 @@ type CodeLanguage = 'python' | 'typescript' | 'javascript' | 'curl';
 export default function AgentDetail() {
   const { agentId } = useParams<{ agentId: string }>();
   const navigate = useNavigate();
-  const { publicKey, connected } = useWallet();
+  const { connected, publicKey, walletProvider } = useWallet();
   const [agent, setAgent] = useState<Agent | null>(null);
   const [loading, setLoading] = useState(true);
   const [showPayment, setShowPayment] = useState(false);
@@ -52,10 +55,7 @@ export default function AgentDetail() {
       alert('Please enter a query');
       return;
     }
-    if (!connected) {
-      alert('Please connect your wallet first');
-      return;
-    }
+    // Without a connected wallet both payment modals still offer paying by QR code
     if (useX402) {
       setShowX402Payment(true);
     } else {
@@ -63,51 +63,45 @@ export default function AgentDetail() {
     }
   };
 
+  // The worker charges the session and runs the execution once the signed
+  // payment checks out
   const handleX402PaymentComplete = async (sessionToken: string) => {
     setShowX402Payment(false);
 
-    try {
-      const { data, error } = await supabase
-        .from('agent_executions')
-        .insert({
-          agent_id: agentId,
-          status: 'processing',
-          cost_usdc: agent?.price_usdc || agent?.price || 0,
-          payment_required: true,
-          x_payment_header: `session=${sessionToken}`,
-          input_data: { query: inputQuery },
-        })
-        .select()
-        .single();
+    if (!agentId || !agent) return;
 
-      if (error) throw error;
-      setExecutionId(data.id);
-    } catch (err) {
-      console.error('Failed to create execution:', err);
+    const { wallet, error } = validateAndCreateWallet(connected, publicKey, walletProvider);
+    if (!wallet) {
+      alert(error);
+      return;
+    }
+
+    const result = await X402ExecutionPaymentManager.requestExecution(wallet, {
+      agentId,
+      sessionToken,
+      amount: agent.price || 0,
+      inputData: { query: inputQuery },
+    });
+
+    if (result.success && result.executionId) {
+      setExecutionId(result.executionId);
+    } else {
+      console.error('Failed to create execution:', result.error);
     }
   };
 
-  const handlePaymentComplete = async (signature: string) => {
+  // The execution was created before the deposit and runs once it is funded
+  const handleEscrowFunded = (fundedExecutionId: string) => {
     setShowPayment(false);
+    setExecutionId(fundedExecutionId);
+  };
 
-    try {
-      const { data, error } = await supabase
-        .from('agent_executions')
-        .insert({
-          agent_id: agentId,
-          status: 'processing',
-          cost_usdc: agent?.price_usdc || agent?.price || 0,
-          payment_required: true,
-          transaction_signature: signature,
-          input_data: { query: inputQuery },
-        })
-        .select()
-        .single();
+  const handleSolanaPayComplete = (fulfillment: SolanaPayFulfillment) => {
+    setShowPayment(false);
 
-      if (error) throw error;
-      setExecutionId(data.id);
-    } catch (err) {
-      console.error('Failed to create execution:', err);
+    // solana_pay_fulfill_request already created the execution
+    if (fulfillment.targetId) {
+      setExecutionId(fulfillment.targetId);
     }
   };
 
@@ -122,7 +116,9 @@ export default function AgentDetail() {
     switch (language) {
       case 'python':
         return `import requests
-import json
+import secrets
+import time
+from urllib.parse import quote
 
 # Your wallet (keep secure!)
 keypair = Keypair.from_bytes(bytearray(YOUR_SECRET_KEY))
@@ -141,16 +137,28 @@ if response.status_code == 402:
     # Step 2: Create and send USDC transaction
     # ... transaction code here
 
-    # Step 3: Retry with payment header
-    payment_header = {
-        "transaction_signature": signature,
-        "amount": ${agentPrice},
-    }
+    # Step 3: Sign the payment header and retry
+    resource = "/api/agents/execute"
+    timestamp = int(time.time() * 1000)
+    nonce = secrets.token_hex(16)
+    payload = "|".join(["x402:v1", str(keypair.pubkey()), "${agentPrice}", resource, str(timestamp), nonce])
+    header_signature = keypair.sign_message(payload.encode())
+
+    payment_header = "; ".join([
+        f"proof={signature}",
+        f"wallet={keypair.pubkey()}",
+        "amount=${agentPrice}",
+        "currency=USDC",
+        f"timestamp={timestamp}",
+        f"resource={quote(resource, safe='')}",
+        f"nonce={nonce}",
+        f"signature={header_signature}",
+    ])
 
     response = requests.post(
         "https://api.lilyagent.cloud/api/agents/execute",
         json={"agent_id": "${agent?.id}", "input_data": {"query": "Your query here"}},
-        headers={"X-Payment": json.dumps(payment_header)}
+        headers={"X-402-Payment": payment_header}
     )
 
     result = response.json()
@@ -158,6 +166,8 @@ if response.status_code == 402:
 
       case 'typescript':
         return `import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
 
 const connection = new Connection('https://api.mainnet-beta.solana.com');
 const keypair = Keypair.fromSecretKey(YOUR_SECRET_KEY);
@@ -177,15 +187,27 @@ if (response.status === 402) {
   // Step 2: Create and send USDC transaction
   // ... transaction code here
 
-  // Step 3: Retry with payment header
+  // Step 3: Sign the payment header and retry
+  const resource = '/api/agents/execute';
+  const timestamp = Date.now();
+  const nonce = bs58.encode(nacl.randomBytes(16));
+  const payload = ['x402:v1', keypair.publicKey.toBase58(), '${agentPrice}', resource, timestamp, nonce].join('|');
+  const headerSignature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(payload), keypair.secretKey));
+
   const retryResponse = await fetch('https://api.lilyagent.cloud/api/agents/execute', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'X-Payment': JSON.stringify({
-        transaction_signature: signature,
-        amount: ${agentPrice}
-      })
+      'X-402-Payment': [
+        \`proof=\${signature}\`,
+        \`wallet=\${keypair.publicKey.toBase58()}\`,
+        'amount=${agentPrice}',
+        'currency=USDC',
+        \`timestamp=\${timestamp}\`,
+        \`resource=\${encodeURIComponent(resource)}\`,
+        \`nonce=\${nonce}\`,
+        \`signature=\${headerSignature}\`
+      ].join('; ')
     },
     body: JSON.stringify({
       agent_id: "${agent?.id}",
@@ -199,6 +221,8 @@ if (response.status === 402) {
 
       case 'javascript':
         return `const { Connection, Keypair, PublicKey } = require('@solana/web3.js');
+const nacl = require('tweetnacl');
+const bs58 = require('bs58').default;
 
 const connection = new Connection('https://api.mainnet-beta.solana.com');
 const keypair = Keypair.fromSecretKey(YOUR_SECRET_KEY);
@@ -218,15 +242,27 @@ fetch('https://api.lilyagent.cloud/api/agents/execute', {
     // Step 2: Create and send USDC transaction
     // ... transaction code here
 
-    // Step 3: Retry with payment header
+    // Step 3: Sign the payment header and retry
+    const resource = '/api/agents/execute';
+    const timestamp = Date.now();
+    const nonce = bs58.encode(nacl.randomBytes(16));
+    const payload = ['x402:v1', keypair.publicKey.toBase58(), '${agentPrice}', resource, timestamp, nonce].join('|');
+    const headerSignature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(payload), keypair.secretKey));
+
     return fetch('https://api.lilyagent.cloud/api/agents/execute', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Payment': JSON.stringify({
-          transaction_signature: signature,
-          amount: ${agentPrice}
-        })
+        'X-402-Payment': [
+          \`proof=\${signature}\`,
+          \`wallet=\${keypair.publicKey.toBase58()}\`,
+          'amount=${agentPrice}',
+          'currency=USDC',
+          \`timestamp=\${timestamp}\`,
+          \`resource=\${encodeURIComponent(resource)}\`,
+          \`nonce=\${nonce}\`,
+          \`signature=\${headerSignature}\`
+        ].join('; ')
       },
       body: JSON.stringify({
         agent_id: "${agent?.id}",
@@ -252,10 +288,12 @@ curl -X POST https://api.lilyagent.cloud/api/agents/execute \\
 # Step 2: Create and send USDC transaction
 # ... (use solana CLI or SDK)
 
-# Step 3: Retry with payment header
+# Step 3: Retry with a signed payment header
+# HEADER_SIGNATURE is your wallet's base58 ed25519 signature over
+# "x402:v1|YOUR_WALLET|${agentPrice}|/api/agents/execute|TIMESTAMP|NONCE"
 curl -X POST https://api.lilyagent.cloud/api/agents/execute \\
   -H "Content-Type: application/json" \\
-  -H 'X-Payment: {"transaction_signature":"YOUR_TX_SIGNATURE","amount":${agentPrice}}' \\
+  -H "X-402-Payment: proof=YOUR_TX_SIGNATURE; wallet=YOUR_WALLET; amount=${agentPrice}; currency=USDC; timestamp=TIMESTAMP; resource=%2Fapi%2Fagents%2Fexecute; nonce=NONCE; signature=HEADER_SIGNATURE" \\
   -d '{
     "agent_id": "${agent?.id}",
     "input_data": {"query": "Your query here"}
@@ -462,12 +500,16 @@ curl -X POST https://api.lilyagent.cloud/api/agents/execute \\
         <PaymentFlow
           agentName={agent.name}
           costUsdc={agent.price_usdc || agent.price}
-          onPaymentComplete={handlePaymentComplete}
+          recipientAddress={agent.wallet_address}
+          agentId={agent.id}
+          inputData={{ query: inputQuery }}
+          onEscrowFunded={handleEscrowFunded}
+          onSolanaPayComplete={handleSolanaPayComplete}
           onCancel={() => setShowPayment(false)}
         />
       )}
 
-      {showX402Payment && connected && (
+      {showX402Payment && (
         <X402PaymentModal
           serviceId={agentId!}
           serviceType="agent"
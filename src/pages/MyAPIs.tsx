@@ -5,6 +5,7 @@ import type { API } from '../types';
 import { Plus, Activity, DollarSign, TrendingUp, ArrowRight, Wallet } from 'lucide-react';
 import LilyFlowers from '../components/LilyFlowers';
 import CreateAPIModal from '../components/CreateAPIModal';
+import CreatorPayouts from '../components/CreatorPayouts';
 
 interface MyAPIsProps {
   walletAddress?: string;
@@ -157,6 +158,8 @@ export default function MyAPIs({ walletAddress }: MyAPIsProps) {
           </div>
         )}
 
+        <CreatorPayouts walletAddress={walletAddress} />
+
         {loading ? (
           <div className="flex flex-col items-center justify-center py-20">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mb-4"></div>
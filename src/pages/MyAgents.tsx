@@ -4,6 +4,7 @@ import { supabase } from '../lib/supabase';
 import type { Agent } from '../types';
 import { ArrowRight, Wallet, Zap, TrendingUp } from 'lucide-react';
 import LilyFlowers from '../components/LilyFlowers';
+import CreatorPayouts from '../components/CreatorPayouts';
 
 interface MyAgentsProps {
   walletAddress?: string;
@@ -51,6 +52,8 @@ export default function MyAgents({ walletAddress }: MyAgentsProps) {
           <p className="text-gray-600">Manage and monitor your AI agents</p>
         </div>
 
+        {walletAddress && <CreatorPayouts walletAddress={walletAddress} />}
+
         {!walletAddress ? (
           <div className="flex flex-col items-center justify-center py-20 bg-white rounded-xl border border-gray-200">
             <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
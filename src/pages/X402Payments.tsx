@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { DollarSign, Zap, TrendingUp, Activity, RefreshCw } from 'lucide-react';
 import { useWallet } from '../hooks/useWallet';
 import X402SessionManager from '../components/X402SessionManager';
+import X402AuthorizationPanel from '../components/X402AuthorizationPanel';
 import { X402CreditManager } from '../services/x402CreditManager';
 import { x402Analytics } from '../services/x402Analytics';
 import LilyFlowers from '../components/LilyFlowers';
@@ -225,6 +226,10 @@ export default function X402Payments() {
           <X402SessionManager />
         </div>
 
+        <div className="mt-8">
+          <X402AuthorizationPanel />
+        </div>
+
         <div className="mt-8 bg-blue-50 border border-blue-200 rounded-xl p-6">
           <h3 className="font-semibold text-blue-900 mb-2 flex items-center gap-2">
             <Zap size={18} />
@@ -234,6 +239,9 @@ export default function X402Payments() {
             <p>
               <strong>Payment Sessions:</strong> Preauthorize a specific amount for recurring payments without repeated wallet approvals
             </p>
+            <p>
+              <strong>Spending Authorizations:</strong> Give your agents a token that spends your credits on one service, capped per request, per day and per month
+            </p>
             <p>
               <strong>Credits:</strong> Purchase credits for instant, gasless payments across all services
             </p>
@@ -0,0 +1,313 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { AgentCategory, AgentHandlerRegistry, AgentOutput, getAgentHandlerRegistry } from './agentHandlers';
+import { X402ExecutionPaymentManager, X402PayableExecution } from './x402ExecutionPayments';
+
+export interface ClaimedExecution {
+  id: string;
+  agent_id: string;
+  agent_name: string;
+  agent_category: string;
+  input_data: Record<string, unknown>;
+  attempts: number;
+}
+
+export interface ExecutionOutcome {
+  executionId: string;
+  status: 'completed' | 'failed';
+  durationMs: number;
+  error?: string;
+}
+
+export interface AgentExecutionWorkerOptions {
+  client?: SupabaseClient;
+  registry?: AgentHandlerRegistry;
+  workerId?: string;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  executionTimeoutMs?: number;
+  staleClaimSeconds?: number;
+  maxAttempts?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 2000; // 2 seconds
+const DEFAULT_BATCH_SIZE = 5;
+const DEFAULT_EXECUTION_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+const DEFAULT_STALE_CLAIM_SECONDS = 5 * 60; // 5 minutes
+const DEFAULT_MAX_ATTEMPTS = 3;
+// RPC and lookup failures, the payment itself may still be fine
+const RETRYABLE_PAYMENT_ERRORS = ['UPDATE_FAILED', 'UNKNOWN_ERROR', 'LOOKUP_FAILED'];
+
+class ExecutionTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Execution timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+/**
+ * Picks up paid `agent_executions` rows created by the payment flows, runs
+ * them through the handler registered for the agent's category and writes the
+ * result back so `AgentExecutionTracker` receives it over realtime.
+ *
+ * Executions paid from an x402 session are charged here first, see
+ * `X402ExecutionPaymentManager`.
+ *
+ * `claim_agent_executions` and `claim_x402_execution_payments` are revoked
+ * from anon and authenticated, so pass a `client` created with the service
+ * role key (or pointing at a local Supabase/Postgres).
+ */
+export class AgentExecutionWorker {
+  private client: SupabaseClient;
+  private registry: AgentHandlerRegistry;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private executionTimeoutMs: number;
+  private staleClaimSeconds: number;
+  private maxAttempts: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+  private inFlight: Map<string, AbortController> = new Map();
+
+  constructor(options: AgentExecutionWorkerOptions = {}) {
+    this.client = options.client || supabase;
+    this.registry = options.registry || getAgentHandlerRegistry();
+    this.workerId = options.workerId || `worker-${crypto.randomUUID()}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.executionTimeoutMs = options.executionTimeoutMs ?? DEFAULT_EXECUTION_TIMEOUT;
+    this.staleClaimSeconds = options.staleClaimSeconds ?? DEFAULT_STALE_CLAIM_SECONDS;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    console.log('[ExecutionWorker] Starting worker:', this.workerId);
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    console.log('[ExecutionWorker] Stopping worker:', this.workerId);
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.inFlight.forEach(controller => controller.abort());
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('[ExecutionWorker] Poll failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextPoll(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Claims one batch of executions and processes it. Exposed so tests and
+   * cron-style deployments can drive the worker without the polling loop.
+   */
+  async runOnce(): Promise<ExecutionOutcome[]> {
+    await this.chargeSessionPayments();
+
+    const claimed = await this.claimExecutions();
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    console.log('[ExecutionWorker] Claimed', claimed.length, 'executions');
+    return Promise.all(claimed.map(execution => this.processExecution(execution)));
+  }
+
+  /**
+   * Charges executions the browser paid for from an x402 session and hands
+   * them to `claim_agent_executions`. A payment that does not check out fails
+   * the execution; an RPC error releases it for the next poll.
+   */
+  private async chargeSessionPayments(): Promise<void> {
+    const { data, error } = await this.client.rpc('claim_x402_execution_payments', {
+      p_worker_id: this.workerId,
+      p_limit: this.batchSize,
+      p_stale_after_seconds: this.staleClaimSeconds
+    });
+
+    if (error) {
+      console.error('[ExecutionWorker] Error claiming session payments:', error);
+      return;
+    }
+
+    for (const execution of (data || []) as X402PayableExecution[]) {
+      const payment = await X402ExecutionPaymentManager.chargeExecution(execution, this.client);
+      const release = { worker_id: null, claimed_at: null };
+      let update: Record<string, unknown>;
+
+      if (payment.success) {
+        update = { ...release, status: 'pending' };
+      } else if (RETRYABLE_PAYMENT_ERRORS.includes(payment.errorCode || '')) {
+        update = release;
+      } else {
+        update = {
+          status: 'failed',
+          error_message: payment.error || 'Session payment failed',
+          completed_at: new Date().toISOString()
+        };
+      }
+
+      const { error: updateError } = await this.client
+        .from('agent_executions')
+        .update(update)
+        .eq('id', execution.id)
+        .eq('worker_id', this.workerId)
+        .eq('status', 'payment_required');
+
+      if (updateError) {
+        console.error('[ExecutionWorker] Error saving session payment:', updateError);
+      } else if (!payment.success) {
+        console.warn('[ExecutionWorker] Session payment failed:', execution.id, payment.error);
+      }
+    }
+  }
+
+  private async claimExecutions(): Promise<ClaimedExecution[]> {
+    const { data, error } = await this.client.rpc('claim_agent_executions', {
+      p_worker_id: this.workerId,
+      p_limit: this.batchSize,
+      p_stale_after_seconds: this.staleClaimSeconds
+    });
+
+    if (error) {
+      console.error('[ExecutionWorker] Error claiming executions:', error);
+      return [];
+    }
+
+    return (data || []) as ClaimedExecution[];
+  }
+
+  async processExecution(execution: ClaimedExecution): Promise<ExecutionOutcome> {
+    const startedAt = Date.now();
+
+    if (execution.attempts > this.maxAttempts) {
+      return this.finish(execution, startedAt, {
+        error: `Execution abandoned after ${this.maxAttempts} attempts`
+      });
+    }
+
+    const handler = this.registry.resolve(execution.agent_category);
+    if (!handler) {
+      return this.finish(execution, startedAt, {
+        error: `No handler registered for agent category "${execution.agent_category}"`
+      });
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(execution.id, controller);
+
+    try {
+      const output = await this.withTimeout(
+        handler.execute(execution.input_data || {}, {
+          executionId: execution.id,
+          agentId: execution.agent_id,
+          agentName: execution.agent_name,
+          category: execution.agent_category as AgentCategory,
+          attempt: execution.attempts,
+          signal: controller.signal
+        }),
+        controller
+      );
+
+      return this.finish(execution, startedAt, { output });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[ExecutionWorker] Execution failed:', execution.id, message);
+      return this.finish(execution, startedAt, { error: message });
+    } finally {
+      this.inFlight.delete(execution.id);
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, controller: AbortController): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        controller.abort();
+        reject(new ExecutionTimeoutError(this.executionTimeoutMs));
+      }, this.executionTimeoutMs);
+
+      promise.then(
+        value => {
+          clearTimeout(timeout);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private async finish(
+    execution: ClaimedExecution,
+    startedAt: number,
+    result: { output?: AgentOutput; error?: string }
+  ): Promise<ExecutionOutcome> {
+    const status = result.error === undefined ? 'completed' : 'failed';
+
+    // Only the worker that still owns the claim may write the result, so a
+    // worker that was considered dead cannot overwrite a newer attempt.
+    const { error } = await this.client
+      .from('agent_executions')
+      .update({
+        status,
+        output_data: result.output ?? null,
+        error_message: result.error ?? null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', execution.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[ExecutionWorker] Error saving execution result:', error);
+    } else {
+      console.log('[ExecutionWorker] Execution', status + ':', execution.id);
+    }
+
+    return {
+      executionId: execution.id,
+      status,
+      durationMs: Date.now() - startedAt,
+      error: result.error
+    };
+  }
+}
+
+export const createAgentExecutionWorker = (options?: AgentExecutionWorkerOptions): AgentExecutionWorker => {
+  return new AgentExecutionWorker(options);
+};
+
+export default AgentExecutionWorker;
@@ -0,0 +1,58 @@
+import type { Agent } from '../types';
+
+export type AgentCategory = Agent['category'];
+
+export interface AgentHandlerContext {
+  executionId: string;
+  agentId: string;
+  agentName: string;
+  category: AgentCategory;
+  attempt: number;
+  signal: AbortSignal;
+}
+
+export type AgentOutput = Record<string, unknown>;
+
+export interface AgentHandler {
+  execute(input: Record<string, unknown>, context: AgentHandlerContext): Promise<AgentOutput>;
+}
+
+export class AgentHandlerRegistry {
+  private handlers: Map<AgentCategory, AgentHandler> = new Map();
+  private fallbackHandler: AgentHandler | null = null;
+
+  register(category: AgentCategory, handler: AgentHandler): this {
+    this.handlers.set(category, handler);
+    return this;
+  }
+
+  unregister(category: AgentCategory): void {
+    this.handlers.delete(category);
+  }
+
+  setFallback(handler: AgentHandler | null): this {
+    this.fallbackHandler = handler;
+    return this;
+  }
+
+  resolve(category: string): AgentHandler | null {
+    return this.handlers.get(category as AgentCategory) || this.fallbackHandler;
+  }
+
+  getRegisteredCategories(): AgentCategory[] {
+    return Array.from(this.handlers.keys());
+  }
+}
+
+export const createAgentHandlerRegistry = (): AgentHandlerRegistry => {
+  return new AgentHandlerRegistry();
+};
+
+let globalRegistry: AgentHandlerRegistry | null = null;
+
+export const getAgentHandlerRegistry = (): AgentHandlerRegistry => {
+  if (!globalRegistry) {
+    globalRegistry = new AgentHandlerRegistry();
+  }
+  return globalRegistry;
+};
@@ -0,0 +1,319 @@
+import { PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { supabase } from '../lib/supabase';
+import type { CreatorEarning, CreatorWithdrawal } from '../types';
+import type { PaymentCurrency } from '../utils/splToken';
+import { SupabaseNonceStore } from './x402NonceStore';
+import { SolanaWallet } from './walletManager';
+
+/**
+ * Smallest withdrawal in USD, so payouts are not eaten by network fees. Only
+ * shown in the form; `request_creator_withdrawal` enforces its own copy.
+ */
+export const MIN_WITHDRAWAL_USD = 1;
+
+const WITHDRAWAL_REQUEST_MAX_AGE = 5 * 60 * 1000; // 5 minutes
+const WITHDRAWAL_REQUEST_MAX_CLOCK_SKEW = 30 * 1000; // 30 seconds
+
+/** Withdrawal or cancellation signed by the creator wallet, see `signWithdrawalRequest` */
+export interface CreatorWithdrawalRequest {
+  action: 'withdraw' | 'cancel';
+  creatorWallet: string;
+  /** Set when withdrawing */
+  amount?: number;
+  currency?: PaymentCurrency;
+  /** Set when cancelling */
+  withdrawalId?: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+/** All amounts in USD */
+export interface CreatorBalance {
+  /** Custodial earnings still inside the refund hold */
+  pending: number;
+  /** Ledger balance owed to the creator, less held charges and open withdrawals */
+  available: number;
+  /** Requested or in-flight withdrawals */
+  processing: number;
+  /** Paid directly on-chain plus completed withdrawals */
+  paid: number;
+  withdrawn: number;
+  earned: number;
+  platformFees: number;
+  refunded: number;
+}
+
+export interface CreatorWithdrawalResult {
+  success: boolean;
+  withdrawalId?: string;
+  available?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+interface CreatorBalanceRpcResult {
+  pending: number;
+  available: number;
+  processing: number;
+  paid: number;
+  withdrawn: number;
+  earned: number;
+  platform_fees: number;
+  refunded: number;
+}
+
+interface CreatorWithdrawalRpcResult {
+  success: boolean;
+  withdrawal_id?: string;
+  available?: number;
+  error?: string;
+  error_code?: string;
+}
+
+const EMPTY_BALANCE: CreatorBalance = {
+  pending: 0,
+  available: 0,
+  processing: 0,
+  paid: 0,
+  withdrawn: 0,
+  earned: 0,
+  platformFees: 0,
+  refunded: 0
+};
+
+/**
+ * Reads a creator's earnings ledger and manages their withdrawals. Entries
+ * are recorded by the payout worker, which also pays the withdrawals.
+ *
+ * Withdrawals and cancellations are signed by the creator wallet in the
+ * browser and sent to the payout server (VITE_CREATOR_PAYOUTS_URL), which
+ * checks the signature in `processWithdrawalRequest` before calling the
+ * withdrawal functions with a service-role client.
+ */
+export class CreatorEarningsService {
+  static async getBalance(creatorWallet: string): Promise<CreatorBalance> {
+    const { data, error } = await supabase.rpc('creator_earnings_balance', {
+      p_creator_wallet: creatorWallet
+    });
+
+    if (error || !data) {
+      console.error('[Earnings] Error fetching balance:', error);
+      return { ...EMPTY_BALANCE };
+    }
+
+    const result = data as CreatorBalanceRpcResult;
+    return {
+      pending: Number(result.pending),
+      available: Number(result.available),
+      processing: Number(result.processing),
+      paid: Number(result.paid),
+      withdrawn: Number(result.withdrawn),
+      earned: Number(result.earned),
+      platformFees: Number(result.platform_fees),
+      refunded: Number(result.refunded)
+    };
+  }
+
+  static async getEntries(creatorWallet: string, limit = 50): Promise<CreatorEarning[]> {
+    const { data, error } = await supabase
+      .from('creator_earnings')
+      .select('*')
+      .eq('creator_wallet', creatorWallet)
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[Earnings] Error fetching entries:', error);
+      return [];
+    }
+
+    return (data || []) as CreatorEarning[];
+  }
+
+  static async getWithdrawals(creatorWallet: string, limit = 20): Promise<CreatorWithdrawal[]> {
+    const { data, error } = await supabase
+      .from('creator_withdrawals')
+      .select('*')
+      .eq('creator_wallet', creatorWallet)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[Earnings] Error fetching withdrawals:', error);
+      return [];
+    }
+
+    return (data || []) as CreatorWithdrawal[];
+  }
+
+  /** Queues a payout of part of the available balance to the creator wallet */
+  static async requestWithdrawal(
+    wallet: SolanaWallet,
+    amount: number,
+    currency: PaymentCurrency = 'USDC'
+  ): Promise<CreatorWithdrawalResult> {
+    try {
+      const request = await this.signWithdrawalRequest(wallet, { action: 'withdraw', amount, currency });
+      return await this.submitWithdrawalRequest(request);
+    } catch (error) {
+      console.error('[Earnings] Error requesting withdrawal:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** Only withdrawals not yet picked up by a payout batch can be cancelled */
+  static async cancelWithdrawal(wallet: SolanaWallet, withdrawalId: string): Promise<CreatorWithdrawalResult> {
+    try {
+      const request = await this.signWithdrawalRequest(wallet, { action: 'cancel', withdrawalId });
+      return await this.submitWithdrawalRequest(request);
+    } catch (error) {
+      console.error('[Earnings] Error cancelling withdrawal:', error);
+      return { success: false, withdrawalId, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  static buildWithdrawalPayload(request: Omit<CreatorWithdrawalRequest, 'signature'>): Uint8Array {
+    const payload = [
+      'creator-withdrawal:v1',
+      request.action,
+      request.creatorWallet,
+      request.amount === undefined ? '' : request.amount.toFixed(6),
+      request.currency ?? '',
+      request.withdrawalId ?? '',
+      String(request.timestamp),
+      request.nonce
+    ].join('|');
+
+    return new TextEncoder().encode(payload);
+  }
+
+  static async signWithdrawalRequest(
+    wallet: SolanaWallet,
+    params: Pick<CreatorWithdrawalRequest, 'action' | 'amount' | 'currency' | 'withdrawalId'>
+  ): Promise<CreatorWithdrawalRequest> {
+    if (!wallet.signMessage) {
+      throw new Error('Wallet does not support message signing');
+    }
+
+    const nonce = new Uint8Array(16);
+    crypto.getRandomValues(nonce);
+
+    const request = {
+      ...params,
+      creatorWallet: wallet.publicKey.toBase58(),
+      timestamp: Date.now(),
+      nonce: bs58.encode(nonce)
+    };
+
+    const signature = await wallet.signMessage(this.buildWithdrawalPayload(request));
+    return { ...request, signature: bs58.encode(signature) };
+  }
+
+  /** Sends a signed request to the payout server (`POST` with the request as JSON) */
+  static async submitWithdrawalRequest(
+    request: CreatorWithdrawalRequest,
+    payoutsUrl: string | undefined = import.meta.env.VITE_CREATOR_PAYOUTS_URL
+  ): Promise<CreatorWithdrawalResult> {
+    if (!payoutsUrl) {
+      throw new Error('No creator payout server is configured');
+    }
+
+    const response = await fetch(payoutsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Creator payout server returned HTTP ${response.status}`);
+    }
+
+    return await response.json() as CreatorWithdrawalResult;
+  }
+
+  /**
+   * Runs a signed withdrawal or cancellation on the payout server with a
+   * service-role client. The request must be signed by `creatorWallet`
+   * within the last five minutes, and its nonce is recorded so it cannot be
+   * replayed.
+   */
+  static async processWithdrawalRequest(
+    request: CreatorWithdrawalRequest,
+    client: SupabaseClient = supabase
+  ): Promise<CreatorWithdrawalResult> {
+    const age = Date.now() - request.timestamp;
+    if (age > WITHDRAWAL_REQUEST_MAX_AGE || age < -WITHDRAWAL_REQUEST_MAX_CLOCK_SKEW) {
+      return { success: false, error: 'Withdrawal request timestamp is outside the allowed window', errorCode: 'STALE_TIMESTAMP' };
+    }
+
+    let verified = false;
+    try {
+      verified = nacl.sign.detached.verify(
+        this.buildWithdrawalPayload(request),
+        bs58.decode(request.signature),
+        new PublicKey(request.creatorWallet).toBytes()
+      );
+    } catch (error) {
+      console.error('[Earnings] Error verifying withdrawal signature:', error);
+    }
+
+    if (!verified) {
+      return { success: false, error: 'Invalid withdrawal signature', errorCode: 'INVALID_SIGNATURE' };
+    }
+
+    const nonceStore = new SupabaseNonceStore(client);
+    if (!await nonceStore.consume(request.creatorWallet, request.nonce, request.timestamp + WITHDRAWAL_REQUEST_MAX_AGE)) {
+      return { success: false, error: 'Withdrawal request has already been used', errorCode: 'NONCE_REPLAYED' };
+    }
+
+    if (request.action === 'cancel') {
+      if (!request.withdrawalId) {
+        return { success: false, error: 'Withdrawal not found', errorCode: 'WITHDRAWAL_NOT_FOUND' };
+      }
+
+      const { data, error } = await client.rpc('cancel_creator_withdrawal', {
+        p_withdrawal_id: request.withdrawalId,
+        p_creator_wallet: request.creatorWallet
+      });
+
+      if (error) {
+        console.error('[Earnings] Error cancelling withdrawal:', error);
+        return { success: false, error: error.message };
+      }
+
+      const result = data as CreatorWithdrawalRpcResult;
+      return {
+        success: result.success,
+        withdrawalId: request.withdrawalId,
+        error: result.error,
+        errorCode: result.error_code
+      };
+    }
+
+    const { data, error } = await client.rpc('request_creator_withdrawal', {
+      p_creator_wallet: request.creatorWallet,
+      p_amount: request.amount ?? null,
+      p_currency: request.currency ?? 'USDC'
+    });
+
+    if (error) {
+      console.error('[Earnings] Error requesting withdrawal:', error);
+      return { success: false, error: error.message };
+    }
+
+    const result = data as CreatorWithdrawalRpcResult;
+    return {
+      success: result.success,
+      withdrawalId: result.withdrawal_id,
+      available: result.available !== undefined ? Number(result.available) : undefined,
+      error: result.error,
+      errorCode: result.error_code
+    };
+  }
+}
+
+export const creatorEarningsService = CreatorEarningsService;
@@ -0,0 +1,444 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getActiveCluster, SolanaCluster } from '../lib/network';
+import type { CreatorPayoutBatch, CreatorWithdrawal } from '../types';
+import { fromTokenBaseUnits, getUsdcMint, PaymentCurrency, toTokenBaseUnits, USDC_DECIMALS } from '../utils/splToken';
+import {
+  SentTransaction,
+  TransactionHandler,
+  TransactionOptions,
+  TransactionResult,
+  TransactionSpeed,
+  TransferLeg
+} from '../utils/transactionUtils';
+import { getSolPriceOracle } from './solPriceOracle';
+import { SolanaPaymentService, solanaPaymentService } from './solanaPayment';
+import { createTransactionMonitor } from './transactionMonitor';
+import { createKeypairWallet } from './walletManager';
+import type { SolanaWallet } from './walletManager';
+
+export interface CreatorPayoutOutcome {
+  batchId: string;
+  currency: PaymentCurrency;
+  withdrawals: number;
+  status: 'completed' | 'pending' | 'released' | 'failed';
+  signature?: string;
+  error?: string;
+}
+
+export interface CreatorPayoutWorkerOptions {
+  /** Key of the wallet x402 sessions and credits are paid into, funds every payout */
+  treasuryKeypair: Keypair;
+  client?: SupabaseClient;
+  /** Its connection sends the payouts */
+  paymentService?: SolanaPaymentService;
+  cluster?: SolanaCluster;
+  workerId?: string;
+  pollIntervalMs?: number;
+  /** Withdrawals paid by one transfer */
+  batchSize?: number;
+  staleClaimSeconds?: number;
+  /** How long custodial earnings are held back for refunds */
+  holdSeconds?: number;
+  speed?: TransactionSpeed;
+}
+
+interface WithdrawalPayout {
+  withdrawal: CreatorWithdrawal;
+  amount: bigint;
+}
+
+const DEFAULT_POLL_INTERVAL = 60000; // 1 minute
+const DEFAULT_BATCH_SIZE = 6;
+const DEFAULT_STALE_CLAIM_SECONDS = 5 * 60; // 5 minutes
+const DEFAULT_HOLD_SECONDS = 24 * 60 * 60; // 1 day
+const PAYOUT_CURRENCIES: PaymentCurrency[] = ['USDC', 'SOL'];
+
+/**
+ * Keeps the creator earnings ledger up to date and pays creator withdrawals.
+ * Each poll records new payments and refunds, then batches requested
+ * withdrawals per currency into one transfer from the treasury wallet.
+ *
+ * Payouts are signed with the treasury key, so this only runs server-side,
+ * with a `client` created with the service role key. A batch whose
+ * confirmation was lost is picked up again after `staleClaimSeconds` and only
+ * resent once its blockhash has expired.
+ */
+export class CreatorPayoutWorker {
+  private client: SupabaseClient;
+  private wallet: SolanaWallet;
+  private paymentService: SolanaPaymentService;
+  private cluster: SolanaCluster;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private staleClaimSeconds: number;
+  private holdSeconds: number;
+  private speed: TransactionSpeed;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+
+  constructor(options: CreatorPayoutWorkerOptions) {
+    this.client = options.client || supabase;
+    this.wallet = createKeypairWallet(options.treasuryKeypair);
+    this.paymentService = options.paymentService || solanaPaymentService;
+    this.cluster = options.cluster ?? getActiveCluster();
+    this.workerId = options.workerId || `payout-${crypto.randomUUID()}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.staleClaimSeconds = options.staleClaimSeconds ?? DEFAULT_STALE_CLAIM_SECONDS;
+    this.holdSeconds = options.holdSeconds ?? DEFAULT_HOLD_SECONDS;
+    this.speed = options.speed ?? 'normal';
+  }
+
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    console.log('[PayoutWorker] Starting worker:', this.workerId);
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    console.log('[PayoutWorker] Stopping worker:', this.workerId);
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('[PayoutWorker] Poll failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextPoll(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /** Records new ledger entries, then pays at most one batch per currency */
+  async runOnce(): Promise<CreatorPayoutOutcome[]> {
+    await this.syncEarnings();
+
+    const outcomes: CreatorPayoutOutcome[] = [];
+    for (const currency of PAYOUT_CURRENCIES) {
+      const batch = await this.claimBatch(currency);
+      if (batch) {
+        outcomes.push(await this.payBatch(batch));
+      }
+    }
+
+    return outcomes;
+  }
+
+  private async syncEarnings(): Promise<void> {
+    const { data, error } = await this.client.rpc('sync_creator_earnings', {
+      p_hold_seconds: this.holdSeconds
+    });
+
+    if (error) {
+      console.error('[PayoutWorker] Error syncing earnings:', error);
+      return;
+    }
+
+    const synced = data as { transactions: number; refunds: number; splits: number };
+    if (synced.transactions + synced.refunds + synced.splits > 0) {
+      console.log('[PayoutWorker] Recorded earnings:', synced);
+    }
+  }
+
+  private async claimBatch(currency: PaymentCurrency): Promise<CreatorPayoutBatch | null> {
+    const { data, error } = await this.client.rpc('claim_creator_payouts', {
+      p_worker_id: this.workerId,
+      p_currency: currency,
+      p_limit: this.batchSize,
+      p_stale_after_seconds: this.staleClaimSeconds
+    });
+
+    if (error) {
+      console.error('[PayoutWorker] Error claiming payouts:', error);
+      return null;
+    }
+
+    const batches = (data || []) as CreatorPayoutBatch[];
+    return batches[0] ?? null;
+  }
+
+  async payBatch(batch: CreatorPayoutBatch): Promise<CreatorPayoutOutcome> {
+    let sentSignature: string | null = null;
+
+    try {
+      const withdrawals = await this.getBatchWithdrawals(batch);
+      if (withdrawals.length === 0) {
+        return this.release(batch, 0, 'Batch has no withdrawals to pay');
+      }
+
+      // A previous claim sent this batch but never recorded its outcome
+      if (batch.signature) {
+        const previous = await this.checkPayout(batch);
+        if (previous === 'confirmed') {
+          return this.complete(batch, withdrawals.length, batch.signature);
+        }
+
+        if (previous === 'pending') {
+          return this.outcome(batch, withdrawals.length, 'pending', { signature: batch.signature });
+        }
+      }
+
+      const payouts = await this.quote(batch, withdrawals);
+      const result = await this.send(batch, payouts, sent => {
+        sentSignature = sent.signature;
+      });
+
+      if (result.success && result.signature) {
+        return this.complete(batch, withdrawals.length, result.signature);
+      }
+
+      const message = result.error || 'Payout transfer failed';
+
+      // Nothing left the treasury, so the withdrawals go back in the queue
+      if (!sentSignature || result.expired) {
+        return this.release(batch, withdrawals.length, message);
+      }
+
+      return this.fail(batch, withdrawals.length, message);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[PayoutWorker] Payout failed:', batch.id, message);
+
+      if (!sentSignature && !batch.signature) {
+        return this.release(batch, 0, message);
+      }
+
+      return this.fail(batch, 0, message);
+    }
+  }
+
+  private async getBatchWithdrawals(batch: CreatorPayoutBatch): Promise<CreatorWithdrawal[]> {
+    const { data, error } = await this.client
+      .from('creator_withdrawals')
+      .select('*')
+      .eq('batch_id', batch.id)
+      .eq('status', 'processing');
+
+    if (error) {
+      throw new Error(`Could not load batch withdrawals: ${error.message}`);
+    }
+
+    return (data || []) as CreatorWithdrawal[];
+  }
+
+  /** Whether an earlier payout landed, can still land or is dead and may be resent */
+  private async checkPayout(batch: CreatorPayoutBatch): Promise<'confirmed' | 'pending' | 'dead'> {
+    const connection = this.getConnection();
+    const { value } = await connection.getSignatureStatus(batch.signature!, { searchTransactionHistory: true });
+
+    if (value && !value.err && (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized')) {
+      return 'confirmed';
+    }
+
+    if (value?.err) {
+      return 'dead';
+    }
+
+    const lastValidBlockHeight = batch.last_valid_block_height;
+    if (lastValidBlockHeight === null || await connection.getBlockHeight('confirmed') > lastValidBlockHeight) {
+      return value ? 'pending' : 'dead';
+    }
+
+    return 'pending';
+  }
+
+  /** Converts each withdrawal to base units; SOL payouts use the current oracle price */
+  private async quote(batch: CreatorPayoutBatch, withdrawals: CreatorWithdrawal[]): Promise<WithdrawalPayout[]> {
+    if (batch.currency === 'USDC') {
+      return withdrawals.map(withdrawal => ({
+        withdrawal,
+        amount: toTokenBaseUnits(Number(withdrawal.amount), USDC_DECIMALS)
+      }));
+    }
+
+    const rate = await getSolPriceOracle(this.getConnection()).getSolPrice();
+    return withdrawals.map(withdrawal => ({
+      withdrawal,
+      amount: BigInt(Math.floor((Number(withdrawal.amount) / rate) * LAMPORTS_PER_SOL))
+    }));
+  }
+
+  private async send(
+    batch: CreatorPayoutBatch,
+    payouts: WithdrawalPayout[],
+    onSent: (sent: SentTransaction) => void
+  ): Promise<TransactionResult> {
+    // Withdrawals by the same creator are paid by one leg
+    const byRecipient = new Map<string, bigint>();
+    for (const { withdrawal, amount } of payouts) {
+      byRecipient.set(withdrawal.creator_wallet, (byRecipient.get(withdrawal.creator_wallet) ?? 0n) + amount);
+    }
+
+    const legs: TransferLeg[] = Array.from(byRecipient, ([recipient, amount]) => ({ recipient, amount }));
+    const handler = new TransactionHandler(this.getConnection(), this.cluster);
+    const options: TransactionOptions = {
+      commitment: 'confirmed',
+      speed: this.speed,
+      onSent: async (sent: SentTransaction) => {
+        onSent(sent);
+        await this.recordSent(batch, sent, payouts, legs);
+      }
+    };
+
+    if (batch.currency === 'USDC') {
+      return handler.sendSplitTokenTransfer(this.wallet, getUsdcMint(this.cluster), legs, USDC_DECIMALS, options);
+    }
+
+    return handler.sendSplitSolTransfer(this.wallet, legs, options);
+  }
+
+  /** Stores the payout before it confirms, so a restarted worker does not pay twice */
+  private async recordSent(
+    batch: CreatorPayoutBatch,
+    sent: SentTransaction,
+    payouts: WithdrawalPayout[],
+    legs: TransferLeg[]
+  ): Promise<void> {
+    const { error } = await this.client
+      .from('creator_payout_batches')
+      .update({
+        signature: sent.signature,
+        last_valid_block_height: sent.lastValidBlockHeight
+      })
+      .eq('id', batch.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[PayoutWorker] Error recording payout signature:', error);
+    }
+
+    for (const { withdrawal, amount } of payouts) {
+      const { error: withdrawalError } = await this.client
+        .from('creator_withdrawals')
+        .update({ amount_base_units: amount.toString() })
+        .eq('id', withdrawal.id);
+
+      if (withdrawalError) {
+        console.error('[PayoutWorker] Error recording withdrawal amount:', withdrawalError);
+      }
+    }
+
+    const decimals = batch.currency === 'USDC' ? USDC_DECIMALS : 9;
+    const total = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+    const totalUsd = Number(batch.total_amount);
+
+    await createTransactionMonitor(this.getConnection(), this.client).logTransaction({
+      signature: sent.signature,
+      wallet_address: this.wallet.publicKey.toBase58(),
+      transaction_type: 'other',
+      status: 'pending',
+      amount_sol: batch.currency === 'SOL' ? Number(total) / LAMPORTS_PER_SOL : 0,
+      amount_usd: totalUsd,
+      conversion_rate: batch.currency === 'SOL' && total > 0n ? totalUsd / (Number(total) / LAMPORTS_PER_SOL) : 1,
+      recipient_address: legs[0].recipient,
+      metadata: {
+        currency: batch.currency,
+        payout_batch_id: batch.id,
+        withdrawal_ids: payouts.map(payout => payout.withdrawal.id),
+        legs: legs.map(leg => ({ recipient: leg.recipient, amount: fromTokenBaseUnits(leg.amount, decimals) })),
+        transaction_version: sent.version,
+        raw_transaction: sent.rawTransaction,
+        blockhash: sent.blockhash,
+        last_valid_block_height: sent.lastValidBlockHeight
+      }
+    });
+  }
+
+  private async complete(batch: CreatorPayoutBatch, withdrawals: number, signature: string): Promise<CreatorPayoutOutcome> {
+    const { data, error } = await this.client.rpc('complete_creator_payout_batch', {
+      p_batch_id: batch.id,
+      p_signature: signature
+    });
+
+    if (error || !data?.success) {
+      const message = error?.message || data?.error || 'Could not complete payout batch';
+      console.error('[PayoutWorker] Error completing payout batch:', batch.id, message);
+      return this.outcome(batch, withdrawals, 'failed', { signature, error: message });
+    }
+
+    console.log('[PayoutWorker] Paid', withdrawals, 'withdrawals:', batch.id, signature);
+    return this.outcome(batch, withdrawals, 'completed', { signature });
+  }
+
+  /** Nothing was paid: the batch fails and its withdrawals wait for the next one */
+  private async release(batch: CreatorPayoutBatch, withdrawals: number, message: string): Promise<CreatorPayoutOutcome> {
+    console.warn('[PayoutWorker] Releasing payout batch', batch.id, message);
+
+    const { error } = await this.client.rpc('release_creator_payout_batch', {
+      p_batch_id: batch.id,
+      p_error: message
+    });
+
+    if (error) {
+      console.error('[PayoutWorker] Error releasing payout batch:', error);
+    }
+
+    return this.outcome(batch, withdrawals, 'released', { error: message });
+  }
+
+  /**
+   * The payout may still land, so the batch stays claimed with the error and
+   * is checked again once the claim goes stale.
+   */
+  private async fail(batch: CreatorPayoutBatch, withdrawals: number, message: string): Promise<CreatorPayoutOutcome> {
+    const { error } = await this.client
+      .from('creator_payout_batches')
+      .update({ error: message })
+      .eq('id', batch.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[PayoutWorker] Error saving payout error:', error);
+    }
+
+    return this.outcome(batch, withdrawals, 'failed', { error: message });
+  }
+
+  private outcome(
+    batch: CreatorPayoutBatch,
+    withdrawals: number,
+    status: CreatorPayoutOutcome['status'],
+    details: Pick<CreatorPayoutOutcome, 'signature' | 'error'> = {}
+  ): CreatorPayoutOutcome {
+    return { batchId: batch.id, currency: batch.currency, withdrawals, status, ...details };
+  }
+
+  private getConnection(): Connection {
+    return this.paymentService.getConnection();
+  }
+}
+
+export const createCreatorPayoutWorker = (options: CreatorPayoutWorkerOptions): CreatorPayoutWorker => {
+  return new CreatorPayoutWorker(options);
+};
+
+export default CreatorPayoutWorker;
@@ -0,0 +1,553 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getActiveCluster, getNetworkConfig, SolanaCluster } from '../lib/network';
+import type { ExecutionEscrow } from '../types';
+import { fromTokenBaseUnits, getUsdcMint, toTokenBaseUnits, USDC_DECIMALS } from '../utils/splToken';
+import { allocateSplit, buildRevenueSplit, isValidRecipient, PaymentSplitLeg } from '../utils/paymentSplit';
+import {
+  SentTransaction,
+  TransactionHandler,
+  TransactionOptions,
+  TransactionResult,
+  TransactionSpeed,
+  TransferLeg
+} from '../utils/transactionUtils';
+import { DEFAULT_ESCROW_TIMEOUT_SECONDS } from './executionEscrow';
+import { SolanaPaymentService, solanaPaymentService } from './solanaPayment';
+import { createTransactionMonitor } from './transactionMonitor';
+import { createKeypairWallet } from './walletManager';
+import type { SolanaWallet } from './walletManager';
+
+export interface EscrowSettlementOutcome {
+  escrowId: string;
+  executionId: string;
+  status: 'funded' | 'released' | 'refunded' | 'cancelled' | 'pending' | 'failed';
+  signature?: string;
+  error?: string;
+}
+
+export interface EscrowSettlementWorkerOptions {
+  /** Key of the cluster's escrow wallet, signs every release and refund */
+  escrowKeypair: Keypair;
+  client?: SupabaseClient;
+  /** Verifies deposits; its connection also sends the settlements */
+  paymentService?: SolanaPaymentService;
+  cluster?: SolanaCluster;
+  workerId?: string;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  staleClaimSeconds?: number;
+  /** How long a verified execution may run before it is refunded */
+  executionTimeoutSeconds?: number;
+  speed?: TransactionSpeed;
+}
+
+const DEFAULT_POLL_INTERVAL = 10000; // 10 seconds
+const DEFAULT_BATCH_SIZE = 5;
+const DEFAULT_STALE_CLAIM_SECONDS = 5 * 60; // 5 minutes
+const DEPOSIT_PRICE_TOLERANCE = 0.02; // 2% SOL price movement between payment and check
+
+class FundingNotFoundError extends Error {
+  constructor(signature: string) {
+    super(`Deposit ${signature} is not visible on-chain yet`);
+    this.name = 'FundingNotFoundError';
+  }
+}
+
+/**
+ * Verifies reported deposits on-chain and only then lets the execution run,
+ * and settles `execution_escrows` once their execution is over: completed
+ * executions are released to the creator and the platform fee wallet with the
+ * usual revenue split, failed, rejected and timed-out ones are refunded to the
+ * payer. The deposit is checked on-chain again before anything leaves escrow.
+ *
+ * Settlements are signed with the escrow wallet's key, so this only runs
+ * server-side, with a `client` created with the service role key. A settlement
+ * whose confirmation was lost is picked up again after `staleClaimSeconds` and
+ * only resent once its blockhash has expired.
+ */
+export class EscrowSettlementWorker {
+  private client: SupabaseClient;
+  private wallet: SolanaWallet;
+  private paymentService: SolanaPaymentService;
+  private cluster: SolanaCluster;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private staleClaimSeconds: number;
+  private executionTimeoutSeconds: number;
+  private speed: TransactionSpeed;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+
+  constructor(options: EscrowSettlementWorkerOptions) {
+    this.client = options.client || supabase;
+    this.wallet = createKeypairWallet(options.escrowKeypair);
+    this.paymentService = options.paymentService || solanaPaymentService;
+    this.cluster = options.cluster ?? getActiveCluster();
+    this.workerId = options.workerId || `escrow-${crypto.randomUUID()}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.staleClaimSeconds = options.staleClaimSeconds ?? DEFAULT_STALE_CLAIM_SECONDS;
+    this.executionTimeoutSeconds = options.executionTimeoutSeconds ?? DEFAULT_ESCROW_TIMEOUT_SECONDS;
+    this.speed = options.speed ?? 'normal';
+  }
+
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    console.log('[EscrowWorker] Starting worker:', this.workerId);
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    console.log('[EscrowWorker] Stopping worker:', this.workerId);
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('[EscrowWorker] Poll failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextPoll(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Verifies one batch of reported deposits, then claims one batch of
+   * escrows and settles it. Escrows are settled one at a time since they all
+   * spend from the same wallet.
+   */
+  async runOnce(): Promise<EscrowSettlementOutcome[]> {
+    const outcomes: EscrowSettlementOutcome[] = [];
+
+    for (const escrow of await this.getUnverifiedFundings()) {
+      outcomes.push(await this.confirmFunding(escrow));
+    }
+
+    const claimed = await this.claimEscrows();
+    if (claimed.length === 0) {
+      return outcomes;
+    }
+
+    console.log('[EscrowWorker] Claimed', claimed.length, 'escrows');
+
+    for (const escrow of claimed) {
+      outcomes.push(await this.settleEscrow(escrow));
+    }
+
+    return outcomes;
+  }
+
+  private async getUnverifiedFundings(): Promise<ExecutionEscrow[]> {
+    const { data, error } = await this.client
+      .from('execution_escrows')
+      .select('*')
+      .eq('status', 'funded')
+      .is('funding_verified_at', null)
+      .order('funded_at', { ascending: true })
+      .limit(this.batchSize);
+
+    if (error) {
+      console.error('[EscrowWorker] Error fetching unverified deposits:', error);
+      return [];
+    }
+
+    return (data || []) as ExecutionEscrow[];
+  }
+
+  /**
+   * Hands the execution to the execution worker once its deposit reached this
+   * worker's escrow wallet from the payer and covers the agent's price. A
+   * deposit that does not check out, or never shows up, cancels the escrow.
+   */
+  async confirmFunding(escrow: ExecutionEscrow): Promise<EscrowSettlementOutcome> {
+    const outcome = { escrowId: escrow.id, executionId: escrow.execution_id };
+
+    try {
+      const deposited = await this.verifyFunding(escrow);
+      if (!deposited.valid) {
+        return this.rejectFunding(escrow, deposited.error);
+      }
+
+      if (!await this.coversPrice(escrow, deposited.amount)) {
+        return this.rejectFunding(escrow, `Deposit does not cover the agent's price of $${escrow.amount_usd}`);
+      }
+
+      const { data, error } = await this.client.rpc('escrow_confirm_funding', {
+        p_escrow_id: escrow.id,
+        p_escrow_wallet: this.wallet.publicKey.toBase58(),
+        p_timeout_seconds: this.executionTimeoutSeconds
+      });
+
+      if (error || !data?.success) {
+        const message = error?.message || data?.error || 'Could not confirm the deposit';
+        console.error('[EscrowWorker] Error confirming deposit:', escrow.id, message);
+        return { ...outcome, status: 'failed', error: message };
+      }
+
+      console.log('[EscrowWorker] Deposit verified:', escrow.id, escrow.funding_signature);
+      return { ...outcome, status: 'funded', signature: escrow.funding_signature ?? undefined };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof FundingNotFoundError && Date.parse(escrow.funding_expires_at) + this.staleClaimSeconds * 1000 < Date.now()) {
+        return this.rejectFunding(escrow, message);
+      }
+
+      return { ...outcome, status: 'pending', error: message };
+    }
+  }
+
+  private async rejectFunding(escrow: ExecutionEscrow, reason?: string): Promise<EscrowSettlementOutcome> {
+    console.warn('[EscrowWorker] Rejecting deposit', escrow.id, reason);
+
+    const { error } = await this.client.rpc('escrow_reject_funding', {
+      p_escrow_id: escrow.id,
+      p_reason: reason ?? 'Deposit could not be verified'
+    });
+
+    if (error) {
+      console.error('[EscrowWorker] Error rejecting deposit:', error);
+    }
+
+    return { escrowId: escrow.id, executionId: escrow.execution_id, status: 'cancelled', error: reason };
+  }
+
+  /** USDC must cover the price exactly, SOL at the oracle rate within the tolerance */
+  private async coversPrice(escrow: ExecutionEscrow, amount: bigint): Promise<boolean> {
+    if (escrow.currency === 'USDC') {
+      return amount >= toTokenBaseUnits(Number(escrow.amount_usd), USDC_DECIMALS);
+    }
+
+    const solUsd = await this.paymentService.getSolPrice();
+    return (Number(amount) / LAMPORTS_PER_SOL) * solUsd >= Number(escrow.amount_usd) * (1 - DEPOSIT_PRICE_TOLERANCE);
+  }
+
+  private async claimEscrows(): Promise<ExecutionEscrow[]> {
+    const { data, error } = await this.client.rpc('claim_escrow_settlements', {
+      p_worker_id: this.workerId,
+      p_limit: this.batchSize,
+      p_stale_after_seconds: this.staleClaimSeconds
+    });
+
+    if (error) {
+      console.error('[EscrowWorker] Error claiming escrows:', error);
+      return [];
+    }
+
+    return (data || []) as ExecutionEscrow[];
+  }
+
+  async settleEscrow(escrow: ExecutionEscrow): Promise<EscrowSettlementOutcome> {
+    const outcome = { escrowId: escrow.id, executionId: escrow.execution_id };
+    const settled = escrow.status === 'releasing' ? 'released' : 'refunded';
+
+    if (escrow.escrow_wallet !== this.wallet.publicKey.toBase58()) {
+      return this.fail(escrow, `Escrow is held by ${escrow.escrow_wallet}, this worker signs for ${this.wallet.publicKey.toBase58()}`);
+    }
+
+    try {
+      // A previous claim sent a settlement but never recorded its outcome
+      if (escrow.settlement_signature) {
+        const previous = await this.checkSettlement(escrow);
+        if (previous === 'confirmed') {
+          return this.complete(escrow, settled, escrow.settlement_signature);
+        }
+
+        if (previous === 'pending') {
+          return { ...outcome, status: 'pending', signature: escrow.settlement_signature };
+        }
+      }
+
+      const deposited = await this.verifyFunding(escrow);
+      if (!deposited.valid) {
+        return this.cancel(escrow, deposited.error);
+      }
+
+      const releaseLegs = escrow.status === 'releasing' ? this.releaseLegs(escrow, deposited.amount) : null;
+      const legs: TransferLeg[] = releaseLegs ?? [{ recipient: escrow.payer_wallet, amount: deposited.amount }];
+
+      const result = await this.send(escrow, legs);
+
+      if (!result.success || !result.signature) {
+        return this.fail(escrow, result.error || 'Settlement transfer failed', result.expired);
+      }
+
+      if (releaseLegs) {
+        await this.recordReleaseSplits(escrow, result.signature, releaseLegs);
+      }
+
+      return this.complete(escrow, settled, result.signature);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[EscrowWorker] Settlement failed:', escrow.id, message);
+      return this.fail(escrow, message);
+    }
+  }
+
+  /** Whether an earlier settlement landed, can still land or is dead and may be resent */
+  private async checkSettlement(escrow: ExecutionEscrow): Promise<'confirmed' | 'pending' | 'dead'> {
+    const connection = this.getConnection();
+    const { value } = await connection.getSignatureStatus(escrow.settlement_signature!, { searchTransactionHistory: true });
+
+    if (value && !value.err && (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized')) {
+      return 'confirmed';
+    }
+
+    if (value?.err) {
+      return 'dead';
+    }
+
+    const lastValidBlockHeight = escrow.settlement_last_valid_block_height;
+    if (lastValidBlockHeight === null || await connection.getBlockHeight('confirmed') > lastValidBlockHeight) {
+      return value ? 'pending' : 'dead';
+    }
+
+    return 'pending';
+  }
+
+  /**
+   * Checks the deposit against the escrow: it must have landed in this
+   * worker's escrow wallet, come from the payer and cover what was recorded.
+   * Settles only what actually arrived.
+   */
+  private async verifyFunding(escrow: ExecutionEscrow): Promise<{ valid: boolean; amount: bigint; error?: string }> {
+    const signature = escrow.funding_signature;
+    const escrowWallet = this.wallet.publicKey.toBase58();
+    if (!signature || !escrow.amount_base_units) {
+      return { valid: false, amount: 0n, error: 'Escrow was never funded' };
+    }
+
+    const { value } = await this.getConnection().getSignatureStatus(signature, { searchTransactionHistory: true });
+    if (!value) {
+      throw new FundingNotFoundError(signature);
+    }
+
+    if (value.err) {
+      return { valid: false, amount: 0n, error: 'Deposit failed on-chain' };
+    }
+
+    const transfer = escrow.currency === 'USDC'
+      ? await this.paymentService.verifyTokenTransfer(signature, escrowWallet, getUsdcMint(this.cluster))
+      : await this.paymentService.verifyTransfer(signature, escrowWallet);
+
+    if (transfer.slot === undefined) {
+      // Not parsed yet or the RPC call failed, try again on the next claim
+      throw new Error(transfer.error || 'Could not load the deposit');
+    }
+
+    const received = 'rawAmount' in transfer ? BigInt(transfer.rawAmount) : BigInt(transfer.lamports);
+    const expected = BigInt(escrow.amount_base_units);
+
+    if (!transfer.payers.includes(escrow.payer_wallet)) {
+      return { valid: false, amount: received, error: 'Deposit was not paid by the escrow payer' };
+    }
+
+    if (received < expected) {
+      return { valid: false, amount: received, error: `Deposit of ${received} is less than the recorded ${expected}` };
+    }
+
+    return { valid: true, amount: expected };
+  }
+
+  private releaseLegs(escrow: ExecutionEscrow, amount: bigint): PaymentSplitLeg[] {
+    const feeWallet = getNetworkConfig(this.cluster).feeWallet;
+
+    if (!isValidRecipient(escrow.creator_wallet)) {
+      return [{ recipient: feeWallet, role: 'platform', percent: 100, amount }];
+    }
+
+    return allocateSplit(amount, buildRevenueSplit(escrow.creator_wallet, feeWallet, Number(escrow.platform_fee_percent)))
+      .filter(leg => leg.amount > 0n);
+  }
+
+  private async send(escrow: ExecutionEscrow, legs: TransferLeg[]): Promise<TransactionResult> {
+    const handler = new TransactionHandler(this.getConnection(), this.cluster);
+    const options: TransactionOptions = {
+      commitment: 'confirmed',
+      speed: this.speed,
+      onSent: (sent: SentTransaction) => this.recordSent(escrow, sent, legs)
+    };
+
+    if (escrow.currency === 'USDC') {
+      return handler.sendSplitTokenTransfer(this.wallet, getUsdcMint(this.cluster), legs, USDC_DECIMALS, options);
+    }
+
+    return handler.sendSplitSolTransfer(this.wallet, legs, options);
+  }
+
+  /** Stores the settlement before it confirms, so a restarted worker does not pay twice */
+  private async recordSent(escrow: ExecutionEscrow, sent: SentTransaction, legs: TransferLeg[]): Promise<void> {
+    const { error } = await this.client
+      .from('execution_escrows')
+      .update({
+        settlement_signature: sent.signature,
+        settlement_last_valid_block_height: sent.lastValidBlockHeight
+      })
+      .eq('id', escrow.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[EscrowWorker] Error recording settlement signature:', error);
+    }
+
+    const decimals = escrow.currency === 'USDC' ? USDC_DECIMALS : 9;
+    const total = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+
+    await createTransactionMonitor(this.getConnection(), this.client).logTransaction({
+      signature: sent.signature,
+      wallet_address: this.wallet.publicKey.toBase58(),
+      transaction_type: 'other',
+      status: 'pending',
+      amount_sol: escrow.currency === 'SOL' ? Number(total) / LAMPORTS_PER_SOL : 0,
+      amount_usd: Number(escrow.amount_usd),
+      conversion_rate: escrow.currency === 'SOL' && escrow.amount ? Number(escrow.amount_usd) / Number(escrow.amount) : 1,
+      recipient_address: legs[0].recipient,
+      metadata: {
+        currency: escrow.currency,
+        escrow_id: escrow.id,
+        escrow_execution_id: escrow.execution_id,
+        settlement: escrow.status === 'releasing' ? 'release' : 'refund',
+        legs: legs.map(leg => ({ recipient: leg.recipient, amount: fromTokenBaseUnits(leg.amount, decimals) })),
+        transaction_version: sent.version,
+        raw_transaction: sent.rawTransaction,
+        blockhash: sent.blockhash,
+        last_valid_block_height: sent.lastValidBlockHeight
+      }
+    });
+  }
+
+  /** Releases show up in `payment_splits` like direct creator payments */
+  private async recordReleaseSplits(escrow: ExecutionEscrow, signature: string, legs: PaymentSplitLeg[]): Promise<void> {
+    const decimals = escrow.currency === 'USDC' ? USDC_DECIMALS : 9;
+    const now = new Date().toISOString();
+
+    const { error } = await this.client.from('payment_splits').insert(
+      legs.map(leg => ({
+        transaction_signature: signature,
+        payer_wallet: escrow.payer_wallet,
+        payment_type: 'agent_payment',
+        service_type: 'agent',
+        service_id: escrow.agent_id,
+        recipient_address: leg.recipient,
+        role: leg.role,
+        share_percent: leg.percent,
+        currency: escrow.currency,
+        amount: fromTokenBaseUnits(leg.amount, decimals),
+        amount_base_units: leg.amount.toString(),
+        amount_usd: (Number(escrow.amount_usd) * leg.percent) / 100,
+        status: 'verified',
+        verified_at: now
+      }))
+    );
+
+    if (error) {
+      console.error('[EscrowWorker] Error recording release splits:', error);
+    }
+  }
+
+  private async complete(
+    escrow: ExecutionEscrow,
+    status: 'released' | 'refunded',
+    signature: string
+  ): Promise<EscrowSettlementOutcome> {
+    const { error } = await this.client
+      .from('execution_escrows')
+      .update({
+        status,
+        settlement_signature: signature,
+        settlement_error: null,
+        settled_at: new Date().toISOString()
+      })
+      .eq('id', escrow.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[EscrowWorker] Error saving settlement:', error);
+    } else {
+      console.log('[EscrowWorker] Escrow', status + ':', escrow.id, signature);
+    }
+
+    return { escrowId: escrow.id, executionId: escrow.execution_id, status, signature };
+  }
+
+  /** The deposit does not check out, so nothing is paid out of escrow */
+  private async cancel(escrow: ExecutionEscrow, reason?: string): Promise<EscrowSettlementOutcome> {
+    console.warn('[EscrowWorker] Cancelling escrow', escrow.id, reason);
+
+    const { error } = await this.client
+      .from('execution_escrows')
+      .update({
+        status: 'cancelled',
+        settlement_error: reason ?? 'Deposit could not be verified',
+        settled_at: new Date().toISOString()
+      })
+      .eq('id', escrow.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[EscrowWorker] Error cancelling escrow:', error);
+    }
+
+    return { escrowId: escrow.id, executionId: escrow.execution_id, status: 'cancelled', error: reason };
+  }
+
+  /**
+   * Leaves the escrow claimed with the error, so it is retried once the claim
+   * goes stale. An expired settlement never landed and is forgotten.
+   */
+  private async fail(escrow: ExecutionEscrow, message: string, expired?: boolean): Promise<EscrowSettlementOutcome> {
+    const { error } = await this.client
+      .from('execution_escrows')
+      .update({
+        settlement_error: message,
+        ...(expired ? { settlement_signature: null, settlement_last_valid_block_height: null } : {})
+      })
+      .eq('id', escrow.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[EscrowWorker] Error saving settlement error:', error);
+    }
+
+    return { escrowId: escrow.id, executionId: escrow.execution_id, status: 'failed', error: message };
+  }
+
+  private getConnection(): Connection {
+    return this.paymentService.getConnection();
+  }
+}
+
+export const createEscrowSettlementWorker = (options: EscrowSettlementWorkerOptions): EscrowSettlementWorker => {
+  return new EscrowSettlementWorker(options);
+};
+
+export default EscrowSettlementWorker;
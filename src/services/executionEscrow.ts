@@ -0,0 +1,166 @@
+import { supabase } from '../lib/supabase';
+import type { ExecutionEscrow } from '../types';
+import type { PaymentCurrency } from '../utils/splToken';
+import type { TransactionSpeed } from '../utils/transactionUtils';
+import { solanaPaymentService } from './solanaPayment';
+import type { PaymentResult, SolanaWallet } from './solanaPayment';
+
+/**
+ * How long a funded execution may run before it is failed and refunded. Covers
+ * the execution worker's retries (three attempts, five minute stale claims).
+ * Set by `EscrowSettlementWorker` when it verifies the deposit.
+ */
+export const DEFAULT_ESCROW_TIMEOUT_SECONDS = 30 * 60;
+
+export interface EscrowExecutionRequest {
+  agentId: string;
+  /** The agent's price; the deposit is checked against the price stored with the escrow */
+  usdAmount: number;
+  inputData: Record<string, unknown>;
+  currency?: PaymentCurrency;
+  speed?: TransactionSpeed;
+  /** Execution opened by an earlier attempt whose deposit never landed, reused on retry */
+  executionId?: string;
+}
+
+export interface EscrowPaymentResult {
+  success: boolean;
+  executionId?: string;
+  escrowId?: string;
+  signature?: string;
+  payment?: PaymentResult;
+  error?: string;
+  errorCode?: string;
+}
+
+interface EscrowRpcResult {
+  success: boolean;
+  execution_id?: string;
+  escrow_id?: string;
+  status?: ExecutionEscrow['status'];
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+/**
+ * Agent execution payments held in escrow. The execution is created first,
+ * the payer deposits into the cluster's escrow wallet, and
+ * `EscrowSettlementWorker` checks the deposit on-chain before the execution
+ * runs, then releases it to the creator once the execution completes or
+ * refunds it when the execution fails, is rejected or times out.
+ */
+export class ExecutionEscrowService {
+  /**
+   * Creates the execution in `payment_required` together with its escrow. The
+   * price, creator wallet and platform fee come from the database.
+   */
+  static async openExecution(payerWallet: string, request: EscrowExecutionRequest): Promise<EscrowPaymentResult> {
+    const { data, error } = await supabase.rpc('escrow_open_execution', {
+      p_agent_id: request.agentId,
+      p_payer_wallet: payerWallet,
+      p_input_data: request.inputData,
+      p_currency: request.currency ?? 'SOL'
+    });
+
+    if (error) {
+      console.error('[Escrow] Error opening execution:', error);
+      return { success: false, error: error.message };
+    }
+
+    const result = data as EscrowRpcResult;
+    return {
+      success: result.success,
+      executionId: result.execution_id,
+      escrowId: result.escrow_id,
+      error: result.error,
+      errorCode: result.error_code
+    };
+  }
+
+  /**
+   * Records a confirmed deposit. The execution runs once the settlement
+   * worker has verified it on-chain. Safe to repeat with the same signature.
+   */
+  static async fundExecution(executionId: string, payment: PaymentResult): Promise<EscrowPaymentResult> {
+    const { data, error } = await supabase.rpc('escrow_fund_execution', {
+      p_execution_id: executionId,
+      p_signature: payment.signature,
+      p_amount: payment.currency === 'USDC' ? payment.tokenAmount : payment.solAmount,
+      p_amount_base_units: payment.amountBaseUnits
+    });
+
+    if (error) {
+      console.error('[Escrow] Error funding execution:', error);
+      return { success: false, executionId, signature: payment.signature, error: error.message };
+    }
+
+    const result = data as EscrowRpcResult;
+    return {
+      success: result.success,
+      executionId,
+      escrowId: result.escrow_id,
+      signature: payment.signature,
+      error: result.error,
+      errorCode: result.error_code
+    };
+  }
+
+  static async getEscrow(executionId: string): Promise<ExecutionEscrow | null> {
+    const { data, error } = await supabase
+      .from('execution_escrows')
+      .select('*')
+      .eq('execution_id', executionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Escrow] Error fetching escrow:', error);
+      return null;
+    }
+
+    return data as ExecutionEscrow | null;
+  }
+
+  /**
+   * Opens the execution (unless `request.executionId` continues an earlier
+   * attempt), deposits the payment and records it. The returned `executionId`
+   * is set whenever an execution exists, so a failed attempt can be retried.
+   * An execution that is never funded is cancelled once its escrow's
+   * `funding_expires_at` passes.
+   */
+  static async payForExecution(wallet: SolanaWallet, request: EscrowExecutionRequest): Promise<EscrowPaymentResult> {
+    let executionId = request.executionId;
+
+    if (!executionId) {
+      const opened = await this.openExecution(wallet.publicKey.toBase58(), request);
+      if (!opened.success || !opened.executionId) {
+        return opened;
+      }
+
+      executionId = opened.executionId;
+    }
+
+    const payment = await solanaPaymentService.createEscrowPaymentTransaction(
+      wallet,
+      request.usdAmount,
+      { escrow_execution_id: executionId },
+      { currency: request.currency, speed: request.speed }
+    );
+
+    if (!payment.success || !payment.signature) {
+      return {
+        success: false,
+        executionId,
+        signature: payment.signature,
+        payment,
+        error: payment.error || 'Payment failed',
+        errorCode: payment.errorCode
+      };
+    }
+
+    const funded = await this.fundExecution(executionId, payment);
+    return { ...funded, payment };
+  }
+}
+
+export const executionEscrowService = ExecutionEscrowService;
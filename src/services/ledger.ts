@@ -0,0 +1,155 @@
+import { supabase } from '../lib/supabase';
+import type { LedgerAccount, LedgerAccountBalance, LedgerJournalEntry, LedgerPosting } from '../types';
+
+export interface LedgerInvariantViolation {
+  check:
+    | 'unbalanced_entry'
+    | 'session_balance'
+    | 'credit_balance'
+    | 'agent_revenue'
+    | 'api_revenue'
+    | 'negative_balance'
+    | 'trial_balance';
+  [detail: string]: string | number | null;
+}
+
+export interface LedgerInvariantReport {
+  balanced: boolean;
+  violations: LedgerInvariantViolation[];
+  journalEntries: number;
+  checkedAt: string;
+  error?: string;
+}
+
+export interface LedgerJournalEntryWithPostings extends LedgerJournalEntry {
+  ledger_postings: LedgerPosting[];
+}
+
+interface LedgerInvariantRpcResult {
+  success: boolean;
+  balanced: boolean;
+  violations: LedgerInvariantViolation[];
+  journal_entries: number;
+  checked_at: string;
+}
+
+/**
+ * Reads the double-entry ledger. Entries are only posted by the database
+ * functions that move money; session, credit and revenue columns are
+ * projections of it.
+ */
+export class LedgerService {
+  static async getAccountBalance(ownerType: LedgerAccount['owner_type'], ownerId = ''): Promise<number> {
+    const { data, error } = await supabase
+      .from('ledger_account_balances')
+      .select('balance')
+      .eq('owner_type', ownerType)
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Ledger] Error fetching balance:', error);
+      return 0;
+    }
+
+    return data ? Number(data.balance) : 0;
+  }
+
+  static async getBalances(ownerType: LedgerAccount['owner_type']): Promise<LedgerAccountBalance[]> {
+    const { data, error } = await supabase
+      .from('ledger_account_balances')
+      .select('*')
+      .eq('owner_type', ownerType)
+      .order('last_posted_at', { ascending: false });
+
+    if (error) {
+      console.error('[Ledger] Error fetching balances:', error);
+      return [];
+    }
+
+    return (data || []) as LedgerAccountBalance[];
+  }
+
+  /** Journal entries posted for a row, e.g. `('x402_session', sessionId)` */
+  static async getEntries(referenceType: string, referenceId: string): Promise<LedgerJournalEntryWithPostings[]> {
+    const { data, error } = await supabase
+      .from('ledger_journal_entries')
+      .select('*, ledger_postings(*)')
+      .eq('reference_type', referenceType)
+      .eq('reference_id', referenceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[Ledger] Error fetching entries:', error);
+      return [];
+    }
+
+    return (data || []) as LedgerJournalEntryWithPostings[];
+  }
+
+  static async getPostings(
+    ownerType: LedgerAccount['owner_type'],
+    ownerId = '',
+    limit = 50
+  ): Promise<LedgerPosting[]> {
+    const { data: account, error: accountError } = await supabase
+      .from('ledger_accounts')
+      .select('id')
+      .eq('owner_type', ownerType)
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (accountError || !account) {
+      if (accountError) console.error('[Ledger] Error fetching account:', accountError);
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('ledger_postings')
+      .select('*')
+      .eq('account_id', account.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[Ledger] Error fetching postings:', error);
+      return [];
+    }
+
+    return (data || []) as LedgerPosting[];
+  }
+
+  /**
+   * Runs `ledger_check_invariants`: every entry balances, the projected
+   * balance columns match the ledger and no prepaid balance is negative.
+   */
+  static async checkInvariants(): Promise<LedgerInvariantReport> {
+    const { data, error } = await supabase.rpc('ledger_check_invariants');
+
+    if (error || !data) {
+      console.error('[Ledger] Error checking invariants:', error);
+      return {
+        balanced: false,
+        violations: [],
+        journalEntries: 0,
+        checkedAt: new Date().toISOString(),
+        error: error?.message || 'Invariant check failed'
+      };
+    }
+
+    const result = data as LedgerInvariantRpcResult;
+
+    if (!result.balanced) {
+      console.warn('[Ledger] Invariant violations:', result.violations);
+    }
+
+    return {
+      balanced: result.balanced,
+      violations: result.violations,
+      journalEntries: Number(result.journal_entries),
+      checkedAt: result.checked_at
+    };
+  }
+}
+
+export const ledgerService = LedgerService;
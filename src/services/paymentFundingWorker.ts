@@ -0,0 +1,686 @@
+import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getActiveCluster, getNetworkConfig, SolanaCluster } from '../lib/network';
+import type { PaymentSplit, SolanaPayRequest, X402AccountRequest, X402FundingRequest, X402Session } from '../types';
+import { getUsdcMint, toTokenBaseUnits, USDC_DECIMALS } from '../utils/splToken';
+import { SolanaPayService } from './solanaPay';
+import { SolanaPaymentService, solanaPaymentService } from './solanaPayment';
+import { X402AccountRequestManager } from './x402AccountRequests';
+import { X402FundingManager } from './x402Funding';
+import { DEFAULT_CHANNEL_DURATION_SECONDS, DEFAULT_DISPUTE_WINDOW_SECONDS } from './x402PaymentChannels';
+
+export interface PaymentFundingOutcome {
+  requestId: string;
+  kind: X402FundingRequest['kind'] | 'solana_pay';
+  status: 'funded' | 'rejected' | 'pending' | 'failed';
+  error?: string;
+}
+
+export interface PaymentFundingWorkerOptions {
+  client?: SupabaseClient;
+  /** Verifies the payments */
+  paymentService?: SolanaPaymentService;
+  cluster?: SolanaCluster;
+  workerId?: string;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  staleClaimSeconds?: number;
+  /** How long a payment may take to show up on-chain before its request is rejected */
+  paymentTimeoutSeconds?: number;
+}
+
+interface FundingRpcResult {
+  success: boolean;
+  error?: string;
+  error_code?: string;
+  [field: string]: unknown;
+}
+
+const DEFAULT_POLL_INTERVAL = 5000; // 5 seconds
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_STALE_CLAIM_SECONDS = 5 * 60; // 5 minutes
+const DEFAULT_PAYMENT_TIMEOUT_SECONDS = 10 * 60; // 10 minutes
+const PAYMENT_PRICE_TOLERANCE = 0.02; // 2% SOL price movement between payment and check
+
+class PaymentNotFoundError extends Error {
+  constructor(signature: string) {
+    super(`Payment ${signature} is not visible on-chain yet`);
+    this.name = 'PaymentNotFoundError';
+  }
+}
+
+const rejection = (error: string, errorCode: string): FundingRpcResult => ({
+  success: false,
+  error,
+  error_code: errorCode
+});
+
+/**
+ * Credits wallet payments reported by browsers once they are visible
+ * on-chain. Claims `x402_funding_requests` and checks each payment's payer,
+ * recipient (the platform wallet, or the escrow wallet for channel deposits)
+ * and amount before calling `x402_fund_session`, `x402_renew_session`,
+ * `x402_top_up_credits` or `x402_open_channel`, which anon callers cannot
+ * run. Also fulfils open Solana Pay requests through
+ * `solana_pay_fulfill_request` once their transfer checks out, and applies
+ * signed `x402_account_requests` (session revokes, credit settings) and
+ * marks `payment_splits` verified once their transaction checks out.
+ *
+ * A payment not found within `paymentTimeoutSeconds` rejects its request.
+ * Runs server-side only, with a `client` created with the service role key.
+ */
+export class PaymentFundingWorker {
+  private client: SupabaseClient;
+  private paymentService: SolanaPaymentService;
+  private solanaPay: SolanaPayService;
+  private cluster: SolanaCluster;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private staleClaimSeconds: number;
+  private paymentTimeoutSeconds: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+
+  constructor(options: PaymentFundingWorkerOptions = {}) {
+    this.client = options.client || supabase;
+    this.paymentService = options.paymentService || solanaPaymentService;
+    this.solanaPay = new SolanaPayService(this.client, this.paymentService);
+    this.cluster = options.cluster ?? getActiveCluster();
+    this.workerId = options.workerId || `funding-${crypto.randomUUID()}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.staleClaimSeconds = options.staleClaimSeconds ?? DEFAULT_STALE_CLAIM_SECONDS;
+    this.paymentTimeoutSeconds = options.paymentTimeoutSeconds ?? DEFAULT_PAYMENT_TIMEOUT_SECONDS;
+  }
+
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    console.log('[FundingWorker] Starting worker:', this.workerId);
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    console.log('[FundingWorker] Stopping worker:', this.workerId);
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('[FundingWorker] Poll failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextPoll(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Processes one batch of funding requests, then one each of open Solana Pay
+   * requests, account requests and pending payment splits
+   */
+  async runOnce(): Promise<PaymentFundingOutcome[]> {
+    const outcomes: PaymentFundingOutcome[] = [];
+
+    for (const request of await this.claimRequests()) {
+      outcomes.push(await this.processRequest(request));
+    }
+
+    for (const request of await this.getOpenSolanaPayRequests()) {
+      outcomes.push(await this.fulfillSolanaPayRequest(request));
+    }
+
+    await this.processAccountRequests();
+    await this.verifyPaymentSplits();
+
+    return outcomes;
+  }
+
+  /**
+   * Marks the pending legs of a split payment verified once every leg reached
+   * its recipient, the recorded payer sent it and the transfer covers the
+   * legs' USD values. Legs that do not check out, or whose transaction is
+   * still missing after `paymentTimeoutSeconds`, are marked failed.
+   */
+  private async verifyPaymentSplits(): Promise<void> {
+    const { data, error } = await this.client
+      .from('payment_splits')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(this.batchSize * 2);
+
+    if (error) {
+      console.error('[FundingWorker] Error fetching payment splits:', error);
+      return;
+    }
+
+    const payments = new Map<string, PaymentSplit[]>();
+    for (const split of (data || []) as PaymentSplit[]) {
+      payments.set(split.transaction_signature, [...(payments.get(split.transaction_signature) ?? []), split]);
+    }
+
+    for (const [signature, legs] of payments) {
+      let status: PaymentSplit['status'];
+      try {
+        status = await this.checkPaymentSplits(signature, legs);
+      } catch (error) {
+        const timedOut = Date.parse(legs[0].created_at) + this.paymentTimeoutSeconds * 1000 < Date.now();
+        if (!timedOut) {
+          continue;
+        }
+
+        console.warn('[FundingWorker] Giving up on split payment', signature, error instanceof Error ? error.message : error);
+        status = 'failed';
+      }
+
+      const { error: updateError } = await this.client
+        .from('payment_splits')
+        .update({ status, verified_at: new Date().toISOString() })
+        .eq('transaction_signature', signature)
+        .eq('status', 'pending');
+
+      if (updateError) {
+        console.error('[FundingWorker] Error saving payment split status:', updateError);
+      }
+    }
+  }
+
+  /** Throws while the transaction cannot be loaded yet */
+  private async checkPaymentSplits(signature: string, legs: PaymentSplit[]): Promise<PaymentSplit['status']> {
+    const { payer_wallet: payer, currency } = legs[0];
+    if (legs.some(leg => leg.payer_wallet !== payer || leg.currency !== currency)) {
+      return 'failed';
+    }
+
+    const { value } = await this.getConnection().getSignatureStatus(signature, { searchTransactionHistory: true });
+    if (!value) {
+      throw new PaymentNotFoundError(signature);
+    }
+
+    if (value.err) {
+      return 'failed';
+    }
+
+    const verification = await this.paymentService.verifySplitPayment(
+      signature,
+      legs.map(leg => ({
+        recipient: leg.recipient_address,
+        role: leg.role,
+        percent: Number(leg.share_percent),
+        amount: Number(leg.amount),
+        rawAmount: String(leg.amount_base_units)
+      })),
+      currency
+    );
+
+    if (!verification.valid) {
+      return 'failed';
+    }
+
+    const recipient = legs[0].recipient_address;
+    const transfer = currency === 'USDC'
+      ? await this.paymentService.verifyTokenTransfer(signature, recipient, getUsdcMint(this.cluster))
+      : await this.paymentService.verifyTransfer(signature, recipient);
+
+    if (!transfer.payers.includes(payer)) {
+      return 'failed';
+    }
+
+    const baseUnits = legs.reduce((total, leg) => total + BigInt(leg.amount_base_units), 0n);
+    const usdAmount = legs.reduce((total, leg) => total + Number(leg.amount_usd ?? 0), 0);
+
+    return await this.coversAmount(currency, baseUnits, usdAmount) ? 'verified' : 'failed';
+  }
+
+  private async processAccountRequests(): Promise<void> {
+    const { data, error } = await this.client
+      .from('x402_account_requests')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(this.batchSize);
+
+    if (error) {
+      console.error('[FundingWorker] Error fetching account requests:', error);
+      return;
+    }
+
+    for (const request of (data || []) as X402AccountRequest[]) {
+      const result = await X402AccountRequestManager.processRequest(request, this.client);
+      console.log('[FundingWorker] Account request', request.id, result.success ? 'applied' : `rejected: ${result.error}`);
+    }
+  }
+
+  private async claimRequests(): Promise<X402FundingRequest[]> {
+    const { data, error } = await this.client.rpc('claim_x402_funding_requests', {
+      p_worker_id: this.workerId,
+      p_limit: this.batchSize,
+      p_stale_after_seconds: this.staleClaimSeconds
+    });
+
+    if (error) {
+      console.error('[FundingWorker] Error claiming funding requests:', error);
+      return [];
+    }
+
+    return (data || []) as X402FundingRequest[];
+  }
+
+  async processRequest(request: X402FundingRequest): Promise<PaymentFundingOutcome> {
+    const outcome = { requestId: request.id, kind: request.kind };
+
+    if (!X402FundingManager.verifyAuthorization(request)) {
+      return this.complete(request, rejection('Funding request is not signed by its wallet', 'INVALID_SIGNATURE'));
+    }
+
+    try {
+      const result = await this.applyFunding(request);
+      return this.complete(request, result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // Gives up on a payment that never showed up, or a request that kept failing
+      if (Date.parse(request.created_at) + this.paymentTimeoutSeconds * 1000 < Date.now()) {
+        return this.complete(request, rejection(message, error instanceof PaymentNotFoundError ? 'PAYMENT_NOT_FOUND' : 'FUNDING_FAILED'));
+      }
+
+      await this.release(request);
+      return { ...outcome, status: 'pending', error: message };
+    }
+  }
+
+  private async applyFunding(request: X402FundingRequest): Promise<FundingRpcResult> {
+    switch (request.kind) {
+      case 'session':
+        return this.fundSession(request);
+      case 'renewal':
+        return this.fundRenewal(request);
+      case 'credits':
+        return this.fundCredits(request);
+      case 'channel':
+        return this.openChannel(request);
+    }
+  }
+
+  private async fundSession(request: X402FundingRequest): Promise<FundingRpcResult> {
+    const session = await this.getSession(request);
+    if (!session) {
+      return rejection('Session not found for this wallet', 'SESSION_NOT_FOUND');
+    }
+
+    if (request.source === 'credits') {
+      if (!request.service_type) {
+        return rejection('Credit funding needs a credit service', 'INVALID_REQUEST');
+      }
+
+      return this.callRpc('x402_fund_session', {
+        p_session_token: session.session_token,
+        p_payment_signature: null,
+        p_credit_service_id: request.service_id,
+        p_credit_service_type: request.service_type
+      });
+    }
+
+    const paid = await this.verifyPayment(request, this.getRecipientWallet(), Number(session.authorized_amount));
+    if (paid) {
+      return paid;
+    }
+
+    return this.callRpc('x402_fund_session', {
+      p_session_token: session.session_token,
+      p_payment_signature: request.payment_signature,
+      p_credit_service_id: null,
+      p_credit_service_type: null
+    });
+  }
+
+  private async fundRenewal(request: X402FundingRequest): Promise<FundingRpcResult> {
+    const session = await this.getSession(request);
+    if (!session) {
+      return rejection('Session not found for this wallet', 'SESSION_NOT_FOUND');
+    }
+
+    const idempotencyKey = request.params.idempotency_key;
+    if (typeof idempotencyKey !== 'string' || !idempotencyKey) {
+      return rejection('Renewals need an idempotency key', 'INVALID_REQUEST');
+    }
+
+    const paid = await this.verifyPayment(request, this.getRecipientWallet(), Number(request.amount));
+    if (paid) {
+      return paid;
+    }
+
+    return this.callRpc('x402_renew_session', {
+      p_session_id: session.id,
+      p_amount: Number(request.amount),
+      p_trigger: String(request.params.trigger ?? 'manual'),
+      p_payment_signature: request.payment_signature,
+      p_idempotency_key: idempotencyKey
+    });
+  }
+
+  private async fundCredits(request: X402FundingRequest): Promise<FundingRpcResult> {
+    if (!request.service_type) {
+      return rejection('Credit top-ups need a credit service', 'INVALID_REQUEST');
+    }
+
+    const paid = await this.verifyPayment(request, this.getRecipientWallet(), Number(request.amount));
+    if (paid) {
+      return paid;
+    }
+
+    return this.callRpc('x402_top_up_credits', {
+      p_wallet_address: request.wallet_address,
+      p_service_id: request.service_id,
+      p_service_type: request.service_type,
+      p_amount: Number(request.amount),
+      p_payment_signature: request.payment_signature
+    });
+  }
+
+  private async openChannel(request: X402FundingRequest): Promise<FundingRpcResult> {
+    const escrowWallet = getNetworkConfig(this.cluster).escrowWallet;
+    const { deposit_base_units, duration_seconds, dispute_window_seconds, settlement_threshold } = request.params;
+
+    let baseUnits: bigint;
+    try {
+      baseUnits = BigInt(deposit_base_units);
+    } catch {
+      return rejection('Channel deposit needs its amount in base units', 'INVALID_REQUEST');
+    }
+
+    if (!request.service_id || !request.service_type) {
+      return rejection('Channels need a service', 'INVALID_REQUEST');
+    }
+
+    const paid = await this.verifyPayment(request, escrowWallet, Number(request.amount), baseUnits);
+    if (paid) {
+      return paid;
+    }
+
+    return this.callRpc('x402_open_channel', {
+      p_payer_wallet: request.wallet_address,
+      p_service_id: request.service_id,
+      p_service_type: request.service_type,
+      p_channel_wallet: escrowWallet,
+      p_currency: request.currency,
+      p_deposit_amount: Number(request.amount),
+      p_deposit_base_units: baseUnits.toString(),
+      p_deposit_signature: request.payment_signature,
+      p_duration_seconds: Number(duration_seconds ?? DEFAULT_CHANNEL_DURATION_SECONDS),
+      p_dispute_window_seconds: Number(dispute_window_seconds ?? DEFAULT_DISPUTE_WINDOW_SECONDS),
+      p_settlement_threshold: Number(settlement_threshold ?? 1)
+    });
+  }
+
+  /**
+   * Checks the request's payment on-chain: it must have paid `recipient`,
+   * come from the requesting wallet and cover `usdAmount` (and at least
+   * `minBaseUnits`, when given). Returns the rejection, or null if it checks
+   * out; throws while the payment cannot be loaded yet.
+   */
+  private async verifyPayment(
+    request: X402FundingRequest,
+    recipient: string,
+    usdAmount: number,
+    minBaseUnits?: bigint
+  ): Promise<FundingRpcResult | null> {
+    const signature = request.payment_signature;
+    if (!signature) {
+      return rejection('A payment signature is required', 'PAYMENT_REQUIRED');
+    }
+
+    const { value } = await this.getConnection().getSignatureStatus(signature, { searchTransactionHistory: true });
+    if (!value) {
+      throw new PaymentNotFoundError(signature);
+    }
+
+    if (value.err) {
+      return rejection('Payment failed on-chain', 'PAYMENT_FAILED');
+    }
+
+    const transfer = request.currency === 'USDC'
+      ? await this.paymentService.verifyTokenTransfer(signature, recipient, getUsdcMint(this.cluster))
+      : await this.paymentService.verifyTransfer(signature, recipient);
+
+    if (transfer.slot === undefined) {
+      // Not parsed yet or the RPC call failed, try again on the next claim
+      throw new Error(transfer.error || 'Could not load the payment');
+    }
+
+    if (!transfer.valid) {
+      return rejection(transfer.error || `Payment did not pay ${recipient}`, 'NO_TRANSFER_TO_RECIPIENT');
+    }
+
+    if (!transfer.payers.includes(request.wallet_address)) {
+      return rejection('Payment was not made by the requesting wallet', 'PAYER_MISMATCH');
+    }
+
+    const received = 'rawAmount' in transfer ? BigInt(transfer.rawAmount) : BigInt(transfer.lamports);
+
+    if (minBaseUnits !== undefined && received < minBaseUnits) {
+      return rejection(`Payment of ${received} is less than the recorded ${minBaseUnits}`, 'INSUFFICIENT_PAYMENT');
+    }
+
+    if (!await this.coversAmount(request.currency, received, usdAmount)) {
+      return rejection(`Payment does not cover $${usdAmount}`, 'INSUFFICIENT_PAYMENT');
+    }
+
+    return null;
+  }
+
+  private async coversAmount(currency: 'SOL' | 'USDC', amount: bigint, usdAmount: number): Promise<boolean> {
+    if (currency === 'USDC') {
+      return amount >= toTokenBaseUnits(usdAmount, USDC_DECIMALS);
+    }
+
+    const solUsd = await this.paymentService.getSolPrice();
+    return (Number(amount) / LAMPORTS_PER_SOL) * solUsd >= usdAmount * (1 - PAYMENT_PRICE_TOLERANCE);
+  }
+
+  /** The request's session, if it belongs to the requesting wallet */
+  private async getSession(request: X402FundingRequest): Promise<X402Session | null> {
+    if (!request.session_id) {
+      return null;
+    }
+
+    const { data, error } = await this.client
+      .from('x402_payment_sessions')
+      .select('*')
+      .eq('id', request.session_id)
+      .eq('wallet_address', request.wallet_address)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load session: ${error.message}`);
+    }
+
+    return data as X402Session | null;
+  }
+
+  private async callRpc(name: string, params: Record<string, unknown>): Promise<FundingRpcResult> {
+    const { data, error } = await this.client.rpc(name, params);
+
+    if (error) {
+      throw new Error(`${name} failed: ${error.message}`);
+    }
+
+    return data as FundingRpcResult;
+  }
+
+  private async complete(request: X402FundingRequest, result: FundingRpcResult): Promise<PaymentFundingOutcome> {
+    const status = result.success ? 'funded' : 'rejected';
+
+    const { error } = await this.client
+      .from('x402_funding_requests')
+      .update({
+        status,
+        result,
+        error: result.success ? null : result.error || 'Funding rejected',
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('[FundingWorker] Error saving funding request:', error);
+      return { requestId: request.id, kind: request.kind, status: 'failed', error: error.message };
+    }
+
+    if (result.success) {
+      console.log('[FundingWorker] Funded', request.kind, request.id);
+    } else {
+      console.warn('[FundingWorker] Rejected', request.kind, request.id, result.error_code, result.error);
+    }
+
+    return { requestId: request.id, kind: request.kind, status, error: result.success ? undefined : result.error };
+  }
+
+  /** Makes a request whose payment is not visible yet claimable on the next poll */
+  private async release(request: X402FundingRequest): Promise<void> {
+    const { error } = await this.client
+      .from('x402_funding_requests')
+      .update({ worker_id: null, claimed_at: null })
+      .eq('id', request.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[FundingWorker] Error releasing funding request:', error);
+    }
+  }
+
+  /** Unpaid requests, including expired ones whose payment may still land */
+  private async getOpenSolanaPayRequests(): Promise<SolanaPayRequest[]> {
+    const { data, error } = await this.client
+      .from('solana_pay_requests')
+      .select('*')
+      .in('status', ['pending', 'expired'])
+      .gt('expires_at', new Date(Date.now() - this.paymentTimeoutSeconds * 1000).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(this.batchSize);
+
+    if (error) {
+      console.error('[FundingWorker] Error fetching Solana Pay requests:', error);
+      return [];
+    }
+
+    return (data || []) as SolanaPayRequest[];
+  }
+
+  /**
+   * Fulfils a Solana Pay request with the first transfer carrying its
+   * reference that paid the platform wallet (the escrow wallet for agent
+   * executions) enough. The request row is
+   * written by the browser, so its recipient, token and USD value are
+   * checked here too.
+   */
+  async fulfillSolanaPayRequest(row: SolanaPayRequest): Promise<PaymentFundingOutcome> {
+    const outcome = { requestId: row.id, kind: 'solana_pay' as const };
+
+    const invalid = await this.checkSolanaPayRequest(row);
+    if (invalid) {
+      return { ...outcome, status: 'rejected', error: invalid };
+    }
+
+    const request = SolanaPayService.toTransferRequest(row);
+
+    try {
+      for (const signature of await this.solanaPay.findReference(row.reference)) {
+        const transfer = await this.solanaPay.validateTransfer(request, signature);
+        if (!transfer.valid || !transfer.payer) {
+          console.warn('[FundingWorker] Ignoring Solana Pay transaction', signature, transfer.error);
+          continue;
+        }
+
+        if (!await this.coversAmount(row.currency, BigInt(transfer.receivedBaseUnits), Number(row.amount_usd))) {
+          console.warn('[FundingWorker] Ignoring Solana Pay transaction', signature, 'below the requested USD amount');
+          continue;
+        }
+
+        const result = await this.solanaPay.fulfill(request, signature, transfer.payer, transfer.receivedBaseUnits);
+        if (result.success) {
+          return { ...outcome, status: 'funded' };
+        }
+
+        if (result.errorCode !== 'SIGNATURE_ALREADY_USED') {
+          return { ...outcome, status: 'failed', error: result.error };
+        }
+      }
+    } catch (error) {
+      // Reference not indexed yet or RPC hiccup, try again next poll
+      return { ...outcome, status: 'pending', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    return { ...outcome, status: 'pending' };
+  }
+
+  private async checkSolanaPayRequest(row: SolanaPayRequest): Promise<string | null> {
+    if (row.recipient !== SolanaPayService.getRecipient(row.purpose, this.cluster)) {
+      return row.purpose === 'agent_execution' ? 'Request does not pay the escrow wallet' : 'Request does not pay the platform wallet';
+    }
+
+    const expectedToken = row.currency === 'USDC' ? getUsdcMint(this.cluster).toBase58() : null;
+    if ((row.spl_token ?? null) !== expectedToken) {
+      return 'Request asks for the wrong token';
+    }
+
+    if (row.purpose === 'agent_execution') {
+      const { data: agent, error } = await this.client
+        .from('agents')
+        .select('price')
+        .eq('id', String(row.params.agent_id))
+        .maybeSingle();
+
+      if (error || !agent) {
+        return 'Agent not found';
+      }
+
+      if (Number(row.amount_usd) < Number(agent.price || 0)) {
+        return `Request is below the agent's price of $${agent.price}`;
+      }
+    }
+
+    return null;
+  }
+
+  private getRecipientWallet(): string {
+    return getNetworkConfig(this.cluster).recipientWallet;
+  }
+
+  private getConnection(): Connection {
+    return this.paymentService.getConnection();
+  }
+}
+
+export const createPaymentFundingWorker = (options?: PaymentFundingWorkerOptions): PaymentFundingWorker => {
+  return new PaymentFundingWorker(options);
+};
+
+export default PaymentFundingWorker;
@@ -0,0 +1,627 @@
+import { Connection, LAMPORTS_PER_SOL, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getActiveCluster, getNetworkConfig, SolanaCluster } from '../lib/network';
+import { fromTokenBaseUnits, USDC_DECIMALS } from '../utils/splToken';
+
+export type PaymentRecordSource =
+  | 'agent_payments'
+  | 'payment_transactions'
+  | 'transaction_logs'
+  | 'x402_payment_credits'
+  | 'x402_payment_sessions';
+
+export type ReconciliationIssueType =
+  | 'unrecorded_transfer'
+  | 'missing_transfer'
+  | 'multiple_records'
+  | 'status_mismatch';
+
+/** A row in one of the tables that records a payment by its signature */
+export interface PaymentRecord {
+  source: PaymentRecordSource;
+  id: string;
+  signature: string;
+  walletAddress: string | null;
+  status: string | null;
+  amountSol: number | null;
+  amountUsd: number | null;
+  createdAt: string | null;
+}
+
+/** What the platform wallets received in one transaction */
+export interface PlatformTransfer {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  failed: boolean;
+  lamports: number;
+  /** UI amount of the configured USDC mint */
+  tokenAmount: number;
+  payers: string[];
+}
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  signature: string;
+  recordSource?: PaymentRecordSource;
+  recordId?: string;
+  walletAddress?: string | null;
+  amountSol?: number | null;
+  amountUsd?: number | null;
+  tokenAmount?: number | null;
+  blockTime?: number | null;
+  /** What finance should look at, in plain words */
+  description: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReconciliationReport {
+  runId: string | null;
+  cluster: SolanaCluster;
+  wallets: string[];
+  windowStart: string | null;
+  windowEnd: string;
+  signaturesScanned: number;
+  recordsChecked: number;
+  matchedCount: number;
+  issues: ReconciliationIssue[];
+}
+
+export interface PaymentReconcilerOptions {
+  /** Cluster to reconcile; pick 'localnet' to run against `solana-test-validator` */
+  cluster?: SolanaCluster;
+  /** Defaults to the cluster's primary RPC endpoint */
+  connection?: Connection;
+  /** Pass a service role client when running outside the browser */
+  client?: SupabaseClient;
+  /** Defaults to the cluster's recipient, fee and escrow wallets */
+  wallets?: string[];
+  /** Only transfers and records at or after this time; everything when omitted */
+  since?: Date;
+  until?: Date;
+  /** Stop scanning a wallet's history after this many signatures */
+  maxSignatures?: number;
+  /** Write the run and its issues to `payment_reconciliation_runs` / `_issues` */
+  persist?: boolean;
+}
+
+const SIGNATURE_PAGE_SIZE = 1000;
+const DEFAULT_MAX_SIGNATURES = 10000;
+const TRANSACTION_BATCH_SIZE = 25;
+const RECORD_PAGE_SIZE = 1000;
+
+// Record statuses that do not claim money arrived
+const NON_PAYMENT_STATUSES = new Set(['failed', 'expired', 'rejected', 'insufficient']);
+const PENDING_STATUSES = new Set(['pending']);
+
+/**
+ * Totals what `wallets` received in a parsed transaction: system transfers
+ * (including inner instructions) and token balance increases of `usdcMint`
+ * on accounts the wallets own.
+ */
+export function summarizePlatformTransfer(
+  signature: string,
+  transaction: ParsedTransactionWithMeta,
+  wallets: Set<string>,
+  usdcMint: string | null
+): PlatformTransfer {
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+
+  let lamports = 0;
+  const payers = new Set<string>();
+
+  for (const instruction of instructions) {
+    if (!('parsed' in instruction) || instruction.program !== 'system') {
+      continue;
+    }
+
+    const { type, info } = instruction.parsed;
+    if ((type === 'transfer' || type === 'transferWithSeed') && wallets.has(info.destination)) {
+      lamports += Number(info.lamports);
+      payers.add(info.source);
+    }
+  }
+
+  let tokenBaseUnits = 0n;
+  let decimals = USDC_DECIMALS;
+
+  if (usdcMint) {
+    const pre = new Map<number, bigint>();
+    for (const balance of transaction.meta?.preTokenBalances || []) {
+      if (balance.mint === usdcMint) {
+        pre.set(balance.accountIndex, BigInt(balance.uiTokenAmount.amount));
+      }
+    }
+
+    for (const balance of transaction.meta?.postTokenBalances || []) {
+      if (balance.mint !== usdcMint || !balance.owner || !wallets.has(balance.owner)) continue;
+
+      const delta = BigInt(balance.uiTokenAmount.amount) - (pre.get(balance.accountIndex) ?? 0n);
+      if (delta > 0n) {
+        tokenBaseUnits += delta;
+        decimals = balance.uiTokenAmount.decimals;
+      }
+    }
+  }
+
+  return {
+    signature,
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? null,
+    failed: !!transaction.meta?.err,
+    lamports,
+    tokenAmount: fromTokenBaseUnits(tokenBaseUnits, decimals),
+    payers: Array.from(payers)
+  };
+}
+
+const receivedSomething = (transfer: PlatformTransfer) => !transfer.failed && (transfer.lamports > 0 || transfer.tokenAmount > 0);
+
+const toIso = (blockTime: number | null | undefined) => (blockTime ? new Date(blockTime * 1000).toISOString() : null);
+
+/**
+ * Cross-checks the platform wallets' on-chain history against every table
+ * that records a payment: each incoming transfer should be claimed by
+ * exactly one record, and each record that claims a payment should point at
+ * a confirmed transfer. `transaction_logs` only counts as the record when no
+ * other table claims the signature, since every payment is logged there too.
+ */
+export class PaymentReconciler {
+  private cluster: SolanaCluster;
+  private connection: Connection;
+  private client: SupabaseClient;
+  private wallets: string[];
+  private usdcMint: string | null;
+  private since?: Date;
+  private until?: Date;
+  private maxSignatures: number;
+  private persist: boolean;
+
+  constructor(options: PaymentReconcilerOptions = {}) {
+    this.cluster = options.cluster ?? getActiveCluster();
+    const network = getNetworkConfig(this.cluster);
+
+    this.connection = options.connection ?? new Connection(network.rpcEndpoints[0], 'confirmed');
+    this.client = options.client || supabase;
+    this.wallets = Array.from(new Set(options.wallets ?? [network.recipientWallet, network.feeWallet, network.escrowWallet]));
+    this.usdcMint = network.usdcMint;
+    this.since = options.since;
+    this.until = options.until;
+    this.maxSignatures = options.maxSignatures ?? DEFAULT_MAX_SIGNATURES;
+    this.persist = options.persist ?? false;
+  }
+
+  async run(): Promise<ReconciliationReport> {
+    const windowEnd = (this.until ?? new Date()).toISOString();
+    const report: ReconciliationReport = {
+      runId: null,
+      cluster: this.cluster,
+      wallets: this.wallets,
+      windowStart: this.since?.toISOString() ?? null,
+      windowEnd,
+      signaturesScanned: 0,
+      recordsChecked: 0,
+      matchedCount: 0,
+      issues: []
+    };
+
+    console.log('[Reconciliation] Starting run on', this.cluster, 'for', this.wallets);
+
+    if (this.persist) {
+      report.runId = await this.startRun(report);
+    }
+
+    try {
+      const transfers = await this.scanTransfers();
+      const records = await this.loadRecords();
+
+      report.signaturesScanned = transfers.size;
+      report.recordsChecked = records.length;
+
+      const matched = await this.match(transfers, records, report.issues);
+      report.matchedCount = matched;
+
+      console.log('[Reconciliation] Matched', matched, 'payments,', report.issues.length, 'issues');
+
+      if (report.runId) {
+        await this.finishRun(report);
+      }
+
+      return report;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[Reconciliation] Run failed:', message);
+
+      if (report.runId) {
+        await this.client
+          .from('payment_reconciliation_runs')
+          .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+          .eq('id', report.runId);
+      }
+
+      throw error;
+    }
+  }
+
+  /** Every transaction in the window that touched a platform wallet, summarized */
+  async scanTransfers(): Promise<Map<string, PlatformTransfer>> {
+    const signatures = new Set<string>();
+
+    for (const wallet of this.wallets) {
+      for (const signature of await this.listSignatures(new PublicKey(wallet))) {
+        signatures.add(signature);
+      }
+    }
+
+    return this.fetchTransfers(Array.from(signatures));
+  }
+
+  private async listSignatures(address: PublicKey): Promise<string[]> {
+    const sinceSeconds = this.since ? this.since.getTime() / 1000 : null;
+    const untilSeconds = this.until ? this.until.getTime() / 1000 : null;
+    const signatures: string[] = [];
+    let before: string | undefined;
+
+    while (signatures.length < this.maxSignatures) {
+      const page = await this.connection.getSignaturesForAddress(address, { before, limit: SIGNATURE_PAGE_SIZE }, 'confirmed');
+
+      for (const info of page) {
+        if (sinceSeconds !== null && info.blockTime && info.blockTime < sinceSeconds) {
+          return signatures;
+        }
+        if (untilSeconds !== null && info.blockTime && info.blockTime > untilSeconds) {
+          continue;
+        }
+        signatures.push(info.signature);
+      }
+
+      if (page.length < SIGNATURE_PAGE_SIZE) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    if (signatures.length >= this.maxSignatures) {
+      console.warn('[Reconciliation] Stopped scanning', address.toBase58(), 'after', this.maxSignatures, 'signatures');
+    }
+
+    return signatures;
+  }
+
+  private async fetchTransfers(signatures: string[]): Promise<Map<string, PlatformTransfer>> {
+    const wallets = new Set(this.wallets);
+    const transfers = new Map<string, PlatformTransfer>();
+
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+      const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+      const transactions = await this.connection.getParsedTransactions(batch, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+
+      transactions.forEach((transaction, index) => {
+        if (transaction) {
+          transfers.set(batch[index], summarizePlatformTransfer(batch[index], transaction, wallets, this.usdcMint));
+        }
+      });
+    }
+
+    return transfers;
+  }
+
+  /** Rows from every payment table that carry a signature, in the window */
+  async loadRecords(): Promise<PaymentRecord[]> {
+    const [agentPayments, paymentTransactions, logs, credits, sessions] = await Promise.all([
+      this.loadTable('agent_payments', 'id, transaction_signature, wallet_address, status, amount_sol, created_at', 'transaction_signature', 'created_at'),
+      this.loadTable('payment_transactions', 'id, transaction_signature, wallet_address, status, amount_usdc, created_at', 'transaction_signature', 'created_at'),
+      this.loadTable('transaction_logs', 'id, signature, wallet_address, status, amount_sol, amount_usd, created_at', 'signature', 'created_at'),
+      this.loadTable('x402_payment_credits', 'id, last_topup_tx, wallet_address, last_topup_amount, last_topup_at', 'last_topup_tx', 'last_topup_at'),
+      this.loadTable('x402_payment_sessions', 'id, initial_payment_signature, wallet_address, status, authorized_amount, created_at', 'initial_payment_signature', 'created_at')
+    ]);
+
+    const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+    return [
+      ...agentPayments.map(row => ({
+        source: 'agent_payments' as const,
+        id: String(row.id),
+        signature: String(row.transaction_signature),
+        walletAddress: row.wallet_address as string | null,
+        status: row.status as string | null,
+        amountSol: toNumber(row.amount_sol),
+        amountUsd: null,
+        createdAt: row.created_at as string | null
+      })),
+      ...paymentTransactions.map(row => ({
+        source: 'payment_transactions' as const,
+        id: String(row.id),
+        signature: String(row.transaction_signature),
+        walletAddress: row.wallet_address as string | null,
+        status: row.status as string | null,
+        amountSol: null,
+        amountUsd: toNumber(row.amount_usdc),
+        createdAt: row.created_at as string | null
+      })),
+      ...logs.map(row => ({
+        source: 'transaction_logs' as const,
+        id: String(row.id),
+        signature: String(row.signature),
+        walletAddress: row.wallet_address as string | null,
+        status: row.status as string | null,
+        amountSol: toNumber(row.amount_sol),
+        amountUsd: toNumber(row.amount_usd),
+        createdAt: row.created_at as string | null
+      })),
+      ...credits.map(row => ({
+        source: 'x402_payment_credits' as const,
+        id: String(row.id),
+        signature: String(row.last_topup_tx),
+        walletAddress: row.wallet_address as string | null,
+        status: null,
+        amountSol: null,
+        amountUsd: toNumber(row.last_topup_amount),
+        createdAt: row.last_topup_at as string | null
+      })),
+      ...sessions.map(row => ({
+        source: 'x402_payment_sessions' as const,
+        id: String(row.id),
+        signature: String(row.initial_payment_signature),
+        walletAddress: row.wallet_address as string | null,
+        // The session's own status is about its budget, not the payment
+        status: null,
+        amountSol: null,
+        amountUsd: toNumber(row.authorized_amount),
+        createdAt: row.created_at as string | null
+      }))
+    ];
+  }
+
+  private async loadTable(
+    table: PaymentRecordSource,
+    columns: string,
+    signatureColumn: string,
+    timeColumn: string
+  ): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    for (let from = 0; ; from += RECORD_PAGE_SIZE) {
+      let query = this.client
+        .from(table)
+        .select(columns)
+        .not(signatureColumn, 'is', null);
+
+      if (this.since) {
+        query = query.gte(timeColumn, this.since.toISOString());
+      }
+      if (this.until) {
+        query = query.lte(timeColumn, this.until.toISOString());
+      }
+
+      const { data, error } = await query.order(timeColumn, { ascending: true }).range(from, from + RECORD_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load ${table}: ${error.message}`);
+      }
+
+      const page = (data || []) as unknown as Record<string, unknown>[];
+      rows.push(...page);
+
+      if (page.length < RECORD_PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  private async match(
+    transfers: Map<string, PlatformTransfer>,
+    records: PaymentRecord[],
+    issues: ReconciliationIssue[]
+  ): Promise<number> {
+    const bySignature = new Map<string, PaymentRecord[]>();
+    for (const record of records) {
+      bySignature.set(record.signature, [...(bySignature.get(record.signature) ?? []), record]);
+    }
+
+    let matched = 0;
+
+    for (const transfer of transfers.values()) {
+      // Outgoing payouts, refunds and failed attempts move no money in
+      if (!receivedSomething(transfer)) continue;
+
+      if (this.checkTransfer(transfer, bySignature.get(transfer.signature) ?? [], issues)) {
+        matched++;
+      }
+    }
+
+    // Records whose signature did not show up in the scanned history: either
+    // outside the window or never paid a platform wallet
+    const unseen = Array.from(bySignature.keys()).filter(signature => {
+      const transfer = transfers.get(signature);
+      return !transfer || !receivedSomething(transfer);
+    });
+    const claiming = unseen.filter(signature => bySignature.get(signature)!.some(record => !NON_PAYMENT_STATUSES.has(record.status ?? '')));
+    const lookedUp = await this.fetchTransfers(claiming.filter(signature => !transfers.has(signature)));
+
+    for (const signature of claiming) {
+      const transfer = transfers.get(signature) ?? lookedUp.get(signature);
+      const signatureRecords = bySignature.get(signature)!;
+
+      if (transfer && receivedSomething(transfer)) {
+        if (this.checkTransfer(transfer, signatureRecords, issues)) {
+          matched++;
+        }
+        continue;
+      }
+
+      for (const record of signatureRecords.filter(record => !NON_PAYMENT_STATUSES.has(record.status ?? ''))) {
+        issues.push({
+          type: 'missing_transfer',
+          signature,
+          recordSource: record.source,
+          recordId: record.id,
+          walletAddress: record.walletAddress,
+          amountSol: record.amountSol,
+          amountUsd: record.amountUsd,
+          blockTime: transfer?.blockTime,
+          description: !transfer
+            ? `${record.source} record has no confirmed transaction on-chain`
+            : transfer.failed
+              ? `${record.source} record points at a transaction that failed on-chain`
+              : `${record.source} record points at a transaction that paid no platform wallet`,
+          details: { recordStatus: record.status, recordedAt: record.createdAt }
+        });
+      }
+    }
+
+    return matched;
+  }
+
+  /** Checks one incoming transfer against its records; true when it matched cleanly */
+  private checkTransfer(transfer: PlatformTransfer, records: PaymentRecord[], issues: ReconciliationIssue[]): boolean {
+    const base = {
+      signature: transfer.signature,
+      amountSol: transfer.lamports / LAMPORTS_PER_SOL,
+      tokenAmount: transfer.tokenAmount,
+      blockTime: transfer.blockTime,
+      walletAddress: transfer.payers[0] ?? null
+    };
+
+    if (records.length === 0) {
+      issues.push({
+        ...base,
+        type: 'unrecorded_transfer',
+        description: 'Transfer to a platform wallet with no payment record',
+        details: { payers: transfer.payers, slot: transfer.slot }
+      });
+      return false;
+    }
+
+    const claims = records.filter(record => record.source !== 'transaction_logs');
+
+    if (claims.length > 1) {
+      issues.push({
+        ...base,
+        type: 'multiple_records',
+        recordSource: claims[0].source,
+        recordId: claims[0].id,
+        description: `Transfer is claimed by ${claims.length} records`,
+        details: { records: claims.map(record => ({ source: record.source, id: record.id, status: record.status })) }
+      });
+      return false;
+    }
+
+    const record = claims[0] ?? records[0];
+    const status = record.status ?? '';
+
+    if (NON_PAYMENT_STATUSES.has(status) || PENDING_STATUSES.has(status)) {
+      issues.push({
+        ...base,
+        type: 'status_mismatch',
+        recordSource: record.source,
+        recordId: record.id,
+        amountUsd: record.amountUsd,
+        description: `${record.source} record is ${status} but the transfer confirmed`,
+        details: { recordStatus: status, recordedAt: record.createdAt }
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async startRun(report: ReconciliationReport): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('payment_reconciliation_runs')
+      .insert({
+        cluster: report.cluster,
+        wallets: report.wallets,
+        window_start: report.windowStart,
+        window_end: report.windowEnd,
+        status: 'running'
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('[Reconciliation] Error recording run:', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
+  private async finishRun(report: ReconciliationReport): Promise<void> {
+    if (report.issues.length > 0) {
+      const { error } = await this.client.from('payment_reconciliation_issues').insert(
+        report.issues.map(issue => ({
+          run_id: report.runId,
+          issue_type: issue.type,
+          signature: issue.signature,
+          record_source: issue.recordSource ?? null,
+          record_id: issue.recordId ?? null,
+          wallet_address: issue.walletAddress ?? null,
+          amount_sol: issue.amountSol ?? null,
+          amount_usd: issue.amountUsd ?? null,
+          token_amount: issue.tokenAmount ?? null,
+          block_time: toIso(issue.blockTime),
+          details: { description: issue.description, ...issue.details }
+        }))
+      );
+
+      if (error) {
+        console.error('[Reconciliation] Error recording issues:', error);
+      }
+    }
+
+    const { error } = await this.client
+      .from('payment_reconciliation_runs')
+      .update({
+        signatures_scanned: report.signaturesScanned,
+        records_checked: report.recordsChecked,
+        matched_count: report.matchedCount,
+        issue_count: report.issues.length,
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', report.runId);
+
+    if (error) {
+      console.error('[Reconciliation] Error completing run:', error);
+    }
+  }
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One line per issue, for finance to work through in a spreadsheet */
+export function reconciliationReportToCsv(report: ReconciliationReport): string {
+  const header = ['issue_type', 'signature', 'record_source', 'record_id', 'wallet_address', 'amount_sol', 'amount_usd', 'token_amount', 'block_time', 'description'];
+
+  const rows = report.issues.map(issue => [
+    issue.type,
+    issue.signature,
+    issue.recordSource,
+    issue.recordId,
+    issue.walletAddress,
+    issue.amountSol,
+    issue.amountUsd,
+    issue.tokenAmount,
+    toIso(issue.blockTime),
+    issue.description
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export const createPaymentReconciler = (options?: PaymentReconcilerOptions): PaymentReconciler => {
+  return new PaymentReconciler(options);
+};
+
+export default PaymentReconciler;
@@ -0,0 +1,302 @@
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { supabase } from '../lib/supabase';
+import type { PriceData } from './solPriceOracle';
+
+export interface PriceQuote {
+  id: string;
+  usdAmount: number;
+  solAmount: number;
+  /** Minimum lamports the payment has to transfer, as a decimal string */
+  lamports: string;
+  /** USD per SOL, rounded to 6 decimals like `price_quotes.conversion_rate` */
+  rate: number;
+  source: string;
+  issuedAt: number;
+  expiresAt: number;
+  /** Base58 public key that signed the quote */
+  signer: string;
+  /** Base58 ed25519 signature over `buildQuotePayload` */
+  signature: string;
+}
+
+export type PriceQuoteErrorCode =
+  | 'QUOTE_NOT_FOUND'
+  | 'QUOTE_INVALID_SIGNATURE'
+  | 'QUOTE_UNTRUSTED_SIGNER'
+  | 'QUOTE_EXPIRED'
+  | 'QUOTE_AMOUNT_MISMATCH'
+  | 'QUOTE_ALREADY_USED';
+
+export interface PriceQuoteCheck {
+  valid: boolean;
+  error?: string;
+  errorCode?: PriceQuoteErrorCode;
+}
+
+export interface PriceQuoteServiceOptions {
+  /** Key quotes are signed with; only the quote server has one */
+  signer?: Keypair;
+  /**
+   * Signers whose quotes are accepted, VITE_PRICE_QUOTE_SIGNERS by default.
+   * Every quote is rejected while none are configured.
+   */
+  trustedSigners?: string[];
+  ttlMs?: number;
+  /** Quote server browsers request quotes from, VITE_PRICE_QUOTE_URL by default */
+  quoteUrl?: string;
+  /** Service-role client of the quote server; defaults to the browser client */
+  client?: SupabaseClient;
+}
+
+const DEFAULT_QUOTE_TTL = 60000; // 1 minute
+const RATE_DECIMALS = 6;
+
+const addressList = (value: string | undefined) =>
+  (value || '').split(',').map(address => address.trim()).filter(Boolean);
+
+interface PriceQuoteRow {
+  id: string;
+  usd_amount: number | string;
+  sol_amount: number | string;
+  lamports: number | string;
+  conversion_rate: number | string;
+  price_source: string;
+  signer: string;
+  signature: string;
+  status: 'open' | 'used';
+  transaction_signature: string | null;
+  wallet_address: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+/** Everything a quote locks, in a form that survives a round trip through numeric columns */
+export function buildQuotePayload(quote: Pick<PriceQuote, 'id' | 'usdAmount' | 'lamports' | 'rate' | 'expiresAt'>): Uint8Array {
+  return new TextEncoder().encode(
+    [
+      'price-quote:v1',
+      quote.id,
+      quote.usdAmount.toFixed(6),
+      BigInt(quote.lamports).toString(),
+      quote.rate.toFixed(RATE_DECIMALS),
+      quote.expiresAt
+    ].join('|')
+  );
+}
+
+const fromRow = (row: PriceQuoteRow): PriceQuote => ({
+  id: row.id,
+  usdAmount: Number(row.usd_amount),
+  solAmount: Number(row.sol_amount),
+  lamports: BigInt(row.lamports).toString(),
+  rate: Number(row.conversion_rate),
+  source: row.price_source,
+  issuedAt: new Date(row.created_at).getTime(),
+  expiresAt: new Date(row.expires_at).getTime(),
+  signer: row.signer,
+  signature: row.signature
+});
+
+/**
+ * Issues signed, time-limited SOL quotes so the amount shown to the user is
+ * the amount the transaction sends and the amount verification expects.
+ * Quotes are signed and stored in `price_quotes` by the quote server with its
+ * configured key; browsers request them with `requestQuote`. Only quotes from
+ * the pinned signers are accepted, and the signature makes any later change
+ * to a stored quote detectable.
+ */
+export class PriceQuoteService {
+  private signer: Keypair | null;
+  private trustedSigners: Set<string>;
+  private ttlMs: number;
+  private quoteUrl: string | undefined;
+  private client: SupabaseClient;
+
+  constructor(options: PriceQuoteServiceOptions = {}) {
+    this.signer = options.signer ?? null;
+    this.trustedSigners = new Set(options.trustedSigners ?? addressList(import.meta.env.VITE_PRICE_QUOTE_SIGNERS));
+    this.ttlMs = options.ttlMs ?? DEFAULT_QUOTE_TTL;
+    this.quoteUrl = options.quoteUrl ?? import.meta.env.VITE_PRICE_QUOTE_URL;
+    this.client = options.client ?? supabase;
+  }
+
+  /**
+   * Locks `usdAmount` at the oracle price in `priceData`. Runs on the quote
+   * server, which answers `requestQuote` with the result.
+   */
+  async issueQuote(priceData: PriceData, usdAmount: number, walletAddress?: string): Promise<PriceQuote> {
+    if (!this.signer) {
+      throw new Error('Price quotes can only be issued by the quote server');
+    }
+
+    const rate = Number(priceData.solUsd.toFixed(RATE_DECIMALS));
+    const lamports = BigInt(Math.ceil((usdAmount / rate) * LAMPORTS_PER_SOL));
+    const issuedAt = Date.now();
+
+    const unsigned = {
+      id: crypto.randomUUID(),
+      usdAmount,
+      solAmount: Number(lamports) / LAMPORTS_PER_SOL,
+      lamports: lamports.toString(),
+      rate,
+      source: priceData.source,
+      issuedAt,
+      expiresAt: issuedAt + this.ttlMs,
+      signer: this.signer.publicKey.toBase58()
+    };
+
+    const quote: PriceQuote = {
+      ...unsigned,
+      signature: bs58.encode(nacl.sign.detached(buildQuotePayload(unsigned), this.signer.secretKey))
+    };
+
+    const { error } = await this.client.from('price_quotes').insert({
+      id: quote.id,
+      usd_amount: quote.usdAmount,
+      sol_amount: quote.solAmount,
+      lamports: quote.lamports,
+      conversion_rate: quote.rate,
+      price_source: quote.source,
+      signer: quote.signer,
+      signature: quote.signature,
+      wallet_address: walletAddress ?? null,
+      expires_at: new Date(quote.expiresAt).toISOString()
+    });
+
+    if (error) {
+      throw new Error(`Failed to store price quote: ${error.message}`);
+    }
+
+    console.log('[PriceQuote] Issued quote', quote.id, quote.solAmount, 'SOL at', quote.rate);
+
+    return quote;
+  }
+
+  /**
+   * Asks the quote server for a quote (`POST { usdAmount, walletAddress }`)
+   * and checks it before it is shown.
+   */
+  async requestQuote(usdAmount: number, walletAddress?: string): Promise<PriceQuote> {
+    if (!this.quoteUrl) {
+      throw new Error('No price quote server is configured');
+    }
+
+    const response = await fetch(this.quoteUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ usdAmount, walletAddress })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Price quote server returned HTTP ${response.status}`);
+    }
+
+    const quote = await response.json() as PriceQuote;
+    const check = this.verifyQuote(quote, { usdAmount });
+    if (!check.valid) {
+      throw new Error(check.error);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Checks the signature and signer and, unless `at` is null, that the quote
+   * had not expired at `at`. Pass `usdAmount` to require the quote to cover it.
+   */
+  verifyQuote(quote: PriceQuote, options: { usdAmount?: number; at?: number | null } = {}): PriceQuoteCheck {
+    let verified = false;
+    try {
+      verified = nacl.sign.detached.verify(
+        buildQuotePayload(quote),
+        bs58.decode(quote.signature),
+        bs58.decode(quote.signer)
+      );
+    } catch {
+      verified = false;
+    }
+
+    if (!verified) {
+      return { valid: false, error: 'Price quote signature is invalid', errorCode: 'QUOTE_INVALID_SIGNATURE' };
+    }
+
+    if (!this.trustedSigners.has(quote.signer)) {
+      return { valid: false, error: 'Price quote was not issued by a trusted signer', errorCode: 'QUOTE_UNTRUSTED_SIGNER' };
+    }
+
+    const at = options.at === undefined ? Date.now() : options.at;
+    if (at !== null && at > quote.expiresAt) {
+      return { valid: false, error: 'Price quote has expired', errorCode: 'QUOTE_EXPIRED' };
+    }
+
+    if (options.usdAmount !== undefined && quote.usdAmount + 1e-6 < options.usdAmount) {
+      return {
+        valid: false,
+        error: `Quote for $${quote.usdAmount} does not cover $${options.usdAmount}`,
+        errorCode: 'QUOTE_AMOUNT_MISMATCH'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  async getQuote(id: string): Promise<PriceQuote | null> {
+    const { data, error } = await this.client
+      .from('price_quotes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return fromRow(data as PriceQuoteRow);
+  }
+
+  /** The quote a confirmed payment was built from, if any */
+  async getQuoteForTransaction(transactionSignature: string, client: SupabaseClient = this.client): Promise<PriceQuote | null> {
+    const { data, error } = await client
+      .from('price_quotes')
+      .select('*')
+      .eq('transaction_signature', transactionSignature)
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return fromRow(data as PriceQuoteRow);
+  }
+
+  /** Ties the quote to the payment that used it; a quote pays once */
+  async redeemQuote(quoteId: string, transactionSignature: string, walletAddress: string): Promise<PriceQuoteCheck> {
+    const { data, error } = await this.client
+      .from('price_quotes')
+      .update({
+        status: 'used',
+        transaction_signature: transactionSignature,
+        wallet_address: walletAddress,
+        used_at: new Date().toISOString()
+      })
+      .eq('id', quoteId)
+      .eq('status', 'open')
+      .select('id');
+
+    if (error) {
+      console.error('[PriceQuote] Error redeeming quote:', error);
+      return { valid: false, error: error.message, errorCode: error.code === '23505' ? 'QUOTE_ALREADY_USED' : 'QUOTE_NOT_FOUND' };
+    }
+
+    if (!data || data.length === 0) {
+      return { valid: false, error: 'Price quote not found or already used', errorCode: 'QUOTE_ALREADY_USED' };
+    }
+
+    return { valid: true };
+  }
+}
+
+export const priceQuoteService = new PriceQuoteService();
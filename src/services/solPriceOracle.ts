@@ -3,7 +3,11 @@ import { Connection, PublicKey } from '@solana/web3.js';
 export interface PriceData {
   solUsd: number;
   timestamp: number;
+  /** Sources whose quotes went into the median, comma separated */
   source: string;
+  /** Oldest publish time among the quotes used */
+  publishTime: number;
+  quotes: PriceQuote[];
 }
 
 export interface ConversionResult {
@@ -13,113 +17,299 @@ export interface ConversionResult {
   timestamp: number;
 }
 
+/** A single source's SOL/USD price */
+export interface PriceQuote {
+  source: string;
+  price: number;
+  /** Absolute confidence interval in USD, 0 when the source does not report one */
+  confidence: number;
+  /** When the source last updated the price (ms since epoch) */
+  publishTime: number;
+}
+
+/**
+ * Anything that can quote SOL/USD. Sources throw when they cannot; staleness
+ * and confidence are checked by the oracle, not the source.
+ */
+export interface PriceSource {
+  name: string;
+  fetchPrice(): Promise<PriceQuote>;
+}
+
+export interface PriceOracleOptions {
+  /** Defaults to Pyth, CoinGecko and Coinbase */
+  sources?: PriceSource[];
+  /** Quotes published longer ago than this are rejected */
+  maxPriceAgeMs?: number;
+  /** Quotes whose confidence interval is wider than this fraction of the price are rejected */
+  maxConfidenceRatio?: number;
+  /** Fresh quotes needed before a price is returned */
+  minSources?: number;
+  cacheDurationMs?: number;
+}
+
+export interface PriceSourceFailure {
+  source: string;
+  reason: string;
+}
+
+/**
+ * Thrown instead of guessing when no source has a fresh, tight enough price.
+ * Payments must not be priced when this happens.
+ */
+export class PriceUnavailableError extends Error {
+  readonly code = 'PRICE_UNAVAILABLE';
+  readonly failures: PriceSourceFailure[];
+
+  constructor(failures: PriceSourceFailure[]) {
+    super(
+      `SOL price unavailable: ${failures.map(failure => `${failure.source} (${failure.reason})`).join(', ') || 'no price sources configured'}`
+    );
+    this.name = 'PriceUnavailableError';
+    this.failures = failures;
+  }
+}
+
 const PYTH_SOL_USD_FEED = 'H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG';
 const CACHE_DURATION = 30000; // 30 seconds
+const MAX_PRICE_AGE = 60000; // 1 minute
+const MAX_CONFIDENCE_RATIO = 0.02; // 2% of the price
 
-class SolPriceOracle {
-  private cachedPrice: PriceData | null = null;
-  private connection: Connection;
-  private fallbackPrices: string[] = [
-    'https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd',
-    'https://api.coinbase.com/v2/exchange-rates?currency=SOL'
-  ];
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_PRICE_ACCOUNT_TYPE = 3;
+const PYTH_STATUS_TRADING = 1;
+
+export interface PythPriceAccount {
+  exponent: number;
+  price: number;
+  confidence: number;
+  /** 1 = trading, anything else means the aggregate should not be used */
+  status: number;
+  publishSlot: bigint;
+  /** Unix time of the last aggregate update, in ms */
+  publishTime: number;
+}
 
-  constructor(connection: Connection) {
-    this.connection = connection;
+/**
+ * Decodes the aggregate price of a Pyth v2 price account: exponent at 20,
+ * publish timestamp at 96, then price, confidence, status and publish slot
+ * of the aggregate at 208.
+ */
+export function parsePythPriceAccount(data: Uint8Array): PythPriceAccount {
+  if (data.length < 240) {
+    throw new Error(`Pyth account too small (${data.length} bytes)`);
   }
 
-  async getSolPrice(): Promise<number> {
-    // Check cache first
-    if (this.cachedPrice && Date.now() - this.cachedPrice.timestamp < CACHE_DURATION) {
-      console.log('Using cached SOL price:', this.cachedPrice.solUsd);
-      return this.cachedPrice.solUsd;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (view.getUint32(0, true) !== PYTH_MAGIC) {
+    throw new Error('Not a Pyth account');
+  }
+
+  if (view.getUint32(8, true) !== PYTH_PRICE_ACCOUNT_TYPE) {
+    throw new Error('Not a Pyth price account');
+  }
+
+  const exponent = view.getInt32(20, true);
+  const scale = Math.pow(10, exponent);
+
+  return {
+    exponent,
+    price: Number(view.getBigInt64(208, true)) * scale,
+    confidence: Number(view.getBigUint64(216, true)) * scale,
+    status: view.getUint32(224, true),
+    publishSlot: view.getBigUint64(232, true),
+    publishTime: Number(view.getBigInt64(96, true)) * 1000
+  };
+}
+
+export class PythPriceSource implements PriceSource {
+  readonly name = 'pyth';
+
+  constructor(
+    private connection: Connection,
+    private feed: PublicKey = new PublicKey(PYTH_SOL_USD_FEED)
+  ) {}
+
+  async fetchPrice(): Promise<PriceQuote> {
+    const accountInfo = await this.connection.getAccountInfo(this.feed);
+
+    if (!accountInfo) {
+      throw new Error(`Price account ${this.feed.toBase58()} not found`);
     }
 
-    try {
-      // Try Pyth price feed first (on-chain oracle)
-      const price = await this.getPythPrice();
-      if (price) {
-        this.cachedPrice = {
-          solUsd: price,
-          timestamp: Date.now(),
-          source: 'pyth'
-        };
-        return price;
-      }
-    } catch (error) {
-      console.warn('Pyth price feed failed, trying fallbacks:', error);
+    const account = parsePythPriceAccount(accountInfo.data);
+
+    if (account.status !== PYTH_STATUS_TRADING) {
+      throw new Error(`Price feed is not trading (status ${account.status})`);
     }
 
-    // Try CoinGecko
-    try {
-      const price = await this.getCoinGeckoPrice();
-      if (price) {
-        this.cachedPrice = {
-          solUsd: price,
-          timestamp: Date.now(),
-          source: 'coingecko'
-        };
-        return price;
-      }
-    } catch (error) {
-      console.warn('CoinGecko price failed:', error);
+    return {
+      source: this.name,
+      price: account.price,
+      confidence: account.confidence,
+      publishTime: account.publishTime
+    };
+  }
+}
+
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = 'coingecko';
+
+  async fetchPrice(): Promise<PriceQuote> {
+    const response = await fetch(
+      'https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd&include_last_updated_at=true'
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
     }
 
-    // Use cached price if available, even if expired
-    if (this.cachedPrice) {
-      console.warn('Using expired cached price');
-      return this.cachedPrice.solUsd;
+    const data = await response.json();
+
+    if (!data.solana?.usd) {
+      throw new Error('No SOL price in response');
     }
 
-    // Fallback to reasonable estimate
-    console.warn('All price feeds failed, using fallback estimate');
-    return 150; // Conservative estimate
+    return {
+      source: this.name,
+      price: Number(data.solana.usd),
+      confidence: 0,
+      publishTime: data.solana.last_updated_at ? data.solana.last_updated_at * 1000 : Date.now()
+    };
   }
+}
+
+export class CoinbasePriceSource implements PriceSource {
+  readonly name = 'coinbase';
+
+  async fetchPrice(): Promise<PriceQuote> {
+    const response = await fetch('https://api.coinbase.com/v2/exchange-rates?currency=SOL');
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const price = Number(data.data?.rates?.USD);
 
-  private async getPythPrice(): Promise<number | null> {
-    try {
-      const pythPriceAccount = new PublicKey(PYTH_SOL_USD_FEED);
-      const accountInfo = await this.connection.getAccountInfo(pythPriceAccount);
+    if (!price) {
+      throw new Error('No SOL price in response');
+    }
 
-      if (!accountInfo) return null;
+    // Spot rates carry no timestamp, they are current as of the response
+    return { source: this.name, price, confidence: 0, publishTime: Date.now() };
+  }
+}
 
-      // Parse Pyth price account data
-      const data = accountInfo.data;
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
 
-      // Pyth price format: 8 bytes for price, 4 bytes for confidence, 4 bytes for exponent
-      const priceBuffer = data.slice(208, 216);
-      const exponentBuffer = data.slice(220, 224);
+class SolPriceOracle {
+  private cachedPrice: PriceData | null = null;
+  private sources: PriceSource[];
+  private maxPriceAgeMs: number;
+  private maxConfidenceRatio: number;
+  private minSources: number;
+  private cacheDurationMs: number;
 
-      const price = priceBuffer.readBigInt64LE(0);
-      const exponent = exponentBuffer.readInt32LE(0);
+  constructor(connection: Connection, options: PriceOracleOptions = {}) {
+    this.sources = options.sources ?? [
+      new PythPriceSource(connection),
+      new CoinGeckoPriceSource(),
+      new CoinbasePriceSource()
+    ];
+    this.maxPriceAgeMs = options.maxPriceAgeMs ?? MAX_PRICE_AGE;
+    this.maxConfidenceRatio = options.maxConfidenceRatio ?? MAX_CONFIDENCE_RATIO;
+    this.minSources = options.minSources ?? 1;
+    this.cacheDurationMs = options.cacheDurationMs ?? CACHE_DURATION;
+  }
 
-      const actualPrice = Number(price) * Math.pow(10, exponent);
+  /**
+   * Median of every source with a fresh price inside the confidence limit.
+   * Throws `PriceUnavailableError` when fewer than `minSources` qualify; an
+   * expired cache is never used.
+   */
+  async getSolPrice(): Promise<number> {
+    return (await this.getPriceData()).solUsd;
+  }
 
-      if (actualPrice > 0 && actualPrice < 10000) {
-        return actualPrice;
+  async getPriceData(): Promise<PriceData> {
+    if (this.cachedPrice && this.isCacheFresh(this.cachedPrice)) {
+      console.log('[PriceOracle] Using cached SOL price:', this.cachedPrice.solUsd);
+      return this.cachedPrice;
+    }
+
+    const failures: PriceSourceFailure[] = [];
+    const quotes: PriceQuote[] = [];
+
+    const results = await Promise.allSettled(this.sources.map(source => source.fetchPrice()));
+
+    results.forEach((result, i) => {
+      const source = this.sources[i].name;
+
+      if (result.status === 'rejected') {
+        failures.push({ source, reason: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+        return;
+      }
+
+      const reason = this.rejectQuote(result.value);
+      if (reason) {
+        failures.push({ source, reason });
+      } else {
+        quotes.push(result.value);
       }
+    });
 
-      return null;
-    } catch (error) {
-      console.error('Error fetching Pyth price:', error);
-      return null;
+    if (failures.length > 0) {
+      console.warn('[PriceOracle] Rejected price sources:', failures);
     }
+
+    if (quotes.length === 0 || quotes.length < this.minSources) {
+      if (quotes.length > 0) {
+        failures.push({ source: 'oracle', reason: `${quotes.length} of ${this.minSources} required sources` });
+      }
+      throw new PriceUnavailableError(failures);
+    }
+
+    const priceData: PriceData = {
+      solUsd: median(quotes.map(quote => quote.price)),
+      timestamp: Date.now(),
+      source: quotes.map(quote => quote.source).join(','),
+      publishTime: Math.min(...quotes.map(quote => quote.publishTime)),
+      quotes
+    };
+
+    console.log('[PriceOracle] SOL price:', priceData.solUsd, 'from', priceData.source);
+
+    this.cachedPrice = priceData;
+    return priceData;
   }
 
-  private async getCoinGeckoPrice(): Promise<number | null> {
-    try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
-      const data = await response.json();
+  /** Why a quote cannot be used, or null when it can */
+  private rejectQuote(quote: PriceQuote): string | null {
+    if (!Number.isFinite(quote.price) || quote.price <= 0) {
+      return `invalid price ${quote.price}`;
+    }
 
-      if (data.solana && data.solana.usd) {
-        return data.solana.usd;
-      }
+    const age = Date.now() - quote.publishTime;
+    if (age > this.maxPriceAgeMs) {
+      return `stale by ${Math.round(age / 1000)}s`;
+    }
 
-      return null;
-    } catch (error) {
-      console.error('Error fetching CoinGecko price:', error);
-      return null;
+    if (quote.confidence / quote.price > this.maxConfidenceRatio) {
+      return `confidence ±${quote.confidence.toFixed(4)} too wide`;
     }
+
+    return null;
+  }
+
+  private isCacheFresh(priceData: PriceData): boolean {
+    const now = Date.now();
+    return now - priceData.timestamp < this.cacheDurationMs && now - priceData.publishTime <= this.maxPriceAgeMs;
   }
 
   async usdToSol(usdAmount: number): Promise<ConversionResult> {
@@ -155,8 +345,8 @@ class SolPriceOracle {
   }
 }
 
-export const createSolPriceOracle = (connection: Connection): SolPriceOracle => {
-  return new SolPriceOracle(connection);
+export const createSolPriceOracle = (connection: Connection, options?: PriceOracleOptions): SolPriceOracle => {
+  return new SolPriceOracle(connection, options);
 };
 
 let globalOracle: SolPriceOracle | null = null;
@@ -0,0 +1,430 @@
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getNetworkConfig, SolanaCluster } from '../lib/network';
+import type { SolanaPayRequest } from '../types';
+import { SolanaPaymentService, solanaPaymentService } from './solanaPayment';
+import { createTransactionMonitor, TransactionLog } from './transactionMonitor';
+import { getUsdcMint, PaymentCurrency, toTokenBaseUnits, USDC_DECIMALS } from '../utils/splToken';
+
+export type SolanaPayPurpose = 'agent_execution' | 'x402_session' | 'credit_top_up' | 'api_payment';
+
+export type SolanaPayErrorCode =
+  | 'REQUEST_NOT_FOUND'
+  | 'ALREADY_FULFILLED'
+  | 'AMOUNT_MISMATCH'
+  | 'SIGNATURE_ALREADY_USED'
+  | 'EXPIRED'
+  | 'CANCELLED'
+  | 'UNKNOWN_ERROR';
+
+export interface TransferRequestFields {
+  recipient: string;
+  /** UI amount (SOL or tokens) */
+  amount?: number;
+  splToken?: string;
+  reference?: string | string[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+export interface CreateTransferRequestOptions {
+  purpose: SolanaPayPurpose;
+  usdAmount: number;
+  currency?: PaymentCurrency;
+  /** Read by `solana_pay_fulfill_request` to create what was paid for */
+  params?: Record<string, unknown>;
+  label?: string;
+  message?: string;
+  ttlMs?: number;
+}
+
+export interface SolanaPayTransferRequest {
+  id: string;
+  reference: string;
+  url: string;
+  recipient: string;
+  amount: number;
+  amountBaseUnits: string;
+  currency: PaymentCurrency;
+  splToken?: string;
+  usdAmount: number;
+  purpose: SolanaPayPurpose;
+  expiresAt: Date;
+}
+
+export interface SolanaPayFulfillment {
+  success: boolean;
+  signature?: string;
+  payerWallet?: string;
+  /** UI amount the request asked for */
+  amount?: number;
+  currency?: PaymentCurrency;
+  /** Execution id, session id or credit id created for the payment */
+  targetId?: string;
+  /** Bearer token of the session, for x402_session requests */
+  sessionToken?: string;
+  replayed?: boolean;
+  error?: string;
+  errorCode?: SolanaPayErrorCode;
+}
+
+export interface WatchOptions {
+  intervalMs?: number;
+  signal?: AbortSignal;
+}
+
+/** Merchant name wallets show on the approval screen */
+const DEFAULT_LABEL = 'Lily AI Agents';
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 3000;
+const SIGNATURE_LOOKUP_LIMIT = 10;
+const SOL_DECIMALS = 9;
+
+const LOG_TRANSACTION_TYPES: Record<SolanaPayPurpose, TransactionLog['transaction_type']> = {
+  agent_execution: 'agent_payment',
+  x402_session: 'x402_session',
+  credit_top_up: 'credit_purchase',
+  api_payment: 'other'
+};
+
+/** Plain decimal notation, wallets reject `1e-7` */
+const formatAmount = (amount: number, decimals: number) =>
+  amount.toFixed(decimals).replace(/\.?0+$/, '');
+
+/**
+ * Encodes a Solana Pay transfer request:
+ * `solana:<recipient>?amount=<amount>&spl-token=<mint>&reference=<key>&label=...`
+ */
+export function encodeTransferRequestUrl(fields: TransferRequestFields): string {
+  const query: string[] = [];
+
+  if (fields.amount !== undefined) {
+    query.push(`amount=${formatAmount(fields.amount, fields.splToken ? USDC_DECIMALS : SOL_DECIMALS)}`);
+  }
+  if (fields.splToken) {
+    query.push(`spl-token=${encodeURIComponent(fields.splToken)}`);
+  }
+
+  const references = Array.isArray(fields.reference) ? fields.reference : fields.reference ? [fields.reference] : [];
+  references.forEach(reference => query.push(`reference=${encodeURIComponent(reference)}`));
+
+  if (fields.label) query.push(`label=${encodeURIComponent(fields.label)}`);
+  if (fields.message) query.push(`message=${encodeURIComponent(fields.message)}`);
+  if (fields.memo) query.push(`memo=${encodeURIComponent(fields.memo)}`);
+
+  return `solana:${encodeURIComponent(fields.recipient)}${query.length ? `?${query.join('&')}` : ''}`;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Payments made from a phone by scanning a transfer request. Each request has
+ * its own reference key, the wallet adds it to the transfer as a read-only
+ * account and `PaymentFundingWorker` finds the transaction by looking that
+ * key up. Fulfilment happens in the database with the worker's service-role
+ * client, so no wallet has to be connected in the browser showing the QR
+ * code; the browser only watches the request until it is confirmed.
+ */
+export class SolanaPayService {
+  private client: SupabaseClient;
+  private paymentService: SolanaPaymentService;
+
+  constructor(client?: SupabaseClient, paymentService?: SolanaPaymentService) {
+    this.client = client || supabase;
+    this.paymentService = paymentService || solanaPaymentService;
+  }
+
+  /**
+   * Agent executions are paid into the escrow wallet and settled like
+   * `ExecutionEscrowService` deposits; everything else pays the platform wallet
+   */
+  static getRecipient(purpose: SolanaPayPurpose, cluster?: SolanaCluster): string {
+    const network = getNetworkConfig(cluster);
+    return purpose === 'agent_execution' ? network.escrowWallet : network.recipientWallet;
+  }
+
+  static toTransferRequest(row: SolanaPayRequest): SolanaPayTransferRequest {
+    const amount = Number(row.amount);
+
+    return {
+      id: row.id,
+      reference: row.reference,
+      url: encodeTransferRequestUrl({
+        recipient: row.recipient,
+        amount,
+        splToken: row.spl_token ?? undefined,
+        reference: row.reference,
+        label: row.label ?? undefined,
+        message: row.message ?? undefined
+      }),
+      recipient: row.recipient,
+      amount,
+      amountBaseUnits: String(row.amount_base_units),
+      currency: row.currency,
+      splToken: row.spl_token ?? undefined,
+      usdAmount: Number(row.amount_usd),
+      purpose: row.purpose,
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+
+  async createTransferRequest(
+    options: CreateTransferRequestOptions
+  ): Promise<{ success: boolean; request?: SolanaPayTransferRequest; error?: string }> {
+    const currency = options.currency || 'SOL';
+    const label = options.label ?? DEFAULT_LABEL;
+
+    try {
+      const recipient = SolanaPayService.getRecipient(options.purpose);
+      const reference = Keypair.generate().publicKey.toBase58();
+      const expiresAt = new Date(Date.now() + (options.ttlMs ?? DEFAULT_TTL_MS));
+
+      let amount: number;
+      let amountBaseUnits: bigint;
+      let splToken: string | undefined;
+
+      if (currency === 'USDC') {
+        splToken = getUsdcMint().toBase58();
+        amount = options.usdAmount;
+        amountBaseUnits = toTokenBaseUnits(amount, USDC_DECIMALS);
+      } else {
+        const conversion = await this.paymentService.convertUsdToSol(options.usdAmount);
+        amountBaseUnits = BigInt(Math.ceil(conversion.solAmount * LAMPORTS_PER_SOL));
+        amount = Number(amountBaseUnits) / LAMPORTS_PER_SOL;
+      }
+
+      const { data, error } = await this.client
+        .from('solana_pay_requests')
+        .insert({
+          reference,
+          recipient,
+          amount,
+          amount_base_units: amountBaseUnits.toString(),
+          currency,
+          spl_token: splToken ?? null,
+          amount_usd: options.usdAmount,
+          purpose: options.purpose,
+          params: options.params || {},
+          label,
+          message: options.message ?? null,
+          expires_at: expiresAt.toISOString()
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      console.log('[SolanaPay] Created transfer request:', reference, options.purpose);
+
+      return {
+        success: true,
+        request: {
+          id: data.id,
+          reference,
+          url: encodeTransferRequestUrl({
+            recipient,
+            amount,
+            splToken,
+            reference,
+            label,
+            message: options.message
+          }),
+          recipient,
+          amount,
+          amountBaseUnits: amountBaseUnits.toString(),
+          currency,
+          splToken,
+          usdAmount: options.usdAmount,
+          purpose: options.purpose,
+          expiresAt
+        }
+      };
+    } catch (error) {
+      console.error('[SolanaPay] Error creating transfer request:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create payment request' };
+    }
+  }
+
+  /** Successful signatures that include the reference key, oldest first */
+  async findReference(reference: string): Promise<string[]> {
+    const signatures = await this.paymentService
+      .getConnection()
+      .getSignaturesForAddress(new PublicKey(reference), { limit: SIGNATURE_LOOKUP_LIMIT }, 'confirmed');
+
+    return signatures
+      .filter(info => !info.err)
+      .map(info => info.signature)
+      .reverse();
+  }
+
+  /**
+   * Checks that `signature` pays the request's recipient at least the
+   * requested amount and returns the amount received and who paid it.
+   */
+  async validateTransfer(
+    request: SolanaPayTransferRequest,
+    signature: string
+  ): Promise<{ valid: boolean; payer?: string; receivedBaseUnits: string; error?: string }> {
+    const expected = BigInt(request.amountBaseUnits);
+
+    if (request.splToken) {
+      const transfer = await this.paymentService.verifyTokenTransfer(signature, request.recipient, request.splToken);
+      const received = BigInt(transfer.rawAmount);
+
+      return {
+        valid: transfer.valid && received >= expected,
+        payer: transfer.payers[0],
+        receivedBaseUnits: transfer.rawAmount,
+        error: transfer.error || (received < expected ? 'Transfer is less than the requested amount' : undefined)
+      };
+    }
+
+    const transfer = await this.paymentService.verifyTransfer(signature, request.recipient);
+    const received = BigInt(transfer.lamports);
+
+    return {
+      valid: transfer.valid && received >= expected,
+      payer: transfer.payers[0],
+      receivedBaseUnits: received.toString(),
+      error: transfer.error || (received < expected ? 'Transfer is less than the requested amount' : undefined)
+    };
+  }
+
+  /** Runs in `PaymentFundingWorker` with its service-role client, after `validateTransfer` */
+  async fulfill(request: SolanaPayTransferRequest, signature: string, payerWallet: string, receivedBaseUnits: string): Promise<SolanaPayFulfillment> {
+    try {
+      const { data, error } = await this.client.rpc('solana_pay_fulfill_request', {
+        p_reference: request.reference,
+        p_signature: signature,
+        p_payer_wallet: payerWallet,
+        p_amount_base_units: receivedBaseUnits
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        return { success: false, signature, error: data.error, errorCode: data.error_code };
+      }
+
+      if (!data.replayed) {
+        await createTransactionMonitor(this.paymentService.getConnection(), this.client).logTransaction({
+          signature,
+          wallet_address: payerWallet,
+          transaction_type: LOG_TRANSACTION_TYPES[request.purpose],
+          status: 'pending',
+          amount_sol: request.currency === 'SOL' ? request.amount : 0,
+          amount_usd: request.usdAmount,
+          conversion_rate: request.currency === 'SOL' ? request.usdAmount / request.amount : 1,
+          recipient_address: request.recipient,
+          metadata: { solana_pay_reference: request.reference, currency: request.currency, purpose: request.purpose }
+        });
+      }
+
+      console.log('[SolanaPay] Fulfilled request:', request.reference, data.target_id);
+
+      return {
+        success: true,
+        signature,
+        payerWallet,
+        amount: request.amount,
+        currency: request.currency,
+        targetId: data.target_id ?? undefined,
+        sessionToken: data.session_token ?? undefined,
+        replayed: data.replayed
+      };
+    } catch (error) {
+      console.error('[SolanaPay] Error fulfilling request:', error);
+      return {
+        success: false,
+        signature,
+        error: error instanceof Error ? error.message : 'Failed to confirm payment',
+        errorCode: 'UNKNOWN_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Polls the request until the funding worker has confirmed a payment for
+   * it, the request expires or `signal` aborts. An expired request is still
+   * fulfilled by the worker if the payment lands late.
+   */
+  async watchTransferRequest(request: SolanaPayTransferRequest, options: WatchOptions = {}): Promise<SolanaPayFulfillment> {
+    const intervalMs = options.intervalMs ?? POLL_INTERVAL_MS;
+
+    while (!options.signal?.aborted) {
+      const { data, error } = await this.client
+        .from('solana_pay_requests')
+        .select('*')
+        .eq('reference', request.reference)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('[SolanaPay] Error checking request:', error);
+      } else if (!data) {
+        return { success: false, error: 'Payment request not found', errorCode: 'REQUEST_NOT_FOUND' };
+      } else if (data.status === 'confirmed') {
+        return this.toFulfillment(request, data as SolanaPayRequest);
+      }
+
+      if (Date.now() >= request.expiresAt.getTime()) {
+        await this.expireRequest(request.reference);
+        return { success: false, error: 'Payment request expired', errorCode: 'EXPIRED' };
+      }
+
+      await sleep(intervalMs, options.signal);
+    }
+
+    return { success: false, error: 'Stopped watching for payment', errorCode: 'CANCELLED' };
+  }
+
+  private async toFulfillment(request: SolanaPayTransferRequest, row: SolanaPayRequest): Promise<SolanaPayFulfillment> {
+    let sessionToken: string | undefined;
+
+    if (row.purpose === 'x402_session' && row.target_id) {
+      const { data, error } = await this.client
+        .from('x402_payment_sessions')
+        .select('session_token')
+        .eq('id', row.target_id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[SolanaPay] Error fetching session:', error);
+      }
+
+      sessionToken = data?.session_token ?? undefined;
+    }
+
+    return {
+      success: true,
+      signature: row.transaction_signature ?? undefined,
+      payerWallet: row.payer_wallet ?? undefined,
+      amount: request.amount,
+      currency: request.currency,
+      targetId: row.target_id ?? undefined,
+      sessionToken
+    };
+  }
+
+  async expireRequest(reference: string): Promise<void> {
+    const { error } = await this.client
+      .from('solana_pay_requests')
+      .update({ status: 'expired' })
+      .eq('reference', reference)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('[SolanaPay] Error expiring request:', error);
+    }
+  }
+}
+
+export const solanaPayService = new SolanaPayService();
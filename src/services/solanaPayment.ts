@@ -1,35 +1,100 @@
-import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { TransactionHandler, TransactionResult } from '../utils/transactionUtils';
-import { getSolPriceOracle, ConversionResult } from './solPriceOracle';
-import { getTransactionMonitor } from './transactionMonitor';
+import { Connection, PublicKey, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { SentTransaction, TransactionHandler, TransactionOptions, TransactionResult, TransactionSpeed } from '../utils/transactionUtils';
+import { supabase } from '../lib/supabase';
+import { getSolPriceOracle, ConversionResult, PriceUnavailableError } from './solPriceOracle';
+import { getTransactionMonitor, TransactionLog } from './transactionMonitor';
+import { priceQuoteService, PriceQuote, PriceQuoteErrorCode } from './priceQuote';
+import type { SolanaWallet } from './walletManager';
+import { fromTokenBaseUnits, getUsdcMint, PaymentCurrency, toTokenBaseUnits, USDC_DECIMALS } from '../utils/splToken';
+import {
+  allocateSplit,
+  buildRevenueSplit,
+  DEFAULT_PLATFORM_FEE_PERCENT,
+  isValidRecipient,
+  PaymentSplitLeg,
+  PaymentSplitRole
+} from '../utils/paymentSplit';
+import { getActiveCluster, getExplorerUrl, getNetworkConfig, onClusterChange, SolanaCluster } from '../lib/network';
 
-const RECIPIENT_WALLET = 'FbRDjtZRRtLmjok6NvzsxSey4gDAoTmr8RacPiaRZEWX';
 const AGENT_CREATION_FEE_USD = 0.25; // Changed to USD pricing
 const COMMITMENT_LEVEL = 'confirmed';
-const getHeliusEndpoint = () => {
-  const apiKey = import.meta.env.VITE_HELIUS_API_KEY;
-  return apiKey ? `https://mainnet.helius-rpc.com/?api-key=${apiKey}` : null;
-};
-
-const RPC_ENDPOINTS = [
-  getHeliusEndpoint(),
-  'https://api.mainnet-beta.solana.com',
-].filter(Boolean) as string[];
-
-export interface SolanaWallet {
-  publicKey: PublicKey;
-  signTransaction: (transaction: Transaction) => Promise<Transaction>;
-  signAllTransactions?: (transactions: Transaction[]) => Promise<Transaction[]>;
-  connection?: Connection;
-}
+
+export type { SolanaWallet };
 
 export interface PaymentResult {
   success: boolean;
   signature?: string;
   error?: string;
+  /**
+   * `PRICE_UNAVAILABLE` when no fresh SOL price could be found,
+   * `TRANSACTION_EXPIRED` when the blockhash expired before the transfer landed
+   */
+  errorCode?: string;
   solAmount?: number;
   usdAmount?: number;
   conversionRate?: number;
+  currency?: PaymentCurrency;
+  /** UI amount of the SPL token sent, for USDC payments */
+  tokenAmount?: number;
+  /** Legs of a revenue split payment, in the order they were transferred */
+  splits?: PaymentSplitResult[];
+  /** Price quote the SOL amount was locked with */
+  quoteId?: string;
+  /** Lamports or token base units sent, for escrow deposits */
+  amountBaseUnits?: string;
+}
+
+export interface PaymentSplitResult {
+  recipient: string;
+  role: PaymentSplitRole;
+  percent: number;
+  /** UI amount (SOL or USDC) */
+  amount: number;
+  /** Lamports or token base units */
+  rawAmount: string;
+}
+
+export interface SplitPaymentOptions {
+  transactionType?: 'agent_payment' | 'x402_session' | 'credit_purchase' | 'other';
+  currency?: PaymentCurrency;
+  platformFeePercent?: number;
+  speed?: TransactionSpeed;
+  serviceType?: 'agent' | 'api';
+  serviceId?: string;
+  /** Sends exactly the quoted lamports instead of converting at the current price */
+  quote?: PriceQuote;
+}
+
+export interface SplitPaymentVerification {
+  valid: boolean;
+  legs: (PaymentSplitResult & { received: string; valid: boolean })[];
+  error?: string;
+}
+
+export interface TransferVerification {
+  valid: boolean;
+  lamports: number;
+  payers: string[];
+  slot?: number;
+  blockTime?: number | null;
+  error?: string;
+}
+
+export interface QuotedPaymentVerification extends TransferVerification {
+  errorCode?: PriceQuoteErrorCode | 'INSUFFICIENT_AMOUNT' | 'TRANSFER_NOT_FOUND';
+}
+
+export interface TokenTransferVerification {
+  valid: boolean;
+  /** UI amount credited to the recipient */
+  amount: number;
+  /** Base units credited to the recipient */
+  rawAmount: string;
+  mint: string;
+  payers: string[];
+  slot?: number;
+  blockTime?: number | null;
+  error?: string;
 }
 
 export class SolanaPaymentService {
@@ -38,21 +103,36 @@ export class SolanaPaymentService {
   private currentRpcIndex: number = 0;
   private transactionHandler: TransactionHandler;
   private priceOracle: ReturnType<typeof getSolPriceOracle>;
+  private transactionSpeed: TransactionSpeed = 'normal';
 
   constructor(rpcEndpoint?: string) {
-    const endpoint = rpcEndpoint || RPC_ENDPOINTS[0];
+    const network = getNetworkConfig();
+    const endpoint = rpcEndpoint || network.rpcEndpoints[0];
     this.connection = new Connection(endpoint, { commitment: COMMITMENT_LEVEL, confirmTransactionInitialTimeout: 60000 });
-    this.recipientPublicKey = new PublicKey(RECIPIENT_WALLET);
-    this.transactionHandler = new TransactionHandler(this.connection, 'mainnet-beta');
+    this.recipientPublicKey = new PublicKey(network.recipientWallet);
+    this.transactionHandler = new TransactionHandler(this.connection, network.cluster);
     this.priceOracle = getSolPriceOracle(this.connection);
+
+    onClusterChange(cluster => this.switchCluster(cluster));
+  }
+
+  /** Points the connection, recipient and explorer links at another cluster */
+  private switchCluster(cluster: SolanaCluster): void {
+    const network = getNetworkConfig(cluster);
+    this.currentRpcIndex = 0;
+    this.connection = new Connection(network.rpcEndpoints[0], { commitment: COMMITMENT_LEVEL, confirmTransactionInitialTimeout: 60000 });
+    this.recipientPublicKey = new PublicKey(network.recipientWallet);
+    this.transactionHandler.setConnection(this.connection);
+    this.transactionHandler.setNetwork(cluster);
   }
 
   private async tryWithFallback<T>(operation: (connection: Connection) => Promise<T>): Promise<T> {
     let lastError: Error | null = null;
+    const endpoints = getNetworkConfig().rpcEndpoints;
 
-    for (let i = 0; i < RPC_ENDPOINTS.length; i++) {
-      const rpcIndex = (this.currentRpcIndex + i) % RPC_ENDPOINTS.length;
-      const endpoint = RPC_ENDPOINTS[rpcIndex];
+    for (let i = 0; i < endpoints.length; i++) {
+      const rpcIndex = (this.currentRpcIndex + i) % endpoints.length;
+      const endpoint = endpoints[rpcIndex];
 
       try {
         const connection = new Connection(endpoint, { commitment: COMMITMENT_LEVEL, confirmTransactionInitialTimeout: 60000 });
@@ -85,36 +165,64 @@ export class SolanaPaymentService {
   async createPaymentTransaction(
     wallet: SolanaWallet,
     usdAmount: number = AGENT_CREATION_FEE_USD,
-    transactionType: 'agent_payment' | 'x402_session' | 'credit_purchase' | 'other' = 'agent_payment'
+    transactionType: 'agent_payment' | 'x402_session' | 'credit_purchase' | 'other' = 'agent_payment',
+    currency: PaymentCurrency = 'SOL',
+    speed: TransactionSpeed = this.transactionSpeed,
+    quote?: PriceQuote
   ): Promise<PaymentResult> {
-    const monitor = getTransactionMonitor(this.connection);
+    if (currency === 'USDC') {
+      return this.createTokenPaymentTransaction(wallet, usdAmount, transactionType, speed);
+    }
 
     try {
       console.log('[Payment] Creating payment for USD amount:', usdAmount);
 
-      // Convert USD to SOL
-      const conversion = await this.priceOracle.usdToSol(usdAmount);
-      console.log('[Payment] Conversion:', conversion);
+      let conversion: ConversionResult;
 
-      const result = await this.transactionHandler.sendSolTransfer(
-        wallet,
-        this.recipientPublicKey.toBase58(),
-        conversion.solAmount,
-        { commitment: COMMITMENT_LEVEL }
-      );
+      if (quote) {
+        const check = priceQuoteService.verifyQuote(quote, { usdAmount });
+        if (!check.valid) {
+          return { success: false, error: check.error, errorCode: check.errorCode };
+        }
 
-      // Log transaction for monitoring
-      if (result.success && result.signature) {
-        await monitor.logTransaction({
-          signature: result.signature,
+        conversion = { usdAmount, solAmount: quote.solAmount, rate: quote.rate, timestamp: quote.issuedAt };
+      } else {
+        // Convert USD to SOL
+        conversion = await this.priceOracle.usdToSol(usdAmount);
+      }
+      console.log('[Payment] Conversion:', conversion);
+
+      const sendOptions: TransactionOptions = {
+        commitment: COMMITMENT_LEVEL,
+        speed,
+        onSent: (sent: SentTransaction) => this.logSentTransaction(sent, {
           wallet_address: wallet.publicKey.toBase58(),
           transaction_type: transactionType,
-          status: 'pending',
           amount_sol: conversion.solAmount,
           amount_usd: usdAmount,
           conversion_rate: conversion.rate,
-          recipient_address: this.recipientPublicKey.toBase58()
-        });
+          recipient_address: this.recipientPublicKey.toBase58(),
+          metadata: quote ? { quote_id: quote.id } : {}
+        })
+      };
+
+      const result = quote
+        ? await this.transactionHandler.sendSplitSolTransfer(
+          wallet,
+          [{ recipient: this.recipientPublicKey.toBase58(), amount: BigInt(quote.lamports) }],
+          sendOptions
+        )
+        : await this.transactionHandler.sendSolTransfer(
+          wallet,
+          this.recipientPublicKey.toBase58(),
+          conversion.solAmount,
+          sendOptions
+        );
+
+      if (result.success && result.signature) {
+        if (quote) {
+          await this.redeemQuote(quote, result.signature, wallet);
+        }
       } else if (!result.success) {
         console.error('[Payment] Transaction failed:', result.error);
       }
@@ -125,17 +233,438 @@ export class SolanaPaymentService {
         error: result.error,
         solAmount: conversion.solAmount,
         usdAmount: usdAmount,
-        conversionRate: conversion.rate
+        conversionRate: conversion.rate,
+        currency: 'SOL',
+        quoteId: quote?.id,
+        errorCode: result.expired ? 'TRANSACTION_EXPIRED' : undefined
       };
     } catch (error: any) {
       console.error('[Payment] Payment transaction error:', error);
       return {
         success: false,
         error: error.message || 'Payment failed. Please try again',
+        errorCode: error instanceof PriceUnavailableError ? error.code : undefined
       };
     }
   }
 
+  /**
+   * Pays `usdAmount` in USDC (1:1, no oracle involved), so the recipient
+   * carries no SOL price risk.
+   */
+  private async createTokenPaymentTransaction(
+    wallet: SolanaWallet,
+    usdAmount: number,
+    transactionType: 'agent_payment' | 'x402_session' | 'credit_purchase' | 'other',
+    speed: TransactionSpeed
+  ): Promise<PaymentResult> {
+    const mint = this.getUsdcMint();
+
+    try {
+      console.log('[Payment] Creating USDC payment for USD amount:', usdAmount);
+
+      const result = await this.transactionHandler.sendTokenTransfer(
+        wallet,
+        this.recipientPublicKey.toBase58(),
+        mint,
+        usdAmount,
+        USDC_DECIMALS,
+        {
+          commitment: COMMITMENT_LEVEL,
+          speed,
+          onSent: sent => this.logSentTransaction(sent, {
+            wallet_address: wallet.publicKey.toBase58(),
+            transaction_type: transactionType,
+            amount_sol: 0,
+            amount_usd: usdAmount,
+            conversion_rate: 1,
+            recipient_address: this.recipientPublicKey.toBase58(),
+            metadata: { currency: 'USDC', mint: mint.toBase58(), token_amount: usdAmount }
+          })
+        }
+      );
+
+      if (!result.success) {
+        console.error('[Payment] USDC transfer failed:', result.error);
+      }
+
+      return {
+        success: result.success,
+        signature: result.signature,
+        error: result.error,
+        usdAmount,
+        currency: 'USDC',
+        tokenAmount: usdAmount,
+        errorCode: result.expired ? 'TRANSACTION_EXPIRED' : undefined
+      };
+    } catch (error) {
+      console.error('[Payment] USDC payment error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment failed. Please try again'
+      };
+    }
+  }
+
+  /**
+   * Pays a creator directly: one atomic transaction with a transfer to the
+   * creator's wallet and one to the platform fee wallet. Without a valid
+   * creator wallet the whole amount goes to the platform as before.
+   */
+  async createSplitPaymentTransaction(
+    wallet: SolanaWallet,
+    usdAmount: number,
+    creatorWallet: string | null | undefined,
+    options: SplitPaymentOptions = {}
+  ): Promise<PaymentResult> {
+    const transactionType = options.transactionType ?? 'agent_payment';
+    const currency = options.currency ?? 'SOL';
+    const speed = options.speed ?? this.transactionSpeed;
+    const quote = currency === 'SOL' ? options.quote : undefined;
+
+    if (!isValidRecipient(creatorWallet)) {
+      console.warn('[Payment] No valid creator wallet, paying the platform only');
+      return this.createPaymentTransaction(wallet, usdAmount, transactionType, currency, speed, quote);
+    }
+
+    if (quote) {
+      const check = priceQuoteService.verifyQuote(quote, { usdAmount });
+      if (!check.valid) {
+        return { success: false, error: check.error, errorCode: check.errorCode };
+      }
+    }
+
+    const shares = buildRevenueSplit(
+      creatorWallet,
+      getNetworkConfig().feeWallet,
+      options.platformFeePercent ?? DEFAULT_PLATFORM_FEE_PERCENT
+    );
+
+    try {
+      console.log('[Payment] Creating split payment for USD amount:', usdAmount, shares);
+
+      let legs: PaymentSplitLeg[];
+      let conversion: ConversionResult | null = null;
+      let decimals: number;
+      let mint: PublicKey | null = null;
+
+      if (currency === 'USDC') {
+        mint = this.getUsdcMint();
+        decimals = USDC_DECIMALS;
+        legs = allocateSplit(toTokenBaseUnits(usdAmount, decimals), shares);
+      } else {
+        conversion = quote
+          ? { usdAmount, solAmount: quote.solAmount, rate: quote.rate, timestamp: quote.issuedAt }
+          : await this.priceOracle.usdToSol(usdAmount);
+        decimals = 9;
+        const lamports = quote ? BigInt(quote.lamports) : BigInt(Math.floor(conversion.solAmount * LAMPORTS_PER_SOL));
+        legs = allocateSplit(lamports, shares);
+      }
+
+      const splits: PaymentSplitResult[] = legs.map(leg => ({
+        recipient: leg.recipient,
+        role: leg.role,
+        percent: leg.percent,
+        amount: fromTokenBaseUnits(leg.amount, decimals),
+        rawAmount: leg.amount.toString()
+      }));
+
+      const sendOptions: TransactionOptions = {
+        commitment: COMMITMENT_LEVEL,
+        speed,
+        onSent: sent => this.logSentTransaction(sent, {
+          wallet_address: wallet.publicKey.toBase58(),
+          transaction_type: transactionType,
+          amount_sol: conversion?.solAmount ?? 0,
+          amount_usd: usdAmount,
+          conversion_rate: conversion?.rate ?? 1,
+          recipient_address: creatorWallet,
+          metadata: {
+            currency,
+            ...(mint ? { mint: mint.toBase58(), token_amount: usdAmount } : {}),
+            ...(quote ? { quote_id: quote.id } : {}),
+            splits: splits.map(split => ({ recipient: split.recipient, role: split.role, percent: split.percent, amount: split.amount }))
+          }
+        })
+      };
+
+      const result: TransactionResult = mint
+        ? await this.transactionHandler.sendSplitTokenTransfer(wallet, mint, legs, decimals, sendOptions)
+        : await this.transactionHandler.sendSplitSolTransfer(wallet, legs, sendOptions);
+
+      if (result.success && result.signature) {
+        if (quote) {
+          await this.redeemQuote(quote, result.signature, wallet);
+        }
+
+        await this.recordPaymentSplits(result.signature, wallet.publicKey.toBase58(), usdAmount, currency, splits, options);
+      } else if (!result.success) {
+        console.error('[Payment] Split transfer failed:', result.error);
+      }
+
+      return {
+        success: result.success,
+        signature: result.signature,
+        error: result.error,
+        solAmount: conversion?.solAmount,
+        usdAmount,
+        conversionRate: conversion?.rate,
+        currency,
+        tokenAmount: currency === 'USDC' ? usdAmount : undefined,
+        splits,
+        quoteId: quote?.id,
+        errorCode: result.expired ? 'TRANSACTION_EXPIRED' : undefined
+      };
+    } catch (error) {
+      console.error('[Payment] Split payment error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment failed. Please try again',
+        errorCode: error instanceof PriceUnavailableError ? error.code : undefined
+      };
+    }
+  }
+
+  /**
+   * Deposits `usdAmount` into the escrow wallet, for an agent execution opened
+   * with `escrow_open_execution` or an x402 payment channel. The funds stay
+   * there until `EscrowSettlementWorker` or `X402ChannelSettlementWorker` pays
+   * them out. `metadata` identifies what the deposit is for in the
+   * transaction log.
+   */
+  async createEscrowPaymentTransaction(
+    wallet: SolanaWallet,
+    usdAmount: number,
+    metadata: Record<string, unknown>,
+    options: Pick<SplitPaymentOptions, 'transactionType' | 'currency' | 'speed'> = {}
+  ): Promise<PaymentResult> {
+    const transactionType = options.transactionType ?? 'agent_payment';
+    const currency = options.currency ?? 'SOL';
+    const speed = options.speed ?? this.transactionSpeed;
+    const escrowWallet = getNetworkConfig().escrowWallet;
+
+    try {
+      console.log('[Payment] Creating escrow deposit', metadata, 'USD amount:', usdAmount);
+
+      let conversion: ConversionResult | null = null;
+      let mint: PublicKey | null = null;
+      let amount: bigint;
+
+      if (currency === 'USDC') {
+        mint = this.getUsdcMint();
+        amount = toTokenBaseUnits(usdAmount, USDC_DECIMALS);
+      } else {
+        conversion = await this.priceOracle.usdToSol(usdAmount);
+        amount = BigInt(Math.floor(conversion.solAmount * LAMPORTS_PER_SOL));
+      }
+
+      const legs = [{ recipient: escrowWallet, amount }];
+      const sendOptions: TransactionOptions = {
+        commitment: COMMITMENT_LEVEL,
+        speed,
+        onSent: sent => this.logSentTransaction(sent, {
+          wallet_address: wallet.publicKey.toBase58(),
+          transaction_type: transactionType,
+          amount_sol: conversion?.solAmount ?? 0,
+          amount_usd: usdAmount,
+          conversion_rate: conversion?.rate ?? 1,
+          recipient_address: escrowWallet,
+          metadata: {
+            ...metadata,
+            currency,
+            ...(mint ? { mint: mint.toBase58(), token_amount: usdAmount } : {})
+          }
+        })
+      };
+
+      const result = mint
+        ? await this.transactionHandler.sendSplitTokenTransfer(wallet, mint, legs, USDC_DECIMALS, sendOptions)
+        : await this.transactionHandler.sendSplitSolTransfer(wallet, legs, sendOptions);
+
+      if (!result.success) {
+        console.error('[Payment] Escrow deposit failed:', result.error);
+      }
+
+      return {
+        success: result.success,
+        signature: result.signature,
+        error: result.error,
+        solAmount: conversion?.solAmount,
+        usdAmount,
+        conversionRate: conversion?.rate,
+        currency,
+        tokenAmount: currency === 'USDC' ? usdAmount : undefined,
+        amountBaseUnits: amount.toString(),
+        errorCode: result.expired ? 'TRANSACTION_EXPIRED' : undefined
+      };
+    } catch (error) {
+      console.error('[Payment] Escrow deposit error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment failed. Please try again',
+        errorCode: error instanceof PriceUnavailableError ? error.code : undefined
+      };
+    }
+  }
+
+  /**
+   * Logs a broadcast payment as pending before it confirms, with the signed
+   * transaction and its blockhash window so the monitor can rebroadcast or
+   * expire it after a reload.
+   */
+  private async logSentTransaction(
+    sent: SentTransaction,
+    entry: Omit<TransactionLog, 'id' | 'created_at' | 'signature' | 'status'>
+  ): Promise<void> {
+    await getTransactionMonitor(this.connection).logTransaction({
+      ...entry,
+      signature: sent.signature,
+      status: 'pending',
+      metadata: {
+        ...entry.metadata,
+        transaction_version: sent.version,
+        raw_transaction: sent.rawTransaction,
+        blockhash: sent.blockhash,
+        last_valid_block_height: sent.lastValidBlockHeight
+      }
+    });
+  }
+
+  private async recordPaymentSplits(
+    signature: string,
+    payerWallet: string,
+    usdAmount: number,
+    currency: PaymentCurrency,
+    splits: PaymentSplitResult[],
+    options: SplitPaymentOptions
+  ): Promise<void> {
+    const { error } = await supabase.from('payment_splits').insert(
+      splits.map(split => ({
+        transaction_signature: signature,
+        payer_wallet: payerWallet,
+        payment_type: options.transactionType ?? 'agent_payment',
+        service_type: options.serviceType ?? null,
+        service_id: options.serviceId ?? null,
+        recipient_address: split.recipient,
+        role: split.role,
+        share_percent: split.percent,
+        currency,
+        amount: split.amount,
+        amount_base_units: split.rawAmount,
+        amount_usd: (usdAmount * split.percent) / 100
+      }))
+    );
+
+    if (error) {
+      console.error('[Payment] Error recording payment splits:', error);
+    }
+  }
+
+  /**
+   * Checks every leg of a split payment on-chain: each recipient must have
+   * received at least its share. Legs to the same address are checked
+   * against their combined amount. `PaymentFundingWorker` runs the same
+   * check to mark the recorded legs verified; browsers cannot.
+   */
+  async verifySplitPayment(
+    signature: string,
+    splits: PaymentSplitResult[],
+    currency: PaymentCurrency = 'SOL'
+  ): Promise<SplitPaymentVerification> {
+    const expected = new Map<string, bigint>();
+    for (const split of splits) {
+      expected.set(split.recipient, (expected.get(split.recipient) ?? 0n) + BigInt(split.rawAmount));
+    }
+
+    const received = new Map<string, bigint>();
+    let error: string | undefined;
+
+    for (const recipient of expected.keys()) {
+      if (currency === 'USDC') {
+        const transfer = await this.verifyTokenTransfer(signature, recipient, this.getUsdcMint());
+        received.set(recipient, BigInt(transfer.rawAmount));
+        error = error ?? transfer.error;
+      } else {
+        const transfer = await this.verifyTransfer(signature, recipient);
+        received.set(recipient, BigInt(transfer.lamports));
+        error = error ?? transfer.error;
+      }
+    }
+
+    const legs = splits.map(split => {
+      const got = received.get(split.recipient) ?? 0n;
+      return { ...split, received: got.toString(), valid: got >= expected.get(split.recipient)! };
+    });
+    const valid = legs.every(leg => leg.valid);
+
+    return {
+      valid,
+      legs,
+      error: valid ? undefined : error ?? 'A split leg received less than its share'
+    };
+  }
+
+  getUsdcMint(): PublicKey {
+    return getUsdcMint(getActiveCluster());
+  }
+
+  /**
+   * Locks the SOL amount for `usdAmount` so what the user sees is what gets
+   * sent. The quote is signed by the quote server, not in the browser.
+   */
+  async issuePriceQuote(usdAmount: number, walletAddress?: string): Promise<PriceQuote> {
+    return priceQuoteService.requestQuote(usdAmount, walletAddress);
+  }
+
+  /**
+   * The payment is already on-chain when this runs, so a failed redemption
+   * (quote reused in another tab) is logged rather than failing the payment;
+   * verification then falls back to the oracle rate.
+   */
+  private async redeemQuote(quote: PriceQuote, signature: string, wallet: SolanaWallet): Promise<void> {
+    const redeemed = await priceQuoteService.redeemQuote(quote.id, signature, wallet.publicKey.toBase58());
+    if (!redeemed.valid) {
+      console.warn('[Payment] Could not redeem price quote', quote.id, redeemed.error);
+    }
+  }
+
+  /**
+   * Checks a payment against the quote it was built from: the quote must be
+   * authentic and unexpired when the transaction landed, and the lamports
+   * received by `recipientAddresses` together must cover the quoted amount.
+   */
+  async verifyQuotedPayment(
+    signature: string,
+    quote: PriceQuote,
+    recipientAddresses: string[] = [this.recipientPublicKey.toBase58()]
+  ): Promise<QuotedPaymentVerification> {
+    const transfers = await Promise.all(recipientAddresses.map(recipient => this.verifyTransfer(signature, recipient)));
+    const lamports = transfers.reduce((sum, transfer) => sum + transfer.lamports, 0);
+    const payers = Array.from(new Set(transfers.flatMap(transfer => transfer.payers)));
+    const { slot, blockTime } = transfers.find(transfer => transfer.valid) ?? transfers[0] ?? {};
+    const result = { lamports, payers, slot, blockTime };
+
+    if (lamports === 0) {
+      return { ...result, valid: false, error: transfers[0]?.error || 'No transfer to the recipient found', errorCode: 'TRANSFER_NOT_FOUND' };
+    }
+
+    const check = priceQuoteService.verifyQuote(quote, { at: blockTime ? blockTime * 1000 : null });
+    if (!check.valid) {
+      return { ...result, valid: false, error: check.error, errorCode: check.errorCode };
+    }
+
+    if (BigInt(lamports) < BigInt(quote.lamports)) {
+      return {
+        ...result,
+        valid: false,
+        error: `Received ${lamports} lamports, quote ${quote.id} requires ${quote.lamports}`,
+        errorCode: 'INSUFFICIENT_AMOUNT'
+      };
+    }
+
+    return { ...result, valid: true };
+  }
+
   async getSolPrice(): Promise<number> {
     return await this.priceOracle.getSolPrice();
   }
@@ -149,27 +678,156 @@ export class SolanaPaymentService {
   }
 
   async verifyTransaction(signature: string): Promise<boolean> {
+    const transfer = await this.verifyTransfer(signature, this.recipientPublicKey.toBase58());
+    return transfer.valid && transfer.lamports > 0;
+  }
+
+  /**
+   * Parses the system-program transfers in a confirmed transaction (including
+   * inner instructions) and totals the lamports sent to `recipientAddress`.
+   */
+  async verifyTransfer(signature: string, recipientAddress: string): Promise<TransferVerification> {
+    try {
+      const transaction = await this.connection.getParsedTransaction(signature, {
+        commitment: COMMITMENT_LEVEL,
+        maxSupportedTransactionVersion: 0
+      });
+
+      if (!transaction) {
+        return { valid: false, lamports: 0, payers: [], error: 'Transaction not found' };
+      }
+
+      if (transaction.meta?.err) {
+        return { valid: false, lamports: 0, payers: [], error: 'Transaction failed on-chain' };
+      }
+
+      const instructions = [
+        ...transaction.transaction.message.instructions,
+        ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+      ];
+
+      let lamports = 0;
+      const payers = new Set<string>();
+
+      for (const instruction of instructions) {
+        if (!('parsed' in instruction) || instruction.program !== 'system') {
+          continue;
+        }
+
+        const { type, info } = instruction.parsed;
+        if ((type === 'transfer' || type === 'transferWithSeed') && info.destination === recipientAddress) {
+          lamports += Number(info.lamports);
+          payers.add(info.source);
+        }
+      }
+
+      return {
+        valid: lamports > 0,
+        lamports,
+        payers: Array.from(payers),
+        slot: transaction.slot,
+        blockTime: transaction.blockTime,
+        error: lamports > 0 ? undefined : 'No transfer to the recipient found'
+      };
+    } catch (error) {
+      console.error('Error verifying transfer:', error);
+      return { valid: false, lamports: 0, payers: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Totals what `recipientAddress` received of `mint` from the token balance
+   * deltas (post minus pre) of the accounts it owns. Accounts created in the
+   * same transaction have no pre balance and count from zero. Owners whose
+   * balance of the mint went down are reported as payers.
+   */
+  async verifyTokenTransfer(
+    signature: string,
+    recipientAddress: string,
+    mint: PublicKey | string
+  ): Promise<TokenTransferVerification> {
+    const mintAddress = typeof mint === 'string' ? mint : mint.toBase58();
+    const empty = { valid: false, amount: 0, rawAmount: '0', mint: mintAddress, payers: [] };
+
     try {
-      const transaction = await this.connection.getTransaction(signature, {
+      const transaction = await this.connection.getParsedTransaction(signature, {
         commitment: COMMITMENT_LEVEL,
+        maxSupportedTransactionVersion: 0
       });
 
-      if (!transaction || transaction.meta?.err) {
-        return false;
+      if (!transaction) {
+        return { ...empty, error: 'Transaction not found' };
       }
 
-      const recipientAddress = this.recipientPublicKey.toBase58();
-      const accountKeys = transaction.transaction.message.accountKeys.map(key => key.toBase58());
+      if (transaction.meta?.err) {
+        return { ...empty, error: 'Transaction failed on-chain' };
+      }
 
-      return accountKeys.includes(recipientAddress);
+      const deltas = new Map<number, { owner?: string; amount: bigint; decimals: number }>();
+
+      for (const balance of transaction.meta?.preTokenBalances || []) {
+        if (balance.mint !== mintAddress) continue;
+        deltas.set(balance.accountIndex, {
+          owner: balance.owner,
+          amount: -BigInt(balance.uiTokenAmount.amount),
+          decimals: balance.uiTokenAmount.decimals
+        });
+      }
+
+      for (const balance of transaction.meta?.postTokenBalances || []) {
+        if (balance.mint !== mintAddress) continue;
+        const pre = deltas.get(balance.accountIndex);
+        deltas.set(balance.accountIndex, {
+          owner: balance.owner ?? pre?.owner,
+          amount: (pre?.amount ?? 0n) + BigInt(balance.uiTokenAmount.amount),
+          decimals: balance.uiTokenAmount.decimals
+        });
+      }
+
+      let received = 0n;
+      let decimals = USDC_DECIMALS;
+      const payers = new Set<string>();
+
+      for (const delta of deltas.values()) {
+        if (delta.owner === recipientAddress && delta.amount > 0n) {
+          received += delta.amount;
+          decimals = delta.decimals;
+        } else if (delta.owner && delta.amount < 0n) {
+          payers.add(delta.owner);
+        }
+      }
+
+      return {
+        valid: received > 0n,
+        amount: fromTokenBaseUnits(received, decimals),
+        rawAmount: received.toString(),
+        mint: mintAddress,
+        payers: Array.from(payers),
+        slot: transaction.slot,
+        blockTime: transaction.blockTime,
+        error: received > 0n ? undefined : 'No token transfer to the recipient found'
+      };
     } catch (error) {
-      console.error('Error verifying transaction:', error);
-      return false;
+      console.error('Error verifying token transfer:', error);
+      return { ...empty, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  getExplorerUrl(signature: string, network: 'devnet' | 'mainnet-beta' = 'mainnet-beta'): string {
-    return `https://explorer.solana.com/tx/${signature}?cluster=${network}`;
+  getExplorerUrl(signature: string, network: SolanaCluster = getActiveCluster()): string {
+    return getExplorerUrl(signature, 'tx', network);
+  }
+
+  /** Default speed for payments that do not pass one, picked by the user */
+  setTransactionSpeed(speed: TransactionSpeed): void {
+    this.transactionSpeed = speed;
+  }
+
+  getTransactionSpeed(): TransactionSpeed {
+    return this.transactionSpeed;
+  }
+
+  getRecipientAddress(): string {
+    return this.recipientPublicKey.toBase58();
   }
 
   getAgentCreationFeeUsd(): number {
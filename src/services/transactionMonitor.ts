@@ -1,4 +1,6 @@
-import { Connection, TransactionSignature } from '@solana/web3.js';
+import { Connection, SignatureResult } from '@solana/web3.js';
+import { decodeRawTransaction, TRANSACTION_EXPIRED_MESSAGE } from '../utils/transactionUtils';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 
 export interface TransactionLog {
@@ -6,7 +8,7 @@ export interface TransactionLog {
   signature: string;
   wallet_address: string;
   transaction_type: 'agent_payment' | 'x402_session' | 'x402_usage' | 'credit_purchase' | 'other';
-  status: 'pending' | 'confirmed' | 'failed';
+  status: 'pending' | 'confirmed' | 'failed' | 'expired';
   amount_sol: number;
   amount_usd: number;
   conversion_rate: number;
@@ -27,13 +29,74 @@ export interface TransactionStats {
   averageConfirmationTime: number;
 }
 
+/** What `expire_transaction_log` undid for a payment whose blockhash expired */
+export interface TransactionExpiry {
+  signature: string;
+  walletAddress: string;
+  transactionType: TransactionLog['transaction_type'];
+  amountUsd: number;
+  executionsCancelled: number;
+  sessionsRevoked: number;
+  creditsReversed: number;
+}
+
+interface ActiveMonitor {
+  connection: Connection;
+  /** `onSignature` subscription, null once it fired or when it could not be opened */
+  subscriptionId: number | null;
+  fallbackTimer: ReturnType<typeof setInterval>;
+  /** Without a block height the monitor gives up after `UNBOUNDED_MONITOR_TIMEOUT` */
+  giveUpTimer: ReturnType<typeof setTimeout> | null;
+  lastValidBlockHeight?: number;
+  /** Signed transaction to rebroadcast while the blockhash is valid */
+  rawTransaction?: string;
+}
+
+const FALLBACK_POLL_INTERVAL = 15000; // 15 seconds
+const UNBOUNDED_MONITOR_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+const EXPIRY_WAIT_ATTEMPTS = 20; // 5 minutes at the poll interval
+
+/** The blockhash validity window stored with a logged transaction, if any */
+export const getLastValidBlockHeight = (transaction: Pick<TransactionLog, 'metadata'>): number | undefined => {
+  const value = Number(transaction.metadata?.last_valid_block_height);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+/** The signed transaction stored with a logged transaction, if any */
+export const getRawTransaction = (transaction: Pick<TransactionLog, 'metadata'>): string | undefined => {
+  const value = transaction.metadata?.raw_transaction;
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+/** Expiry of a log row marked expired by `expire_transaction_log` */
+const toTransactionExpiry = (transaction: TransactionLog): TransactionExpiry => ({
+  signature: transaction.signature,
+  walletAddress: transaction.wallet_address,
+  transactionType: transaction.transaction_type,
+  amountUsd: Number(transaction.amount_usd),
+  executionsCancelled: Number(transaction.metadata?.expiry?.executions_cancelled ?? 0),
+  sessionsRevoked: Number(transaction.metadata?.expiry?.sessions_revoked ?? 0),
+  creditsReversed: Number(transaction.metadata?.expiry?.credits_reversed ?? 0)
+});
+
 class TransactionMonitor {
   private connection: Connection;
-  private pollingInterval: number = 5000; // 5 seconds
-  private activeMonitors: Map<string, NodeJS.Timeout> = new Map();
-
-  constructor(connection: Connection) {
+  private client: SupabaseClient;
+  /** Only a monitor with the service-role client may expire payments */
+  private canExpire: boolean;
+  private pollingInterval: number = FALLBACK_POLL_INTERVAL;
+  private activeMonitors: Map<string, ActiveMonitor> = new Map();
+  private expiryListeners: Set<(expiry: TransactionExpiry) => void> = new Set();
+
+  /**
+   * Pass a `client` created with the service role key when monitoring from a
+   * backend worker rather than the browser. Without one the monitor never
+   * expires a payment itself; it waits for the backend monitor to do so.
+   */
+  constructor(connection: Connection, client?: SupabaseClient) {
     this.connection = connection;
+    this.client = client ?? supabase;
+    this.canExpire = client !== undefined;
   }
 
   setConnection(connection: Connection): void {
@@ -44,7 +107,7 @@ class TransactionMonitor {
     try {
       console.log('[TransactionMonitor] Logging transaction:', transaction.signature);
 
-      const { data, error } = await supabase
+      const { data, error } = await this.client
         .from('transaction_logs')
         .insert({
           ...transaction,
@@ -61,7 +124,7 @@ class TransactionMonitor {
       console.log('[TransactionMonitor] Transaction logged successfully:', data.id);
 
       // Start monitoring this transaction
-      this.startMonitoring(transaction.signature);
+      this.startMonitoring(transaction.signature, getLastValidBlockHeight(transaction), getRawTransaction(transaction));
 
       return data.id;
     } catch (error) {
@@ -82,7 +145,7 @@ class TransactionMonitor {
         error_message: errorMessage
       };
 
-      const { error } = await supabase
+      const { error } = await this.client
         .from('transaction_logs')
         .update(updates)
         .eq('signature', signature);
@@ -138,66 +201,259 @@ class TransactionMonitor {
     }
   }
 
-  startMonitoring(signature: string): void {
+  /**
+   * Watches `signature` over a websocket `signatureSubscribe`, with slow
+   * polling as a fallback for dropped sockets. With `lastValidBlockHeight`
+   * a transaction the cluster has not seen is rebroadcast from
+   * `rawTransaction` until that height passes, then marked expired (by the
+   * service-role monitor, see `awaitExpiry` for the browser); without
+   * it the monitor stops after a few minutes and leaves the row pending for
+   * `resumePendingMonitors`.
+   */
+  startMonitoring(signature: string, lastValidBlockHeight?: number, rawTransaction?: string): void {
     // Don't start if already monitoring
     if (this.activeMonitors.has(signature)) {
       return;
     }
 
-    console.log('[TransactionMonitor] Starting to monitor:', signature);
+    console.log('[TransactionMonitor] Starting to monitor:', signature, lastValidBlockHeight ?? '');
+
+    const connection = this.connection;
+    const monitor: ActiveMonitor = {
+      connection,
+      subscriptionId: null,
+      fallbackTimer: setInterval(() => this.pollTransaction(signature), this.pollingInterval),
+      giveUpTimer: lastValidBlockHeight === undefined
+        ? setTimeout(() => this.stopMonitoring(signature), UNBOUNDED_MONITOR_TIMEOUT)
+        : null,
+      lastValidBlockHeight,
+      rawTransaction
+    };
+    this.activeMonitors.set(signature, monitor);
 
-    const checkStatus = async () => {
-      const status = await this.checkTransactionStatus(signature);
+    try {
+      monitor.subscriptionId = connection.onSignature(
+        signature,
+        (result: SignatureResult) => {
+          // The subscription closes itself after notifying
+          monitor.subscriptionId = null;
+          this.settle(signature, result.err ? 'failed' : 'confirmed', result.err ? JSON.stringify(result.err) : undefined);
+        },
+        'confirmed'
+      );
+    } catch (error) {
+      console.warn('[TransactionMonitor] Signature subscription failed, polling only:', signature, error);
+    }
+
+    // The transaction may have landed before the subscription was opened
+    this.pollTransaction(signature);
+  }
+
+  private async pollTransaction(signature: string): Promise<void> {
+    const monitor = this.activeMonitors.get(signature);
+    if (!monitor) {
+      return;
+    }
+
+    try {
+      const { value } = await monitor.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+
+      if (value?.err) {
+        await this.settle(signature, 'failed', JSON.stringify(value.err));
+        return;
+      }
 
-      if (status.status === 'confirmed') {
-        await this.updateTransactionStatus(signature, 'confirmed');
-      } else if (status.status === 'failed') {
-        await this.updateTransactionStatus(signature, 'failed', status.error);
-      } else if (status.status === 'pending') {
-        // Keep monitoring
+      if (value && value.confirmationStatus !== 'processed') {
+        await this.settle(signature, 'confirmed');
+        return;
+      }
+
+      if (value || monitor.lastValidBlockHeight === undefined) {
         console.log('[TransactionMonitor] Transaction still pending:', signature);
-      } else {
-        // not_found - might need more time
-        console.log('[TransactionMonitor] Transaction not found yet:', signature);
+        return;
       }
-    };
 
-    // Initial check
-    checkStatus();
+      // The cluster has not seen the transaction: it was dropped or never
+      // propagated, and can still land while its blockhash is valid
+      const blockHeight = await monitor.connection.getBlockHeight('confirmed');
+      if (blockHeight <= monitor.lastValidBlockHeight) {
+        await this.rebroadcast(signature, monitor, blockHeight);
+        return;
+      }
 
-    // Set up polling
-    const interval = setInterval(checkStatus, this.pollingInterval);
-    this.activeMonitors.set(signature, interval);
+      // Look once more now that the blockhash has expired, it may have
+      // landed in the last valid block
+      const final = await monitor.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+      if (final.value || !this.activeMonitors.has(signature)) {
+        return;
+      }
 
-    // Auto-stop after 5 minutes
-    setTimeout(() => {
       this.stopMonitoring(signature);
-    }, 5 * 60 * 1000);
+
+      if (this.canExpire) {
+        await this.expireTransaction(signature, `Blockhash expired after block ${monitor.lastValidBlockHeight}`);
+      } else {
+        this.awaitExpiry(signature);
+      }
+    } catch (error) {
+      console.error('[TransactionMonitor] Error polling transaction:', signature, error);
+    }
+  }
+
+  private async rebroadcast(signature: string, monitor: ActiveMonitor, blockHeight: number): Promise<void> {
+    if (!monitor.rawTransaction) {
+      console.log('[TransactionMonitor] Transaction not seen yet:', signature, blockHeight, '/', monitor.lastValidBlockHeight);
+      return;
+    }
+
+    console.log('[TransactionMonitor] Rebroadcasting dropped transaction:', signature, blockHeight, '/', monitor.lastValidBlockHeight);
+
+    await monitor.connection.sendRawTransaction(decodeRawTransaction(monitor.rawTransaction), {
+      skipPreflight: true,
+      maxRetries: 0
+    });
+  }
+
+  /**
+   * Marks a pending payment `expired` and cancels what it paid for: agent
+   * executions are failed, x402 sessions revoked and credit top-ups reversed.
+   * Only call it once the transaction's blockhash has expired without it
+   * landing, so the payer was never charged. `expire_transaction_log` is
+   * revoked from browsers, so this needs the service-role client.
+   */
+  async expireTransaction(signature: string, reason: string = TRANSACTION_EXPIRED_MESSAGE): Promise<TransactionExpiry | null> {
+    try {
+      const { data, error } = await this.client.rpc('expire_transaction_log', {
+        p_signature: signature,
+        p_reason: reason
+      });
+
+      if (error) {
+        console.error('[TransactionMonitor] Error expiring transaction:', error);
+        return null;
+      }
+
+      if (!data?.success) {
+        console.log('[TransactionMonitor] Transaction not expired:', signature, data?.error_code);
+        return null;
+      }
+
+      const expiry: TransactionExpiry = {
+        signature,
+        walletAddress: data.wallet_address,
+        transactionType: data.transaction_type,
+        amountUsd: Number(data.amount_usd),
+        executionsCancelled: data.executions_cancelled,
+        sessionsRevoked: data.sessions_revoked,
+        creditsReversed: data.credits_reversed
+      };
+
+      console.log('[TransactionMonitor] Transaction expired:', signature, expiry);
+
+      this.expiryListeners.forEach(listener => listener(expiry));
+      return expiry;
+    } catch (error) {
+      console.error('[TransactionMonitor] Error expiring transaction:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Polls the log row of a payment whose blockhash expired until the
+   * service-role monitor has marked it expired, so browser listeners still
+   * hear about it. Gives up after `EXPIRY_WAIT_ATTEMPTS` polls.
+   */
+  private awaitExpiry(signature: string, attempt: number = 0): void {
+    if (attempt >= EXPIRY_WAIT_ATTEMPTS) {
+      console.log('[TransactionMonitor] Expiry not recorded yet, giving up:', signature);
+      return;
+    }
+
+    setTimeout(async () => {
+      try {
+        const { data, error } = await this.client
+          .from('transaction_logs')
+          .select('*')
+          .eq('signature', signature)
+          .maybeSingle();
+
+        if (error || !data || data.status === 'pending') {
+          this.awaitExpiry(signature, attempt + 1);
+          return;
+        }
+
+        if (data.status === 'expired') {
+          const expiry = toTransactionExpiry(data as TransactionLog);
+          console.log('[TransactionMonitor] Transaction expired:', signature, expiry);
+          this.expiryListeners.forEach(listener => listener(expiry));
+        }
+      } catch (error) {
+        console.error('[TransactionMonitor] Error checking expiry:', signature, error);
+        this.awaitExpiry(signature, attempt + 1);
+      }
+    }, this.pollingInterval);
+  }
+
+  /** Notifies `listener` whenever a monitored payment expires; returns an unsubscribe function */
+  onTransactionExpired(listener: (expiry: TransactionExpiry) => void): () => void {
+    this.expiryListeners.add(listener);
+    return () => {
+      this.expiryListeners.delete(listener);
+    };
+  }
+
+  /** Records the outcome once, whichever of the subscription and the poll sees it first */
+  private async settle(signature: string, status: 'confirmed' | 'failed', errorMessage?: string): Promise<void> {
+    if (!this.activeMonitors.has(signature)) {
+      return;
+    }
+
+    this.stopMonitoring(signature);
+    await this.updateTransactionStatus(signature, status, errorMessage);
   }
 
   stopMonitoring(signature: string): void {
-    const interval = this.activeMonitors.get(signature);
-    if (interval) {
-      clearInterval(interval);
-      this.activeMonitors.delete(signature);
-      console.log('[TransactionMonitor] Stopped monitoring:', signature);
+    const monitor = this.activeMonitors.get(signature);
+    if (!monitor) {
+      return;
     }
+
+    this.clearMonitor(monitor);
+    this.activeMonitors.delete(signature);
+    console.log('[TransactionMonitor] Stopped monitoring:', signature);
   }
 
   stopAllMonitoring(): void {
-    this.activeMonitors.forEach((interval, signature) => {
-      clearInterval(interval);
+    this.activeMonitors.forEach((monitor, signature) => {
+      this.clearMonitor(monitor);
       console.log('[TransactionMonitor] Stopped monitoring:', signature);
     });
     this.activeMonitors.clear();
   }
 
+  private clearMonitor(monitor: ActiveMonitor): void {
+    clearInterval(monitor.fallbackTimer);
+    if (monitor.giveUpTimer) {
+      clearTimeout(monitor.giveUpTimer);
+    }
+    if (monitor.subscriptionId !== null) {
+      monitor.connection.removeSignatureListener(monitor.subscriptionId).catch(error => {
+        console.warn('[TransactionMonitor] Error removing signature listener:', error);
+      });
+      monitor.subscriptionId = null;
+    }
+  }
+
+  isMonitoring(signature: string): boolean {
+    return this.activeMonitors.has(signature);
+  }
+
   async getTransactionHistory(
     walletAddress: string,
     limit: number = 50
   ): Promise<TransactionLog[]> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await this.client
         .from('transaction_logs')
         .select('*')
         .eq('wallet_address', walletAddress)
@@ -218,7 +474,7 @@ class TransactionMonitor {
 
   async getTransactionStats(walletAddress?: string): Promise<TransactionStats> {
     try {
-      let query = supabase
+      let query = this.client
         .from('transaction_logs')
         .select('*');
 
@@ -278,13 +534,18 @@ class TransactionMonitor {
     };
   }
 
-  async getPendingTransactions(): Promise<TransactionLog[]> {
+  async getPendingTransactions(walletAddress?: string): Promise<TransactionLog[]> {
     try {
-      const { data, error } = await supabase
+      let query = this.client
         .from('transaction_logs')
         .select('*')
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false });
+        .eq('status', 'pending');
+
+      if (walletAddress) {
+        query = query.eq('wallet_address', walletAddress);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) {
         console.error('[TransactionMonitor] Error fetching pending transactions:', error);
@@ -298,6 +559,33 @@ class TransactionMonitor {
     }
   }
 
+  /**
+   * Rebuilds monitors for every `transaction_logs` row still pending, so a
+   * payment sent before a reload or crash is still confirmed or expired.
+   * Call it when the app starts (scoped to the connected wallet) or from a
+   * backend worker (unscoped).
+   */
+  async resumePendingMonitors(walletAddress?: string): Promise<number> {
+    const pending = await this.getPendingTransactions(walletAddress);
+    let resumedCount = 0;
+
+    for (const transaction of pending) {
+      if (this.activeMonitors.has(transaction.signature)) {
+        continue;
+      }
+
+      this.startMonitoring(transaction.signature, getLastValidBlockHeight(transaction), getRawTransaction(transaction));
+      resumedCount++;
+    }
+
+    console.log('[TransactionMonitor] Resumed', resumedCount, 'pending transactions');
+    return resumedCount;
+  }
+
+  /**
+   * Re-monitors pending transactions older than a minute: dropped ones are
+   * rebroadcast while their blockhash is valid and expired after that.
+   */
   async retryPendingTransactions(): Promise<number> {
     const pending = await this.getPendingTransactions();
     let retriedCount = 0;
@@ -309,7 +597,7 @@ class TransactionMonitor {
       const ageMinutes = (now - createdAt) / 1000 / 60;
 
       if (ageMinutes > 1) {
-        this.startMonitoring(transaction.signature);
+        this.startMonitoring(transaction.signature, getLastValidBlockHeight(transaction), getRawTransaction(transaction));
         retriedCount++;
       }
     }
@@ -319,8 +607,8 @@ class TransactionMonitor {
   }
 }
 
-export const createTransactionMonitor = (connection: Connection): TransactionMonitor => {
-  return new TransactionMonitor(connection);
+export const createTransactionMonitor = (connection: Connection, client?: SupabaseClient): TransactionMonitor => {
+  return new TransactionMonitor(connection, client);
 };
 
 let globalMonitor: TransactionMonitor | null = null;
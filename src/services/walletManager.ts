@@ -1,9 +1,15 @@
-import { Connection, PublicKey, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { genesisMatchesCluster, getActiveCluster, getNetworkConfig, onClusterChange } from '../lib/network';
+
+export type AnySolanaTransaction = Transaction | VersionedTransaction;
 
 export interface SolanaWallet {
   publicKey: PublicKey;
-  signTransaction: (transaction: Transaction) => Promise<Transaction>;
-  signAllTransactions?: (transactions: Transaction[]) => Promise<Transaction[]>;
+  signTransaction: <T extends AnySolanaTransaction>(transaction: T) => Promise<T>;
+  signAllTransactions?: <T extends AnySolanaTransaction>(transactions: T[]) => Promise<T[]>;
+  /** False when the wallet can only sign legacy transactions; unknown is treated as supported */
+  supportsVersionedTransactions?: boolean;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
   connect: (options?: { onlyIfTrusted: boolean }) => Promise<{ publicKey: PublicKey }>;
   disconnect: () => Promise<void>;
   isConnected: boolean;
@@ -37,17 +43,7 @@ export interface DiagnosticResult {
   };
 }
 
-const getHeliusEndpoint = () => {
-  const apiKey = import.meta.env.VITE_HELIUS_API_KEY;
-  return apiKey ? `https://mainnet.helius-rpc.com/?api-key=${apiKey}` : null;
-};
-
-const RPC_ENDPOINTS = [
-  getHeliusEndpoint(),
-  'https://api.mainnet-beta.solana.com',
-  'https://solana-api.projectserum.com',
-  'https://rpc.ankr.com/solana'
-].filter(Boolean) as string[];
+const getRpcEndpoints = () => getNetworkConfig().rpcEndpoints;
 
 export class WalletManager {
   private wallet: SolanaWallet | null = null;
@@ -56,8 +52,20 @@ export class WalletManager {
   private listeners: Map<string, Set<Function>> = new Map();
   private eventHandlers: Map<string, Function> = new Map();
 
+  constructor() {
+    onClusterChange(() => {
+      this.currentRpcIndex = 0;
+      if (this.connection) {
+        this.connection = new Connection(getRpcEndpoints()[0], {
+          commitment: 'confirmed',
+          confirmTransactionInitialTimeout: 60000
+        });
+      }
+    });
+  }
+
   async initialize(rpcEndpoint?: string): Promise<void> {
-    const endpoint = rpcEndpoint || RPC_ENDPOINTS[0];
+    const endpoint = rpcEndpoint || getRpcEndpoints()[0];
     this.connection = new Connection(endpoint, {
       commitment: 'confirmed',
       confirmTransactionInitialTimeout: 60000,
@@ -181,13 +189,14 @@ export class WalletManager {
 
   private async tryWithFallback<T>(
     operation: (connection: Connection) => Promise<T>,
-    retries: number = RPC_ENDPOINTS.length
+    retries: number = getRpcEndpoints().length
   ): Promise<T> {
     let lastError: Error | null = null;
 
     for (let i = 0; i < retries; i++) {
-      const rpcIndex = (this.currentRpcIndex + i) % RPC_ENDPOINTS.length;
-      const endpoint = RPC_ENDPOINTS[rpcIndex];
+      const endpoints = getRpcEndpoints();
+      const rpcIndex = (this.currentRpcIndex + i) % endpoints.length;
+      const endpoint = endpoints[rpcIndex];
 
       try {
         const connection = new Connection(endpoint, {
@@ -274,17 +283,19 @@ export class WalletManager {
   }
 
   getCurrentRpcEndpoint(): string {
-    return RPC_ENDPOINTS[this.currentRpcIndex];
+    return getRpcEndpoints()[this.currentRpcIndex];
   }
 
   async switchRpcEndpoint(index?: number): Promise<void> {
-    if (index !== undefined && index >= 0 && index < RPC_ENDPOINTS.length) {
+    const endpoints = getRpcEndpoints();
+
+    if (index !== undefined && index >= 0 && index < endpoints.length) {
       this.currentRpcIndex = index;
     } else {
-      this.currentRpcIndex = (this.currentRpcIndex + 1) % RPC_ENDPOINTS.length;
+      this.currentRpcIndex = (this.currentRpcIndex + 1) % endpoints.length;
     }
 
-    const endpoint = RPC_ENDPOINTS[this.currentRpcIndex];
+    const endpoint = endpoints[this.currentRpcIndex];
     this.connection = new Connection(endpoint, {
       commitment: 'confirmed',
       confirmTransactionInitialTimeout: 60000
@@ -364,8 +375,13 @@ export class WalletManager {
 
       try {
         const genesisHash = await this.connection!.getGenesisHash();
-        result.details.network = genesisHash;
-        result.networkMatch = true;
+        const cluster = getActiveCluster();
+        result.details.network = `${getNetworkConfig(cluster).label} (${genesisHash})`;
+        result.networkMatch = genesisMatchesCluster(genesisHash, cluster);
+
+        if (!result.networkMatch) {
+          result.details.errors.push(`RPC endpoint is not on ${getNetworkConfig(cluster).label}`);
+        }
       } catch (error) {
         result.details.errors.push('Could not verify network');
       }
@@ -380,7 +396,7 @@ export class WalletManager {
   async testRpcEndpoints(): Promise<Map<string, { success: boolean; latency?: number; error?: string }>> {
     const results = new Map();
 
-    for (const endpoint of RPC_ENDPOINTS) {
+    for (const endpoint of getRpcEndpoints()) {
       const startTime = Date.now();
       try {
         const connection = new Connection(endpoint, { commitment: 'confirmed' });
@@ -407,3 +423,23 @@ export class WalletManager {
 }
 
 export const walletManager = new WalletManager();
+
+/**
+ * Lets the transaction handler sign with a keypair the way it signs with a
+ * browser wallet. Used by the server-side settlement workers.
+ */
+export const createKeypairWallet = (keypair: Keypair): SolanaWallet => ({
+  publicKey: keypair.publicKey,
+  signTransaction: async <T extends AnySolanaTransaction>(transaction: T): Promise<T> => {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([keypair]);
+    } else {
+      transaction.partialSign(keypair);
+    }
+
+    return transaction;
+  },
+  connect: async () => ({ publicKey: keypair.publicKey }),
+  disconnect: async () => {},
+  isConnected: true
+});
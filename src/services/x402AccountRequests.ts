@@ -0,0 +1,272 @@
+import { PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { supabase } from '../lib/supabase';
+import type { X402AccountRequest } from '../types';
+import type { SolanaWallet } from './walletManager';
+
+/** The fields of an account request the wallet signs */
+export type X402AccountRequestFields = Pick<X402AccountRequest, 'id' | 'kind' | 'wallet_address' | 'target_id' | 'params'>;
+
+export type X402AccountRequestInput = Pick<X402AccountRequest, 'kind'> &
+  Partial<Pick<X402AccountRequest, 'target_id' | 'params'>>;
+
+export interface X402AccountRequestResult {
+  success: boolean;
+  requestId?: string;
+  status?: X402AccountRequest['status'];
+  result?: Record<string, unknown>;
+  error?: string;
+  errorCode?: string;
+}
+
+interface AccountRpcResult {
+  success: boolean;
+  error?: string;
+  error_code?: string;
+  [field: string]: unknown;
+}
+
+const REQUEST_POLL_INTERVAL = 1000; // 1 second
+const REQUEST_WAIT_TIMEOUT = 30 * 1000; // 30 seconds
+
+const AUTHORIZATION_STATUS = {
+  authorization_pause: 'paused',
+  authorization_resume: 'active',
+  authorization_revoke: 'revoked'
+} as const;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Changes to a wallet's sessions, credit accounts and spending
+ * authorizations. None of them are writable from the browser, so a change is
+ * recorded in `x402_account_requests`, signed with the wallet;
+ * `PaymentFundingWorker` checks the signature and applies it with the service
+ * role. The signed payload includes the request id, so a request cannot be
+ * replayed.
+ */
+export class X402AccountRequestManager {
+  static buildRequestPayload(fields: X402AccountRequestFields): Uint8Array {
+    const params = Object.keys(fields.params)
+      .sort()
+      .map(key => `${key}=${fields.params[key]}`)
+      .join(',');
+
+    const payload = [
+      'x402-account:v1',
+      fields.id,
+      fields.kind,
+      fields.wallet_address,
+      fields.target_id ?? '',
+      params
+    ].join('|');
+
+    return new TextEncoder().encode(payload);
+  }
+
+  static verifyRequest(request: X402AccountRequest): boolean {
+    try {
+      return nacl.sign.detached.verify(
+        this.buildRequestPayload(request),
+        bs58.decode(request.signature),
+        new PublicKey(request.wallet_address).toBytes()
+      );
+    } catch (error) {
+      console.error('[Account] Error verifying account request signature:', error);
+      return false;
+    }
+  }
+
+  /** Signs and records an account request, then waits for the worker to apply it */
+  static async requestChange(
+    wallet: SolanaWallet,
+    input: X402AccountRequestInput,
+    client: SupabaseClient = supabase
+  ): Promise<X402AccountRequestResult> {
+    if (!wallet.signMessage) {
+      return { success: false, error: 'Wallet does not support message signing', errorCode: 'SIGNING_UNSUPPORTED' };
+    }
+
+    const fields: X402AccountRequestFields = {
+      id: crypto.randomUUID(),
+      kind: input.kind,
+      wallet_address: wallet.publicKey.toBase58(),
+      target_id: input.target_id ?? null,
+      params: input.params ?? {}
+    };
+
+    try {
+      const signature = await wallet.signMessage(this.buildRequestPayload(fields));
+
+      const { error } = await client
+        .from('x402_account_requests')
+        .insert({ ...fields, signature: bs58.encode(signature) });
+
+      if (error) throw error;
+
+      console.log('[Account] Requested', fields.kind, ':', fields.id);
+      return this.awaitRequest(fields.id, client);
+    } catch (error) {
+      console.error('[Account] Error requesting account change:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to request account change',
+        errorCode: 'REQUEST_FAILED'
+      };
+    }
+  }
+
+  /**
+   * Polls an account request until the worker has applied or rejected it. A
+   * request still pending after `timeoutMs` is left to the worker and
+   * reported as `REQUEST_PENDING`.
+   */
+  static async awaitRequest(
+    requestId: string,
+    client: SupabaseClient = supabase,
+    timeoutMs: number = REQUEST_WAIT_TIMEOUT
+  ): Promise<X402AccountRequestResult> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const { data } = await client
+        .from('x402_account_requests')
+        .select('*')
+        .eq('id', requestId)
+        .maybeSingle();
+
+      const request = data as X402AccountRequest | null;
+      if (request && request.status !== 'pending') {
+        return {
+          success: request.status === 'processed',
+          requestId,
+          status: request.status,
+          result: request.result ?? undefined,
+          error: request.error ?? undefined,
+          errorCode: typeof request.result?.error_code === 'string' ? request.result.error_code : undefined
+        };
+      }
+
+      await sleep(REQUEST_POLL_INTERVAL);
+    }
+
+    return {
+      success: false,
+      requestId,
+      status: 'pending',
+      error: 'Request is waiting for the worker',
+      errorCode: 'REQUEST_PENDING'
+    };
+  }
+
+  /**
+   * Applies an account request on the funding worker, with its service-role
+   * `client`, once the request's signature checks out against its wallet.
+   */
+  static async processRequest(
+    request: X402AccountRequest,
+    client: SupabaseClient = supabase
+  ): Promise<X402AccountRequestResult> {
+    if (!this.verifyRequest(request)) {
+      return this.completeRequest(request, {
+        success: false,
+        error: 'Account request is not signed by its wallet',
+        error_code: 'INVALID_SIGNATURE'
+      }, client);
+    }
+
+    const { data, error } = await this.applyRequest(request, client);
+
+    if (error) {
+      console.error('[Account] Error applying account request:', error);
+      return { success: false, requestId: request.id, status: 'pending', error: error.message };
+    }
+
+    return this.completeRequest(request, data as AccountRpcResult, client);
+  }
+
+  private static applyRequest(request: X402AccountRequest, client: SupabaseClient) {
+    switch (request.kind) {
+      case 'session_revoke':
+        return client.rpc('x402_revoke_session', {
+          p_session_id: request.target_id,
+          p_wallet_address: request.wallet_address
+        });
+      case 'credit_auto_topup':
+        return client.rpc('x402_set_credit_auto_topup', {
+          p_credit_id: request.target_id,
+          p_wallet_address: request.wallet_address,
+          p_enabled: request.params.enabled === true,
+          p_threshold: request.params.threshold ?? null,
+          p_amount: request.params.amount ?? null
+        });
+      case 'authorization_create':
+        return client.rpc('x402_create_authorization', {
+          p_wallet_address: request.wallet_address,
+          p_service_id: request.params.service_id,
+          p_service_type: request.params.service_type,
+          ...this.getLimitArgs(request.params)
+        });
+      case 'authorization_limits':
+        return client.rpc('x402_update_authorization_limits', {
+          p_authorization_id: request.target_id,
+          p_wallet_address: request.wallet_address,
+          ...this.getLimitArgs(request.params)
+        });
+      case 'authorization_pause':
+      case 'authorization_resume':
+      case 'authorization_revoke':
+        return client.rpc('x402_set_authorization_status', {
+          p_authorization_id: request.target_id,
+          p_wallet_address: request.wallet_address,
+          p_status: AUTHORIZATION_STATUS[request.kind]
+        });
+    }
+  }
+
+  private static getLimitArgs(params: X402AccountRequest['params']) {
+    return {
+      p_total_authorized: params.total_authorized,
+      p_per_request: params.per_request ?? null,
+      p_per_day: params.per_day ?? null,
+      p_per_month: params.per_month ?? null,
+      p_expires_at: params.expires_at ?? null
+    };
+  }
+
+  private static async completeRequest(
+    request: X402AccountRequest,
+    result: AccountRpcResult,
+    client: SupabaseClient
+  ): Promise<X402AccountRequestResult> {
+    const status = result.success ? 'processed' : 'rejected';
+
+    const { error } = await client
+      .from('x402_account_requests')
+      .update({
+        status,
+        result,
+        error: result.error ?? null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('[Account] Error saving account request:', error);
+    }
+
+    return {
+      success: result.success,
+      requestId: request.id,
+      status,
+      result,
+      error: result.error,
+      errorCode: result.error_code
+    };
+  }
+}
+
+export const x402AccountRequestManager = X402AccountRequestManager;
@@ -0,0 +1,343 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { X402Authorization } from '../types';
+import { X402AccountRequestManager } from './x402AccountRequests';
+import { X402ServiceConfig } from './x402Protocol';
+import type { SolanaWallet } from './walletManager';
+
+export interface X402AuthorizationLimits {
+  perRequest?: number | null;
+  perDay?: number | null;
+  perMonth?: number | null;
+  totalAuthorized: number;
+  expiresAt?: string | null;
+}
+
+export interface X402AuthorizationSpend {
+  spentToday: number;
+  spentThisMonth: number;
+}
+
+export interface X402AuthorizationCheck {
+  allowed: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface X402AuthorizationChargeOptions {
+  /** Rejects the charge with SERVICE_MISMATCH when the token is for another service */
+  serviceId?: string;
+  serviceType?: 'agent' | 'api' | 'web_service';
+  resourceUrl?: string;
+  httpMethod?: string;
+  idempotencyKey?: string;
+  /** Service-role client; authorizations cannot be charged with the anon key */
+  client: SupabaseClient;
+}
+
+export interface X402AuthorizationChargeResult {
+  success: boolean;
+  transactionId?: string;
+  newBalance?: number;
+  totalSpent?: number;
+  spentToday?: number;
+  spentThisMonth?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+interface X402ChargeRpcResult {
+  success: boolean;
+  transaction_id?: string;
+  new_balance?: number | string;
+  total_spent?: number | string;
+  spent_today?: number | string;
+  spent_this_month?: number | string;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS; // limits are rolling windows, not calendar periods
+
+/**
+ * Standing spending authorizations (`x402_payment_authorizations`). An
+ * authorization lets a wallet's credits be spent on one service without a
+ * wallet prompt, bounded by per-request, rolling 24 hour, rolling 30 day and
+ * total limits. Agents present the token in the `X-402-Payment` header
+ * (`authorization=<token>`); `x402_charge_authorization` enforces the limits
+ * under a row lock before anything is debited.
+ */
+export class X402AuthorizationManager {
+  private static buildLimitParams(limits: X402AuthorizationLimits): Record<string, string | number> {
+    const params: Record<string, string | number> = { total_authorized: limits.totalAuthorized };
+
+    if (limits.perRequest != null) params.per_request = limits.perRequest;
+    if (limits.perDay != null) params.per_day = limits.perDay;
+    if (limits.perMonth != null) params.per_month = limits.perMonth;
+    if (limits.expiresAt != null) params.expires_at = limits.expiresAt;
+
+    return params;
+  }
+
+  /**
+   * Creates the wallet's authorization for a service, or replaces the limits
+   * and token of an existing one (there is at most one per wallet and service).
+   * The parameters are signed with the wallet and applied by the funding
+   * worker, see `X402AccountRequestManager`.
+   */
+  static async createAuthorization(
+    wallet: SolanaWallet,
+    serviceId: string,
+    serviceType: 'agent' | 'api' | 'web_service',
+    limits: X402AuthorizationLimits
+  ): Promise<{ success: boolean; authorization?: X402Authorization; error?: string }> {
+    if (!(limits.totalAuthorized > 0)) {
+      return { success: false, error: 'Total authorized amount must be positive' };
+    }
+
+    const result = await X402AccountRequestManager.requestChange(wallet, {
+      kind: 'authorization_create',
+      params: { service_id: serviceId, service_type: serviceType, ...this.buildLimitParams(limits) }
+    });
+
+    const authorizationId = result.result?.authorization_id;
+    if (!result.success || typeof authorizationId !== 'string') {
+      console.error('[Authorizations] Error creating authorization:', result.error);
+      return { success: false, error: result.error || 'Failed to create authorization' };
+    }
+
+    const { data, error } = await supabase
+      .from('x402_payment_authorizations')
+      .select('*')
+      .eq('id', authorizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Authorizations] Error fetching authorization:', error);
+    }
+
+    console.log('[Authorizations] Authorization created for', serviceType, serviceId);
+    return { success: true, authorization: (data as X402Authorization | null) ?? undefined };
+  }
+
+  static async getAuthorizations(walletAddress: string): Promise<X402Authorization[]> {
+    try {
+      const { data, error } = await supabase
+        .from('x402_payment_authorizations')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[Authorizations] Error fetching authorizations:', error);
+        return [];
+      }
+
+      return data as X402Authorization[];
+    } catch (error) {
+      console.error('[Authorizations] Error fetching authorizations:', error);
+      return [];
+    }
+  }
+
+  static async getAuthorization(
+    authorizationToken: string,
+    client: SupabaseClient = supabase
+  ): Promise<X402Authorization | null> {
+    try {
+      const { data, error } = await client
+        .from('x402_payment_authorizations')
+        .select('*')
+        .eq('authorization_token', authorizationToken)
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data as X402Authorization;
+    } catch (error) {
+      console.error('[Authorizations] Error fetching authorization:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Services the wallet can authorize spending on.
+   */
+  static async getAuthorizableServices(): Promise<X402ServiceConfig[]> {
+    try {
+      const { data, error } = await supabase
+        .from('x402_service_configs')
+        .select('*')
+        .eq('accepts_x402', true)
+        .eq('is_active', true)
+        .order('service_name', { ascending: true });
+
+      if (error) {
+        console.error('[Authorizations] Error fetching services:', error);
+        return [];
+      }
+
+      return data as X402ServiceConfig[];
+    } catch (error) {
+      console.error('[Authorizations] Error fetching services:', error);
+      return [];
+    }
+  }
+
+  static async updateLimits(
+    wallet: SolanaWallet,
+    authorizationId: string,
+    limits: X402AuthorizationLimits
+  ): Promise<boolean> {
+    return this.requestChange(wallet, authorizationId, 'authorization_limits', this.buildLimitParams(limits));
+  }
+
+  static async pauseAuthorization(wallet: SolanaWallet, authorizationId: string): Promise<boolean> {
+    return this.requestChange(wallet, authorizationId, 'authorization_pause');
+  }
+
+  static async resumeAuthorization(wallet: SolanaWallet, authorizationId: string): Promise<boolean> {
+    return this.requestChange(wallet, authorizationId, 'authorization_resume');
+  }
+
+  static async revokeAuthorization(wallet: SolanaWallet, authorizationId: string): Promise<boolean> {
+    return this.requestChange(wallet, authorizationId, 'authorization_revoke');
+  }
+
+  private static async requestChange(
+    wallet: SolanaWallet,
+    authorizationId: string,
+    kind: 'authorization_limits' | 'authorization_pause' | 'authorization_resume' | 'authorization_revoke',
+    params?: Record<string, string | number>
+  ): Promise<boolean> {
+    const result = await X402AccountRequestManager.requestChange(wallet, {
+      kind,
+      target_id: authorizationId,
+      params
+    });
+
+    if (!result.success) {
+      console.error(`[Authorizations] Error applying ${kind}:`, result.error);
+    }
+
+    return result.success;
+  }
+
+  static async getSpend(authorizationId: string, client: SupabaseClient = supabase): Promise<X402AuthorizationSpend> {
+    try {
+      const since = new Date(Date.now() - MONTH_MS).toISOString();
+      const { data, error } = await client
+        .from('x402_authorization_charges')
+        .select('amount, created_at')
+        .eq('authorization_id', authorizationId)
+        .gt('created_at', since);
+
+      if (error || !data) {
+        return { spentToday: 0, spentThisMonth: 0 };
+      }
+
+      const dayStart = Date.now() - DAY_MS;
+      return data.reduce(
+        (spend, charge) => ({
+          spentToday: spend.spentToday + (new Date(charge.created_at).getTime() > dayStart ? Number(charge.amount) : 0),
+          spentThisMonth: spend.spentThisMonth + Number(charge.amount)
+        }),
+        { spentToday: 0, spentThisMonth: 0 }
+      );
+    } catch (error) {
+      console.error('[Authorizations] Error fetching spend:', error);
+      return { spentToday: 0, spentThisMonth: 0 };
+    }
+  }
+
+  /**
+   * Pre-flight check used before asking the server to charge. The RPC repeats
+   * every check under a lock, so this only saves a round trip.
+   */
+  static async checkLimits(
+    authorization: X402Authorization,
+    amount: number,
+    client: SupabaseClient = supabase
+  ): Promise<X402AuthorizationCheck> {
+    if (authorization.status !== 'active') {
+      return {
+        allowed: false,
+        error: `Authorization is ${authorization.status}`,
+        errorCode: `AUTHORIZATION_${authorization.status.toUpperCase()}`
+      };
+    }
+
+    if (authorization.expires_at && new Date(authorization.expires_at) < new Date()) {
+      return { allowed: false, error: 'Authorization expired', errorCode: 'AUTHORIZATION_EXPIRED' };
+    }
+
+    if (authorization.spending_limit_per_request !== null && amount > Number(authorization.spending_limit_per_request)) {
+      return { allowed: false, error: 'Amount exceeds the per-request limit', errorCode: 'PER_REQUEST_LIMIT_EXCEEDED' };
+    }
+
+    const spend = await this.getSpend(authorization.id, client);
+
+    if (authorization.spending_limit_per_day !== null && spend.spentToday + amount > Number(authorization.spending_limit_per_day)) {
+      return { allowed: false, error: 'Amount exceeds the rolling 24 hour limit', errorCode: 'DAILY_LIMIT_EXCEEDED' };
+    }
+
+    if (authorization.spending_limit_per_month !== null && spend.spentThisMonth + amount > Number(authorization.spending_limit_per_month)) {
+      return { allowed: false, error: 'Amount exceeds the rolling 30 day limit', errorCode: 'MONTHLY_LIMIT_EXCEEDED' };
+    }
+
+    if (Number(authorization.total_spent) + amount > Number(authorization.total_authorized)) {
+      return { allowed: false, error: 'Authorization has no budget left', errorCode: 'AUTHORIZATION_EXHAUSTED' };
+    }
+
+    return { allowed: true };
+  }
+
+  static async chargeAuthorization(
+    authorizationToken: string,
+    walletAddress: string,
+    amount: number,
+    options: X402AuthorizationChargeOptions
+  ): Promise<X402AuthorizationChargeResult> {
+    try {
+      const { data, error } = await options.client.rpc('x402_charge_authorization', {
+        p_authorization_token: authorizationToken,
+        p_wallet_address: walletAddress,
+        p_amount: amount,
+        p_resource_url: options.resourceUrl ?? null,
+        p_http_method: options.httpMethod ?? 'POST',
+        p_idempotency_key: options.idempotencyKey ?? null,
+        p_service_id: options.serviceId ?? null,
+        p_service_type: options.serviceType ?? null
+      });
+
+      if (error) {
+        console.error('[Authorizations] Error charging authorization:', error);
+        return { success: false, error: error.message, errorCode: 'UPDATE_FAILED' };
+      }
+
+      const result = data as X402ChargeRpcResult;
+
+      if (!result.success) {
+        return { success: false, error: result.error, errorCode: result.error_code };
+      }
+
+      return {
+        success: true,
+        transactionId: result.transaction_id,
+        newBalance: result.new_balance !== undefined ? Number(result.new_balance) : undefined,
+        totalSpent: Number(result.total_spent),
+        spentToday: result.spent_today !== undefined ? Number(result.spent_today) : undefined,
+        spentThisMonth: result.spent_this_month !== undefined ? Number(result.spent_this_month) : undefined
+      };
+    } catch (error) {
+      console.error('[Authorizations] Error charging authorization:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN_ERROR' };
+    }
+  }
+}
+
+export const x402AuthorizationManager = X402AuthorizationManager;
@@ -0,0 +1,573 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getActiveCluster, getNetworkConfig, SolanaCluster } from '../lib/network';
+import type { X402ChannelCloseRequest, X402ChannelSettlement, X402ChannelVoucher, X402PaymentChannel } from '../types';
+import { fromTokenBaseUnits, getUsdcMint, USDC_DECIMALS } from '../utils/splToken';
+import { allocateSplit, buildRevenueSplit, PaymentSplitLeg } from '../utils/paymentSplit';
+import {
+  SentTransaction,
+  TransactionHandler,
+  TransactionOptions,
+  TransactionResult,
+  TransactionSpeed,
+  TransferLeg
+} from '../utils/transactionUtils';
+import { SolanaPaymentService, solanaPaymentService } from './solanaPayment';
+import { createTransactionMonitor } from './transactionMonitor';
+import { createKeypairWallet } from './walletManager';
+import type { SolanaWallet } from './walletManager';
+import { X402PaymentChannelManager, X402SignedVoucher } from './x402PaymentChannels';
+
+export interface X402ChannelSettlementOutcome {
+  channelId: string;
+  status: 'settled' | 'closed' | 'pending' | 'skipped' | 'failed';
+  signature?: string;
+  error?: string;
+}
+
+export interface X402ChannelSettlementWorkerOptions {
+  /** Key of the cluster's escrow wallet, which holds the channel deposits */
+  escrowKeypair: Keypair;
+  client?: SupabaseClient;
+  /** Verifies deposits; its connection also sends the settlements */
+  paymentService?: SolanaPaymentService;
+  cluster?: SolanaCluster;
+  workerId?: string;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  staleClaimSeconds?: number;
+  /** How many of the latest vouchers are tried when the newest does not verify */
+  voucherLookback?: number;
+  speed?: TransactionSpeed;
+}
+
+const DEFAULT_POLL_INTERVAL = 30000; // 30 seconds
+const DEFAULT_BATCH_SIZE = 5;
+const DEFAULT_STALE_CLAIM_SECONDS = 5 * 60; // 5 minutes
+const DEFAULT_VOUCHER_LOOKBACK = 20;
+
+interface ChannelPayout {
+  kind: X402ChannelSettlement['kind'];
+  voucher: Pick<X402SignedVoucher, 'amount' | 'nonce'>;
+  /** USD of vouchers this settlement pays out */
+  amount: number;
+  payoutLegs: PaymentSplitLeg[];
+  refund: bigint;
+}
+
+/**
+ * Settles `x402_payment_channels` on-chain and applies signed
+ * `x402_channel_close_requests`. Open channels are paid out once
+ * their unsettled vouchers reach the channel's threshold or its settlement
+ * interval has passed; closing channels get a final settlement once the
+ * dispute window is over, which also refunds the rest of the deposit to the
+ * payer.
+ *
+ * The latest voucher's signature is checked again before anything is paid, and
+ * the deposit is checked on-chain, so a voucher recorded without a valid
+ * signature cannot move funds. Payouts go to the service owner and the
+ * platform fee wallet with the usual revenue split, priced at the rate the
+ * deposit was made at.
+ *
+ * Runs server-side only, with the escrow wallet's key and a `client` created
+ * with the service role key.
+ */
+export class X402ChannelSettlementWorker {
+  private client: SupabaseClient;
+  private wallet: SolanaWallet;
+  private paymentService: SolanaPaymentService;
+  private cluster: SolanaCluster;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private staleClaimSeconds: number;
+  private voucherLookback: number;
+  private speed: TransactionSpeed;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+
+  constructor(options: X402ChannelSettlementWorkerOptions) {
+    this.client = options.client || supabase;
+    this.wallet = createKeypairWallet(options.escrowKeypair);
+    this.paymentService = options.paymentService || solanaPaymentService;
+    this.cluster = options.cluster ?? getActiveCluster();
+    this.workerId = options.workerId || `channel-${crypto.randomUUID()}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.staleClaimSeconds = options.staleClaimSeconds ?? DEFAULT_STALE_CLAIM_SECONDS;
+    this.voucherLookback = options.voucherLookback ?? DEFAULT_VOUCHER_LOOKBACK;
+    this.speed = options.speed ?? 'normal';
+  }
+
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    console.log('[ChannelWorker] Starting worker:', this.workerId);
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    console.log('[ChannelWorker] Stopping worker:', this.workerId);
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('[ChannelWorker] Poll failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextPoll(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Applies signed close requests, then claims one batch of channels and
+   * settles them one at a time
+   */
+  async runOnce(): Promise<X402ChannelSettlementOutcome[]> {
+    await this.processCloseRequests();
+
+    const claimed = await this.claimChannels();
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    console.log('[ChannelWorker] Claimed', claimed.length, 'channels');
+
+    const outcomes: X402ChannelSettlementOutcome[] = [];
+    for (const channel of claimed) {
+      outcomes.push(await this.settleChannel(channel));
+    }
+
+    return outcomes;
+  }
+
+  private async processCloseRequests(): Promise<void> {
+    const { data, error } = await this.client
+      .from('x402_channel_close_requests')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(this.batchSize);
+
+    if (error) {
+      console.error('[ChannelWorker] Error fetching close requests:', error);
+      return;
+    }
+
+    for (const request of (data || []) as X402ChannelCloseRequest[]) {
+      const result = await X402PaymentChannelManager.processCloseRequest(request, this.client);
+      console.log('[ChannelWorker] Close request', request.id, result.success ? 'applied' : `rejected: ${result.error}`);
+    }
+  }
+
+  private async claimChannels(): Promise<X402PaymentChannel[]> {
+    const { data, error } = await this.client.rpc('claim_x402_channel_settlements', {
+      p_worker_id: this.workerId,
+      p_limit: this.batchSize,
+      p_stale_after_seconds: this.staleClaimSeconds
+    });
+
+    if (error) {
+      console.error('[ChannelWorker] Error claiming channels:', error);
+      return [];
+    }
+
+    return (data || []) as X402PaymentChannel[];
+  }
+
+  async settleChannel(channel: X402PaymentChannel): Promise<X402ChannelSettlementOutcome> {
+    if (channel.channel_wallet !== this.wallet.publicKey.toBase58()) {
+      return this.fail(channel, `Channel is held by ${channel.channel_wallet}, this worker signs for ${this.wallet.publicKey.toBase58()}`);
+    }
+
+    try {
+      // A previous claim sent a settlement but never recorded its outcome
+      const pending = await this.getPendingSettlement(channel.id);
+      if (pending) {
+        const previous = await this.checkSettlement(pending);
+        if (previous === 'confirmed') {
+          return this.confirm(channel, pending);
+        }
+
+        if (previous === 'pending') {
+          return { channelId: channel.id, status: 'pending', signature: pending.signature };
+        }
+
+        await this.markSettlementFailed(pending, 'Settlement expired before it confirmed');
+      }
+
+      const { value } = await this.getConnection().getSignatureStatus(channel.deposit_signature, { searchTransactionHistory: true });
+      if (value?.err) {
+        return this.closeWithoutSettlement(channel, 'Deposit failed on-chain');
+      }
+
+      const deposit = await X402PaymentChannelManager.verifyDeposit(channel, this.paymentService, this.cluster);
+      if (deposit.errorCode === 'DEPOSIT_NOT_FOUND') {
+        // Not visible yet or the RPC call failed, try again on the next claim
+        throw new Error(deposit.error || 'Could not load the deposit');
+      }
+
+      if (!deposit.valid) {
+        // Nothing was ever held for this channel, so there is nothing to pay out
+        return this.closeWithoutSettlement(channel, deposit.error || 'Deposit could not be verified');
+      }
+
+      const payout = await this.buildPayout(channel);
+      const legs: TransferLeg[] = [
+        ...payout.payoutLegs,
+        ...(payout.refund > 0n ? [{ recipient: channel.payer_wallet, amount: payout.refund }] : [])
+      ];
+
+      if (legs.length === 0) {
+        return payout.kind === 'final'
+          ? this.closeWithoutSettlement(channel)
+          : this.fail(channel, 'No verifiable voucher to settle');
+      }
+
+      let settlementId: string | null = null;
+      const result = await this.send(channel, legs, payout, id => {
+        settlementId = id;
+      });
+
+      if (!result.success || !result.signature) {
+        if (settlementId && result.expired) {
+          await this.markSettlementFailed({ id: settlementId }, result.error || 'Settlement expired');
+        }
+
+        return this.fail(channel, result.error || 'Settlement transfer failed');
+      }
+
+      if (payout.payoutLegs.length > 0) {
+        await this.recordPayoutSplits(channel, result.signature, payout);
+      }
+
+      if (!settlementId) {
+        return this.fail(channel, 'Settlement was sent but could not be recorded');
+      }
+
+      return this.confirm(channel, { id: settlementId, kind: payout.kind, signature: result.signature });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[ChannelWorker] Settlement failed:', channel.id, message);
+      return this.fail(channel, message);
+    }
+  }
+
+  private async getPendingSettlement(channelId: string): Promise<X402ChannelSettlement | null> {
+    const { data, error } = await this.client
+      .from('x402_channel_settlements')
+      .select('*')
+      .eq('channel_id', channelId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Could not load pending settlements: ${error.message}`);
+    }
+
+    return data as X402ChannelSettlement | null;
+  }
+
+  /** Whether an earlier settlement landed, can still land or is dead and may be resent */
+  private async checkSettlement(settlement: X402ChannelSettlement): Promise<'confirmed' | 'pending' | 'dead'> {
+    const connection = this.getConnection();
+    const { value } = await connection.getSignatureStatus(settlement.signature, { searchTransactionHistory: true });
+
+    if (value && !value.err && (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized')) {
+      return 'confirmed';
+    }
+
+    if (value?.err) {
+      return 'dead';
+    }
+
+    const lastValidBlockHeight = settlement.last_valid_block_height;
+    if (lastValidBlockHeight === null || await connection.getBlockHeight('confirmed') > lastValidBlockHeight) {
+      return value ? 'pending' : 'dead';
+    }
+
+    return 'pending';
+  }
+
+  /**
+   * The latest voucher whose signature checks out, falling back to earlier
+   * ones when a newer voucher was recorded with a bad signature.
+   */
+  private async findLatestValidVoucher(channel: X402PaymentChannel): Promise<X402ChannelVoucher | null> {
+    const { data, error } = await this.client
+      .from('x402_channel_vouchers')
+      .select('*')
+      .eq('channel_id', channel.id)
+      .gt('amount', channel.settled_amount)
+      .order('nonce', { ascending: false })
+      .limit(this.voucherLookback);
+
+    if (error) {
+      throw new Error(`Could not load vouchers: ${error.message}`);
+    }
+
+    const vouchers = (data || []) as X402ChannelVoucher[];
+    const valid = vouchers.find(voucher => X402PaymentChannelManager.verifyVoucherSignature(
+      { channelId: channel.id, amount: Number(voucher.amount), nonce: Number(voucher.nonce), signature: voucher.signature },
+      channel.payer_wallet
+    ));
+
+    if (vouchers.length > 0 && valid !== vouchers[0]) {
+      console.warn('[ChannelWorker] Skipping vouchers with invalid signatures on channel', channel.id);
+    }
+
+    return valid ?? null;
+  }
+
+  private async buildPayout(channel: X402PaymentChannel): Promise<ChannelPayout> {
+    const kind = channel.status === 'closing' ? 'final' : 'periodic';
+    const voucher = await this.findLatestValidVoucher(channel);
+
+    const settledAmount = Number(channel.settled_amount);
+    const settledBaseUnits = BigInt(channel.settled_base_units);
+    const depositBaseUnits = BigInt(channel.deposit_base_units);
+
+    const covered = voucher
+      ? { amount: Number(voucher.amount), nonce: Number(voucher.nonce) }
+      : { amount: settledAmount, nonce: Number(channel.voucher_nonce) };
+
+    // Vouchers are in USD; the deposit fixes how many base units a dollar is
+    const coveredBaseUnits = (X402PaymentChannelManager.toVoucherUnits(covered.amount) * depositBaseUnits)
+      / X402PaymentChannelManager.toVoucherUnits(Number(channel.deposit_amount));
+    const payout = coveredBaseUnits > settledBaseUnits ? coveredBaseUnits - settledBaseUnits : 0n;
+
+    const feeWallet = getNetworkConfig(this.cluster).feeWallet;
+    const payoutLegs = payout > 0n
+      ? allocateSplit(payout, buildRevenueSplit(channel.recipient_wallet, feeWallet, Number(channel.platform_fee_percent)))
+        .filter(leg => leg.amount > 0n)
+      : [];
+
+    return {
+      kind,
+      voucher: covered,
+      amount: Math.max(covered.amount - settledAmount, 0),
+      payoutLegs,
+      refund: kind === 'final' ? depositBaseUnits - settledBaseUnits - payout : 0n
+    };
+  }
+
+  private async send(
+    channel: X402PaymentChannel,
+    legs: TransferLeg[],
+    payout: ChannelPayout,
+    onRecorded: (settlementId: string) => void
+  ): Promise<TransactionResult> {
+    const handler = new TransactionHandler(this.getConnection(), this.cluster);
+    const options: TransactionOptions = {
+      commitment: 'confirmed',
+      speed: this.speed,
+      onSent: async (sent: SentTransaction) => {
+        const settlementId = await this.recordSent(channel, sent, legs, payout);
+        if (settlementId) {
+          onRecorded(settlementId);
+        }
+      }
+    };
+
+    if (channel.currency === 'USDC') {
+      return handler.sendSplitTokenTransfer(this.wallet, getUsdcMint(this.cluster), legs, USDC_DECIMALS, options);
+    }
+
+    return handler.sendSplitSolTransfer(this.wallet, legs, options);
+  }
+
+  /** Stores the settlement before it confirms, so a restarted worker does not pay twice */
+  private async recordSent(
+    channel: X402PaymentChannel,
+    sent: SentTransaction,
+    legs: TransferLeg[],
+    payout: ChannelPayout
+  ): Promise<string | null> {
+    const payoutBaseUnits = payout.payoutLegs.reduce((sum, leg) => sum + leg.amount, 0n);
+
+    const { data, error } = await this.client
+      .from('x402_channel_settlements')
+      .insert({
+        channel_id: channel.id,
+        kind: payout.kind,
+        signature: sent.signature,
+        last_valid_block_height: sent.lastValidBlockHeight,
+        voucher_nonce: payout.voucher.nonce,
+        voucher_amount: payout.voucher.amount,
+        amount: payout.amount,
+        payout_base_units: payoutBaseUnits.toString(),
+        refund_base_units: payout.refund.toString()
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('[ChannelWorker] Error recording settlement:', error);
+    }
+
+    const decimals = channel.currency === 'USDC' ? USDC_DECIMALS : 9;
+    const total = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+
+    await createTransactionMonitor(this.getConnection(), this.client).logTransaction({
+      signature: sent.signature,
+      wallet_address: channel.channel_wallet,
+      transaction_type: 'x402_usage',
+      status: 'pending',
+      amount_sol: channel.currency === 'SOL' ? Number(total) / LAMPORTS_PER_SOL : 0,
+      amount_usd: payout.amount,
+      conversion_rate: channel.currency === 'SOL'
+        ? Number(channel.deposit_amount) / (Number(channel.deposit_base_units) / LAMPORTS_PER_SOL)
+        : 1,
+      recipient_address: legs[0].recipient,
+      metadata: {
+        currency: channel.currency,
+        x402_channel_id: channel.id,
+        settlement: payout.kind,
+        voucher_nonce: payout.voucher.nonce,
+        legs: legs.map(leg => ({ recipient: leg.recipient, amount: fromTokenBaseUnits(leg.amount, decimals) })),
+        transaction_version: sent.version,
+        raw_transaction: sent.rawTransaction,
+        blockhash: sent.blockhash,
+        last_valid_block_height: sent.lastValidBlockHeight
+      }
+    });
+
+    return data ? (data as { id: string }).id : null;
+  }
+
+  /** Payouts show up in `payment_splits` like direct payments to the service owner */
+  private async recordPayoutSplits(channel: X402PaymentChannel, signature: string, payout: ChannelPayout): Promise<void> {
+    const decimals = channel.currency === 'USDC' ? USDC_DECIMALS : 9;
+    const now = new Date().toISOString();
+
+    const { error } = await this.client.from('payment_splits').insert(
+      payout.payoutLegs.map(leg => ({
+        transaction_signature: signature,
+        payer_wallet: channel.payer_wallet,
+        payment_type: 'x402_channel',
+        service_type: channel.service_type === 'web_service' ? null : channel.service_type,
+        service_id: channel.service_id,
+        recipient_address: leg.recipient,
+        role: leg.role,
+        share_percent: leg.percent,
+        currency: channel.currency,
+        amount: fromTokenBaseUnits(leg.amount, decimals),
+        amount_base_units: leg.amount.toString(),
+        amount_usd: (payout.amount * leg.percent) / 100,
+        status: 'verified',
+        verified_at: now
+      }))
+    );
+
+    if (error) {
+      console.error('[ChannelWorker] Error recording payout splits:', error);
+    }
+  }
+
+  private async confirm(
+    channel: X402PaymentChannel,
+    settlement: Pick<X402ChannelSettlement, 'id' | 'kind' | 'signature'>
+  ): Promise<X402ChannelSettlementOutcome> {
+    const { data, error } = await this.client.rpc('x402_confirm_channel_settlement', { p_settlement_id: settlement.id });
+    const status = settlement.kind === 'final' ? 'closed' : 'settled';
+
+    if (error || !(data as { success: boolean } | null)?.success) {
+      console.error('[ChannelWorker] Error saving settlement:', error || data);
+    } else {
+      console.log('[ChannelWorker] Channel', status + ':', channel.id, settlement.signature);
+    }
+
+    return { channelId: channel.id, status, signature: settlement.signature };
+  }
+
+  private async markSettlementFailed(settlement: Pick<X402ChannelSettlement, 'id'>, message: string): Promise<void> {
+    const { error } = await this.client
+      .from('x402_channel_settlements')
+      .update({ status: 'failed', error: message })
+      .eq('id', settlement.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('[ChannelWorker] Error marking settlement failed:', error);
+    }
+  }
+
+  /** Closes a channel with nothing left to move, either because it is empty or its deposit never arrived */
+  private async closeWithoutSettlement(channel: X402PaymentChannel, reason?: string): Promise<X402ChannelSettlementOutcome> {
+    if (reason) {
+      console.warn('[ChannelWorker] Closing channel without settlement', channel.id, reason);
+    }
+
+    const { error } = await this.client
+      .from('x402_payment_channels')
+      .update({
+        status: 'closed',
+        settlement_error: reason ?? null,
+        closed_at: new Date().toISOString(),
+        worker_id: null,
+        claimed_at: null
+      })
+      .eq('id', channel.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[ChannelWorker] Error closing channel:', error);
+    }
+
+    return { channelId: channel.id, status: reason ? 'failed' : 'closed', error: reason };
+  }
+
+  /** Leaves the channel claimed with the error, so it is retried once the claim goes stale */
+  private async fail(channel: X402PaymentChannel, message: string): Promise<X402ChannelSettlementOutcome> {
+    const { error } = await this.client
+      .from('x402_payment_channels')
+      .update({ settlement_error: message })
+      .eq('id', channel.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      console.error('[ChannelWorker] Error saving settlement error:', error);
+    }
+
+    return { channelId: channel.id, status: 'failed', error: message };
+  }
+
+  private getConnection(): Connection {
+    return this.paymentService.getConnection();
+  }
+}
+
+export const createX402ChannelSettlementWorker = (options: X402ChannelSettlementWorkerOptions): X402ChannelSettlementWorker => {
+  return new X402ChannelSettlementWorker(options);
+};
+
+export default X402ChannelSettlementWorker;
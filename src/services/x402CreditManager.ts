@@ -1,5 +1,10 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { solanaPaymentService, SolanaWallet } from './solanaPayment';
+import { X402AccountRequestManager } from './x402AccountRequests';
+import { X402FundingManager } from './x402Funding';
+import type { PriceQuote } from './priceQuote';
+import { PaymentCurrency } from '../utils/splToken';
 
 export interface X402Credit {
   id: string;
@@ -29,7 +34,35 @@ export interface CreditTopUpResult {
 export interface CreditSpendResult {
   success: boolean;
   newBalance?: number;
+  transactionId?: string;
   error?: string;
+  errorCode?: string;
+}
+
+export interface CreditSpendOptions {
+  resourceUrl?: string;
+  httpMethod?: string;
+  idempotencyKey?: string;
+  /** Service-role client; credits cannot be spent with the anon key */
+  client: SupabaseClient;
+}
+
+interface CreditTopUpRpcResult {
+  success: boolean;
+  credit_id?: string;
+  new_balance?: number | string;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+interface CreditSpendRpcResult {
+  success: boolean;
+  transaction_id?: string;
+  new_balance?: number | string;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
 }
 
 export class X402CreditManager {
@@ -82,14 +115,20 @@ export class X402CreditManager {
     wallet: SolanaWallet,
     serviceId: string | null,
     serviceType: 'agent' | 'api' | 'web_service',
-    amountUSDC: number
+    amountUSDC: number,
+    paymentCurrency: PaymentCurrency = 'SOL',
+    quote?: PriceQuote
   ): Promise<CreditTopUpResult> {
     try {
-      console.log('[Credits] Creating payment transaction for', amountUSDC, 'USD');
+      console.log('[Credits] Creating payment transaction for', amountUSDC, 'USD in', paymentCurrency);
 
       const paymentResult = await solanaPaymentService.createPaymentTransaction(
         wallet,
-        amountUSDC
+        amountUSDC,
+        'credit_purchase',
+        paymentCurrency,
+        undefined,
+        quote
       );
 
       if (!paymentResult.success || !paymentResult.signature) {
@@ -101,60 +140,32 @@ export class X402CreditManager {
 
       console.log('[Credits] Payment successful, tx:', paymentResult.signature);
 
-      const walletAddress = wallet.publicKey.toBase58();
-
-      const { data: existing } = await supabase
-        .from('x402_payment_credits')
-        .select('*')
-        .eq('wallet_address', walletAddress)
-        .eq('service_id', serviceId || '')
-        .eq('service_type', serviceType)
-        .maybeSingle();
-
-      let newBalance: number;
-
-      if (existing) {
-        newBalance = Number(existing.credit_balance) + amountUSDC;
-
-        const { error: updateError } = await supabase
-          .from('x402_payment_credits')
-          .update({
-            credit_balance: newBalance,
-            total_purchased: Number(existing.total_purchased) + amountUSDC,
-            last_topup_tx: paymentResult.signature,
-            last_topup_amount: amountUSDC,
-            last_topup_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', existing.id);
-
-        if (updateError) {
-          console.error('Error updating credits:', updateError);
-          return { success: false, error: updateError.message };
-        }
-      } else {
-        newBalance = amountUSDC;
-
-        const { error: insertError } = await supabase
-          .from('x402_payment_credits')
-          .insert({
-            wallet_address: walletAddress,
-            service_id: serviceId,
-            service_type: serviceType,
-            credit_balance: newBalance,
-            total_purchased: amountUSDC,
-            total_spent: 0,
-            last_topup_tx: paymentResult.signature,
-            last_topup_amount: amountUSDC,
-            last_topup_at: new Date().toISOString()
-          });
-
-        if (insertError) {
-          console.error('Error inserting credits:', insertError);
-          return { success: false, error: insertError.message };
-        }
+      // The funding worker posts the payment to the ledger, which derives the
+      // credit balance, once it has seen the transfer on-chain
+      const funding = await X402FundingManager.requestFunding(wallet, {
+        kind: 'credits',
+        service_id: serviceId,
+        service_type: serviceType,
+        amount: amountUSDC,
+        currency: paymentCurrency,
+        payment_signature: paymentResult.signature
+      });
+
+      const result = funding.result as CreditTopUpRpcResult | undefined;
+
+      if (!funding.success || !result) {
+        console.error('Error recording credit top-up:', funding.error);
+        return {
+          success: false,
+          transactionSignature: paymentResult.signature,
+          error: funding.errorCode === 'FUNDING_PENDING'
+            ? 'Payment sent; the credits are added once it has been verified'
+            : funding.error || 'Failed to record top-up'
+        };
       }
 
+      const newBalance = Number(result.new_balance);
+
       return {
         success: true,
         newBalance,
@@ -166,118 +177,115 @@ export class X402CreditManager {
     }
   }
 
+  /**
+   * Debits credits through the `x402_spend_credits` RPC so the balance check,
+   * the debit and the `x402_transactions` record happen under one row lock.
+   * Server-side only, once the wallet's signed payment header has been
+   * verified.
+   */
   static async spendCredits(
     walletAddress: string,
     serviceId: string | null,
     serviceType: 'agent' | 'api' | 'web_service',
-    amount: number
+    amount: number,
+    options: CreditSpendOptions
   ): Promise<CreditSpendResult> {
     try {
-      const { data: existing, error: fetchError } = await supabase
-        .from('x402_payment_credits')
-        .select('*')
-        .eq('wallet_address', walletAddress)
-        .eq('service_id', serviceId || '')
-        .eq('service_type', serviceType)
-        .maybeSingle();
-
-      if (fetchError || !existing) {
-        return { success: false, error: 'Credit account not found' };
-      }
-
-      const currentBalance = Number(existing.credit_balance);
-
-      if (currentBalance < amount) {
-        if (existing.auto_topup_enabled && currentBalance < existing.auto_topup_threshold) {
-          return {
-            success: false,
-            error: 'Insufficient credits. Auto top-up triggered but requires user action.'
-          };
-        }
+      const { data, error } = await options.client.rpc('x402_spend_credits', {
+        p_wallet_address: walletAddress,
+        p_service_id: serviceId,
+        p_service_type: serviceType,
+        p_amount: amount,
+        p_resource_url: options.resourceUrl ?? null,
+        p_http_method: options.httpMethod ?? 'POST',
+        p_idempotency_key: options.idempotencyKey ?? null
+      });
 
-        return { success: false, error: 'Insufficient credits' };
+      if (error) {
+        console.error('Error spending credits:', error);
+        return { success: false, error: error.message };
       }
 
-      const newBalance = currentBalance - amount;
-      const newTotalSpent = Number(existing.total_spent) + amount;
+      const result = data as CreditSpendRpcResult;
 
-      const { error: updateError } = await supabase
-        .from('x402_payment_credits')
-        .update({
-          credit_balance: newBalance,
-          total_spent: newTotalSpent,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', existing.id);
-
-      if (updateError) {
-        console.error('Error spending credits:', updateError);
-        return { success: false, error: updateError.message };
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.error_code,
+          newBalance: result.new_balance !== undefined ? Number(result.new_balance) : undefined
+        };
       }
 
-      return { success: true, newBalance };
+      return {
+        success: true,
+        newBalance: Number(result.new_balance),
+        transactionId: result.transaction_id
+      };
     } catch (error: any) {
       console.error('Error spending credits:', error);
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Turns on auto top-up for the wallet's credits. Credit accounts are not
+   * writable from the browser, so the change is signed with the wallet and
+   * applied by the funding worker.
+   */
   static async enableAutoTopUp(
-    walletAddress: string,
+    wallet: SolanaWallet,
     serviceId: string | null,
     serviceType: 'agent' | 'api' | 'web_service',
     threshold: number,
     topUpAmount: number
   ): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('x402_payment_credits')
-        .update({
-          auto_topup_enabled: true,
-          auto_topup_threshold: threshold,
-          auto_topup_amount: topUpAmount,
-          updated_at: new Date().toISOString()
-        })
-        .eq('wallet_address', walletAddress)
-        .eq('service_id', serviceId || '')
-        .eq('service_type', serviceType);
-
-      if (error) {
-        console.error('Error enabling auto top-up:', error);
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Error enabling auto top-up:', error);
-      return false;
-    }
+    return this.setAutoTopUp(wallet, serviceId, serviceType, { enabled: true, threshold, amount: topUpAmount });
   }
 
   static async disableAutoTopUp(
-    walletAddress: string,
+    wallet: SolanaWallet,
     serviceId: string | null,
     serviceType: 'agent' | 'api' | 'web_service'
+  ): Promise<boolean> {
+    return this.setAutoTopUp(wallet, serviceId, serviceType, { enabled: false });
+  }
+
+  private static async setAutoTopUp(
+    wallet: SolanaWallet,
+    serviceId: string | null,
+    serviceType: 'agent' | 'api' | 'web_service',
+    params: Record<string, string | number | boolean>
   ): Promise<boolean> {
     try {
-      const { error } = await supabase
+      let query = supabase
         .from('x402_payment_credits')
-        .update({
-          auto_topup_enabled: false,
-          updated_at: new Date().toISOString()
-        })
-        .eq('wallet_address', walletAddress)
-        .eq('service_id', serviceId || '')
+        .select('id')
+        .eq('wallet_address', wallet.publicKey.toBase58())
         .eq('service_type', serviceType);
 
-      if (error) {
-        console.error('Error disabling auto top-up:', error);
+      query = serviceId ? query.eq('service_id', serviceId) : query.is('service_id', null);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error || !data) {
+        console.error('Error updating auto top-up:', error || 'Credit account not found');
         return false;
       }
 
-      return true;
+      const result = await X402AccountRequestManager.requestChange(wallet, {
+        kind: 'credit_auto_topup',
+        target_id: data.id,
+        params
+      });
+
+      if (!result.success) {
+        console.error('Error updating auto top-up:', result.error);
+      }
+
+      return result.success;
     } catch (error) {
-      console.error('Error disabling auto top-up:', error);
+      console.error('Error updating auto top-up:', error);
       return false;
     }
   }
@@ -0,0 +1,171 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { X402Protocol } from './x402Protocol';
+import { InMemoryNonceStore } from './x402NonceStore';
+import type { SolanaWallet } from './walletManager';
+import { buildResourceKey } from '../utils/resourcePatterns';
+
+export interface X402ExecutionRequest {
+  agentId: string;
+  sessionToken: string;
+  /** The agent's price; the worker charges the price stored in `agents` */
+  amount: number;
+  inputData: Record<string, unknown>;
+}
+
+export interface X402ExecutionPaymentResult {
+  success: boolean;
+  executionId?: string;
+  transactionId?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+/** The columns of a claimed `agent_executions` row the payment needs */
+export interface X402PayableExecution {
+  id: string;
+  agent_id: string;
+  x_payment_header: string | null;
+}
+
+const EXECUTION_HTTP_METHOD = 'POST';
+
+// The signed resource names the execution and the debit is idempotent per
+// execution, so a header cannot pay twice. Nonces are only tracked per worker
+// instead of in `x402_used_nonces`, which anyone can write to.
+const executionNonces = new InMemoryNonceStore();
+
+/**
+ * Agent executions paid from an x402 session. The browser creates the
+ * execution in `payment_required` with an X-402-Payment header signed by the
+ * session's wallet; `AgentExecutionWorker` checks the signature and debits
+ * the session with the service role, and `claim_agent_executions` only runs
+ * executions with that completed charge.
+ */
+export class X402ExecutionPaymentManager {
+  static getResourceUrl(agentId: string, executionId: string): string {
+    return `/api/agents/${agentId}/executions/${executionId}`;
+  }
+
+  static getIdempotencyKey(executionId: string): string {
+    return `agent_execution:${executionId}`;
+  }
+
+  /** Signs the session payment for a new execution and records both */
+  static async requestExecution(
+    wallet: SolanaWallet,
+    request: X402ExecutionRequest,
+    client: SupabaseClient = supabase
+  ): Promise<X402ExecutionPaymentResult> {
+    const executionId = crypto.randomUUID();
+
+    try {
+      const header = await X402Protocol.signX402Header(wallet, {
+        sessionToken: request.sessionToken,
+        amount: request.amount,
+        currency: 'USDC',
+        resource: this.getResourceUrl(request.agentId, executionId)
+      });
+
+      const { error } = await client
+        .from('agent_executions')
+        .insert({
+          id: executionId,
+          agent_id: request.agentId,
+          status: 'payment_required',
+          cost_usdc: request.amount,
+          payment_required: true,
+          x_payment_header: X402Protocol.formatX402Header(header),
+          input_data: request.inputData
+        });
+
+      if (error) throw error;
+
+      console.log('[x402] Requested execution paid from session:', executionId);
+      return { success: true, executionId };
+    } catch (error) {
+      console.error('[x402] Error requesting execution:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to request execution',
+        errorCode: 'REQUEST_FAILED'
+      };
+    }
+  }
+
+  /**
+   * Checks the signed header of a claimed execution and charges the agent's
+   * price to its session. Called by the worker with a service-role client.
+   */
+  static async chargeExecution(
+    execution: X402PayableExecution,
+    client: SupabaseClient
+  ): Promise<X402ExecutionPaymentResult> {
+    const header = execution.x_payment_header
+      ? X402Protocol.parseX402Header(execution.x_payment_header)
+      : null;
+
+    if (!header?.sessionToken) {
+      return { success: false, error: 'Execution has no session payment header', errorCode: 'INVALID_HEADER' };
+    }
+
+    // A worker that crashed after the debit left the charge behind
+    const { data: charged } = await client
+      .from('x402_transactions')
+      .select('id')
+      .eq('idempotency_key', this.getIdempotencyKey(execution.id))
+      .eq('status', 'completed')
+      .maybeSingle();
+
+    if (charged) {
+      return { success: true, executionId: execution.id, transactionId: charged.id };
+    }
+
+    const resourceUrl = this.getResourceUrl(execution.agent_id, execution.id);
+    const verification = await X402Protocol.verifyX402Signature(header, resourceUrl, { nonceStore: executionNonces });
+    if (!verification.valid) {
+      return { success: false, error: verification.error, errorCode: verification.errorCode };
+    }
+
+    const { data: agent, error } = await client
+      .from('agents')
+      .select('price')
+      .eq('id', execution.agent_id)
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message, errorCode: 'LOOKUP_FAILED' };
+    }
+
+    if (!agent) {
+      return { success: false, error: 'Agent not found', errorCode: 'AGENT_NOT_FOUND' };
+    }
+
+    const price = Number(agent.price || 0);
+    if (header.amount < price) {
+      return { success: false, error: 'Signed amount does not cover the price', errorCode: 'AMOUNT_MISMATCH' };
+    }
+
+    const result = await X402Protocol.deductFromSession(
+      header.sessionToken,
+      price,
+      resourceUrl,
+      'agent_execution',
+      EXECUTION_HTTP_METHOD,
+      {
+        client,
+        walletAddress: header.walletAddress,
+        idempotencyKey: this.getIdempotencyKey(execution.id),
+        resource: buildResourceKey('agent', execution.agent_id, resourceUrl)
+      }
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Session payment failed', errorCode: result.errorCode };
+    }
+
+    return { success: true, executionId: execution.id, transactionId: result.transactionId };
+  }
+}
+
+export const x402ExecutionPaymentManager = X402ExecutionPaymentManager;
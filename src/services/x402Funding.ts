@@ -0,0 +1,192 @@
+import { PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { supabase } from '../lib/supabase';
+import type { X402FundingRequest } from '../types';
+import type { SolanaWallet } from './walletManager';
+
+/** The fields of a funding request the paying wallet signs */
+export type X402FundingRequestFields = Pick<
+  X402FundingRequest,
+  | 'kind'
+  | 'source'
+  | 'wallet_address'
+  | 'session_id'
+  | 'service_id'
+  | 'service_type'
+  | 'amount'
+  | 'currency'
+  | 'payment_signature'
+  | 'params'
+>;
+
+export type X402FundingRequestInput = Pick<X402FundingRequest, 'kind' | 'amount'> &
+  Partial<Omit<X402FundingRequestFields, 'kind' | 'amount' | 'wallet_address'>>;
+
+export interface X402FundingResult {
+  success: boolean;
+  requestId?: string;
+  status?: X402FundingRequest['status'];
+  /** What the funding function returned, e.g. `remaining_amount` or `channel_id` */
+  result?: Record<string, unknown>;
+  error?: string;
+  errorCode?: string;
+}
+
+const FUNDING_POLL_INTERVAL = 2000; // 2 seconds
+const FUNDING_WAIT_TIMEOUT = 90 * 1000; // 90 seconds
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Funds x402 sessions, renewals, credit accounts and payment channels from a
+ * wallet payment. The browser pays, then records what the payment is for in
+ * `x402_funding_requests`, signed with the paying wallet so nobody else can
+ * claim the payment for a balance of their own. `PaymentFundingWorker` checks
+ * the transfer on-chain (payer, recipient and amount) and applies it with the
+ * service role; the funding functions are not callable from the browser.
+ */
+export class X402FundingManager {
+  static buildAuthorizationPayload(fields: X402FundingRequestFields): Uint8Array {
+    const params = Object.keys(fields.params)
+      .sort()
+      .map(key => `${key}=${fields.params[key]}`)
+      .join(',');
+
+    const payload = [
+      'x402-funding:v1',
+      fields.kind,
+      fields.source,
+      fields.wallet_address,
+      fields.session_id ?? '',
+      fields.service_type ?? '',
+      fields.service_id ?? '',
+      Number(fields.amount).toFixed(6),
+      fields.currency,
+      fields.payment_signature ?? '',
+      params
+    ].join('|');
+
+    return new TextEncoder().encode(payload);
+  }
+
+  static verifyAuthorization(request: X402FundingRequest): boolean {
+    try {
+      return nacl.sign.detached.verify(
+        this.buildAuthorizationPayload(request),
+        bs58.decode(request.wallet_signature),
+        new PublicKey(request.wallet_address).toBytes()
+      );
+    } catch (error) {
+      console.error('[Funding] Error verifying funding request signature:', error);
+      return false;
+    }
+  }
+
+  /** Signs and records a funding request, then waits for the worker to apply it */
+  static async requestFunding(
+    wallet: SolanaWallet,
+    input: X402FundingRequestInput,
+    client: SupabaseClient = supabase
+  ): Promise<X402FundingResult> {
+    if (!wallet.signMessage) {
+      return { success: false, error: 'Wallet does not support message signing', errorCode: 'SIGNING_UNSUPPORTED' };
+    }
+
+    const fields: X402FundingRequestFields = {
+      kind: input.kind,
+      source: input.source ?? 'payment',
+      wallet_address: wallet.publicKey.toBase58(),
+      session_id: input.session_id ?? null,
+      service_id: input.service_id ?? null,
+      service_type: input.service_type ?? null,
+      // Stored as numeric(18, 6); rounded first so the signed amount is the stored one
+      amount: Number(input.amount.toFixed(6)),
+      currency: input.currency ?? 'SOL',
+      payment_signature: input.payment_signature ?? null,
+      params: input.params ?? {}
+    };
+
+    try {
+      const signature = await wallet.signMessage(this.buildAuthorizationPayload(fields));
+
+      const { data, error } = await client
+        .from('x402_funding_requests')
+        .insert({ ...fields, wallet_signature: bs58.encode(signature) })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      console.log('[Funding] Requested', fields.kind, 'funding:', data.id);
+      return this.awaitFunding(data.id, client);
+    } catch (error) {
+      console.error('[Funding] Error requesting funding:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to request funding',
+        errorCode: 'REQUEST_FAILED'
+      };
+    }
+  }
+
+  /**
+   * Polls a funding request until the worker has funded or rejected it. A
+   * request still pending after `timeoutMs` is left to the worker and
+   * reported as `FUNDING_PENDING`.
+   */
+  static async awaitFunding(
+    requestId: string,
+    client: SupabaseClient = supabase,
+    timeoutMs: number = FUNDING_WAIT_TIMEOUT
+  ): Promise<X402FundingResult> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const request = await this.getRequest(requestId, client);
+
+      if (request?.status === 'funded') {
+        return { success: true, requestId, status: 'funded', result: request.result ?? {} };
+      }
+
+      if (request?.status === 'rejected') {
+        return {
+          success: false,
+          requestId,
+          status: 'rejected',
+          result: request.result ?? undefined,
+          error: request.error || 'Funding rejected',
+          errorCode: typeof request.result?.error_code === 'string' ? request.result.error_code : 'FUNDING_REJECTED'
+        };
+      }
+
+      await sleep(FUNDING_POLL_INTERVAL);
+    }
+
+    return {
+      success: false,
+      requestId,
+      status: 'pending',
+      error: 'Payment is still being verified',
+      errorCode: 'FUNDING_PENDING'
+    };
+  }
+
+  static async getRequest(requestId: string, client: SupabaseClient = supabase): Promise<X402FundingRequest | null> {
+    const { data, error } = await client
+      .from('x402_funding_requests')
+      .select('*')
+      .eq('id', requestId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Funding] Error fetching funding request:', error);
+      return null;
+    }
+
+    return data as X402FundingRequest | null;
+  }
+}
+
+export const x402FundingManager = X402FundingManager;
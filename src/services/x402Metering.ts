@@ -0,0 +1,142 @@
+import { X402ServiceConfig } from './x402Protocol';
+
+export type X402PricingModel = X402ServiceConfig['pricing_model'];
+
+export interface X402Usage {
+  durationMs?: number;
+  requestBytes?: number;
+  responseBytes?: number;
+  tokens?: number;
+}
+
+/**
+ * Stored under `x402_transactions.metadata.billing`.
+ */
+export interface X402ChargeBreakdown {
+  pricing_model: X402PricingModel;
+  unit: 'request' | 'minute' | 'kb' | 'token';
+  unit_price: number;
+  units: number;
+  raw_amount: number;
+  min_payment: number;
+  max_payment: number | null;
+  clamped: 'min' | 'max' | null;
+  amount: number;
+  usage: X402Usage;
+}
+
+/** Header a service can set to report the tokens a request consumed */
+export const X402_USAGE_TOKENS_HEADER = 'x-402-usage-tokens';
+
+// Units held up front when the service has no max_payment
+const DEFAULT_HOLD_UNITS: Record<X402PricingModel, number> = {
+  per_request: 1,
+  per_minute: 5,
+  per_kb: 1024, // 1 MB
+  per_token: 4000
+};
+
+const UNIT_NAMES: Record<X402PricingModel, X402ChargeBreakdown['unit']> = {
+  per_request: 'request',
+  per_minute: 'minute',
+  per_kb: 'kb',
+  per_token: 'token'
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 1e6) / 1e6;
+
+/**
+ * Turns a service's `pricing_model` and the measured usage of a request into
+ * the amount charged. `per_request` is charged up front; the metered models
+ * hold `getHoldAmount` first and settle `calculateCharge(...).amount`.
+ */
+export class X402Metering {
+  static isMetered(pricingModel: X402PricingModel): boolean {
+    return pricingModel !== 'per_request';
+  }
+
+  static getUnits(pricingModel: X402PricingModel, usage: X402Usage): number {
+    switch (pricingModel) {
+      case 'per_minute':
+        return (usage.durationMs || 0) / 60000;
+      case 'per_kb':
+        return ((usage.requestBytes || 0) + (usage.responseBytes || 0)) / 1024;
+      case 'per_token':
+        return usage.tokens || 0;
+      case 'per_request':
+      default:
+        return 1;
+    }
+  }
+
+  static clamp(config: X402ServiceConfig, amount: number): { amount: number; clamped: X402ChargeBreakdown['clamped'] } {
+    const minPayment = Number(config.min_payment) || 0;
+    const maxPayment = config.max_payment === null ? null : Number(config.max_payment);
+
+    if (maxPayment !== null && amount > maxPayment) {
+      return { amount: maxPayment, clamped: 'max' };
+    }
+
+    if (amount < minPayment) {
+      return { amount: minPayment, clamped: 'min' };
+    }
+
+    return { amount, clamped: null };
+  }
+
+  static calculateCharge(config: X402ServiceConfig, usage: X402Usage = {}): X402ChargeBreakdown {
+    const unitPrice = Number(config.base_price);
+    const units = this.getUnits(config.pricing_model, usage);
+    const rawAmount = roundAmount(unitPrice * units);
+    const { amount, clamped } = this.clamp(config, rawAmount);
+
+    return {
+      pricing_model: config.pricing_model,
+      unit: UNIT_NAMES[config.pricing_model],
+      unit_price: unitPrice,
+      units: Math.round(units * 1000) / 1000,
+      raw_amount: rawAmount,
+      min_payment: Number(config.min_payment) || 0,
+      max_payment: config.max_payment === null ? null : Number(config.max_payment),
+      clamped,
+      amount: roundAmount(amount),
+      usage
+    };
+  }
+
+  /**
+   * Upper bound held before a metered request runs. Callers may pass a lower
+   * cap of their own; the settled charge never exceeds the hold.
+   */
+  static getHoldAmount(config: X402ServiceConfig, maxCharge?: number): number {
+    if (!this.isMetered(config.pricing_model)) {
+      return this.calculateCharge(config).amount;
+    }
+
+    const hold = config.max_payment !== null
+      ? Number(config.max_payment)
+      : this.clamp(config, Number(config.base_price) * DEFAULT_HOLD_UNITS[config.pricing_model]).amount;
+
+    return roundAmount(maxCharge !== undefined ? Math.min(hold, maxCharge) : hold);
+  }
+
+  static measureBytes(body: string | Uint8Array | null | undefined): number {
+    if (!body) return 0;
+    return typeof body === 'string' ? new TextEncoder().encode(body).length : body.byteLength;
+  }
+
+  /**
+   * Token count reported by the service, either in the usage header or in an
+   * OpenAI-style `usage` object in the JSON body.
+   */
+  static extractReportedTokens(headerValue: string | null | undefined, data?: unknown): number | undefined {
+    const fromHeader = headerValue ? parseInt(headerValue, 10) : NaN;
+    if (Number.isFinite(fromHeader)) {
+      return fromHeader;
+    }
+
+    const usage = (data as { usage?: { total_tokens?: unknown; tokens?: unknown } } | null | undefined)?.usage;
+    const fromBody = Number(usage?.total_tokens ?? usage?.tokens);
+    return Number.isFinite(fromBody) ? fromBody : undefined;
+  }
+}
@@ -1,4 +1,10 @@
-import { X402Protocol, X402Header } from './x402Protocol';
+import { X402Protocol, X402Header, X402ServiceConfig } from './x402Protocol';
+import { X402AuthorizationManager } from './x402AuthorizationManager';
+import { X402ChargeBreakdown, X402Metering, X402Usage, X402_USAGE_TOKENS_HEADER } from './x402Metering';
+import { X402PaymentChannelManager } from './x402PaymentChannels';
+import { X402RefundManager } from './x402Refunds';
+import { SolanaWallet } from './walletManager';
+import { buildResourceKey, buildServicePattern, extractResourcePath } from '../utils/resourcePatterns';
 
 export interface X402RequestConfig {
   url: string;
@@ -8,8 +14,21 @@ export interface X402RequestConfig {
   serviceId: string;
   serviceType: 'agent' | 'api' | 'web_service';
   walletAddress: string;
+  /** Session the service's server debits, needs a `wallet` that signs messages */
   sessionToken?: string;
   paymentProof?: string;
+  /** Spending authorization the service's server charges, needs a `wallet` that signs messages */
+  authorizationToken?: string;
+  /** Open payment channel to pay from with a signed voucher, needs a `wallet` that signs messages */
+  channelId?: string;
+  idempotencyKey?: string;
+  wallet?: SolanaWallet;
+  /**
+   * Upper bound for metered services; lowers the hold taken before the
+   * request. `X402ServerMiddleware` rejects headers signed for less than its
+   * own hold.
+   */
+  maxCharge?: number;
 }
 
 export interface X402Response<T = any> {
@@ -20,6 +39,14 @@ export interface X402Response<T = any> {
   requiredAmount?: number;
   x402Header?: string;
   remainingBalance?: number;
+  amountCharged?: number;
+  billing?: X402ChargeBreakdown;
+}
+
+interface X402SentRequest<T> {
+  response: Response;
+  data: T;
+  usage: X402Usage;
 }
 
 export class X402Middleware {
@@ -54,18 +81,24 @@ export class X402Middleware {
         };
       }
 
-      const amount = serviceConfig.base_price;
+      // For metered pricing models this is the hold: session and proof
+      // payments prepay it, authorizations are charged the measured amount.
+      const amount = X402Metering.getHoldAmount(serviceConfig, config.maxCharge);
 
       if (config.sessionToken) {
-        return await this.makeSessionPayment(config, amount);
+        return await this.makeSessionPayment(config, serviceConfig, amount);
       } else if (config.paymentProof) {
-        return await this.makeProofPayment(config, amount, serviceConfig.owner_wallet);
+        return await this.makeProofPayment(config, serviceConfig, amount);
+      } else if (config.authorizationToken) {
+        return await this.makeAuthorizationPayment(config, serviceConfig, amount);
+      } else if (config.channelId) {
+        return await this.makeChannelPayment(config, serviceConfig, amount);
       } else {
         return {
           success: false,
           paymentRequired: true,
           requiredAmount: amount,
-          error: 'Payment required: provide sessionToken or paymentProof'
+          error: 'Payment required: provide sessionToken, paymentProof, authorizationToken or channelId'
         };
       }
     } catch (error: any) {
@@ -79,63 +112,61 @@ export class X402Middleware {
 
   private static async makeSessionPayment<T>(
     config: X402RequestConfig,
+    serviceConfig: X402ServiceConfig,
     amount: number
   ): Promise<X402Response<T>> {
     try {
-      const validation = await X402Protocol.validateSession(config.sessionToken!, amount);
+      const resource = buildResourceKey(config.serviceType, config.serviceId, extractResourcePath(config.url));
+      const validation = await X402Protocol.validateSession(config.sessionToken!, amount, resource);
 
       if (!validation.valid) {
         return {
           success: false,
-          paymentRequired: true,
+          paymentRequired: validation.errorCode !== 'RESOURCE_NOT_AUTHORIZED',
           requiredAmount: amount,
           error: validation.error
         };
       }
 
-      const result = await X402Protocol.deductFromSession(
-        config.sessionToken!,
+      // The service's server debits the session (or holds it for metered
+      // pricing) when it accepts the signed header, so nothing is charged here
+      if (!config.wallet?.signMessage) {
+        return { success: false, error: 'Session payments need a wallet that can sign messages' };
+      }
+
+      const paymentHeader = await this.buildPaymentHeader(config, {
+        sessionToken: config.sessionToken,
+        walletAddress: config.walletAddress,
         amount,
-        config.url,
-        this.getResourceType(config.serviceType),
-        config.method
-      );
+        currency: 'USDC',
+        timestamp: Date.now()
+      });
+
+      const sent = await this.sendRequest<T>(config, paymentHeader);
 
-      if (!result.success) {
+      if (sent.response.status === 402) {
         return {
           success: false,
-          error: result.error,
-          paymentRequired: result.errorCode === 'INSUFFICIENT_BALANCE'
+          data: sent.data,
+          paymentRequired: true,
+          requiredAmount: amount,
+          error: 'Session payment was rejected'
         };
       }
 
-      const headers = {
-        ...config.headers,
-        'X-402-Payment': X402Protocol.formatX402Header({
-          sessionToken: config.sessionToken,
-          walletAddress: config.walletAddress,
-          amount,
-          currency: 'USDC',
-          timestamp: Date.now()
-        })
-      };
-
-      const response = await fetch(config.url, {
-        method: config.method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers
-        },
-        body: config.body ? JSON.stringify(config.body) : undefined
-      });
+      const billing = X402Metering.isMetered(serviceConfig.pricing_model)
+        ? X402Metering.calculateCharge(serviceConfig, sent.usage)
+        : undefined;
 
-      const data = await response.json();
+      const session = await X402Protocol.getSession(config.sessionToken!);
 
       return {
-        success: response.ok,
-        data,
-        remainingBalance: result.remainingBalance,
-        x402Header: headers['X-402-Payment']
+        success: sent.response.ok,
+        data: sent.data,
+        amountCharged: billing ? billing.amount : amount,
+        billing,
+        remainingBalance: session?.remaining_amount,
+        x402Header: paymentHeader
       };
     } catch (error: any) {
       return {
@@ -147,84 +178,267 @@ export class X402Middleware {
 
   private static async makeProofPayment<T>(
     config: X402RequestConfig,
-    amount: number,
-    recipientAddress: string
+    serviceConfig: X402ServiceConfig,
+    amount: number
   ): Promise<X402Response<T>> {
     try {
-      const verified = await X402Protocol.verifyPaymentProof(
+      // A proof is paid before the request runs, so metered services require
+      // it to cover the full hold.
+      const verification = await X402Protocol.verifyPaymentProof(
         config.paymentProof!,
         amount,
-        recipientAddress
+        serviceConfig.owner_wallet,
+        { payerAddress: config.walletAddress, resourceUrl: config.url, currency: serviceConfig.currency }
       );
 
-      if (!verified) {
+      if (!verification.valid) {
         return {
           success: false,
-          error: 'Payment proof verification failed',
+          error: verification.error || 'Payment proof verification failed',
           paymentRequired: true,
           requiredAmount: amount
         };
       }
 
-      await X402Protocol.logTransaction(
-        config.walletAddress,
-        config.url,
-        this.getResourceType(config.serviceType),
-        config.method,
+      // The call is recorded by the service's server when it accepts the
+      // proof; anonymous clients cannot write x402 transactions.
+      const paymentHeader = await this.buildPaymentHeader(config, {
+        paymentProof: config.paymentProof,
+        walletAddress: config.walletAddress,
         amount,
-        'completed',
-        undefined,
-        config.paymentProof
-      );
+        currency: serviceConfig.currency,
+        timestamp: Date.now()
+      });
 
-      const headers = {
-        ...config.headers,
-        'X-402-Payment': X402Protocol.formatX402Header({
-          paymentProof: config.paymentProof,
-          walletAddress: config.walletAddress,
-          amount,
-          currency: 'USDC',
-          timestamp: Date.now()
-        })
+      const sent = await this.sendRequest<T>(config, paymentHeader);
+
+      const billing = X402Metering.isMetered(serviceConfig.pricing_model)
+        ? X402Metering.calculateCharge(serviceConfig, sent.usage)
+        : undefined;
+
+      return {
+        success: sent.response.ok,
+        data: sent.data,
+        amountCharged: amount,
+        billing,
+        x402Header: paymentHeader
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message
       };
+    }
+  }
+
+  /**
+   * Pays from the wallet's credits under a standing authorization, so agents
+   * can call paid services without a wallet prompt. The limits are checked
+   * here first; the service's server charges the credits through
+   * `x402_charge_authorization` when it accepts the signed header, after the
+   * response for metered services.
+   */
+  private static async makeAuthorizationPayment<T>(
+    config: X402RequestConfig,
+    serviceConfig: X402ServiceConfig,
+    amount: number
+  ): Promise<X402Response<T>> {
+    try {
+      const authorization = await X402AuthorizationManager.getAuthorization(config.authorizationToken!);
+
+      if (!authorization) {
+        return { success: false, paymentRequired: true, requiredAmount: amount, error: 'Authorization not found' };
+      }
+
+      const check = await X402AuthorizationManager.checkLimits(authorization, amount);
 
-      const response = await fetch(config.url, {
-        method: config.method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers
-        },
-        body: config.body ? JSON.stringify(config.body) : undefined
+      if (!check.allowed) {
+        return { success: false, paymentRequired: false, requiredAmount: amount, error: check.error };
+      }
+
+      if (!config.wallet?.signMessage) {
+        return { success: false, error: 'Authorization payments need a wallet that can sign messages' };
+      }
+
+      const paymentHeader = await this.buildPaymentHeader(config, {
+        authorizationToken: config.authorizationToken,
+        walletAddress: config.walletAddress,
+        amount,
+        currency: 'USDC',
+        timestamp: Date.now()
       });
 
-      const data = await response.json();
+      const sent = await this.sendRequest<T>(config, paymentHeader);
+
+      if (sent.response.status === 402) {
+        return {
+          success: false,
+          data: sent.data,
+          paymentRequired: true,
+          requiredAmount: amount,
+          error: 'Authorization payment was rejected'
+        };
+      }
+
+      if (!X402Metering.isMetered(serviceConfig.pricing_model)) {
+        return {
+          success: sent.response.ok,
+          data: sent.data,
+          amountCharged: amount,
+          x402Header: paymentHeader
+        };
+      }
+
+      // Metered calls are charged afterwards, so a refundable failure is simply not charged
+      if (!sent.response.ok && X402RefundManager.shouldRefund(serviceConfig, sent.response.status)) {
+        return { success: false, data: sent.data, amountCharged: 0, x402Header: paymentHeader };
+      }
+
+      const billing = X402Metering.calculateCharge(serviceConfig, sent.usage);
 
       return {
-        success: response.ok,
-        data,
-        x402Header: headers['X-402-Payment']
+        success: sent.response.ok,
+        data: sent.data,
+        amountCharged: billing.amount,
+        billing,
+        x402Header: paymentHeader
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: error.message
+        error: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
-  private static getResourceType(serviceType: 'agent' | 'api' | 'web_service'): 'agent_execution' | 'api_call' | 'data_access' {
-    switch (serviceType) {
-      case 'agent':
-        return 'agent_execution';
-      case 'api':
-        return 'api_call';
-      case 'web_service':
-        return 'data_access';
-      default:
-        return 'api_call';
+  /**
+   * Pays with the next voucher on a payment channel. The voucher is checked
+   * and recorded by the provider, so nothing is charged here; vouchers cannot
+   * be taken back, so metered services are prepaid for the full hold and
+   * failed calls are not refunded.
+   */
+  private static async makeChannelPayment<T>(
+    config: X402RequestConfig,
+    serviceConfig: X402ServiceConfig,
+    amount: number
+  ): Promise<X402Response<T>> {
+    try {
+      if (!config.wallet?.signMessage) {
+        return { success: false, error: 'Channel payments need a wallet that can sign messages' };
+      }
+
+      const voucher = await X402PaymentChannelManager.signNextVoucher(config.wallet, config.channelId!, amount);
+
+      const paymentHeader = await this.buildPaymentHeader(config, {
+        channelId: voucher.channelId,
+        channelAmount: voucher.amount,
+        channelNonce: voucher.nonce,
+        channelSignature: voucher.signature,
+        walletAddress: config.walletAddress,
+        amount,
+        currency: serviceConfig.currency,
+        timestamp: Date.now()
+      });
+
+      const sent = await this.sendRequest<T>(config, paymentHeader);
+
+      if (sent.response.status === 402) {
+        // The provider did not take the voucher; start the next one from the
+        // channel's latest accepted voucher again
+        X402PaymentChannelManager.resetVoucherState(voucher.channelId);
+        return {
+          success: false,
+          data: sent.data,
+          paymentRequired: true,
+          requiredAmount: amount,
+          error: 'Payment channel voucher was rejected'
+        };
+      }
+
+      const billing = X402Metering.isMetered(serviceConfig.pricing_model)
+        ? X402Metering.calculateCharge(serviceConfig, sent.usage)
+        : undefined;
+
+      return {
+        success: sent.response.ok,
+        data: sent.data,
+        amountCharged: amount,
+        billing,
+        x402Header: paymentHeader
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
     }
   }
 
+  /**
+   * Sends the paid request and measures what metered pricing needs: body
+   * sizes, wall-clock duration and the token count the service reports.
+   */
+  private static async sendRequest<T>(config: X402RequestConfig, paymentHeader: string): Promise<X402SentRequest<T>> {
+    const body = config.body ? JSON.stringify(config.body) : undefined;
+    const startedAt = Date.now();
+
+    const response = await fetch(config.url, {
+      method: config.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+        'X-402-Payment': paymentHeader
+      },
+      body
+    });
+
+    const text = await response.text();
+    const durationMs = Date.now() - startedAt;
+
+    let data: unknown = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      data = text;
+    }
+
+    return {
+      response,
+      data: data as T,
+      usage: {
+        durationMs,
+        requestBytes: X402Metering.measureBytes(body),
+        responseBytes: X402Metering.measureBytes(text),
+        tokens: X402Metering.extractReportedTokens(response.headers.get(X402_USAGE_TOKENS_HEADER), data)
+      }
+    };
+  }
+
+  /**
+   * Signs the header when the caller passed a wallet that can sign messages;
+   * servers running `X402ServerMiddleware` reject unsigned headers by default.
+   */
+  private static async buildPaymentHeader(config: X402RequestConfig, header: X402Header): Promise<string> {
+    if (!config.wallet?.signMessage) {
+      return X402Protocol.formatX402Header(header);
+    }
+
+    const signed = await X402Protocol.signX402Header(config.wallet, {
+      sessionToken: header.sessionToken,
+      paymentProof: header.paymentProof,
+      authorizationToken: header.authorizationToken,
+      channelId: header.channelId,
+      channelAmount: header.channelAmount,
+      channelNonce: header.channelNonce,
+      channelSignature: header.channelSignature,
+      amount: header.amount,
+      currency: header.currency,
+      resource: config.url
+    });
+
+    return X402Protocol.formatX402Header(signed);
+  }
+
   static async createAuthorizedSession(
     walletAddress: string,
     serviceId: string,
@@ -232,7 +446,7 @@ export class X402Middleware {
     authorizedAmount: number,
     durationHours: number = 24
   ): Promise<{ success: boolean; sessionToken?: string; error?: string }> {
-    const resourcePattern = `${serviceType}/${serviceId}/*`;
+    const resourcePattern = buildServicePattern(serviceType, serviceId);
     return X402Protocol.createPaymentSession(
       walletAddress,
       authorizedAmount,
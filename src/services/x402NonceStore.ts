@@ -0,0 +1,102 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export interface X402NonceStore {
+  /**
+   * Records a nonce for a wallet. Resolves to false when the nonce has been
+   * seen before, which means the header is being replayed.
+   */
+  consume(walletAddress: string, nonce: string, expiresAt: number): Promise<boolean>;
+  prune(): Promise<number>;
+}
+
+export class InMemoryNonceStore implements X402NonceStore {
+  private nonces: Map<string, number> = new Map();
+
+  async consume(walletAddress: string, nonce: string, expiresAt: number): Promise<boolean> {
+    const key = `${walletAddress}:${nonce}`;
+    const existing = this.nonces.get(key);
+
+    if (existing !== undefined && existing > Date.now()) {
+      return false;
+    }
+
+    this.nonces.set(key, expiresAt);
+    return true;
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    this.nonces.forEach((expiresAt, key) => {
+      if (expiresAt <= now) {
+        this.nonces.delete(key);
+        removed++;
+      }
+    });
+
+    return removed;
+  }
+}
+
+/**
+ * Nonce store backed by `x402_used_nonces`, shared by every server instance.
+ * The primary key on (wallet_address, nonce) turns a replay into a unique
+ * violation, so two instances racing on the same nonce cannot both accept it.
+ */
+export class SupabaseNonceStore implements X402NonceStore {
+  private client: SupabaseClient;
+
+  constructor(client?: SupabaseClient) {
+    this.client = client || supabase;
+  }
+
+  async consume(walletAddress: string, nonce: string, expiresAt: number): Promise<boolean> {
+    const { error } = await this.client
+      .from('x402_used_nonces')
+      .insert({
+        wallet_address: walletAddress,
+        nonce,
+        expires_at: new Date(expiresAt).toISOString()
+      });
+
+    if (!error) {
+      return true;
+    }
+
+    if (error.code === '23505') {
+      return false;
+    }
+
+    throw new Error(`Failed to record x402 nonce: ${error.message}`);
+  }
+
+  async prune(): Promise<number> {
+    const { data, error } = await this.client
+      .from('x402_used_nonces')
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+      .select('nonce');
+
+    if (error) {
+      console.error('[x402] Error pruning nonces:', error);
+      return 0;
+    }
+
+    return data?.length || 0;
+  }
+}
+
+let globalNonceStore: X402NonceStore | null = null;
+
+export const getX402NonceStore = (): X402NonceStore => {
+  if (!globalNonceStore) {
+    globalNonceStore = new SupabaseNonceStore();
+  }
+  return globalNonceStore;
+};
+
+export const setX402NonceStore = (store: X402NonceStore): void => {
+  globalNonceStore = store;
+};
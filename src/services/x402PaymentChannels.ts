@@ -0,0 +1,576 @@
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getNetworkConfig, SolanaCluster } from '../lib/network';
+import type { X402ChannelCloseRequest, X402PaymentChannel } from '../types';
+import { getUsdcMint } from '../utils/splToken';
+import type { TransactionSpeed } from '../utils/transactionUtils';
+import { solanaPaymentService } from './solanaPayment';
+import type { PaymentResult, SolanaPaymentService } from './solanaPayment';
+import { X402FundingManager } from './x402Funding';
+import { X402Header, X402Protocol } from './x402Protocol';
+import type { SolanaWallet } from './walletManager';
+
+export const DEFAULT_CHANNEL_DURATION_SECONDS = 7 * 24 * 60 * 60; // 7 days
+export const DEFAULT_DISPUTE_WINDOW_SECONDS = 60 * 60; // 1 hour
+
+const CLOSE_POLL_INTERVAL = 3000; // 3 seconds
+const CLOSE_WAIT_TIMEOUT = 90 * 1000; // 90 seconds
+
+/** Vouchers are signed over whole micro-dollars so both sides format them the same way */
+const VOUCHER_UNITS_PER_USD = 1_000_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface X402SignedVoucher {
+  channelId: string;
+  /** Cumulative USD owed on the channel, not the price of one call */
+  amount: number;
+  nonce: number;
+  signature: string;
+}
+
+export interface X402OpenChannelRequest {
+  serviceId: string;
+  serviceType: 'agent' | 'api' | 'web_service';
+  /** USD deposited, the most the channel can ever pay */
+  depositAmount: number;
+  speed?: TransactionSpeed;
+  durationSeconds?: number;
+  disputeWindowSeconds?: number;
+  /** Unsettled USD that triggers a settlement before the periodic one */
+  settlementThreshold?: number;
+}
+
+export interface X402ChannelResult {
+  success: boolean;
+  channelId?: string;
+  signature?: string;
+  payment?: PaymentResult;
+  disputeEndsAt?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface X402VoucherCheck {
+  valid: boolean;
+  /** USD the voucher adds on top of the channel's latest voucher */
+  increment: number;
+  error?: string;
+  errorCode?:
+    | 'CHANNEL_CLOSING'
+    | 'CHANNEL_CLOSED'
+    | 'CHANNEL_EXPIRED'
+    | 'VOUCHER_REPLAYED'
+    | 'INSUFFICIENT_CHANNEL_BALANCE'
+    | 'VOUCHER_TOO_LOW'
+    | 'INVALID_VOUCHER_SIGNATURE'
+    | 'UNTRUSTED_CHANNEL_WALLET';
+}
+
+export interface X402DepositVerification {
+  valid: boolean;
+  error?: string;
+  errorCode?: 'DEPOSIT_NOT_FOUND' | 'NO_TRANSFER_TO_CHANNEL' | 'PAYER_MISMATCH' | 'INSUFFICIENT_DEPOSIT';
+}
+
+export interface X402VoucherAcceptOptions {
+  /** Least the voucher must add, normally the price of the call */
+  minIncrement: number;
+  resourceUrl?: string;
+  resourceType?: 'agent_execution' | 'api_call' | 'data_access';
+  httpMethod?: string;
+  serviceId?: string;
+  serviceType?: 'agent' | 'api' | 'web_service';
+  /** The caller has checked the deposit on-chain, see `verifyDeposit` */
+  depositVerified?: boolean;
+  x402Header?: string;
+  /** Service-role client of server callers; defaults to the browser client */
+  client?: SupabaseClient;
+}
+
+export interface X402VoucherAcceptResult {
+  success: boolean;
+  transactionId?: string;
+  increment?: number;
+  voucherAmount?: number;
+  voucherNonce?: number;
+  remainingAmount?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+interface X402ChannelRpcResult {
+  success: boolean;
+  channel_id?: string;
+  transaction_id?: string | null;
+  increment?: number | string;
+  voucher_amount?: number | string;
+  voucher_nonce?: number;
+  remaining_amount?: number | string;
+  dispute_ends_at?: string;
+  error?: string;
+  error_code?: string;
+}
+
+/**
+ * Off-chain payment channels for high-frequency x402 calls
+ * (`x402_payment_channels`). The consumer deposits once into the escrow
+ * wallet, then pays each call with a voucher in the `X-402-Payment` header
+ * (`channel=<id>; channel_amount=<cumulative USD>; channel_nonce=<n>;
+ * channel_signature=<sig>`), signed with the payer's wallet key over the
+ * cumulative amount and an increasing nonce. The provider checks vouchers
+ * without touching the chain; `X402ChannelSettlementWorker` pays out the
+ * latest one periodically and when the channel closes.
+ *
+ * A payer close (or expiry) starts the channel's dispute window, during which
+ * the provider can still submit a later voucher it holds with
+ * `submitDisputeVoucher`. The remainder of the deposit is refunded to the
+ * payer in the final settlement.
+ */
+export class X402PaymentChannelManager {
+  /** Latest voucher this client signed per channel */
+  private static signedVouchers: Map<string, { amount: number; nonce: number }> = new Map();
+
+  static toVoucherUnits(amount: number): bigint {
+    return BigInt(Math.round(amount * VOUCHER_UNITS_PER_USD));
+  }
+
+  static buildVoucherPayload(voucher: Pick<X402SignedVoucher, 'channelId' | 'amount' | 'nonce'>): Uint8Array {
+    const payload = [
+      'x402-channel:v1',
+      voucher.channelId,
+      this.toVoucherUnits(voucher.amount).toString(),
+      String(voucher.nonce)
+    ].join('|');
+
+    return new TextEncoder().encode(payload);
+  }
+
+  static async signVoucher(wallet: SolanaWallet, channelId: string, amount: number, nonce: number): Promise<X402SignedVoucher> {
+    if (!wallet.signMessage) {
+      throw new Error('Wallet does not support message signing');
+    }
+
+    const voucher = {
+      channelId,
+      amount: Number(this.toVoucherUnits(amount)) / VOUCHER_UNITS_PER_USD,
+      nonce
+    };
+
+    const signature = await wallet.signMessage(this.buildVoucherPayload(voucher));
+    return { ...voucher, signature: bs58.encode(signature) };
+  }
+
+  /**
+   * Signs the voucher for the next call: the previous cumulative amount plus
+   * `amount`, with the next nonce. Starts from the channel's latest accepted
+   * voucher the first time a channel is used in this client.
+   */
+  static async signNextVoucher(wallet: SolanaWallet, channelId: string, amount: number): Promise<X402SignedVoucher> {
+    let previous = this.signedVouchers.get(channelId);
+
+    if (!previous) {
+      const channel = await this.getChannel(channelId);
+      if (!channel) {
+        throw new Error('Payment channel not found');
+      }
+
+      previous = { amount: Number(channel.voucher_amount), nonce: Number(channel.voucher_nonce) };
+    }
+
+    const voucher = await this.signVoucher(wallet, channelId, previous.amount + amount, previous.nonce + 1);
+    this.signedVouchers.set(channelId, { amount: voucher.amount, nonce: voucher.nonce });
+    return voucher;
+  }
+
+  /** Drops the locally tracked voucher so the next one starts from the channel again */
+  static resetVoucherState(channelId: string): void {
+    this.signedVouchers.delete(channelId);
+  }
+
+  static verifyVoucherSignature(voucher: X402SignedVoucher, payerWallet: string): boolean {
+    try {
+      return nacl.sign.detached.verify(
+        this.buildVoucherPayload(voucher),
+        bs58.decode(voucher.signature),
+        new PublicKey(payerWallet).toBytes()
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /** The voucher carried by a parsed `X-402-Payment` header, if it has one */
+  static getHeaderVoucher(header: X402Header): X402SignedVoucher | null {
+    if (!header.channelId || header.channelAmount === undefined || header.channelNonce === undefined || !header.channelSignature) {
+      return null;
+    }
+
+    if (!Number.isFinite(header.channelAmount) || !Number.isSafeInteger(header.channelNonce)) {
+      return null;
+    }
+
+    return {
+      channelId: header.channelId,
+      amount: header.channelAmount,
+      nonce: header.channelNonce,
+      signature: header.channelSignature
+    };
+  }
+
+  /**
+   * Checks a voucher against the channel without going on-chain: it must be
+   * signed by the payer, follow the latest voucher, stay within the deposit
+   * and add at least `price`. The deposit must be held by the platform escrow
+   * wallet, otherwise the vouchers could never be settled. `acceptVoucher`
+   * repeats the state checks under a row lock.
+   */
+  static checkVoucher(channel: X402PaymentChannel, voucher: X402SignedVoucher, price: number): X402VoucherCheck {
+    const amount = this.toVoucherUnits(voucher.amount);
+    const latest = this.toVoucherUnits(Number(channel.voucher_amount));
+    const increment = Number(amount - latest) / VOUCHER_UNITS_PER_USD;
+
+    if (channel.channel_wallet !== getNetworkConfig().escrowWallet) {
+      return { valid: false, increment, error: 'Channel deposit is not held in escrow', errorCode: 'UNTRUSTED_CHANNEL_WALLET' };
+    }
+
+    if (channel.status === 'closed') {
+      return { valid: false, increment, error: 'Payment channel is closed', errorCode: 'CHANNEL_CLOSED' };
+    }
+
+    if (channel.status === 'closing') {
+      return { valid: false, increment, error: 'Payment channel is closing', errorCode: 'CHANNEL_CLOSING' };
+    }
+
+    if (new Date(channel.expires_at).getTime() < Date.now()) {
+      return { valid: false, increment, error: 'Payment channel has expired', errorCode: 'CHANNEL_EXPIRED' };
+    }
+
+    if (voucher.nonce <= Number(channel.voucher_nonce)) {
+      return { valid: false, increment, error: `Voucher nonce must be greater than ${channel.voucher_nonce}`, errorCode: 'VOUCHER_REPLAYED' };
+    }
+
+    if (amount > this.toVoucherUnits(Number(channel.deposit_amount))) {
+      return { valid: false, increment, error: 'Voucher exceeds the channel deposit', errorCode: 'INSUFFICIENT_CHANNEL_BALANCE' };
+    }
+
+    if (amount - latest < this.toVoucherUnits(price)) {
+      return { valid: false, increment, error: `Voucher must add at least ${price}`, errorCode: 'VOUCHER_TOO_LOW' };
+    }
+
+    if (!this.verifyVoucherSignature(voucher, channel.payer_wallet)) {
+      return { valid: false, increment, error: 'Voucher signature is invalid', errorCode: 'INVALID_VOUCHER_SIGNATURE' };
+    }
+
+    return { valid: true, increment };
+  }
+
+  /**
+   * Deposits `depositAmount` into the escrow wallet in the service's currency
+   * and opens the channel for it.
+   */
+  static async openChannel(wallet: SolanaWallet, request: X402OpenChannelRequest): Promise<X402ChannelResult> {
+    const serviceConfig = await X402Protocol.getServiceConfig(request.serviceId, request.serviceType);
+    if (!serviceConfig || !serviceConfig.accepts_x402) {
+      return { success: false, error: 'Service not configured for x402 payments', errorCode: 'SERVICE_NOT_CONFIGURED' };
+    }
+
+    const payment = await solanaPaymentService.createEscrowPaymentTransaction(
+      wallet,
+      request.depositAmount,
+      { x402_channel_service_id: request.serviceId, x402_channel_service_type: request.serviceType },
+      { transactionType: 'x402_session', currency: serviceConfig.currency, speed: request.speed }
+    );
+
+    if (!payment.success || !payment.signature || !payment.amountBaseUnits) {
+      return {
+        success: false,
+        signature: payment.signature,
+        payment,
+        error: payment.error || 'Deposit failed',
+        errorCode: payment.errorCode
+      };
+    }
+
+    // The funding worker opens the channel once it has seen the deposit on-chain
+    const funding = await X402FundingManager.requestFunding(wallet, {
+      kind: 'channel',
+      service_id: request.serviceId,
+      service_type: request.serviceType,
+      amount: request.depositAmount,
+      currency: serviceConfig.currency,
+      payment_signature: payment.signature,
+      params: {
+        deposit_base_units: payment.amountBaseUnits,
+        duration_seconds: request.durationSeconds ?? DEFAULT_CHANNEL_DURATION_SECONDS,
+        dispute_window_seconds: request.disputeWindowSeconds ?? DEFAULT_DISPUTE_WINDOW_SECONDS,
+        settlement_threshold: request.settlementThreshold ?? 1
+      }
+    });
+
+    const result = funding.result as unknown as X402ChannelRpcResult | undefined;
+    return {
+      success: funding.success,
+      channelId: result?.channel_id,
+      signature: payment.signature,
+      payment,
+      error: funding.error,
+      errorCode: funding.errorCode
+    };
+  }
+
+  /**
+   * Checks on-chain that the payer's deposit reached the channel wallet in
+   * full. `DEPOSIT_NOT_FOUND` means the deposit could not be loaded (yet).
+   */
+  static async verifyDeposit(
+    channel: X402PaymentChannel,
+    paymentService: SolanaPaymentService = solanaPaymentService,
+    cluster?: SolanaCluster
+  ): Promise<X402DepositVerification> {
+    const transfer = channel.currency === 'USDC'
+      ? await paymentService.verifyTokenTransfer(channel.deposit_signature, channel.channel_wallet, getUsdcMint(cluster))
+      : await paymentService.verifyTransfer(channel.deposit_signature, channel.channel_wallet);
+
+    if (transfer.slot === undefined) {
+      return { valid: false, error: transfer.error || 'Deposit not found', errorCode: 'DEPOSIT_NOT_FOUND' };
+    }
+
+    if (!transfer.valid) {
+      return { valid: false, error: transfer.error || 'Deposit did not pay the channel wallet', errorCode: 'NO_TRANSFER_TO_CHANNEL' };
+    }
+
+    if (!transfer.payers.includes(channel.payer_wallet)) {
+      return { valid: false, error: 'Deposit was not paid by the channel payer', errorCode: 'PAYER_MISMATCH' };
+    }
+
+    const received = 'rawAmount' in transfer ? BigInt(transfer.rawAmount) : BigInt(transfer.lamports);
+    if (received < BigInt(channel.deposit_base_units)) {
+      return { valid: false, error: 'Deposit is less than the channel was opened with', errorCode: 'INSUFFICIENT_DEPOSIT' };
+    }
+
+    return { valid: true };
+  }
+
+  /** Records a voucher the provider's server checked; needs its service-role `client` */
+  static async acceptVoucher(
+    channel: X402PaymentChannel,
+    voucher: X402SignedVoucher,
+    options: X402VoucherAcceptOptions
+  ): Promise<X402VoucherAcceptResult> {
+    const { data, error } = await (options.client || supabase).rpc('x402_accept_channel_voucher', {
+      p_channel_id: channel.id,
+      p_wallet_address: channel.payer_wallet,
+      p_amount: voucher.amount,
+      p_nonce: voucher.nonce,
+      p_signature: voucher.signature,
+      p_min_increment: options.minIncrement,
+      p_resource_url: options.resourceUrl ?? null,
+      p_resource_type: options.resourceType ?? 'api_call',
+      p_http_method: options.httpMethod ?? 'POST',
+      p_service_id: options.serviceId ?? null,
+      p_service_type: options.serviceType ?? null,
+      p_deposit_verified: options.depositVerified ?? false,
+      p_x402_header: options.x402Header ?? null
+    });
+
+    if (error) {
+      console.error('[Channels] Error accepting voucher:', error);
+      return { success: false, error: error.message, errorCode: 'UPDATE_FAILED' };
+    }
+
+    const result = data as X402ChannelRpcResult;
+
+    if (!result.success) {
+      return { success: false, error: result.error, errorCode: result.error_code };
+    }
+
+    return {
+      success: true,
+      transactionId: result.transaction_id ?? undefined,
+      increment: Number(result.increment),
+      voucherAmount: Number(result.voucher_amount),
+      voucherNonce: result.voucher_nonce,
+      remainingAmount: Number(result.remaining_amount)
+    };
+  }
+
+  /**
+   * Lets the provider record a later voucher it holds while a channel closes,
+   * before `dispute_ends_at`. The final settlement pays out the latest one.
+   * Runs on the provider's server with its service-role `client`.
+   */
+  static async submitDisputeVoucher(
+    channel: X402PaymentChannel,
+    voucher: X402SignedVoucher,
+    client: SupabaseClient = supabase
+  ): Promise<X402VoucherAcceptResult> {
+    if (!this.verifyVoucherSignature(voucher, channel.payer_wallet)) {
+      return { success: false, error: 'Voucher signature is invalid', errorCode: 'INVALID_VOUCHER_SIGNATURE' };
+    }
+
+    return this.acceptVoucher(channel, voucher, { minIncrement: 0, client });
+  }
+
+  static buildClosePayload(channelId: string, walletAddress: string): Uint8Array {
+    return new TextEncoder().encode(['x402-channel-close:v1', channelId, walletAddress].join('|'));
+  }
+
+  /**
+   * Closes a channel. A payer close settles once the dispute window is over,
+   * a provider close settles right away. The close is signed with the
+   * payer's or provider's wallet and applied by `X402ChannelSettlementWorker`;
+   * this waits for it and reports `CLOSE_PENDING` if the worker has not got
+   * to it yet.
+   */
+  static async requestClose(wallet: SolanaWallet, channelId: string): Promise<X402ChannelResult> {
+    if (!wallet.signMessage) {
+      return { success: false, channelId, error: 'Wallet does not support message signing', errorCode: 'SIGNING_UNSUPPORTED' };
+    }
+
+    const walletAddress = wallet.publicKey.toBase58();
+
+    try {
+      const signature = await wallet.signMessage(this.buildClosePayload(channelId, walletAddress));
+
+      const { data, error } = await supabase
+        .from('x402_channel_close_requests')
+        .insert({ channel_id: channelId, wallet_address: walletAddress, signature: bs58.encode(signature) })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      this.resetVoucherState(channelId);
+
+      const deadline = Date.now() + CLOSE_WAIT_TIMEOUT;
+      while (Date.now() < deadline) {
+        const { data: request } = await supabase
+          .from('x402_channel_close_requests')
+          .select('*')
+          .eq('id', data.id)
+          .maybeSingle();
+
+        const closeRequest = request as X402ChannelCloseRequest | null;
+        if (closeRequest && closeRequest.status !== 'pending') {
+          const result = (closeRequest.result ?? {}) as Partial<X402ChannelRpcResult>;
+          return {
+            success: closeRequest.status === 'processed',
+            channelId,
+            disputeEndsAt: result.dispute_ends_at,
+            error: closeRequest.error ?? undefined,
+            errorCode: result.error_code
+          };
+        }
+
+        await sleep(CLOSE_POLL_INTERVAL);
+      }
+
+      return { success: false, channelId, error: 'Close is waiting for the settlement worker', errorCode: 'CLOSE_PENDING' };
+    } catch (error) {
+      console.error('[Channels] Error closing channel:', error);
+      return { success: false, channelId, error: error instanceof Error ? error.message : 'Failed to close channel' };
+    }
+  }
+
+  /**
+   * Applies a close request on the settlement worker, with its service-role
+   * `client`, once the request's signature checks out against its wallet.
+   */
+  static async processCloseRequest(request: X402ChannelCloseRequest, client: SupabaseClient = supabase): Promise<X402ChannelResult> {
+    let verified = false;
+    try {
+      verified = nacl.sign.detached.verify(
+        this.buildClosePayload(request.channel_id, request.wallet_address),
+        bs58.decode(request.signature),
+        new PublicKey(request.wallet_address).toBytes()
+      );
+    } catch (error) {
+      console.error('[Channels] Error verifying close signature:', error);
+    }
+
+    if (!verified) {
+      return this.completeCloseRequest(request, {
+        success: false,
+        error: 'Close request signature is invalid',
+        error_code: 'INVALID_SIGNATURE'
+      }, client);
+    }
+
+    const { data, error } = await client.rpc('x402_request_channel_close', {
+      p_channel_id: request.channel_id,
+      p_wallet_address: request.wallet_address
+    });
+
+    if (error) {
+      console.error('[Channels] Error closing channel:', error);
+      return { success: false, channelId: request.channel_id, error: error.message };
+    }
+
+    return this.completeCloseRequest(request, data as X402ChannelRpcResult, client);
+  }
+
+  private static async completeCloseRequest(
+    request: X402ChannelCloseRequest,
+    result: X402ChannelRpcResult,
+    client: SupabaseClient
+  ): Promise<X402ChannelResult> {
+    const { error } = await client
+      .from('x402_channel_close_requests')
+      .update({
+        status: result.success ? 'processed' : 'rejected',
+        result,
+        error: result.error ?? null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('[Channels] Error saving close request:', error);
+    }
+
+    return {
+      success: result.success,
+      channelId: request.channel_id,
+      disputeEndsAt: result.dispute_ends_at,
+      error: result.error,
+      errorCode: result.error_code
+    };
+  }
+
+  static async getChannel(channelId: string, client: SupabaseClient = supabase): Promise<X402PaymentChannel | null> {
+    const { data, error } = await client
+      .from('x402_payment_channels')
+      .select('*')
+      .eq('id', channelId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Channels] Error fetching channel:', error);
+      return null;
+    }
+
+    return data as X402PaymentChannel | null;
+  }
+
+  static async getWalletChannels(walletAddress: string): Promise<X402PaymentChannel[]> {
+    const { data, error } = await supabase
+      .from('x402_payment_channels')
+      .select('*')
+      .eq('payer_wallet', walletAddress)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[Channels] Error fetching channels:', error);
+      return [];
+    }
+
+    return (data || []) as X402PaymentChannel[];
+  }
+}
+
+export const x402PaymentChannelManager = X402PaymentChannelManager;
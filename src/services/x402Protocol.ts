@@ -1,18 +1,95 @@
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
 import { solanaPaymentService } from './solanaPayment';
+import { PriceUnavailableError } from './solPriceOracle';
+import { priceQuoteService, PriceQuote } from './priceQuote';
 import { SolanaWallet } from './walletManager';
+import { X402AccountRequestManager } from './x402AccountRequests';
+import { X402FundingManager } from './x402Funding';
+import { getX402NonceStore, X402NonceStore } from './x402NonceStore';
 import { supabase } from '../lib/supabase';
+import { matchesAnyResourcePattern } from '../utils/resourcePatterns';
+import { PaymentCurrency } from '../utils/splToken';
 
 export interface X402Header {
   sessionToken?: string;
   paymentProof?: string;
+  /** Token of a standing spending authorization, see `X402AuthorizationManager` */
+  authorizationToken?: string;
+  /**
+   * Payment channel and the voucher paying for this call: the cumulative
+   * USD owed on the channel, its nonce and the payer's signature over both,
+   * see `X402PaymentChannelManager`
+   */
+  channelId?: string;
+  channelAmount?: number;
+  channelNonce?: number;
+  channelSignature?: string;
   walletAddress: string;
   amount: number;
   currency: string;
   timestamp: number;
+  resource?: string;
+  nonce?: string;
   signature?: string;
 }
 
+export interface X402SignatureVerification {
+  valid: boolean;
+  error?: string;
+  errorCode?: 'SIGNATURE_REQUIRED' | 'INVALID_SIGNATURE' | 'RESOURCE_MISMATCH' | 'STALE_TIMESTAMP' | 'NONCE_REPLAYED';
+}
+
+export interface X402SignatureOptions {
+  maxAgeMs?: number;
+  maxClockSkewMs?: number;
+  nonceStore?: X402NonceStore;
+}
+
+export interface X402ProofOptions {
+  payerAddress?: string;
+  resourceUrl?: string;
+  tolerance?: number;
+  claim?: boolean;
+  /** `USDC` proofs must be USDC transfers, valued 1:1 without an oracle */
+  currency?: PaymentCurrency;
+  /** Service-role client of server callers; defaults to the browser client */
+  client?: SupabaseClient;
+  /** Timestamp of the payment header (ms), held to the same window as the block time */
+  timestamp?: number;
+  /** How old the payment may be; defaults to `PROOF_MAX_AGE` */
+  maxAgeMs?: number;
+}
+
+export interface X402ProofVerification {
+  valid: boolean;
+  error?: string;
+  errorCode?:
+    | 'PROOF_NOT_FOUND'
+    | 'NO_TRANSFER_TO_RECIPIENT'
+    | 'PAYER_MISMATCH'
+    | 'INSUFFICIENT_AMOUNT'
+    | 'PROOF_ALREADY_USED'
+    | 'PROOF_EXPIRED'
+    | 'PRICE_UNAVAILABLE'
+    | 'QUOTE_INVALID'
+    | 'VERIFICATION_ERROR';
+  lamports?: number;
+  solAmount?: number;
+  conversionRate?: number;
+  currency?: PaymentCurrency;
+  tokenAmount?: number;
+  /** Price quote the payment was built from */
+  quoteId?: string;
+}
+
+const PROOF_AMOUNT_TOLERANCE = 0.02; // 2% price movement between payment and check
+const PROOF_MAX_AGE = 10 * 60 * 1000; // 10 minutes
+const SIGNED_HEADER_MAX_AGE = 5 * 60 * 1000; // 5 minutes
+const SIGNED_HEADER_MAX_CLOCK_SKEW = 30 * 1000; // 30 seconds
+
 export interface X402Session {
   id: string;
   wallet_address: string;
@@ -21,14 +98,49 @@ export interface X402Session {
   spent_amount: number;
   remaining_amount: number;
   resource_pattern: string;
+  resource_patterns: string[];
   status: 'active' | 'expired' | 'revoked' | 'depleted';
   expires_at: string;
   auto_renew: boolean;
   renewal_amount: number;
+  renewal_source: 'wallet' | 'credits';
+  renewal_credit_service_id: string | null;
+  renewal_credit_service_type: 'agent' | 'api' | 'web_service' | null;
+  renewal_threshold: number;
+  renewal_window_minutes: number;
+  renewal_duration_hours: number;
+  max_renewals: number | null;
+  max_renewal_total: number | null;
+  renewal_count: number;
+  total_renewed: number;
+  last_renewed_at: string | null;
+  payment_currency: 'SOL' | 'USDC';
   last_used_at: string | null;
   created_at: string;
 }
 
+/**
+ * How an auto-renewing session is topped up, see `X402SessionRenewalEngine`.
+ * Unset fields fall back to the column defaults.
+ */
+export interface X402RenewalSettings {
+  source?: 'wallet' | 'credits';
+  creditServiceId?: string | null;
+  creditServiceType?: 'agent' | 'api' | 'web_service';
+  amount?: number;
+  threshold?: number;
+  windowMinutes?: number;
+  durationHours?: number;
+  maxRenewals?: number | null;
+  maxRenewalTotal?: number | null;
+}
+
+/** Credit account a session is funded from instead of a wallet payment */
+export interface X402SessionCreditFunding {
+  serviceId: string | null;
+  serviceType: 'agent' | 'api' | 'web_service';
+}
+
 export interface X402ServiceConfig {
   id: string;
   service_id: string;
@@ -40,12 +152,14 @@ export interface X402ServiceConfig {
   base_price: number;
   min_payment: number;
   max_payment: number | null;
-  currency: 'USD' | 'SOL';
+  currency: 'USDC' | 'SOL';
   requires_preauth: boolean;
   max_session_amount: number | null;
   allowed_origins: string[];
   webhook_url: string | null;
   is_active: boolean;
+  auto_refund: boolean;
+  refund_status_codes: number[];
 }
 
 export interface X402PaymentResult {
@@ -56,6 +170,56 @@ export interface X402PaymentResult {
   errorCode?: string;
 }
 
+export interface X402DebitOptions {
+  idempotencyKey?: string;
+  /** Resource key checked against the session's patterns, see `buildResourceKey` */
+  resource?: string;
+  /** Wallet that signed the payment header; the session must belong to it */
+  walletAddress: string;
+  /** Service-role client; sessions cannot be debited with the anon key */
+  client: SupabaseClient;
+}
+
+export interface X402SettleResult {
+  success: boolean;
+  transactionId?: string;
+  amountCharged?: number;
+  releasedAmount?: number;
+  remainingBalance?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+interface X402SettleRpcResult {
+  success: boolean;
+  transaction_id?: string;
+  amount_charged?: number | string;
+  released_amount?: number | string;
+  remaining_amount?: number | string | null;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+interface X402FundSessionRpcResult {
+  success: boolean;
+  session_id?: string;
+  remaining_amount?: number | string;
+  new_balance?: number | string | null;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+interface X402DebitResult {
+  success: boolean;
+  transaction_id?: string;
+  remaining_amount?: number | string;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
 export class X402Protocol {
   private static generateSessionToken(): string {
     const array = new Uint8Array(32);
@@ -63,13 +227,22 @@ export class X402Protocol {
     return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
   }
 
+  private static generateNonce(): string {
+    const array = new Uint8Array(16);
+    crypto.getRandomValues(array);
+    return bs58.encode(array);
+  }
+
   static parseX402Header(headerValue: string): X402Header | null {
     try {
       const parts = headerValue.split(';').map(p => p.trim());
       const parsed: Partial<X402Header> = {};
 
       parts.forEach(part => {
-        const [key, value] = part.split('=').map(s => s.trim());
+        const separator = part.indexOf('=');
+        if (separator === -1) return;
+        const key = part.slice(0, separator).trim();
+        const value = part.slice(separator + 1).trim();
         switch (key.toLowerCase()) {
           case 'session':
             parsed.sessionToken = value;
@@ -77,6 +250,21 @@ export class X402Protocol {
           case 'proof':
             parsed.paymentProof = value;
             break;
+          case 'authorization':
+            parsed.authorizationToken = value;
+            break;
+          case 'channel':
+            parsed.channelId = value;
+            break;
+          case 'channel_amount':
+            parsed.channelAmount = parseFloat(value);
+            break;
+          case 'channel_nonce':
+            parsed.channelNonce = parseInt(value);
+            break;
+          case 'channel_signature':
+            parsed.channelSignature = value;
+            break;
           case 'wallet':
             parsed.walletAddress = value;
             break;
@@ -89,6 +277,12 @@ export class X402Protocol {
           case 'timestamp':
             parsed.timestamp = parseInt(value);
             break;
+          case 'resource':
+            parsed.resource = decodeURIComponent(value);
+            break;
+          case 'nonce':
+            parsed.nonce = value;
+            break;
           case 'signature':
             parsed.signature = value;
             break;
@@ -102,10 +296,17 @@ export class X402Protocol {
       return {
         sessionToken: parsed.sessionToken,
         paymentProof: parsed.paymentProof,
+        authorizationToken: parsed.authorizationToken,
+        channelId: parsed.channelId,
+        channelAmount: parsed.channelAmount,
+        channelNonce: parsed.channelNonce,
+        channelSignature: parsed.channelSignature,
         walletAddress: parsed.walletAddress,
         amount: parsed.amount || 0,
         currency: parsed.currency || 'USDC',
         timestamp: parsed.timestamp || Date.now(),
+        resource: parsed.resource,
+        nonce: parsed.nonce,
         signature: parsed.signature
       };
     } catch (error) {
@@ -119,29 +320,160 @@ export class X402Protocol {
 
     if (params.sessionToken) parts.push(`session=${params.sessionToken}`);
     if (params.paymentProof) parts.push(`proof=${params.paymentProof}`);
+    if (params.authorizationToken) parts.push(`authorization=${params.authorizationToken}`);
+    if (params.channelId) parts.push(`channel=${params.channelId}`);
+    if (params.channelAmount !== undefined) parts.push(`channel_amount=${params.channelAmount}`);
+    if (params.channelNonce !== undefined) parts.push(`channel_nonce=${params.channelNonce}`);
+    if (params.channelSignature) parts.push(`channel_signature=${params.channelSignature}`);
     parts.push(`wallet=${params.walletAddress}`);
     parts.push(`amount=${params.amount}`);
     parts.push(`currency=${params.currency}`);
     parts.push(`timestamp=${params.timestamp}`);
+    if (params.resource) parts.push(`resource=${encodeURIComponent(params.resource)}`);
+    if (params.nonce) parts.push(`nonce=${params.nonce}`);
     if (params.signature) parts.push(`signature=${params.signature}`);
 
     return parts.join('; ');
   }
 
+  /**
+   * Reduces a URL to the path and query the server sees in `req.url`, so the
+   * client and the verifier sign and check the same resource string.
+   */
+  static normalizeResource(url: string): string {
+    try {
+      const parsed = new URL(url, 'http://x402.local');
+      return `${parsed.pathname}${parsed.search}`;
+    } catch {
+      return url;
+    }
+  }
+
+  static buildSigningPayload(
+    header: Pick<X402Header, 'walletAddress' | 'amount' | 'resource' | 'timestamp' | 'nonce' | 'sessionToken'>
+  ): Uint8Array {
+    const payload = [
+      'x402:v1',
+      header.walletAddress,
+      String(header.amount),
+      header.resource || '',
+      String(header.timestamp),
+      header.nonce || '',
+      header.sessionToken || ''
+    ].join('|');
+
+    return new TextEncoder().encode(payload);
+  }
+
+  /**
+   * Builds an X-402-Payment header signed with the wallet's ed25519 key over
+   * wallet, amount, resource, timestamp, a fresh nonce and the session token,
+   * so a signed header cannot be replayed against another session.
+   */
+  static async signX402Header(
+    wallet: SolanaWallet,
+    params: Omit<X402Header, 'walletAddress' | 'timestamp' | 'nonce' | 'signature' | 'resource'> & { resource: string }
+  ): Promise<X402Header> {
+    if (!wallet.signMessage) {
+      throw new Error('Wallet does not support message signing');
+    }
+
+    const header: X402Header = {
+      ...params,
+      walletAddress: wallet.publicKey.toBase58(),
+      resource: this.normalizeResource(params.resource),
+      timestamp: Date.now(),
+      nonce: this.generateNonce()
+    };
+
+    const signature = await wallet.signMessage(this.buildSigningPayload(header));
+    return { ...header, signature: bs58.encode(signature) };
+  }
+
+  /**
+   * Checks the header signature against `walletAddress`, rejects timestamps
+   * outside the allowed window and records the nonce so the same header
+   * cannot be replayed.
+   */
+  static async verifyX402Signature(
+    header: X402Header,
+    expectedResource: string,
+    options: X402SignatureOptions = {}
+  ): Promise<X402SignatureVerification> {
+    const maxAgeMs = options.maxAgeMs ?? SIGNED_HEADER_MAX_AGE;
+    const maxClockSkewMs = options.maxClockSkewMs ?? SIGNED_HEADER_MAX_CLOCK_SKEW;
+
+    if (!header.signature || !header.nonce || !header.resource) {
+      return { valid: false, error: 'Payment header must be signed', errorCode: 'SIGNATURE_REQUIRED' };
+    }
+
+    if (header.resource !== this.normalizeResource(expectedResource)) {
+      return { valid: false, error: 'Payment header was signed for a different resource', errorCode: 'RESOURCE_MISMATCH' };
+    }
+
+    const age = Date.now() - header.timestamp;
+    if (age > maxAgeMs || age < -maxClockSkewMs) {
+      return { valid: false, error: 'Payment header timestamp is outside the allowed window', errorCode: 'STALE_TIMESTAMP' };
+    }
+
+    let verified = false;
+    try {
+      verified = nacl.sign.detached.verify(
+        this.buildSigningPayload(header),
+        bs58.decode(header.signature),
+        new PublicKey(header.walletAddress).toBytes()
+      );
+    } catch (error) {
+      console.error('[x402] Error verifying header signature:', error);
+    }
+
+    if (!verified) {
+      return { valid: false, error: 'Invalid payment header signature', errorCode: 'INVALID_SIGNATURE' };
+    }
+
+    const nonceStore = options.nonceStore || getX402NonceStore();
+    const fresh = await nonceStore.consume(header.walletAddress, header.nonce, header.timestamp + maxAgeMs);
+    if (!fresh) {
+      return { valid: false, error: 'Payment header has already been used', errorCode: 'NONCE_REPLAYED' };
+    }
+
+    return { valid: true };
+  }
+
   static async createPaymentSession(
     wallet: SolanaWallet,
     walletAddress: string,
     authorizedAmountUsd: number,
-    resourcePattern: string,
+    resourcePattern: string | string[],
     durationHours: number = 24,
     autoRenew: boolean = false,
-    executePayment: boolean = true
-  ): Promise<{ success: boolean; sessionToken?: string; transactionSignature?: string; error?: string }> {
+    executePayment: boolean = true,
+    renewal: X402RenewalSettings = {},
+    paymentCurrency: PaymentCurrency = 'SOL',
+    quote?: PriceQuote,
+    fundingCredits?: X402SessionCreditFunding
+  ): Promise<{
+    success: boolean;
+    sessionToken?: string;
+    transactionSignature?: string;
+    creditBalance?: number;
+    /** The payment is still being verified; the session is funded once it is */
+    fundingPending?: boolean;
+    error?: string;
+  }> {
+    const resourcePatterns = (Array.isArray(resourcePattern) ? resourcePattern : [resourcePattern])
+      .map(pattern => pattern.trim())
+      .filter(pattern => pattern.length > 0);
+
+    if (resourcePatterns.length === 0) {
+      return { success: false, error: 'At least one resource pattern is required' };
+    }
+
     try {
       console.log('[x402] Creating payment session:', {
         walletAddress,
         authorizedAmountUsd,
-        resourcePattern,
+        resourcePatterns,
         executePayment
       });
 
@@ -149,11 +481,15 @@ export class X402Protocol {
 
       // Execute actual blockchain payment if required
       if (executePayment) {
-        console.log('[x402] Executing upfront payment of', authorizedAmountUsd, 'USD');
+        console.log('[x402] Executing upfront payment of', authorizedAmountUsd, 'USD in', paymentCurrency);
 
         const paymentResult = await solanaPaymentService.createPaymentTransaction(
           wallet,
-          authorizedAmountUsd
+          authorizedAmountUsd,
+          'x402_session',
+          paymentCurrency,
+          undefined,
+          quote
         );
 
         if (!paymentResult.success) {
@@ -178,13 +514,24 @@ export class X402Protocol {
           session_token: sessionToken,
           authorized_amount: authorizedAmountUsd,
           spent_amount: 0,
-          remaining_amount: authorizedAmountUsd,
-          resource_pattern: resourcePattern,
+          // Funded below through the ledger
+          remaining_amount: 0,
+          resource_pattern: resourcePatterns[0],
+          resource_patterns: resourcePatterns,
           status: 'active',
           expires_at: expiresAt.toISOString(),
           auto_renew: autoRenew,
-          renewal_amount: autoRenew ? authorizedAmountUsd : 0,
-          initial_payment_signature: transactionSignature
+          renewal_amount: autoRenew ? renewal.amount ?? authorizedAmountUsd : 0,
+          renewal_source: renewal.source ?? 'wallet',
+          renewal_credit_service_id: renewal.creditServiceId ?? null,
+          renewal_credit_service_type: renewal.creditServiceType ?? null,
+          renewal_threshold: renewal.threshold ?? 0,
+          renewal_window_minutes: renewal.windowMinutes ?? 60,
+          renewal_duration_hours: renewal.durationHours ?? durationHours,
+          max_renewals: renewal.maxRenewals ?? null,
+          max_renewal_total: renewal.maxRenewalTotal ?? null,
+          initial_payment_signature: transactionSignature,
+          payment_currency: paymentCurrency
         })
         .select()
         .single();
@@ -194,12 +541,45 @@ export class X402Protocol {
         return { success: false, error: error.message };
       }
 
+      let creditBalance: number | undefined;
+      let fundingPending = false;
+
+      if (transactionSignature || fundingCredits) {
+        // Applied by the funding worker once it has seen the payment on-chain
+        const funding = await X402FundingManager.requestFunding(wallet, {
+          kind: 'session',
+          source: fundingCredits ? 'credits' : 'payment',
+          session_id: data.id,
+          service_id: fundingCredits ? fundingCredits.serviceId : null,
+          service_type: fundingCredits ? fundingCredits.serviceType : null,
+          amount: authorizedAmountUsd,
+          currency: paymentCurrency,
+          payment_signature: fundingCredits ? null : transactionSignature
+        });
+
+        if (!funding.success && funding.errorCode !== 'FUNDING_PENDING') {
+          const fundingError = funding.error || 'Failed to fund session';
+          // The session was never funded, so there is nothing to spend from it
+          console.error('[x402] Error funding payment session:', fundingError);
+          return { success: false, transactionSignature, error: fundingError };
+        }
+
+        fundingPending = !funding.success;
+        const funded = funding.result as X402FundSessionRpcResult | undefined;
+
+        if (funded?.new_balance !== undefined && funded.new_balance !== null) {
+          creditBalance = Number(funded.new_balance);
+        }
+      }
+
       console.log('[x402] Session created successfully:', sessionToken);
 
       return {
         success: true,
         sessionToken,
-        transactionSignature
+        transactionSignature,
+        creditBalance,
+        fundingPending
       };
     } catch (error: any) {
       console.error('[x402] Error creating payment session:', error);
@@ -226,114 +606,232 @@ export class X402Protocol {
     }
   }
 
-  static async validateSession(sessionToken: string, amount: number): Promise<{ valid: boolean; error?: string }> {
+  static getSessionPatterns(session: X402Session): string[] {
+    return session.resource_patterns && session.resource_patterns.length > 0
+      ? session.resource_patterns
+      : [session.resource_pattern];
+  }
+
+  /**
+   * Pre-flight check before charging a session. When `resource` is given
+   * (a key from `buildResourceKey`), it must match one of the session's
+   * patterns; `x402_debit_session` enforces the same rule on the server.
+   */
+  static async validateSession(
+    sessionToken: string,
+    amount: number,
+    resource?: string
+  ): Promise<{ valid: boolean; error?: string; errorCode?: string }> {
     const session = await this.getSession(sessionToken);
 
     if (!session) {
-      return { valid: false, error: 'Session not found' };
+      return { valid: false, error: 'Session not found', errorCode: 'SESSION_NOT_FOUND' };
     }
 
     if (session.status !== 'active') {
-      return { valid: false, error: `Session is ${session.status}` };
+      return { valid: false, error: `Session is ${session.status}`, errorCode: 'SESSION_INACTIVE' };
     }
 
     if (new Date(session.expires_at) < new Date()) {
-      await this.updateSessionStatus(sessionToken, 'expired');
-      return { valid: false, error: 'Session expired' };
+      return { valid: false, error: 'Session expired', errorCode: 'SESSION_EXPIRED' };
+    }
+
+    if (resource !== undefined && !matchesAnyResourcePattern(this.getSessionPatterns(session), resource)) {
+      return {
+        valid: false,
+        error: `Session is not authorized for ${resource}`,
+        errorCode: 'RESOURCE_NOT_AUTHORIZED'
+      };
     }
 
     if (session.remaining_amount < amount) {
-      return { valid: false, error: 'Insufficient session balance' };
+      return { valid: false, error: 'Insufficient session balance', errorCode: 'INSUFFICIENT_BALANCE' };
     }
 
     return { valid: true };
   }
 
+  /**
+   * Debits a session through the `x402_debit_session` RPC, which locks the
+   * session row so concurrent calls with the same token cannot overspend.
+   * Passing the same `idempotencyKey` again returns the original transaction,
+   * and a `resource` outside the session's patterns is rejected with
+   * `RESOURCE_NOT_AUTHORIZED`. Server-side only, once the wallet's signed
+   * payment header has been verified.
+   */
   static async deductFromSession(
     sessionToken: string,
     amount: number,
     resourceUrl: string,
     resourceType: 'agent_execution' | 'api_call' | 'data_access',
-    httpMethod: string
+    httpMethod: string,
+    options: X402DebitOptions
   ): Promise<X402PaymentResult> {
     try {
-      const session = await this.getSession(sessionToken);
-      if (!session) {
-        return { success: false, error: 'Session not found', errorCode: 'SESSION_NOT_FOUND' };
+      const { data, error } = await options.client.rpc('x402_debit_session', {
+        p_session_token: sessionToken,
+        p_wallet_address: options.walletAddress,
+        p_amount: amount,
+        p_resource_url: resourceUrl,
+        p_resource_type: resourceType,
+        p_http_method: httpMethod,
+        p_idempotency_key: options.idempotencyKey ?? null,
+        p_resource: options.resource ?? null
+      });
+
+      if (error) {
+        return { success: false, error: error.message, errorCode: 'UPDATE_FAILED' };
       }
 
-      const validation = await this.validateSession(sessionToken, amount);
-      if (!validation.valid) {
-        return { success: false, error: validation.error, errorCode: 'VALIDATION_FAILED' };
+      const result = data as X402DebitResult;
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.error_code,
+          remainingBalance: result.remaining_amount !== undefined ? Number(result.remaining_amount) : undefined
+        };
       }
 
-      const newSpent = session.spent_amount + amount;
-      const newRemaining = session.remaining_amount - amount;
+      return {
+        success: true,
+        transactionId: result.transaction_id,
+        remainingBalance: Number(result.remaining_amount)
+      };
+    } catch (error: any) {
+      console.error('Error deducting from session:', error);
+      return { success: false, error: error.message, errorCode: 'UNKNOWN_ERROR' };
+    }
+  }
 
-      const { error: updateError } = await supabase
-        .from('x402_payment_sessions')
-        .update({
-          spent_amount: newSpent,
-          remaining_amount: newRemaining,
-          last_used_at: new Date().toISOString(),
-          status: newRemaining <= 0 ? 'depleted' : 'active'
-        })
-        .eq('session_token', sessionToken);
+  /**
+   * Holds the upper bound of a metered charge (see `X402Metering`). The
+   * transaction stays `pending` until `settleHold` charges the measured amount.
+   */
+  static async holdSession(
+    sessionToken: string,
+    holdAmount: number,
+    resourceUrl: string,
+    resourceType: 'agent_execution' | 'api_call' | 'data_access',
+    httpMethod: string,
+    options: X402DebitOptions & { billing?: Record<string, unknown> }
+  ): Promise<X402PaymentResult> {
+    try {
+      const { data, error } = await options.client.rpc('x402_hold_session', {
+        p_session_token: sessionToken,
+        p_wallet_address: options.walletAddress,
+        p_amount: holdAmount,
+        p_resource_url: resourceUrl,
+        p_resource_type: resourceType,
+        p_http_method: httpMethod,
+        p_idempotency_key: options.idempotencyKey ?? null,
+        p_resource: options.resource ?? null,
+        p_billing: options.billing ?? {}
+      });
 
-      if (updateError) {
-        return { success: false, error: updateError.message, errorCode: 'UPDATE_FAILED' };
+      if (error) {
+        return { success: false, error: error.message, errorCode: 'UPDATE_FAILED' };
       }
 
-      const { data: txData, error: txError } = await supabase
-        .from('x402_transactions')
-        .insert({
-          session_id: session.id,
-          wallet_address: session.wallet_address,
-          resource_url: resourceUrl,
-          resource_type: resourceType,
-          http_method: httpMethod,
-          amount_charged: amount,
-          x402_header: `session=${sessionToken}`,
-          status: 'completed',
-          response_code: 200
-        })
-        .select()
-        .single();
+      const result = data as X402DebitResult;
 
-      if (txError) {
-        console.error('Error logging transaction:', txError);
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          errorCode: result.error_code,
+          remainingBalance: result.remaining_amount !== undefined ? Number(result.remaining_amount) : undefined
+        };
       }
 
       return {
         success: true,
-        transactionId: txData?.id,
-        remainingBalance: newRemaining
+        transactionId: result.transaction_id,
+        remainingBalance: Number(result.remaining_amount)
       };
-    } catch (error: any) {
-      console.error('Error deducting from session:', error);
-      return { success: false, error: error.message, errorCode: 'UNKNOWN_ERROR' };
+    } catch (error) {
+      console.error('Error holding session funds:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN_ERROR' };
     }
   }
 
-  static async updateSessionStatus(
-    sessionToken: string,
-    status: 'active' | 'expired' | 'revoked' | 'depleted'
-  ): Promise<boolean> {
+  /**
+   * Charges at most the held amount and returns the rest to the session.
+   * Pass `failed` to release the whole hold when the request did not run.
+   */
+  static async settleHold(
+    transactionId: string,
+    amount: number,
+    billing: object = {},
+    failed: boolean = false,
+    client: SupabaseClient = supabase
+  ): Promise<X402SettleResult> {
     try {
-      const { error } = await supabase
-        .from('x402_payment_sessions')
-        .update({ status })
-        .eq('session_token', sessionToken);
+      const { data, error } = await client.rpc('x402_settle_hold', {
+        p_transaction_id: transactionId,
+        p_amount: amount,
+        p_billing: billing,
+        p_failed: failed
+      });
 
-      return !error;
+      if (error) {
+        return { success: false, error: error.message, errorCode: 'UPDATE_FAILED' };
+      }
+
+      const result = data as X402SettleRpcResult;
+
+      if (!result.success) {
+        return { success: false, error: result.error, errorCode: result.error_code };
+      }
+
+      return {
+        success: true,
+        transactionId: result.transaction_id,
+        amountCharged: Number(result.amount_charged),
+        releasedAmount: result.released_amount !== undefined ? Number(result.released_amount) : undefined,
+        remainingBalance: result.remaining_amount !== undefined && result.remaining_amount !== null
+          ? Number(result.remaining_amount)
+          : undefined
+      };
     } catch (error) {
-      console.error('Error updating session status:', error);
+      console.error('Error settling hold:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN_ERROR' };
+    }
+  }
+
+  /**
+   * Attaches a billing breakdown to a transaction charged without a hold.
+   */
+  static async recordBilling(transactionId: string, billing: object, client: SupabaseClient = supabase): Promise<boolean> {
+    const { data, error } = await client.rpc('x402_record_billing', {
+      p_transaction_id: transactionId,
+      p_billing: billing
+    });
+
+    if (error) {
+      console.error('Error recording billing breakdown:', error);
       return false;
     }
+
+    return Boolean(data);
   }
 
-  static async revokeSession(sessionToken: string): Promise<boolean> {
-    return this.updateSessionStatus(sessionToken, 'revoked');
+  /**
+   * Revokes a session of the wallet through a signed account request, see
+   * `X402AccountRequestManager`
+   */
+  static async revokeSession(wallet: SolanaWallet, sessionId: string): Promise<boolean> {
+    const result = await X402AccountRequestManager.requestChange(wallet, {
+      kind: 'session_revoke',
+      target_id: sessionId
+    });
+
+    if (!result.success) {
+      console.error('Error revoking session:', result.error);
+    }
+
+    return result.success;
   }
 
   static async getUserSessions(walletAddress: string): Promise<X402Session[]> {
@@ -358,10 +856,11 @@ export class X402Protocol {
 
   static async getServiceConfig(
     serviceId: string,
-    serviceType: 'agent' | 'api' | 'web_service'
+    serviceType: 'agent' | 'api' | 'web_service',
+    client: SupabaseClient = supabase
   ): Promise<X402ServiceConfig | null> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await client
         .from('x402_service_configs')
         .select('*')
         .eq('service_id', serviceId)
@@ -398,18 +897,272 @@ export class X402Protocol {
     }
   }
 
+  /**
+   * Verifies that `proof` is a confirmed transfer from the payer to
+   * `recipientAddress` worth at least `expectedAmount` USD (within
+   * `PROOF_AMOUNT_TOLERANCE`) at the rate of the signed price quote the
+   * payment was built from, or the oracle's current rate without one, then
+   * claims the signature so it cannot pay for another request. Rates the
+   * client recorded (`transaction_logs.conversion_rate`) are never trusted.
+   * USDC proofs are checked against the token balance deltas instead.
+   * Payments older than `maxAgeMs` are rejected with `PROOF_EXPIRED`.
+   */
   static async verifyPaymentProof(
     proof: string,
     expectedAmount: number,
-    recipientAddress: string
-  ): Promise<boolean> {
+    recipientAddress: string,
+    options: X402ProofOptions = {}
+  ): Promise<X402ProofVerification> {
+    if (options.currency === 'USDC') {
+      return this.verifyTokenPaymentProof(proof, expectedAmount, recipientAddress, options);
+    }
+
     try {
-      const verified = await solanaPaymentService.verifyTransaction(proof);
-      return verified;
+      const transfer = await solanaPaymentService.verifyTransfer(proof, recipientAddress);
+
+      if (!transfer.valid) {
+        return {
+          valid: false,
+          error: transfer.error || 'Payment proof verification failed',
+          errorCode: transfer.lamports === 0 && transfer.error !== 'Transaction not found'
+            ? 'NO_TRANSFER_TO_RECIPIENT'
+            : 'PROOF_NOT_FOUND'
+        };
+      }
+
+      if (options.payerAddress && !transfer.payers.includes(options.payerAddress)) {
+        return {
+          valid: false,
+          error: 'Payment was not sent by the wallet in the payment header',
+          errorCode: 'PAYER_MISMATCH'
+        };
+      }
+
+      const stale = this.checkProofAge(transfer.blockTime, options);
+      if (stale) {
+        return stale;
+      }
+
+      // A payment built from a price quote is held to the quoted lamports
+      const quote = await priceQuoteService.getQuoteForTransaction(proof, options.client);
+      if (quote) {
+        const quoteCheck = priceQuoteService.verifyQuote(quote, {
+          usdAmount: expectedAmount,
+          at: transfer.blockTime ? transfer.blockTime * 1000 : null
+        });
+        const underpaid = BigInt(transfer.lamports) < BigInt(quote.lamports);
+
+        if (!quoteCheck.valid || underpaid) {
+          return {
+            valid: false,
+            error: quoteCheck.error || `Payment of ${transfer.lamports} lamports is less than the ${quote.lamports} quoted`,
+            errorCode: underpaid || quoteCheck.errorCode === 'QUOTE_AMOUNT_MISMATCH' ? 'INSUFFICIENT_AMOUNT' : 'QUOTE_INVALID',
+            lamports: transfer.lamports,
+            solAmount: transfer.lamports / LAMPORTS_PER_SOL,
+            conversionRate: quote.rate,
+            quoteId: quote.id
+          };
+        }
+      }
+
+      const conversionRate = quote?.rate ?? await solanaPaymentService.getSolPrice();
+      const tolerance = options.tolerance ?? PROOF_AMOUNT_TOLERANCE;
+      const expectedLamports = Math.floor((expectedAmount / conversionRate) * LAMPORTS_PER_SOL);
+      const solAmount = transfer.lamports / LAMPORTS_PER_SOL;
+
+      if (transfer.lamports < expectedLamports * (1 - tolerance)) {
+        return {
+          valid: false,
+          error: `Payment of ${solAmount} SOL does not cover ${expectedAmount} USD at ${conversionRate} USD/SOL`,
+          errorCode: 'INSUFFICIENT_AMOUNT',
+          lamports: transfer.lamports,
+          solAmount,
+          conversionRate
+        };
+      }
+
+      if (options.claim !== false) {
+        const claimed = await this.claimPaymentProof(proof, {
+          walletAddress: options.payerAddress || transfer.payers[0],
+          recipientAddress,
+          resourceUrl: options.resourceUrl,
+          amountUsd: expectedAmount,
+          lamports: transfer.lamports
+        }, options.client);
+
+        if (!claimed) {
+          return {
+            valid: false,
+            error: 'Payment proof has already been used',
+            errorCode: 'PROOF_ALREADY_USED'
+          };
+        }
+      }
+
+      return {
+        valid: true,
+        lamports: transfer.lamports,
+        solAmount,
+        conversionRate,
+        currency: 'SOL',
+        quoteId: quote?.id
+      };
     } catch (error) {
       console.error('Error verifying payment proof:', error);
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: error instanceof PriceUnavailableError ? error.code : 'VERIFICATION_ERROR'
+      };
+    }
+  }
+
+  private static async verifyTokenPaymentProof(
+    proof: string,
+    expectedAmount: number,
+    recipientAddress: string,
+    options: X402ProofOptions
+  ): Promise<X402ProofVerification> {
+    try {
+      const mint = solanaPaymentService.getUsdcMint();
+      const transfer = await solanaPaymentService.verifyTokenTransfer(proof, recipientAddress, mint);
+
+      if (!transfer.valid) {
+        return {
+          valid: false,
+          error: transfer.error || 'Payment proof verification failed',
+          errorCode: transfer.error === 'Transaction not found' ? 'PROOF_NOT_FOUND' : 'NO_TRANSFER_TO_RECIPIENT',
+          currency: 'USDC'
+        };
+      }
+
+      if (options.payerAddress && !transfer.payers.includes(options.payerAddress)) {
+        return {
+          valid: false,
+          error: 'Payment was not sent by the wallet in the payment header',
+          errorCode: 'PAYER_MISMATCH',
+          currency: 'USDC'
+        };
+      }
+
+      const stale = this.checkProofAge(transfer.blockTime, options);
+      if (stale) {
+        return { ...stale, currency: 'USDC' };
+      }
+
+      // Stablecoin amounts are exact; only allow for rounding to the mint's decimals
+      if (transfer.amount + 1e-6 < expectedAmount) {
+        return {
+          valid: false,
+          error: `Payment of ${transfer.amount} USDC does not cover ${expectedAmount} USD`,
+          errorCode: 'INSUFFICIENT_AMOUNT',
+          currency: 'USDC',
+          tokenAmount: transfer.amount
+        };
+      }
+
+      if (options.claim !== false) {
+        const claimed = await this.claimPaymentProof(proof, {
+          walletAddress: options.payerAddress || transfer.payers[0],
+          recipientAddress,
+          resourceUrl: options.resourceUrl,
+          amountUsd: expectedAmount,
+          tokenMint: transfer.mint,
+          tokenAmount: transfer.amount
+        }, options.client);
+
+        if (!claimed) {
+          return {
+            valid: false,
+            error: 'Payment proof has already been used',
+            errorCode: 'PROOF_ALREADY_USED'
+          };
+        }
+      }
+
+      return {
+        valid: true,
+        currency: 'USDC',
+        tokenAmount: transfer.amount,
+        conversionRate: 1
+      };
+    } catch (error) {
+      console.error('Error verifying token payment proof:', error);
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: 'VERIFICATION_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Rejects payments made outside the last `maxAgeMs`, by block time and by
+   * the header's timestamp. The used-proof table only stops a proof from
+   * paying twice; this stops an old transfer from being presented at all.
+   */
+  private static checkProofAge(
+    blockTime: number | null | undefined,
+    options: X402ProofOptions
+  ): X402ProofVerification | null {
+    const now = Date.now();
+    const oldest = now - (options.maxAgeMs ?? PROOF_MAX_AGE);
+    const newest = now + SIGNED_HEADER_MAX_CLOCK_SKEW;
+
+    if (!blockTime) {
+      return { valid: false, error: 'Payment has no block time yet', errorCode: 'PROOF_EXPIRED' };
+    }
+
+    if (blockTime * 1000 < oldest || blockTime * 1000 > newest) {
+      return { valid: false, error: 'Payment is too old to be used as a proof', errorCode: 'PROOF_EXPIRED' };
+    }
+
+    if (options.timestamp !== undefined && (options.timestamp < oldest || options.timestamp > newest)) {
+      return { valid: false, error: 'Payment header timestamp is outside the allowed window', errorCode: 'PROOF_EXPIRED' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Records the signature in `x402_used_payment_proofs`. The primary key on
+   * the signature makes a second claim fail, so one transfer pays once.
+   */
+  private static async claimPaymentProof(
+    signature: string,
+    details: {
+      walletAddress: string;
+      recipientAddress: string;
+      resourceUrl?: string;
+      amountUsd: number;
+      lamports?: number;
+      tokenMint?: string;
+      tokenAmount?: number;
+    },
+    client: SupabaseClient = supabase
+  ): Promise<boolean> {
+    const { error } = await client
+      .from('x402_used_payment_proofs')
+      .insert({
+        signature,
+        wallet_address: details.walletAddress,
+        recipient_address: details.recipientAddress,
+        resource_url: details.resourceUrl,
+        amount_usd: details.amountUsd,
+        lamports: details.lamports ?? null,
+        token_mint: details.tokenMint ?? null,
+        token_amount: details.tokenAmount ?? null
+      });
+
+    if (!error) {
+      return true;
+    }
+
+    if (error.code === '23505') {
       return false;
     }
+
+    throw new Error(`Failed to record payment proof: ${error.message}`);
   }
 
   static async logTransaction(
@@ -421,10 +1174,13 @@ export class X402Protocol {
     status: 'pending' | 'completed' | 'failed' | 'refunded',
     x402Header?: string,
     paymentProof?: string,
-    errorMessage?: string
+    errorMessage?: string,
+    metadata?: Record<string, unknown>,
+    pricing?: { solAmount?: number; conversionRate?: number },
+    client: SupabaseClient = supabase
   ): Promise<string | null> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await client
         .from('x402_transactions')
         .insert({
           wallet_address: walletAddress,
@@ -435,7 +1191,10 @@ export class X402Protocol {
           x402_header: x402Header,
           payment_proof: paymentProof,
           status,
-          error_message: errorMessage
+          error_message: errorMessage,
+          metadata: metadata ?? {},
+          sol_amount: pricing?.solAmount ?? null,
+          conversion_rate: pricing?.conversionRate ?? null
         })
         .select()
         .single();
@@ -452,9 +1211,10 @@ export class X402Protocol {
     }
   }
 
-  static async cleanupExpiredSessions(): Promise<number> {
+  /** Marks expired sessions, with a service-role `client` */
+  static async cleanupExpiredSessions(client: SupabaseClient = supabase): Promise<number> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await client
         .from('x402_payment_sessions')
         .update({ status: 'expired' })
         .lt('expires_at', new Date().toISOString())
@@ -0,0 +1,284 @@
+import { PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { supabase } from '../lib/supabase';
+import type { X402Refund } from '../types';
+import { X402ServiceConfig } from './x402Protocol';
+import { SupabaseNonceStore } from './x402NonceStore';
+import { SolanaWallet } from './walletManager';
+
+/** Used when the service config predates `refund_status_codes` */
+export const DEFAULT_REFUND_STATUS_CODES = [500, 502, 503, 504];
+
+const REFUND_REQUEST_MAX_AGE = 5 * 60 * 1000; // 5 minutes
+const REFUND_REQUEST_MAX_CLOCK_SKEW = 30 * 1000; // 30 seconds
+
+/** Manual refund signed by the service owner's wallet, see `signRefundRequest` */
+export interface X402RefundRequest {
+  transactionId: string;
+  ownerWallet: string;
+  reason: string;
+  /** Omitted to refund whatever has not been refunded yet */
+  amount?: number;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+export interface X402RefundResult {
+  success: boolean;
+  refundId?: string;
+  transactionId?: string;
+  amount?: number;
+  refundedAmount?: number;
+  destination?: 'session' | 'credits';
+  newBalance?: number;
+  replayed?: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+interface X402RefundRpcResult {
+  success: boolean;
+  refund_id?: string;
+  transaction_id?: string;
+  amount?: number | string;
+  refunded_amount?: number | string;
+  destination?: 'session' | 'credits';
+  new_balance?: number | string | null;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+/**
+ * Refunds of x402 charges. Failed calls are refunded automatically when the
+ * service's refund policy (`auto_refund`, `refund_status_codes`) covers the
+ * upstream status; service owners can refund any completed charge, in full or
+ * in part, to settle disputes. The amount goes back to the paying session
+ * while it is still usable, otherwise to the wallet's credits.
+ *
+ * The refund functions are revoked from anon and authenticated: both kinds of
+ * refund run on the service's server with a service-role client, manual ones
+ * only after the owner's signature over the request has been checked.
+ */
+export class X402RefundManager {
+  /**
+   * Whether a call that ended with `statusCode` should be refunded. `null`
+   * means the call never completed (dropped connection), which the payer can
+   * cause at will, so it is not refundable.
+   */
+  static shouldRefund(config: Pick<X402ServiceConfig, 'auto_refund' | 'refund_status_codes'>, statusCode: number | null): boolean {
+    if (config.auto_refund === false || statusCode === null) {
+      return false;
+    }
+
+    return (config.refund_status_codes ?? DEFAULT_REFUND_STATUS_CODES).includes(statusCode);
+  }
+
+  static async refundFailedCall(
+    transactionId: string,
+    statusCode: number,
+    errorMessage?: string,
+    client: SupabaseClient = supabase
+  ): Promise<X402RefundResult> {
+    console.log('[Refunds] Refunding failed call', transactionId, statusCode);
+    return this.callRefundRpc('x402_refund_failed_call', {
+      p_transaction_id: transactionId,
+      p_response_code: statusCode,
+      p_error: errorMessage ?? null
+    }, client);
+  }
+
+  static buildRefundPayload(request: Omit<X402RefundRequest, 'signature'>): Uint8Array {
+    const payload = [
+      'x402-refund:v1',
+      request.transactionId,
+      request.ownerWallet,
+      request.amount === undefined ? 'full' : request.amount.toFixed(6),
+      request.reason,
+      String(request.timestamp),
+      request.nonce
+    ].join('|');
+
+    return new TextEncoder().encode(payload);
+  }
+
+  /**
+   * Signs a manual refund with the service owner's wallet. The signed request
+   * is sent to the service's server, which passes it to `refundTransaction`.
+   */
+  static async signRefundRequest(
+    wallet: SolanaWallet,
+    params: { transactionId: string; reason: string; amount?: number }
+  ): Promise<X402RefundRequest> {
+    if (!wallet.signMessage) {
+      throw new Error('Wallet does not support message signing');
+    }
+
+    const nonce = new Uint8Array(16);
+    crypto.getRandomValues(nonce);
+
+    const request = {
+      ...params,
+      ownerWallet: wallet.publicKey.toBase58(),
+      timestamp: Date.now(),
+      nonce: bs58.encode(nonce)
+    };
+
+    const signature = await wallet.signMessage(this.buildRefundPayload(request));
+    return { ...request, signature: bs58.encode(signature) };
+  }
+
+  /**
+   * Manual refund by the owner of the service the transaction paid for, on
+   * the server with a service-role client. The request must be signed by
+   * `ownerWallet` within the last five minutes, and its nonce is recorded so
+   * a partial refund cannot be replayed.
+   */
+  static async refundTransaction(request: X402RefundRequest, client: SupabaseClient = supabase): Promise<X402RefundResult> {
+    if (!request.reason.trim()) {
+      return { success: false, error: 'A refund reason is required', errorCode: 'REASON_REQUIRED' };
+    }
+
+    const age = Date.now() - request.timestamp;
+    if (age > REFUND_REQUEST_MAX_AGE || age < -REFUND_REQUEST_MAX_CLOCK_SKEW) {
+      return { success: false, error: 'Refund request timestamp is outside the allowed window', errorCode: 'STALE_TIMESTAMP' };
+    }
+
+    let verified = false;
+    try {
+      verified = nacl.sign.detached.verify(
+        this.buildRefundPayload(request),
+        bs58.decode(request.signature),
+        new PublicKey(request.ownerWallet).toBytes()
+      );
+    } catch (error) {
+      console.error('[Refunds] Error verifying refund signature:', error);
+    }
+
+    if (!verified) {
+      return { success: false, error: 'Invalid refund signature', errorCode: 'INVALID_SIGNATURE' };
+    }
+
+    const nonceStore = new SupabaseNonceStore(client);
+    if (!await nonceStore.consume(request.ownerWallet, request.nonce, request.timestamp + REFUND_REQUEST_MAX_AGE)) {
+      return { success: false, error: 'Refund request has already been used', errorCode: 'NONCE_REPLAYED' };
+    }
+
+    console.log('[Refunds] Manual refund of', request.transactionId, 'by', request.ownerWallet);
+    return this.callRefundRpc('x402_refund_by_owner', {
+      p_transaction_id: request.transactionId,
+      p_owner_wallet: request.ownerWallet,
+      p_reason: request.reason,
+      p_amount: request.amount ?? null
+    }, client);
+  }
+
+  static async getRefunds(transactionId: string): Promise<X402Refund[]> {
+    try {
+      const { data, error } = await supabase
+        .from('x402_refunds')
+        .select('*')
+        .eq('transaction_id', transactionId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[Refunds] Error fetching refunds:', error);
+        return [];
+      }
+
+      return data as X402Refund[];
+    } catch (error) {
+      console.error('[Refunds] Error fetching refunds:', error);
+      return [];
+    }
+  }
+
+  static async getWalletRefunds(walletAddress: string, limit: number = 50): Promise<X402Refund[]> {
+    try {
+      const { data, error } = await supabase
+        .from('x402_refunds')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('[Refunds] Error fetching wallet refunds:', error);
+        return [];
+      }
+
+      return data as X402Refund[];
+    } catch (error) {
+      console.error('[Refunds] Error fetching wallet refunds:', error);
+      return [];
+    }
+  }
+
+  static async updateRefundPolicy(
+    serviceId: string,
+    serviceType: 'agent' | 'api' | 'web_service',
+    policy: { autoRefund: boolean; statusCodes?: number[] }
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('x402_service_configs')
+        .update({
+          auto_refund: policy.autoRefund,
+          refund_status_codes: policy.statusCodes ?? DEFAULT_REFUND_STATUS_CODES,
+          updated_at: new Date().toISOString()
+        })
+        .eq('service_id', serviceId)
+        .eq('service_type', serviceType);
+
+      if (error) {
+        console.error('[Refunds] Error updating refund policy:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[Refunds] Error updating refund policy:', error);
+      return false;
+    }
+  }
+
+  private static async callRefundRpc(
+    fn: string,
+    params: Record<string, unknown>,
+    client: SupabaseClient = supabase
+  ): Promise<X402RefundResult> {
+    try {
+      const { data, error } = await client.rpc(fn, params);
+
+      if (error) {
+        console.error('[Refunds] Refund failed:', error);
+        return { success: false, error: error.message, errorCode: 'UPDATE_FAILED' };
+      }
+
+      const result = data as X402RefundRpcResult;
+
+      if (!result.success) {
+        return { success: false, error: result.error, errorCode: result.error_code };
+      }
+
+      return {
+        success: true,
+        refundId: result.refund_id,
+        transactionId: result.transaction_id,
+        amount: result.amount !== undefined ? Number(result.amount) : undefined,
+        refundedAmount: result.refunded_amount !== undefined ? Number(result.refunded_amount) : undefined,
+        destination: result.destination,
+        newBalance: result.new_balance !== undefined && result.new_balance !== null ? Number(result.new_balance) : undefined,
+        replayed: result.replayed
+      };
+    } catch (error) {
+      console.error('[Refunds] Refund failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN_ERROR' };
+    }
+  }
+}
+
+export const x402RefundManager = X402RefundManager;
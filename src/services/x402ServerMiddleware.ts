@@ -0,0 +1,645 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { X402Protocol, X402Header, X402ServiceConfig, X402SignatureOptions } from './x402Protocol';
+import { X402AuthorizationManager } from './x402AuthorizationManager';
+import { X402ChargeBreakdown, X402Metering, X402Usage, X402_USAGE_TOKENS_HEADER } from './x402Metering';
+import { X402PaymentChannelManager } from './x402PaymentChannels';
+import { SupabaseNonceStore } from './x402NonceStore';
+import { X402RefundManager } from './x402Refunds';
+import { buildResourceKey, extractResourcePath } from '../utils/resourcePatterns';
+
+export type X402ServiceType = 'agent' | 'api' | 'web_service';
+export type X402PaymentScheme = 'session' | 'proof' | 'authorization' | 'channel';
+
+export interface X402ServiceReference {
+  serviceId: string;
+  serviceType: X402ServiceType;
+}
+
+export interface X402PaymentRequirements {
+  x402Version: number;
+  error: string;
+  errorCode?: string;
+  resource: string;
+  method: string;
+  serviceId: string;
+  serviceType: X402ServiceType;
+  serviceName: string;
+  /** Base price per unit of the pricing model */
+  price: number;
+  /**
+   * Amount the payment header has to be signed for: the price, or the hold
+   * for metered pricing models. Headers signed for less are rejected.
+   */
+  maxAmountRequired: number;
+  currency: string;
+  recipient: string;
+  pricingModel: X402ServiceConfig['pricing_model'];
+  accepts: X402PaymentScheme[];
+  header: string;
+}
+
+export interface X402PaymentContext {
+  header: X402Header;
+  scheme: X402PaymentScheme;
+  /** Charged amount, or the hold for metered pricing models */
+  amount: number;
+  serviceConfig: X402ServiceConfig;
+  transactionId?: string;
+  remainingBalance?: number;
+  /**
+   * Usage of a metered request. Handlers of `per_token` services set
+   * `usage.tokens` (or the `X-402-Usage-Tokens` response header); size and
+   * duration are measured by the middleware.
+   */
+  usage: X402Usage;
+  /** Set once a metered charge has been settled */
+  billing?: X402ChargeBreakdown;
+}
+
+type X402Settlement =
+  | {
+    success: true;
+    context: X402PaymentContext;
+    /**
+     * Runs once the response is done: settles metered usage and refunds failed
+     * calls. `statusCode` is null when the connection closed before the
+     * response finished; such calls are charged, not refunded.
+     */
+    finalize?: (usage: X402Usage, statusCode: number | null) => Promise<void>;
+  }
+  | { success: false; error: string; errorCode: string };
+
+export interface X402IncomingMessage extends IncomingMessage {
+  x402?: X402PaymentContext;
+}
+
+export type X402NextFunction = (error?: unknown) => void;
+
+export interface X402ServerMiddlewareOptions {
+  /**
+   * Maps an incoming request to the service it is paying for. Return null to
+   * let the request through without payment (e.g. health checks).
+   */
+  resolveService: (req: IncomingMessage) => X402ServiceReference | null | Promise<X402ServiceReference | null>;
+  acceptedSchemes?: X402PaymentScheme[];
+  /**
+   * Require an ed25519-signed header (see `X402Protocol.signX402Header`).
+   * Defaults to true; only disable for trusted internal callers.
+   */
+  requireSignature?: boolean;
+  signatureOptions?: X402SignatureOptions;
+  /**
+   * Client created with the service role key. Charges, holds, refunds and
+   * voucher acceptance are not executable with the anon key; it also backs
+   * the default nonce store.
+   */
+  client: SupabaseClient;
+}
+
+const X402_VERSION = 1;
+const PAYMENT_HEADER = 'x-402-payment';
+
+/**
+ * Server-side counterpart of `X402Middleware`. Answers unpaid requests with
+ * HTTP 402 and the service's payment requirements, and lets a retried request
+ * through once its `X-402-Payment` header has been verified and charged.
+ *
+ * The returned handler has the connect/express `(req, res, next)` signature
+ * and works with a bare `http.createServer` as well.
+ */
+export class X402ServerMiddleware {
+  static create(options: X402ServerMiddlewareOptions) {
+    const acceptedSchemes = options.acceptedSchemes || ['session', 'proof', 'authorization', 'channel'];
+    const requireSignature = options.requireSignature ?? true;
+    const client = options.client;
+    const signatureOptions: X402SignatureOptions | undefined = !options.signatureOptions?.nonceStore
+      ? { ...options.signatureOptions, nonceStore: new SupabaseNonceStore(client) }
+      : options.signatureOptions;
+
+    return async (req: X402IncomingMessage, res: ServerResponse, next: X402NextFunction): Promise<void> => {
+      try {
+        const service = await options.resolveService(req);
+        if (!service) {
+          next();
+          return;
+        }
+
+        const serviceConfig = await X402Protocol.getServiceConfig(service.serviceId, service.serviceType, client);
+        if (!serviceConfig || !serviceConfig.accepts_x402) {
+          this.sendJson(res, 404, {
+            error: 'Service not configured for x402 payments',
+            errorCode: 'SERVICE_NOT_CONFIGURED'
+          });
+          return;
+        }
+
+        const headerValue = req.headers[PAYMENT_HEADER];
+        const rawHeader = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+
+        if (!rawHeader) {
+          this.sendPaymentRequired(res, req, serviceConfig, acceptedSchemes, 'Payment required');
+          return;
+        }
+
+        const header = X402Protocol.parseX402Header(rawHeader);
+        if (!header) {
+          this.sendPaymentRequired(res, req, serviceConfig, acceptedSchemes, 'Malformed X-402-Payment header', 'INVALID_HEADER');
+          return;
+        }
+
+        if (requireSignature) {
+          const verification = await X402Protocol.verifyX402Signature(
+            header,
+            req.url || '/',
+            signatureOptions
+          );
+
+          if (!verification.valid) {
+            this.sendPaymentRequired(res, req, serviceConfig, acceptedSchemes, verification.error!, verification.errorCode);
+            return;
+          }
+
+          // Metered services hold the full upper bound, so the client has to
+          // sign for at least that much
+          if (header.amount < X402Metering.getHoldAmount(serviceConfig)) {
+            this.sendPaymentRequired(res, req, serviceConfig, acceptedSchemes, 'Signed amount does not cover the price', 'AMOUNT_MISMATCH');
+            return;
+          }
+        }
+
+        const payment = await this.settlePayment(req, header, serviceConfig, acceptedSchemes, client);
+        if (!payment.success) {
+          this.sendPaymentRequired(res, req, serviceConfig, acceptedSchemes, payment.error, payment.errorCode);
+          return;
+        }
+
+        req.x402 = payment.context;
+        res.setHeader('X-402-Payment-Response', X402Protocol.formatX402Header({
+          walletAddress: header.walletAddress,
+          amount: payment.context.amount,
+          currency: serviceConfig.currency,
+          timestamp: Date.now()
+        }));
+
+        if (payment.finalize) {
+          this.trackResponse(req, res, payment.context, payment.finalize);
+        }
+
+        next();
+      } catch (error) {
+        console.error('[x402 server] Middleware error:', error);
+        next(error);
+      }
+    };
+  }
+
+  private static async settlePayment(
+    req: IncomingMessage,
+    header: X402Header,
+    serviceConfig: X402ServiceConfig,
+    acceptedSchemes: X402PaymentScheme[],
+    client: SupabaseClient
+  ): Promise<X402Settlement> {
+    const metered = X402Metering.isMetered(serviceConfig.pricing_model);
+    const amount = X402Metering.getHoldAmount(serviceConfig);
+    const resourceUrl = req.url || '/';
+    const httpMethod = (req.method || 'GET').toUpperCase();
+    const resourceType = this.getResourceType(serviceConfig.service_type);
+
+    const idempotencyHeader = req.headers['idempotency-key'];
+    const idempotencyKey = Array.isArray(idempotencyHeader) ? idempotencyHeader[0] : idempotencyHeader;
+
+    if (header.sessionToken && acceptedSchemes.includes('session')) {
+      const debitOptions = {
+        client,
+        walletAddress: header.walletAddress,
+        idempotencyKey,
+        resource: buildResourceKey(serviceConfig.service_type, serviceConfig.service_id, extractResourcePath(resourceUrl))
+      };
+      const result = metered
+        ? await X402Protocol.holdSession(header.sessionToken, amount, resourceUrl, resourceType, httpMethod, {
+          ...debitOptions,
+          billing: { pricing_model: serviceConfig.pricing_model }
+        })
+        : await X402Protocol.deductFromSession(header.sessionToken, amount, resourceUrl, resourceType, httpMethod, debitOptions);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Session payment failed',
+          errorCode: result.errorCode || 'SESSION_PAYMENT_FAILED'
+        };
+      }
+
+      const context: X402PaymentContext = {
+        header,
+        scheme: 'session',
+        amount,
+        serviceConfig,
+        transactionId: result.transactionId,
+        remainingBalance: result.remainingBalance,
+        usage: {}
+      };
+
+      if (!result.transactionId) {
+        return { success: true, context };
+      }
+
+      const transactionId = result.transactionId;
+
+      if (!metered) {
+        return {
+          success: true,
+          context,
+          finalize: async (_usage, statusCode) => {
+            await this.refundFailedCall(serviceConfig, transactionId, statusCode, client);
+          }
+        };
+      }
+
+      return {
+        success: true,
+        context,
+        finalize: async (usage, statusCode) => {
+          context.billing = X402Metering.calculateCharge(serviceConfig, usage);
+          // A refundable failure releases the whole hold instead of settling it
+          const failed = this.isRefundableFailure(serviceConfig, statusCode);
+          const settlement = await X402Protocol.settleHold(transactionId, context.billing.amount, context.billing, failed, client);
+          if (!settlement.success) {
+            console.error('[x402 server] Failed to settle metered hold:', transactionId, settlement.error);
+          }
+        }
+      };
+    }
+
+    if (header.authorizationToken && acceptedSchemes.includes('authorization')) {
+      const authorizationToken = header.authorizationToken;
+      const charge = (chargeAmount: number) => X402AuthorizationManager.chargeAuthorization(
+        authorizationToken,
+        header.walletAddress,
+        chargeAmount,
+        {
+          serviceId: serviceConfig.service_id,
+          serviceType: serviceConfig.service_type,
+          resourceUrl,
+          httpMethod,
+          idempotencyKey,
+          client
+        }
+      );
+
+      if (metered) {
+        // Credits cannot be held, so check the limits against the hold now and
+        // charge the measured amount once the response is done.
+        const authorization = await X402AuthorizationManager.getAuthorization(authorizationToken, client);
+        const check = authorization
+          ? await X402AuthorizationManager.checkLimits(authorization, amount, client)
+          : { allowed: false, error: 'Authorization not found', errorCode: 'AUTHORIZATION_NOT_FOUND' };
+
+        if (!check.allowed) {
+          return {
+            success: false,
+            error: check.error || 'Authorization payment failed',
+            errorCode: check.errorCode || 'AUTHORIZATION_PAYMENT_FAILED'
+          };
+        }
+
+        const context: X402PaymentContext = { header, scheme: 'authorization', amount, serviceConfig, usage: {} };
+        return {
+          success: true,
+          context,
+          finalize: async (usage, statusCode) => {
+            // Metered calls are charged afterwards, so a refundable failure is simply not charged
+            if (this.isRefundableFailure(serviceConfig, statusCode)) return;
+            context.billing = X402Metering.calculateCharge(serviceConfig, usage);
+            if (context.billing.amount <= 0) return;
+            const result = await charge(context.billing.amount);
+            if (!result.success || !result.transactionId) {
+              console.error('[x402 server] Failed to charge metered authorization:', result.error);
+              return;
+            }
+            context.transactionId = result.transactionId;
+            await X402Protocol.recordBilling(result.transactionId, context.billing, client);
+          }
+        };
+      }
+
+      const result = await charge(amount);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Authorization payment failed',
+          errorCode: result.errorCode || 'AUTHORIZATION_PAYMENT_FAILED'
+        };
+      }
+
+      const transactionId = result.transactionId;
+      return {
+        success: true,
+        context: {
+          header,
+          scheme: 'authorization',
+          amount,
+          serviceConfig,
+          transactionId,
+          remainingBalance: result.newBalance,
+          usage: {}
+        },
+        finalize: async (_usage, statusCode) => {
+          if (transactionId) {
+            await this.refundFailedCall(serviceConfig, transactionId, statusCode, client);
+          }
+        }
+      };
+    }
+
+    if (header.channelId && acceptedSchemes.includes('channel')) {
+      const voucher = X402PaymentChannelManager.getHeaderVoucher(header);
+      if (!voucher) {
+        return { success: false, error: 'Channel payments need a signed voucher', errorCode: 'INVALID_VOUCHER' };
+      }
+
+      const channel = await X402PaymentChannelManager.getChannel(voucher.channelId, client);
+      if (!channel) {
+        return { success: false, error: 'Payment channel not found', errorCode: 'CHANNEL_NOT_FOUND' };
+      }
+
+      const check = X402PaymentChannelManager.checkVoucher(channel, voucher, amount);
+      if (!check.valid) {
+        return { success: false, error: check.error || 'Voucher rejected', errorCode: check.errorCode || 'INVALID_VOUCHER' };
+      }
+
+      // The deposit is checked on-chain once, by the first call on the channel
+      if (!channel.deposit_verified_at) {
+        const deposit = await X402PaymentChannelManager.verifyDeposit(channel);
+        if (!deposit.valid) {
+          return { success: false, error: deposit.error || 'Channel deposit not verified', errorCode: deposit.errorCode || 'DEPOSIT_NOT_VERIFIED' };
+        }
+      }
+
+      const result = await X402PaymentChannelManager.acceptVoucher(channel, voucher, {
+        minIncrement: amount,
+        resourceUrl,
+        resourceType,
+        httpMethod,
+        serviceId: serviceConfig.service_id,
+        serviceType: serviceConfig.service_type,
+        depositVerified: true,
+        x402Header: X402Protocol.formatX402Header(header),
+        client
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Channel payment failed',
+          errorCode: result.errorCode || 'CHANNEL_PAYMENT_FAILED'
+        };
+      }
+
+      const context: X402PaymentContext = {
+        header,
+        scheme: 'channel',
+        amount: result.increment ?? amount,
+        serviceConfig,
+        transactionId: result.transactionId,
+        remainingBalance: result.remainingAmount,
+        usage: {}
+      };
+
+      const transactionId = result.transactionId;
+      if (!metered || !transactionId) {
+        return { success: true, context };
+      }
+
+      // Vouchers cannot be taken back, so metered calls are prepaid like
+      // proofs and only the measured breakdown is recorded
+      return {
+        success: true,
+        context,
+        finalize: async usage => {
+          context.billing = X402Metering.calculateCharge(serviceConfig, usage);
+          await X402Protocol.recordBilling(transactionId, { ...context.billing, prepaid_amount: context.amount }, client);
+        }
+      };
+    }
+
+    if (header.paymentProof && acceptedSchemes.includes('proof')) {
+      const verification = await X402Protocol.verifyPaymentProof(
+        header.paymentProof,
+        amount,
+        serviceConfig.owner_wallet,
+        { payerAddress: header.walletAddress, resourceUrl, currency: serviceConfig.currency, client, timestamp: header.timestamp }
+      );
+
+      if (!verification.valid) {
+        return {
+          success: false,
+          error: verification.error || 'Payment proof verification failed',
+          errorCode: verification.errorCode || 'INVALID_PAYMENT_PROOF'
+        };
+      }
+
+      const transactionId = await X402Protocol.logTransaction(
+        header.walletAddress,
+        resourceUrl,
+        resourceType,
+        httpMethod,
+        amount,
+        'completed',
+        X402Protocol.formatX402Header(header),
+        header.paymentProof,
+        undefined,
+        {
+          resource: buildResourceKey(serviceConfig.service_type, serviceConfig.service_id, extractResourcePath(resourceUrl)),
+          ...(verification.quoteId ? { quote_id: verification.quoteId } : {})
+        },
+        { solAmount: verification.solAmount, conversionRate: verification.conversionRate },
+        client
+      );
+
+      const context: X402PaymentContext = {
+        header,
+        scheme: 'proof',
+        amount,
+        serviceConfig,
+        transactionId: transactionId || undefined,
+        usage: {}
+      };
+
+      if (!transactionId) {
+        return { success: true, context };
+      }
+
+      // Proofs are paid up front and must cover the hold; the measured
+      // breakdown is recorded for the refund of the difference.
+      return {
+        success: true,
+        context,
+        finalize: async (usage, statusCode) => {
+          if (await this.refundFailedCall(serviceConfig, transactionId, statusCode, client) || !metered) return;
+          context.billing = X402Metering.calculateCharge(serviceConfig, usage);
+          await X402Protocol.recordBilling(transactionId, { ...context.billing, prepaid_amount: amount }, client);
+        }
+      };
+    }
+
+    return {
+      success: false,
+      error: `Payment header must carry one of: ${acceptedSchemes.join(', ')}`,
+      errorCode: 'UNSUPPORTED_SCHEME'
+    };
+  }
+
+  private static isRefundableFailure(serviceConfig: X402ServiceConfig, statusCode: number | null): boolean {
+    return statusCode !== null && statusCode >= 400 && X402RefundManager.shouldRefund(serviceConfig, statusCode);
+  }
+
+  /**
+   * Refunds the charge when the handler failed in a way the service's refund
+   * policy covers. Resolves to whether a refund was made.
+   */
+  private static async refundFailedCall(
+    serviceConfig: X402ServiceConfig,
+    transactionId: string,
+    statusCode: number | null,
+    client?: SupabaseClient
+  ): Promise<boolean> {
+    if (statusCode === null || !this.isRefundableFailure(serviceConfig, statusCode)) {
+      return false;
+    }
+
+    const refund = await X402RefundManager.refundFailedCall(transactionId, statusCode, undefined, client);
+
+    if (!refund.success) {
+      console.error('[x402 server] Failed to refund failed call:', transactionId, refund.error);
+    }
+
+    return refund.success;
+  }
+
+  /**
+   * Counts response bytes and wall-clock time and calls `finalize` once, when
+   * the response finished or the connection closed.
+   */
+  private static trackResponse(
+    req: IncomingMessage,
+    res: ServerResponse,
+    context: X402PaymentContext,
+    finalize: (usage: X402Usage, statusCode: number | null) => Promise<void>
+  ): void {
+    const startedAt = Date.now();
+    const requestBytes = parseInt(String(req.headers['content-length'] || '0'), 10) || 0;
+    let responseBytes = 0;
+    let finalized = false;
+
+    const countChunk = (chunk: unknown) => {
+      if (typeof chunk === 'string') {
+        responseBytes += X402Metering.measureBytes(chunk);
+      } else if (chunk instanceof Uint8Array) {
+        responseBytes += chunk.byteLength;
+      }
+    };
+
+    const write = res.write;
+    const end = res.end;
+
+    res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+      countChunk(chunk);
+      return (write as (...params: unknown[]) => boolean).call(this, chunk, ...args);
+    } as ServerResponse['write'];
+
+    res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+      if (typeof chunk !== 'function') {
+        countChunk(chunk);
+      }
+      return (end as (...params: unknown[]) => ServerResponse).call(this, chunk, ...args);
+    } as ServerResponse['end'];
+
+    const done = (completed: boolean) => {
+      if (finalized) return;
+      finalized = true;
+
+      const reportedTokens = X402Metering.extractReportedTokens(
+        String(res.getHeader(X402_USAGE_TOKENS_HEADER) ?? '')
+      );
+
+      finalize(
+        {
+          durationMs: Date.now() - startedAt,
+          requestBytes,
+          responseBytes,
+          tokens: context.usage.tokens ?? reportedTokens
+        },
+        completed ? res.statusCode : null
+      ).catch(error => console.error('[x402 server] Settlement failed:', error));
+    };
+
+    res.on('finish', () => done(true));
+    res.on('close', () => done(res.writableFinished));
+  }
+
+  static buildPaymentRequirements(
+    req: IncomingMessage,
+    serviceConfig: X402ServiceConfig,
+    acceptedSchemes: X402PaymentScheme[],
+    error: string,
+    errorCode?: string
+  ): X402PaymentRequirements {
+    return {
+      x402Version: X402_VERSION,
+      error,
+      errorCode,
+      resource: req.url || '/',
+      method: (req.method || 'GET').toUpperCase(),
+      serviceId: serviceConfig.service_id,
+      serviceType: serviceConfig.service_type,
+      serviceName: serviceConfig.service_name,
+      price: Number(serviceConfig.base_price),
+      maxAmountRequired: X402Metering.getHoldAmount(serviceConfig),
+      currency: serviceConfig.currency,
+      recipient: serviceConfig.owner_wallet,
+      pricingModel: serviceConfig.pricing_model,
+      accepts: acceptedSchemes,
+      header: 'X-402-Payment'
+    };
+  }
+
+  private static sendPaymentRequired(
+    res: ServerResponse,
+    req: IncomingMessage,
+    serviceConfig: X402ServiceConfig,
+    acceptedSchemes: X402PaymentScheme[],
+    error: string,
+    errorCode?: string
+  ): void {
+    this.sendJson(
+      res,
+      402,
+      this.buildPaymentRequirements(req, serviceConfig, acceptedSchemes, error, errorCode)
+    );
+  }
+
+  private static sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.statusCode = statusCode;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+
+  private static getResourceType(serviceType: X402ServiceType): 'agent_execution' | 'api_call' | 'data_access' {
+    switch (serviceType) {
+      case 'agent':
+        return 'agent_execution';
+      case 'api':
+        return 'api_call';
+      case 'web_service':
+        return 'data_access';
+      default:
+        return 'api_call';
+    }
+  }
+}
+
+export const x402ServerMiddleware = X402ServerMiddleware;
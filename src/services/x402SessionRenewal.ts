@@ -0,0 +1,374 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { solanaPaymentService } from './solanaPayment';
+import { SolanaWallet } from './walletManager';
+import { X402FundingManager } from './x402Funding';
+import { X402Session } from './x402Protocol';
+
+export type X402RenewalTrigger = 'depletion' | 'expiry' | 'manual';
+
+export interface X402RenewalResult {
+  success: boolean;
+  sessionId: string;
+  trigger: X402RenewalTrigger;
+  renewalId?: string;
+  transactionId?: string;
+  paymentSignature?: string;
+  remainingBalance?: number;
+  expiresAt?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+export type X402RenewalEvent =
+  | { type: 'renewal_due'; session: X402Session; trigger: X402RenewalTrigger }
+  | { type: 'renewal_succeeded'; session: X402Session; trigger: X402RenewalTrigger; result: X402RenewalResult }
+  | { type: 'renewal_failed'; session: X402Session; trigger: X402RenewalTrigger; result: X402RenewalResult };
+
+export type X402RenewalListener = (event: X402RenewalEvent) => void;
+
+export interface X402SessionRenewalOptions {
+  client?: SupabaseClient;
+  /** Only renew sessions of this wallet; leave unset for a server-side sweep */
+  walletAddress?: string;
+  /**
+   * Supplies the wallet that pays for `wallet`-sourced renewals. The payment
+   * is applied by the funding worker once it has verified it on-chain.
+   */
+  getWallet?: (walletAddress: string) => SolanaWallet | null | Promise<SolanaWallet | null>;
+  /**
+   * Applies `credits`-sourced renewals through `x402_renew_session`, which
+   * only the service role can call. Set on the server-side sweep; browser
+   * engines leave these sessions to it.
+   */
+  renewCredits?: boolean;
+  /**
+   * Asked before the wallet is prompted; resolve false to skip this renewal.
+   * Credit renewals were approved when the session was created and skip it.
+   */
+  confirmRenewal?: (session: X402Session, trigger: X402RenewalTrigger) => boolean | Promise<boolean>;
+  pollIntervalMs?: number;
+  batchSize?: number;
+}
+
+interface X402RenewRpcResult {
+  success: boolean;
+  renewal_id?: string;
+  transaction_id?: string | null;
+  remaining_amount?: number | string;
+  expires_at?: string;
+  replayed?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+const DEFAULT_POLL_INTERVAL = 60 * 1000; // 1 minute
+const DEFAULT_BATCH_SIZE = 20;
+
+/**
+ * Keeps `auto_renew` sessions alive. Each poll asks `x402_sessions_due_for_renewal`
+ * for sessions under their renewal threshold or close to expiry, pays for the
+ * renewal (wallet prompt or pre-approved credits) and applies it through
+ * `x402_renew_session`, which re-checks the session's caps under a row lock
+ * and records the renewal in `x402_session_renewals`. Wallet renewals reach
+ * it through a funding request, after the funding worker has verified the
+ * payment; credit renewals are applied by a server-side engine directly.
+ *
+ * Renewals run one at a time so the user never sees two wallet prompts at once.
+ * Every failed or declined attempt is recorded, and the due query backs the
+ * session off after each one and stops offering it after five in a row, so a
+ * broken renewal does not prompt the user on every poll.
+ */
+export class X402SessionRenewalEngine {
+  private client: SupabaseClient;
+  private walletAddress?: string;
+  private getWallet?: X402SessionRenewalOptions['getWallet'];
+  private renewCredits: boolean;
+  private confirmRenewal?: X402SessionRenewalOptions['confirmRenewal'];
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: boolean = false;
+  private inFlight: Set<string> = new Set();
+  private listeners: Set<X402RenewalListener> = new Set();
+
+  constructor(options: X402SessionRenewalOptions = {}) {
+    this.client = options.client || supabase;
+    this.walletAddress = options.walletAddress;
+    this.getWallet = options.getWallet;
+    this.renewCredits = options.renewCredits ?? false;
+    this.confirmRenewal = options.confirmRenewal;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  subscribe(listener: X402RenewalListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    console.log('[SessionRenewal] Starting renewal engine');
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+
+    console.log('[SessionRenewal] Stopping renewal engine');
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('[SessionRenewal] Poll failed:', error);
+      }
+
+      if (this.running) {
+        this.scheduleNextPoll(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  async runOnce(): Promise<X402RenewalResult[]> {
+    const sessions = await this.getDueSessions();
+    const results: X402RenewalResult[] = [];
+
+    for (const session of sessions) {
+      if (this.inFlight.has(session.id) || (session.renewal_source === 'credits' && !this.renewCredits)) {
+        continue;
+      }
+      results.push(await this.renewSession(session, this.getTrigger(session)));
+    }
+
+    return results;
+  }
+
+  async getDueSessions(): Promise<X402Session[]> {
+    const { data, error } = await this.client.rpc('x402_sessions_due_for_renewal', {
+      p_wallet_address: this.walletAddress ?? null,
+      p_limit: this.batchSize
+    });
+
+    if (error) {
+      console.error('[SessionRenewal] Error fetching due sessions:', error);
+      return [];
+    }
+
+    return (data || []) as X402Session[];
+  }
+
+  getTrigger(session: X402Session): X402RenewalTrigger {
+    return Number(session.remaining_amount) <= Number(session.renewal_threshold || 0)
+      ? 'depletion'
+      : 'expiry';
+  }
+
+  async renewSession(session: X402Session, trigger: X402RenewalTrigger = 'manual'): Promise<X402RenewalResult> {
+    const amount = Number(session.renewal_amount);
+    this.inFlight.add(session.id);
+    this.emit({ type: 'renewal_due', session, trigger });
+
+    try {
+      if (!(amount > 0)) {
+        return this.fail(session, trigger, 'Session has no renewal amount', 'INVALID_AMOUNT');
+      }
+
+      if (session.renewal_source === 'credits') {
+        if (!this.renewCredits) {
+          return this.fail(session, trigger, 'Credit renewals are applied by the server', 'SERVER_RENEWAL');
+        }
+
+        // One key per renewal round, so a retried poll cannot debit credits twice
+        return this.applyRenewal(session, trigger, amount, {
+          idempotencyKey: `${session.id}:${session.renewal_count}`
+        });
+      }
+
+      if (this.confirmRenewal && !(await this.confirmRenewal(session, trigger))) {
+        return this.fail(session, trigger, 'Renewal declined', 'RENEWAL_DECLINED');
+      }
+
+      const wallet = this.getWallet ? await this.getWallet(session.wallet_address) : null;
+      if (!wallet) {
+        return this.fail(session, trigger, 'No wallet available to pay for the renewal', 'WALLET_UNAVAILABLE');
+      }
+
+      console.log('[SessionRenewal] Requesting renewal payment of', amount, 'USD for session', session.id);
+      const payment = await solanaPaymentService.createPaymentTransaction(
+        wallet,
+        amount,
+        'x402_session',
+        session.payment_currency ?? 'SOL'
+      );
+
+      if (!payment.success || !payment.signature) {
+        return this.fail(session, trigger, payment.error || 'Renewal payment failed', 'PAYMENT_FAILED');
+      }
+
+      return this.requestRenewalFunding(session, trigger, amount, wallet, payment.signature);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[SessionRenewal] Error renewing session:', session.id, message);
+      return this.fail(session, trigger, message, 'UNKNOWN_ERROR');
+    } finally {
+      this.inFlight.delete(session.id);
+    }
+  }
+
+  private async applyRenewal(
+    session: X402Session,
+    trigger: X402RenewalTrigger,
+    amount: number,
+    payment: { paymentSignature?: string; idempotencyKey: string }
+  ): Promise<X402RenewalResult> {
+    const { data, error } = await this.client.rpc('x402_renew_session', {
+      p_session_id: session.id,
+      p_amount: amount,
+      p_trigger: trigger,
+      p_payment_signature: payment.paymentSignature ?? null,
+      p_idempotency_key: payment.idempotencyKey
+    });
+
+    if (error) {
+      return this.fail(session, trigger, error.message, 'UPDATE_FAILED', payment.paymentSignature);
+    }
+
+    return this.completeRenewal(session, trigger, data as X402RenewRpcResult, payment.paymentSignature);
+  }
+
+  /** Asks the funding worker to apply a wallet renewal once its payment is verified */
+  private async requestRenewalFunding(
+    session: X402Session,
+    trigger: X402RenewalTrigger,
+    amount: number,
+    wallet: SolanaWallet,
+    paymentSignature: string
+  ): Promise<X402RenewalResult> {
+    const funding = await X402FundingManager.requestFunding(wallet, {
+      kind: 'renewal',
+      session_id: session.id,
+      amount,
+      currency: session.payment_currency ?? 'SOL',
+      payment_signature: paymentSignature,
+      params: { trigger, idempotency_key: `${session.id}:${paymentSignature}` }
+    }, this.client);
+
+    if (!funding.result) {
+      return this.fail(session, trigger, funding.error || 'Renewal rejected', funding.errorCode || 'RENEWAL_FAILED', paymentSignature);
+    }
+
+    return this.completeRenewal(session, trigger, funding.result as unknown as X402RenewRpcResult, paymentSignature);
+  }
+
+  private async completeRenewal(
+    session: X402Session,
+    trigger: X402RenewalTrigger,
+    rpcResult: X402RenewRpcResult,
+    paymentSignature?: string
+  ): Promise<X402RenewalResult> {
+    if (!rpcResult.success) {
+      return this.fail(
+        session,
+        trigger,
+        rpcResult.error || 'Renewal rejected',
+        rpcResult.error_code || 'RENEWAL_FAILED',
+        paymentSignature
+      );
+    }
+
+    const result: X402RenewalResult = {
+      success: true,
+      sessionId: session.id,
+      trigger,
+      renewalId: rpcResult.renewal_id,
+      transactionId: rpcResult.transaction_id || undefined,
+      paymentSignature,
+      remainingBalance: Number(rpcResult.remaining_amount),
+      expiresAt: rpcResult.expires_at
+    };
+
+    console.log('[SessionRenewal] Session renewed:', session.id, result.remainingBalance);
+    this.emit({ type: 'renewal_succeeded', session, trigger, result });
+    return result;
+  }
+
+  private async fail(
+    session: X402Session,
+    trigger: X402RenewalTrigger,
+    error: string,
+    errorCode: string,
+    paymentSignature?: string
+  ): Promise<X402RenewalResult> {
+    console.warn('[SessionRenewal] Renewal failed:', session.id, errorCode, error);
+
+    // A wallet payment that could not be applied is kept on record with its
+    // signature so it can be reconciled or refunded.
+    const { error: insertError } = await this.client
+      .from('x402_session_renewals')
+      .insert({
+        session_id: session.id,
+        wallet_address: session.wallet_address,
+        amount: Number(session.renewal_amount) || 0,
+        source: session.renewal_source || 'wallet',
+        trigger,
+        status: 'failed',
+        payment_signature: paymentSignature ?? null,
+        error_code: errorCode,
+        error_message: error
+      });
+
+    if (insertError) {
+      console.error('[SessionRenewal] Error recording failed renewal:', insertError);
+    }
+
+    const result: X402RenewalResult = {
+      success: false,
+      sessionId: session.id,
+      trigger,
+      paymentSignature,
+      error,
+      errorCode
+    };
+
+    this.emit({ type: 'renewal_failed', session, trigger, result });
+    return result;
+  }
+
+  private emit(event: X402RenewalEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[SessionRenewal] Listener error:', error);
+      }
+    });
+  }
+}
+
+export const createX402SessionRenewalEngine = (options?: X402SessionRenewalOptions): X402SessionRenewalEngine => {
+  return new X402SessionRenewalEngine(options);
+};
+
+export default X402SessionRenewalEngine;
@@ -11,6 +11,7 @@ export interface Agent {
   revenue: number;
   creator_id: string;
   creator?: string;
+  wallet_address?: string;
   is_active: boolean;
   deployed?: boolean;
   created_at: string;
@@ -115,10 +116,21 @@ export interface X402Session {
   spent_amount: number;
   remaining_amount: number;
   resource_pattern: string;
+  resource_patterns: string[];
   status: 'active' | 'expired' | 'revoked' | 'depleted';
   expires_at: string;
   auto_renew: boolean;
   renewal_amount: number;
+  renewal_source: 'wallet' | 'credits';
+  renewal_threshold: number;
+  renewal_window_minutes: number;
+  renewal_duration_hours: number;
+  max_renewals: number | null;
+  max_renewal_total: number | null;
+  renewal_count: number;
+  total_renewed: number;
+  last_renewed_at: string | null;
+  payment_currency: 'SOL' | 'USDC';
   last_used_at: string | null;
   created_at: string;
 }
@@ -176,6 +188,8 @@ export interface X402ServiceConfig {
   allowed_origins: string[];
   webhook_url: string | null;
   is_active: boolean;
+  auto_refund: boolean;
+  refund_status_codes: number[];
   created_at: string;
   updated_at: string;
 }
@@ -196,3 +210,297 @@ export interface X402Authorization {
   created_at: string;
   updated_at: string;
 }
+
+export interface X402Refund {
+  id: string;
+  transaction_id: string;
+  wallet_address: string;
+  amount: number;
+  reason: string;
+  refund_type: 'automatic' | 'manual';
+  destination: 'session' | 'credits';
+  session_id: string | null;
+  credit_id: string | null;
+  refunded_by: string | null;
+  created_at: string;
+}
+
+export interface X402PaymentChannel {
+  id: string;
+  payer_wallet: string;
+  recipient_wallet: string;
+  channel_wallet: string;
+  service_id: string;
+  service_type: 'agent' | 'api' | 'web_service';
+  currency: 'SOL' | 'USDC';
+  deposit_amount: number;
+  deposit_base_units: string;
+  deposit_signature: string;
+  deposit_verified_at: string | null;
+  platform_fee_percent: number;
+  voucher_amount: number;
+  voucher_nonce: number;
+  settled_amount: number;
+  settled_base_units: string;
+  settlement_threshold: number;
+  settlement_interval_seconds: number;
+  last_settled_at: string | null;
+  status: 'open' | 'closing' | 'closed';
+  dispute_window_seconds: number;
+  close_requested_by: 'payer' | 'recipient' | 'expiry' | null;
+  close_requested_at: string | null;
+  dispute_ends_at: string | null;
+  expires_at: string;
+  settlement_error: string | null;
+  worker_id: string | null;
+  claimed_at: string | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface X402ChannelVoucher {
+  id: string;
+  channel_id: string;
+  amount: number;
+  nonce: number;
+  signature: string;
+  transaction_id: string | null;
+  created_at: string;
+}
+
+export interface X402ChannelSettlement {
+  id: string;
+  channel_id: string;
+  kind: 'periodic' | 'final';
+  signature: string;
+  last_valid_block_height: number | null;
+  voucher_nonce: number;
+  voucher_amount: number;
+  amount: number;
+  payout_base_units: string;
+  refund_base_units: string;
+  status: 'pending' | 'confirmed' | 'failed';
+  error: string | null;
+  created_at: string;
+  confirmed_at: string | null;
+}
+
+export interface X402ChannelCloseRequest {
+  id: string;
+  channel_id: string;
+  wallet_address: string;
+  signature: string;
+  status: 'pending' | 'processed' | 'rejected';
+  result: Record<string, unknown> | null;
+  error: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
+export interface PaymentSplit {
+  id: string;
+  transaction_signature: string;
+  payer_wallet: string;
+  payment_type: string;
+  service_type: 'agent' | 'api' | null;
+  service_id: string | null;
+  recipient_address: string;
+  role: 'creator' | 'platform';
+  share_percent: number;
+  currency: 'SOL' | 'USDC';
+  amount: number;
+  amount_base_units: string;
+  amount_usd: number | null;
+  status: 'pending' | 'verified' | 'failed';
+  verified_at: string | null;
+  created_at: string;
+}
+
+export interface SolanaPayRequest {
+  id: string;
+  reference: string;
+  recipient: string;
+  amount: number;
+  amount_base_units: string;
+  currency: 'SOL' | 'USDC';
+  spl_token: string | null;
+  amount_usd: number;
+  purpose: 'agent_execution' | 'x402_session' | 'credit_top_up' | 'api_payment';
+  params: Record<string, unknown>;
+  label: string | null;
+  message: string | null;
+  status: 'pending' | 'confirmed' | 'expired';
+  transaction_signature: string | null;
+  payer_wallet: string | null;
+  target_id: string | null;
+  expires_at: string;
+  confirmed_at: string | null;
+  created_at: string;
+}
+
+export interface ExecutionEscrow {
+  id: string;
+  execution_id: string;
+  agent_id: string | null;
+  payer_wallet: string;
+  creator_wallet: string | null;
+  /** Set once the settlement worker verified the deposit reached its wallet */
+  escrow_wallet: string | null;
+  currency: 'SOL' | 'USDC';
+  amount: number | null;
+  amount_base_units: string | null;
+  amount_usd: number;
+  platform_fee_percent: number;
+  status: 'awaiting_funding' | 'funded' | 'releasing' | 'refunding' | 'released' | 'refunded' | 'cancelled';
+  funding_signature: string | null;
+  settlement_signature: string | null;
+  settlement_last_valid_block_height: number | null;
+  settlement_error: string | null;
+  worker_id: string | null;
+  claimed_at: string | null;
+  attempts: number;
+  funding_verified_at: string | null;
+  funding_expires_at: string;
+  timeout_at: string | null;
+  created_at: string;
+  funded_at: string | null;
+  settled_at: string | null;
+}
+
+export interface CreatorEarning {
+  id: string;
+  creator_wallet: string;
+  service_type: 'agent' | 'api' | 'web_service' | null;
+  service_id: string | null;
+  entry_type: 'earning' | 'platform_fee' | 'refund';
+  amount: number;
+  settlement: 'custodial' | 'direct';
+  source: 'x402_transaction' | 'x402_refund' | 'payment_split';
+  source_id: string;
+  transaction_signature: string | null;
+  available_at: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
+export interface CreatorWithdrawal {
+  id: string;
+  creator_wallet: string;
+  amount: number;
+  currency: 'SOL' | 'USDC';
+  status: 'requested' | 'processing' | 'completed' | 'cancelled';
+  batch_id: string | null;
+  amount_base_units: string | null;
+  signature: string | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface CreatorPayoutBatch {
+  id: string;
+  currency: 'SOL' | 'USDC';
+  status: 'pending' | 'confirmed' | 'failed';
+  total_amount: number;
+  signature: string | null;
+  last_valid_block_height: number | null;
+  error: string | null;
+  worker_id: string | null;
+  claimed_at: string | null;
+  attempts: number;
+  created_at: string;
+  confirmed_at: string | null;
+}
+
+export interface LedgerAccount {
+  id: string;
+  owner_type: 'platform_cash' | 'platform_fees' | 'opening_balances' | 'session' | 'credits' | 'creator';
+  owner_id: string;
+  account_type: 'asset' | 'liability' | 'revenue' | 'equity';
+  currency: string;
+  created_at: string;
+}
+
+export interface LedgerJournalEntry {
+  id: string;
+  entry_type:
+    | 'opening_balance'
+    | 'top_up'
+    | 'charge'
+    | 'release'
+    | 'refund'
+    | 'transfer'
+    | 'direct_payment'
+    | 'payout'
+    | 'reversal';
+  description: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+}
+
+export interface LedgerPosting {
+  id: string;
+  journal_entry_id: string;
+  account_id: string;
+  amount: number;
+  service_type: 'agent' | 'api' | 'web_service' | null;
+  service_id: string | null;
+  created_at: string;
+}
+
+export interface LedgerAccountBalance {
+  account_id: string;
+  owner_type: LedgerAccount['owner_type'];
+  owner_id: string;
+  account_type: LedgerAccount['account_type'];
+  currency: string;
+  balance: number;
+  posting_count: number;
+  last_posted_at: string | null;
+}
+
+export interface X402FundingRequest {
+  id: string;
+  kind: 'session' | 'renewal' | 'credits' | 'channel';
+  source: 'payment' | 'credits';
+  wallet_address: string;
+  session_id: string | null;
+  service_id: string | null;
+  service_type: 'agent' | 'api' | 'web_service' | null;
+  amount: number;
+  currency: 'SOL' | 'USDC';
+  payment_signature: string | null;
+  params: Record<string, string | number>;
+  wallet_signature: string;
+  status: 'pending' | 'funded' | 'rejected';
+  result: Record<string, unknown> | null;
+  error: string | null;
+  worker_id: string | null;
+  claimed_at: string | null;
+  attempts: number;
+  created_at: string;
+  processed_at: string | null;
+}
+
+export interface X402AccountRequest {
+  id: string;
+  kind:
+    | 'session_revoke'
+    | 'credit_auto_topup'
+    | 'authorization_create'
+    | 'authorization_limits'
+    | 'authorization_pause'
+    | 'authorization_resume'
+    | 'authorization_revoke';
+  wallet_address: string;
+  target_id: string | null;
+  params: Record<string, string | number | boolean>;
+  signature: string;
+  status: 'pending' | 'processed' | 'rejected';
+  result: Record<string, unknown> | null;
+  error: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
@@ -0,0 +1,77 @@
+import { PublicKey } from '@solana/web3.js';
+
+export type PaymentSplitRole = 'creator' | 'platform';
+
+export interface PaymentSplitShare {
+  recipient: string;
+  role: PaymentSplitRole;
+  /** Share of the payment, 0-100 with up to two decimals */
+  percent: number;
+}
+
+export interface PaymentSplitLeg extends PaymentSplitShare {
+  /** Base units (lamports or token base units) this recipient receives */
+  amount: bigint;
+}
+
+const parseFeePercent = (value: string | undefined) => {
+  const percent = Number(value);
+  return Number.isFinite(percent) && percent >= 0 && percent <= 100 ? percent : 10;
+};
+
+/** Platform cut of creator payments, VITE_PLATFORM_FEE_PERCENT overrides it */
+export const DEFAULT_PLATFORM_FEE_PERCENT = parseFeePercent(import.meta.env.VITE_PLATFORM_FEE_PERCENT);
+
+export function isValidRecipient(address: string | null | undefined): address is string {
+  if (!address) return false;
+
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creator gets everything but the platform fee. A 0% fee or 100% fee leaves
+ * a single leg instead of a zero-amount transfer.
+ */
+export function buildRevenueSplit(
+  creatorWallet: string,
+  feeWallet: string,
+  platformFeePercent: number = DEFAULT_PLATFORM_FEE_PERCENT
+): PaymentSplitShare[] {
+  if (platformFeePercent < 0 || platformFeePercent > 100) {
+    throw new Error(`Invalid platform fee: ${platformFeePercent}%`);
+  }
+
+  const shares: PaymentSplitShare[] = [
+    { recipient: creatorWallet, role: 'creator', percent: 100 - platformFeePercent },
+    { recipient: feeWallet, role: 'platform', percent: platformFeePercent }
+  ];
+
+  return shares.filter(share => share.percent > 0);
+}
+
+/**
+ * Divides `total` base units by basis points. Every leg is rounded down and
+ * the leftover base units go to the platform leg (or the last one), so the
+ * legs always add up to exactly `total`.
+ */
+export function allocateSplit(total: bigint, shares: PaymentSplitShare[]): PaymentSplitLeg[] {
+  const basisPoints = shares.map(share => BigInt(Math.round(share.percent * 100)));
+  const totalBasisPoints = basisPoints.reduce((sum, bps) => sum + bps, 0n);
+
+  if (totalBasisPoints !== 10000n) {
+    throw new Error(`Split shares add up to ${Number(totalBasisPoints) / 100}%, expected 100%`);
+  }
+
+  const legs = shares.map((share, i) => ({ ...share, amount: (total * basisPoints[i]) / 10000n }));
+  const remainder = total - legs.reduce((sum, leg) => sum + leg.amount, 0n);
+
+  const platformIndex = legs.findIndex(leg => leg.role === 'platform');
+  legs[platformIndex >= 0 ? platformIndex : legs.length - 1].amount += remainder;
+
+  return legs;
+}
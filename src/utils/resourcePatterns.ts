@@ -0,0 +1,79 @@
+/**
+ * Glob matching for x402 session scopes. Resources are slash-separated keys
+ * such as `agent/<id>/api/agents/execute`.
+ *
+ * - `*` matches within a single segment
+ * - `**` matches across segments
+ * - a trailing `/**` also matches the prefix itself (`agent/<id>/**` covers `agent/<id>`)
+ * - `?` matches one character within a segment
+ *
+ * Keep in sync with `x402_glob_to_regex` in the resource scoping migration,
+ * which enforces the same rules inside `x402_debit_session`.
+ */
+
+const patternCache: Map<string, RegExp> = new Map();
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    if (pattern.startsWith('/**', i) && i + 3 === pattern.length) {
+      source += '(/.*)?';
+      i += 3;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 2;
+    } else if (pattern[i] === '*') {
+      source += '[^/]*';
+      i += 1;
+    } else if (pattern[i] === '?') {
+      source += '[^/]';
+      i += 1;
+    } else {
+      source += pattern[i].replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+      i += 1;
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+export function matchesResourcePattern(pattern: string, resource: string): boolean {
+  return globToRegExp(pattern.trim()).test(resource);
+}
+
+export function matchesAnyResourcePattern(patterns: string[], resource: string): boolean {
+  return patterns.some(pattern => matchesResourcePattern(pattern, resource));
+}
+
+/**
+ * Path part of an absolute or relative URL, without query string or hash.
+ */
+export function extractResourcePath(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+export function buildResourceKey(
+  serviceType: 'agent' | 'api' | 'web_service',
+  serviceId: string,
+  path?: string
+): string {
+  const trimmedPath = (path || '').replace(/^\/+|\/+$/g, '');
+  return trimmedPath ? `${serviceType}/${serviceId}/${trimmedPath}` : `${serviceType}/${serviceId}`;
+}
+
+export function buildServicePattern(serviceType: 'agent' | 'api' | 'web_service', serviceId: string): string {
+  return `${serviceType}/${serviceId}/**`;
+}
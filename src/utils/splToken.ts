@@ -0,0 +1,77 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { getActiveCluster, getNetworkConfig, SolanaCluster } from '../lib/network';
+
+export type PaymentCurrency = 'SOL' | 'USDC';
+
+export const USDC_DECIMALS = 6;
+
+/** Circle's USDC mint on public clusters; testnet has none, localnet uses VITE_LOCALNET_USDC_MINT */
+export function getUsdcMint(network: SolanaCluster = getActiveCluster()): PublicKey {
+  const { usdcMint, label } = getNetworkConfig(network);
+
+  if (!usdcMint) {
+    throw new Error(`USDC is not available on ${label}`);
+  }
+
+  return new PublicKey(usdcMint);
+}
+
+/**
+ * Converts a UI amount (e.g. 1.5 USDC) to base units without going through
+ * floating point multiplication, which would turn 0.29 into 289999.
+ */
+export function toTokenBaseUnits(amount: number, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+export function fromTokenBaseUnits(amount: bigint | string, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+export interface TokenTransferPlan {
+  instructions: TransactionInstruction[];
+  sourceAccount: PublicKey;
+  destinationAccount: PublicKey;
+  /** True when the recipient's associated token account has to be created (payer funds the rent) */
+  createsDestination: boolean;
+}
+
+/**
+ * Builds a `transferChecked` between the associated token accounts of `owner`
+ * and `recipient`, prefixed with an idempotent ATA creation when the
+ * recipient has never held the mint.
+ */
+export async function buildTokenTransferInstructions(
+  connection: Connection,
+  owner: PublicKey,
+  recipient: PublicKey,
+  mint: PublicKey,
+  amount: bigint,
+  decimals: number
+): Promise<TokenTransferPlan> {
+  const sourceAccount = getAssociatedTokenAddressSync(mint, owner);
+  // Off-curve recipients (PDA-owned wallets) are allowed
+  const destinationAccount = getAssociatedTokenAddressSync(mint, recipient, true);
+
+  const instructions: TransactionInstruction[] = [];
+  const destinationInfo = await connection.getAccountInfo(destinationAccount);
+  const createsDestination = destinationInfo === null;
+
+  if (createsDestination) {
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(owner, destinationAccount, recipient, mint)
+    );
+  }
+
+  instructions.push(
+    createTransferCheckedInstruction(sourceAccount, mint, destinationAccount, owner, amount, decimals)
+  );
+
+  return { instructions, sourceAccount, destinationAccount, createsDestination };
+}
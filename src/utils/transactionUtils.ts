@@ -5,28 +5,123 @@ import {
   SystemProgram,
   LAMPORTS_PER_SOL,
   TransactionSignature,
-  SendOptions
+  SendOptions,
+  ComputeBudgetProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  AddressLookupTableAccount,
+  PACKET_DATA_SIZE,
+  TransactionVersion,
+  TransactionExpiredBlockheightExceededError
 } from '@solana/web3.js';
+import { getMinimumBalanceForRentExemptAccount } from '@solana/spl-token';
 import { SolanaWallet } from '../services/walletManager';
+import { buildTokenTransferInstructions, fromTokenBaseUnits, toTokenBaseUnits } from './splToken';
+import { getExplorerUrl, getNetworkConfig, SolanaCluster } from '../lib/network';
 
 export interface TransactionResult {
   success: boolean;
   signature?: string;
   error?: string;
   explorerUrl?: string;
+  computeBudget?: ComputeBudgetEstimate;
+  version?: TransactionVersion;
+  /** Last block height at which the transaction's blockhash is still valid */
+  lastValidBlockHeight?: number;
+  /** The blockhash expired before the transaction landed, so nothing was charged */
+  expired?: boolean;
+}
+
+/** A signed transaction that was broadcast but is not confirmed yet */
+export interface SentTransaction {
+  signature: string;
+  /** The signed wire transaction, base64 encoded, for rebroadcasting */
+  rawTransaction: string;
+  blockhash: string;
+  lastValidBlockHeight: number;
+  version: TransactionVersion;
+}
+
+export type TransactionSpeed = 'economy' | 'normal' | 'fast';
+
+export interface ComputeBudgetEstimate {
+  speed: TransactionSpeed;
+  computeUnitLimit: number;
+  /** Priority fee bid, in micro-lamports per compute unit */
+  microLamportsPerUnit: number;
+  priorityFeeLamports: number;
+  baseFeeLamports: number;
+  totalFeeLamports: number;
+}
+
+export interface TransferLeg {
+  recipient: string;
+  /** Lamports for SOL transfers, base units for token transfers */
+  amount: bigint;
 }
 
 export interface TransactionOptions {
   skipPreflight?: boolean;
   maxRetries?: number;
   commitment?: 'processed' | 'confirmed' | 'finalized';
+  /** How aggressively to bid for block space, defaults to 'normal' */
+  speed?: TransactionSpeed;
+  /**
+   * Wire format. Left unset, a v0 transaction is sent when lookup tables are
+   * available or the legacy encoding would exceed the packet size limit.
+   */
+  version?: TransactionVersion;
+  /** Address lookup tables for v0 transactions, defaults to the cluster's configured tables */
+  lookupTables?: PublicKey[];
+  /**
+   * Called once the transaction is broadcast, before waiting for
+   * confirmation, so it can be recorded even if the page closes mid-wait.
+   */
+  onSent?: (sent: SentTransaction) => void | Promise<void>;
 }
 
+export const TRANSACTION_EXPIRED_MESSAGE =
+  'The transaction expired before the network processed it. You were not charged, please try again.';
+
+export const encodeRawTransaction = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const decodeRawTransaction = (rawTransaction: string): Uint8Array => {
+  return Uint8Array.from(atob(rawTransaction), char => char.charCodeAt(0));
+};
+
+// Percentile of recent prioritization fees each speed bids at
+const SPEED_PERCENTILES: Record<TransactionSpeed, number> = {
+  economy: 25,
+  normal: 50,
+  fast: 90
+};
+
+// Floors in micro-lamports per CU, so faster speeds still bid on an idle cluster
+const MIN_PRIORITY_FEES: Record<TransactionSpeed, number> = {
+  economy: 0,
+  normal: 1_000,
+  fast: 10_000
+};
+
+const MAX_PRIORITY_FEE = 2_000_000; // micro-lamports per CU
+const BASE_FEE_PER_SIGNATURE = 5000; // lamports
+const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+const COMPUTE_UNIT_MARGIN = 1.1;
+
 export class TransactionHandler {
   private connection: Connection;
-  private network: 'mainnet-beta' | 'devnet' | 'testnet';
+  private network: SolanaCluster;
+  private lookupTableCache: Map<string, AddressLookupTableAccount> = new Map();
 
-  constructor(connection: Connection, network: 'mainnet-beta' | 'devnet' | 'testnet' = 'mainnet-beta') {
+  constructor(connection: Connection, network: SolanaCluster = 'mainnet-beta') {
     this.connection = connection;
     this.network = network;
   }
@@ -38,6 +133,7 @@ export class TransactionHandler {
     options?: TransactionOptions
   ): Promise<TransactionResult> {
     const commitment = options?.commitment || 'confirmed';
+    let sentSignature: string | undefined;
 
     try {
       if (!wallet.isConnected || !wallet.publicKey) {
@@ -51,7 +147,16 @@ export class TransactionHandler {
 
       const balance = await this.connection.getBalance(wallet.publicKey);
       const requiredLamports = Math.floor(amountSOL * LAMPORTS_PER_SOL);
-      const estimatedFee = 5000;
+
+      const transaction = new Transaction().add(
+        SystemProgram.transfer({
+          fromPubkey: wallet.publicKey,
+          toPubkey: recipientPubkey,
+          lamports: requiredLamports
+        })
+      );
+      const computeBudget = await this.prepareComputeBudget(transaction, wallet.publicKey, options?.speed);
+      const estimatedFee = computeBudget.totalFeeLamports;
 
       if (balance < requiredLamports + estimatedFee) {
         return {
@@ -83,17 +188,9 @@ export class TransactionHandler {
         }
       }
 
-      const transaction = new Transaction({
-        feePayer: wallet.publicKey,
-        blockhash: blockhash!,
-        lastValidBlockHeight: lastValidBlockHeight!
-      }).add(
-        SystemProgram.transfer({
-          fromPubkey: wallet.publicKey,
-          toPubkey: recipientPubkey,
-          lamports: requiredLamports
-        })
-      );
+      transaction.feePayer = wallet.publicKey;
+      transaction.recentBlockhash = blockhash!;
+      transaction.lastValidBlockHeight = lastValidBlockHeight!;
 
       const signedTransaction = await wallet.signTransaction(transaction);
 
@@ -103,10 +200,17 @@ export class TransactionHandler {
         maxRetries: options?.maxRetries ?? 3
       };
 
-      const signature = await this.connection.sendRawTransaction(
-        signedTransaction.serialize(),
-        sendOptions
-      );
+      const rawTransaction = signedTransaction.serialize();
+      const signature = await this.connection.sendRawTransaction(rawTransaction, sendOptions);
+      sentSignature = signature;
+
+      await this.notifySent(options, {
+        signature,
+        rawTransaction: encodeRawTransaction(rawTransaction),
+        blockhash: blockhash!,
+        lastValidBlockHeight: lastValidBlockHeight!,
+        version: 'legacy'
+      });
 
       const confirmation = await this.connection.confirmTransaction(
         {
@@ -127,12 +231,24 @@ export class TransactionHandler {
       return {
         success: true,
         signature,
-        explorerUrl: this.getExplorerUrl(signature)
+        explorerUrl: this.getExplorerUrl(signature),
+        computeBudget,
+        version: 'legacy',
+        lastValidBlockHeight: lastValidBlockHeight!
       };
 
     } catch (error: any) {
       console.error('Transaction error:', error);
 
+      if (error instanceof TransactionExpiredBlockheightExceededError) {
+        return {
+          success: false,
+          signature: sentSignature,
+          expired: true,
+          error: TRANSACTION_EXPIRED_MESSAGE
+        };
+      }
+
       if (error.message?.includes('User rejected')) {
         return {
           success: false,
@@ -168,12 +284,171 @@ export class TransactionHandler {
     }
   }
 
+  /**
+   * Sends `amount` (UI units) of an SPL token with `transferChecked`, creating
+   * the recipient's associated token account first when it does not exist.
+   */
+  async sendTokenTransfer(
+    wallet: SolanaWallet,
+    recipientAddress: string,
+    mint: PublicKey,
+    amount: number,
+    decimals: number,
+    options?: TransactionOptions
+  ): Promise<TransactionResult> {
+    return this.sendSplitTokenTransfer(
+      wallet,
+      mint,
+      [{ recipient: recipientAddress, amount: toTokenBaseUnits(amount, decimals) }],
+      decimals,
+      options
+    );
+  }
+
+  /**
+   * Pays several recipients in one transaction, one system transfer per leg,
+   * so either every leg lands or none does.
+   */
+  async sendSplitSolTransfer(
+    wallet: SolanaWallet,
+    legs: TransferLeg[],
+    options?: TransactionOptions
+  ): Promise<TransactionResult> {
+    try {
+      if (!wallet.isConnected || !wallet.publicKey) {
+        return {
+          success: false,
+          error: 'Wallet not connected. Please connect your wallet and try again.'
+        };
+      }
+
+      const transaction = new Transaction();
+      for (const leg of legs) {
+        transaction.add(
+          SystemProgram.transfer({
+            fromPubkey: wallet.publicKey,
+            toPubkey: new PublicKey(leg.recipient),
+            lamports: leg.amount
+          })
+        );
+      }
+
+      const lookupTables = await this.resolveLookupTables(options);
+      const computeBudget = await this.prepareComputeBudget(transaction, wallet.publicKey, options?.speed, lookupTables);
+      const requiredLamports = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+      const estimatedFee = BigInt(computeBudget.totalFeeLamports);
+      const balance = BigInt(await this.connection.getBalance(wallet.publicKey));
+
+      if (balance < requiredLamports + estimatedFee) {
+        return {
+          success: false,
+          error: `Insufficient funds. You have ${(Number(balance) / LAMPORTS_PER_SOL).toFixed(6)} SOL but need ${(Number(requiredLamports + estimatedFee) / LAMPORTS_PER_SOL).toFixed(6)} SOL (including fees).`
+        };
+      }
+
+      return await this.sendTransaction(wallet, transaction, options);
+    } catch (error) {
+      console.error('Split transfer error:', error);
+
+      return {
+        success: false,
+        error: this.parseTransactionError(error)
+      };
+    }
+  }
+
+  /**
+   * Token counterpart of `sendSplitSolTransfer`: one `transferChecked` per
+   * leg out of the payer's associated token account, creating missing
+   * recipient accounts along the way.
+   */
+  async sendSplitTokenTransfer(
+    wallet: SolanaWallet,
+    mint: PublicKey,
+    legs: TransferLeg[],
+    decimals: number,
+    options?: TransactionOptions
+  ): Promise<TransactionResult> {
+    try {
+      if (!wallet.isConnected || !wallet.publicKey) {
+        return {
+          success: false,
+          error: 'Wallet not connected. Please connect your wallet and try again.'
+        };
+      }
+
+      const plans = await Promise.all(
+        legs.map(leg =>
+          buildTokenTransferInstructions(
+            this.connection,
+            wallet.publicKey,
+            new PublicKey(leg.recipient),
+            mint,
+            leg.amount,
+            decimals
+          )
+        )
+      );
+      const rawAmount = legs.reduce((sum, leg) => sum + leg.amount, 0n);
+      const sourceAccount = plans[0].sourceAccount;
+
+      const sourceInfo = await this.connection.getAccountInfo(sourceAccount);
+      if (!sourceInfo) {
+        return {
+          success: false,
+          error: 'Insufficient funds. Your wallet holds none of this token.'
+        };
+      }
+
+      const tokenBalance = await this.connection.getTokenAccountBalance(sourceAccount);
+      if (BigInt(tokenBalance.value.amount) < rawAmount) {
+        return {
+          success: false,
+          error: `Insufficient funds. You have ${fromTokenBaseUnits(tokenBalance.value.amount, decimals)} but need ${fromTokenBaseUnits(rawAmount, decimals)}.`
+        };
+      }
+
+      const transaction = new Transaction().add(...plans.flatMap(plan => plan.instructions));
+
+      // Token transfers still pay the network and priority fees, plus rent for each ATA created
+      const lookupTables = await this.resolveLookupTables(options);
+      const computeBudget = await this.prepareComputeBudget(transaction, wallet.publicKey, options?.speed, lookupTables);
+      const estimatedFee = computeBudget.totalFeeLamports;
+      const accountsCreated = plans.filter(plan => plan.createsDestination).length;
+      const rent = accountsCreated > 0 ? accountsCreated * await getMinimumBalanceForRentExemptAccount(this.connection) : 0;
+      const lamports = await this.connection.getBalance(wallet.publicKey);
+
+      if (lamports < estimatedFee + rent) {
+        return {
+          success: false,
+          error: `Insufficient SOL for fees. You need ${((estimatedFee + rent) / LAMPORTS_PER_SOL).toFixed(6)} SOL to send this payment.`
+        };
+      }
+
+      return await this.sendTransaction(wallet, transaction, options);
+    } catch (error) {
+      console.error('Token transfer error:', error);
+
+      return {
+        success: false,
+        error: this.parseTransactionError(error)
+      };
+    }
+  }
+
+  /**
+   * Signs and sends `transaction`. A legacy `Transaction` gets compute budget
+   * instructions when it has none and is recompiled as v0 when lookup tables
+   * or its size call for it (see `TransactionOptions.version`). A
+   * `VersionedTransaction` is sent as compiled, with a fresh blockhash.
+   */
   async sendTransaction(
     wallet: SolanaWallet,
-    transaction: Transaction,
+    transaction: Transaction | VersionedTransaction,
     options?: TransactionOptions
   ): Promise<TransactionResult> {
     const commitment = options?.commitment || 'confirmed';
+    let sentSignature: string | undefined;
 
     try {
       if (!wallet.isConnected || !wallet.publicKey) {
@@ -183,18 +458,38 @@ export class TransactionHandler {
         };
       }
 
-      let blockhash: string;
-      let lastValidBlockHeight: number;
+      let computeBudget: ComputeBudgetEstimate | undefined;
+      let lookupTables: AddressLookupTableAccount[] = [];
 
-      const response = await this.connection.getLatestBlockhash(commitment);
-      blockhash = response.blockhash;
-      lastValidBlockHeight = response.lastValidBlockHeight;
+      if (transaction instanceof Transaction) {
+        lookupTables = await this.resolveLookupTables(options);
+        computeBudget = this.hasComputeBudget(transaction)
+          ? undefined
+          : await this.prepareComputeBudget(transaction, wallet.publicKey, options?.speed, lookupTables);
+      }
 
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = wallet.publicKey;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash(commitment);
 
-      const signedTransaction = await wallet.signTransaction(transaction);
+      let signedTransaction: Transaction | VersionedTransaction;
+
+      if (transaction instanceof VersionedTransaction) {
+        transaction.message.recentBlockhash = blockhash;
+        signedTransaction = await wallet.signTransaction(transaction);
+      } else if (this.shouldSendVersioned(wallet, transaction, lookupTables, options?.version)) {
+        const message = new TransactionMessage({
+          payerKey: wallet.publicKey,
+          recentBlockhash: blockhash,
+          instructions: transaction.instructions
+        }).compileToV0Message(lookupTables);
+
+        signedTransaction = await wallet.signTransaction(new VersionedTransaction(message));
+      } else {
+        transaction.recentBlockhash = blockhash;
+        transaction.feePayer = wallet.publicKey;
+        transaction.lastValidBlockHeight = lastValidBlockHeight;
+
+        signedTransaction = await wallet.signTransaction(transaction);
+      }
 
       const sendOptions: SendOptions = {
         skipPreflight: options?.skipPreflight ?? false,
@@ -202,10 +497,18 @@ export class TransactionHandler {
         maxRetries: options?.maxRetries ?? 3
       };
 
-      const signature = await this.connection.sendRawTransaction(
-        signedTransaction.serialize(),
-        sendOptions
-      );
+      const rawTransaction = signedTransaction.serialize();
+      const version = signedTransaction instanceof VersionedTransaction ? signedTransaction.version : 'legacy';
+      const signature = await this.connection.sendRawTransaction(rawTransaction, sendOptions);
+      sentSignature = signature;
+
+      await this.notifySent(options, {
+        signature,
+        rawTransaction: encodeRawTransaction(rawTransaction),
+        blockhash,
+        lastValidBlockHeight,
+        version
+      });
 
       const confirmation = await this.connection.confirmTransaction(
         {
@@ -226,12 +529,24 @@ export class TransactionHandler {
       return {
         success: true,
         signature,
-        explorerUrl: this.getExplorerUrl(signature)
+        explorerUrl: this.getExplorerUrl(signature),
+        computeBudget,
+        version,
+        lastValidBlockHeight
       };
 
     } catch (error: any) {
       console.error('Transaction error:', error);
 
+      if (error instanceof TransactionExpiredBlockheightExceededError) {
+        return {
+          success: false,
+          signature: sentSignature,
+          expired: true,
+          error: TRANSACTION_EXPIRED_MESSAGE
+        };
+      }
+
       return {
         success: false,
         error: this.parseTransactionError(error)
@@ -239,6 +554,87 @@ export class TransactionHandler {
     }
   }
 
+  /** Runs `options.onSent`; a failing callback must not lose track of a broadcast transaction */
+  private async notifySent(options: TransactionOptions | undefined, sent: SentTransaction): Promise<void> {
+    if (!options?.onSent) {
+      return;
+    }
+
+    try {
+      await options.onSent(sent);
+    } catch (error) {
+      console.error('onSent callback failed:', error);
+    }
+  }
+
+  private shouldSendVersioned(
+    wallet: SolanaWallet,
+    transaction: Transaction,
+    lookupTables: AddressLookupTableAccount[],
+    version?: TransactionVersion
+  ): boolean {
+    if (version === 'legacy') {
+      return false;
+    }
+
+    if (wallet.supportsVersionedTransactions === false) {
+      if (version === 0) {
+        throw new Error('This wallet cannot sign versioned transactions');
+      }
+      return false;
+    }
+
+    return version === 0 || lookupTables.length > 0 || this.getLegacySize(transaction, wallet.publicKey) > PACKET_DATA_SIZE;
+  }
+
+  /** Serialized size of `transaction` as a signed legacy transaction */
+  private getLegacySize(transaction: Transaction, payer: PublicKey): number {
+    const message = new Transaction({
+      feePayer: payer,
+      blockhash: PublicKey.default.toBase58(),
+      lastValidBlockHeight: 0
+    }).add(...transaction.instructions).compileMessage();
+
+    return 1 + message.header.numRequiredSignatures * 64 + message.serialize().length;
+  }
+
+  /**
+   * Loads the lookup tables from `options.lookupTables`, or the cluster's
+   * configured tables. Tables that cannot be fetched are skipped, the
+   * transaction just compiles without them.
+   */
+  async resolveLookupTables(options?: Pick<TransactionOptions, 'lookupTables' | 'version'>): Promise<AddressLookupTableAccount[]> {
+    if (options?.version === 'legacy') {
+      return [];
+    }
+
+    const addresses = options?.lookupTables ?? getNetworkConfig(this.network).lookupTables.map(address => new PublicKey(address));
+    const tables: AddressLookupTableAccount[] = [];
+
+    for (const address of addresses) {
+      const key = address.toBase58();
+      let table = this.lookupTableCache.get(key);
+
+      if (!table) {
+        try {
+          const { value } = await this.connection.getAddressLookupTable(address);
+          if (value) {
+            table = value;
+            this.lookupTableCache.set(key, value);
+          }
+        } catch (error) {
+          console.warn('Failed to load address lookup table', key, error);
+        }
+      }
+
+      if (table?.isActive()) {
+        tables.push(table);
+      }
+    }
+
+    return tables;
+  }
+
   private parseTransactionError(error: any): string {
     const message = error.message || '';
 
@@ -305,12 +701,26 @@ export class TransactionHandler {
   }
 
   getExplorerUrl(signature: string): string {
-    const cluster = this.network === 'mainnet-beta' ? '' : `?cluster=${this.network}`;
-    return `https://explorer.solana.com/tx/${signature}${cluster}`;
+    return getExplorerUrl(signature, 'tx', this.network);
   }
 
-  async estimateTransactionFee(transaction: Transaction, payer: PublicKey): Promise<number> {
+  /**
+   * Total fee in SOL, priority fee included. Adds the compute budget
+   * instructions when the transaction has none, so the estimate matches what
+   * `sendTransaction` will send.
+   */
+  async estimateTransactionFee(
+    transaction: Transaction,
+    payer: PublicKey,
+    speed: TransactionSpeed = 'normal'
+  ): Promise<number> {
+    let computeBudget: ComputeBudgetEstimate | null = null;
+
     try {
+      if (!this.hasComputeBudget(transaction)) {
+        computeBudget = await this.prepareComputeBudget(transaction, payer, speed);
+      }
+
       const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
       transaction.recentBlockhash = blockhash;
       transaction.feePayer = payer;
@@ -318,17 +728,129 @@ export class TransactionHandler {
       const message = transaction.compileMessage();
       const fee = await this.connection.getFeeForMessage(message, 'confirmed');
 
-      return (fee.value || 5000) / LAMPORTS_PER_SOL;
+      return (fee.value ?? computeBudget?.totalFeeLamports ?? BASE_FEE_PER_SIGNATURE) / LAMPORTS_PER_SOL;
     } catch (error) {
       console.error('Fee estimation failed:', error);
-      return 0.000005;
+      return (computeBudget?.totalFeeLamports ?? BASE_FEE_PER_SIGNATURE) / LAMPORTS_PER_SOL;
+    }
+  }
+
+  /**
+   * Bid for `speed` from the recent prioritization fees paid to write-lock
+   * the same accounts, clamped between the speed's floor and MAX_PRIORITY_FEE.
+   */
+  async getPriorityFee(speed: TransactionSpeed, writableAccounts: PublicKey[] = []): Promise<number> {
+    try {
+      const samples = await this.connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+      const fees = samples.map(sample => sample.prioritizationFee).sort((a, b) => a - b);
+      const index = Math.min(fees.length - 1, Math.floor((fees.length * SPEED_PERCENTILES[speed]) / 100));
+      const recentFee = fees.length > 0 ? fees[index] : 0;
+
+      return Math.min(MAX_PRIORITY_FEE, Math.max(MIN_PRIORITY_FEES[speed], recentFee));
+    } catch (error) {
+      console.warn('Priority fee lookup failed, using the floor:', error);
+      return MIN_PRIORITY_FEES[speed];
+    }
+  }
+
+  /**
+   * Compute units the instructions consume in simulation plus a safety
+   * margin. Falls back to the runtime default when simulation fails; the
+   * real error surfaces on send.
+   */
+  async simulateComputeUnits(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<number> {
+    try {
+      const message = new TransactionMessage({
+        payerKey: payer,
+        // Replaced by the RPC node, see replaceRecentBlockhash
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [
+          ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+          ...instructions
+        ]
+      }).compileToV0Message(lookupTables);
+
+      const { value } = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed'
+      });
+
+      if (value.err || !value.unitsConsumed) {
+        console.warn('Compute unit simulation failed:', value.err);
+        return DEFAULT_COMPUTE_UNIT_LIMIT;
+      }
+
+      return Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN));
+    } catch (error) {
+      console.warn('Compute unit simulation failed:', error);
+      return DEFAULT_COMPUTE_UNIT_LIMIT;
+    }
+  }
+
+  /**
+   * Prepends compute unit limit and price instructions to `transaction`,
+   * replacing any it already has, and returns the fees they imply.
+   */
+  async prepareComputeBudget(
+    transaction: Transaction,
+    payer: PublicKey,
+    speed: TransactionSpeed = 'normal',
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<ComputeBudgetEstimate> {
+    const instructions = transaction.instructions.filter(
+      instruction => !instruction.programId.equals(ComputeBudgetProgram.programId)
+    );
+
+    const writableAccounts = new Map<string, PublicKey>();
+    for (const instruction of instructions) {
+      for (const key of instruction.keys) {
+        if (key.isWritable) writableAccounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
     }
+
+    const [computeUnitLimit, microLamportsPerUnit] = await Promise.all([
+      this.simulateComputeUnits(instructions, payer, lookupTables),
+      this.getPriorityFee(speed, Array.from(writableAccounts.values()))
+    ]);
+
+    transaction.instructions = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: microLamportsPerUnit }),
+      ...instructions
+    ];
+
+    const priorityFeeLamports = Math.ceil((computeUnitLimit * microLamportsPerUnit) / 1_000_000);
+    const baseFeeLamports = BASE_FEE_PER_SIGNATURE;
+
+    return {
+      speed,
+      computeUnitLimit,
+      microLamportsPerUnit,
+      priorityFeeLamports,
+      baseFeeLamports,
+      totalFeeLamports: baseFeeLamports + priorityFeeLamports
+    };
+  }
+
+  private hasComputeBudget(transaction: Transaction): boolean {
+    return transaction.instructions.some(instruction => instruction.programId.equals(ComputeBudgetProgram.programId));
   }
 
   setConnection(connection: Connection): void {
     this.connection = connection;
   }
 
+  setNetwork(network: SolanaCluster): void {
+    this.network = network;
+    this.lookupTableCache.clear();
+  }
+
   getConnection(): Connection {
     return this.connection;
   }
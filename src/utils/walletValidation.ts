@@ -1,5 +1,5 @@
-import { PublicKey } from '@solana/web3.js';
-import { SolanaWallet } from '../services/walletManager';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { AnySolanaTransaction, SolanaWallet } from '../services/walletManager';
 
 export interface WalletValidationResult {
   isValid: boolean;
@@ -143,18 +143,37 @@ export class WalletValidator {
 
     try {
       const walletPublicKey = new PublicKey(publicKey);
+      const supportsVersionedTransactions = this.supportsVersionedTransactions(walletProvider);
+
+      const assertCanSign = (transaction: AnySolanaTransaction) => {
+        if (transaction instanceof VersionedTransaction && !supportsVersionedTransactions) {
+          throw new Error('This wallet cannot sign versioned transactions');
+        }
+      };
 
       const wallet: SolanaWallet = {
         publicKey: walletPublicKey,
         isConnected: true,
-        signTransaction: async (transaction) => {
+        supportsVersionedTransactions,
+        signTransaction: async <T extends AnySolanaTransaction>(transaction: T): Promise<T> => {
           if (!walletProvider.signTransaction) {
             throw new Error('Wallet does not support transaction signing');
           }
+          assertCanSign(transaction);
           return await walletProvider.signTransaction(transaction);
         },
         signAllTransactions: walletProvider.signAllTransactions
-          ? async (transactions) => await walletProvider.signAllTransactions!(transactions)
+          ? async <T extends AnySolanaTransaction>(transactions: T[]): Promise<T[]> => {
+              transactions.forEach(assertCanSign);
+              return await walletProvider.signAllTransactions!(transactions);
+            }
+          : undefined,
+        signMessage: walletProvider.signMessage
+          ? async (message) => {
+              // Injected wallets return { signature }, AppKit providers return the bytes directly
+              const signed = await walletProvider.signMessage(message);
+              return signed instanceof Uint8Array ? signed : signed.signature;
+            }
           : undefined,
         connect: async () => ({ publicKey: walletPublicKey }),
         disconnect: async () => {},
@@ -168,6 +187,20 @@ export class WalletValidator {
     }
   }
 
+  /**
+   * AppKit providers sign both legacy and v0 transactions. Wallet-adapter
+   * style providers advertise `supportedTransactionVersions`, where `null`
+   * means legacy only.
+   */
+  static supportsVersionedTransactions(walletProvider: unknown): boolean {
+    if (!walletProvider || typeof walletProvider !== 'object' || !('supportedTransactionVersions' in walletProvider)) {
+      return true;
+    }
+
+    const versions = walletProvider.supportedTransactionVersions;
+    return versions instanceof Set && versions.has(0);
+  }
+
   static getErrorMessage(validation: WalletValidationResult): string {
     if (validation.isValid) {
       return '';
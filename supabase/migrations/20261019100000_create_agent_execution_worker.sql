@@ -0,0 +1,75 @@
+/*
+  # Agent Execution Worker
+
+  1. Changes to agent_executions table
+    - Add `worker_id` (text) - worker that currently owns the execution
+    - Add `claimed_at` (timestamptz) - when the worker claimed the execution
+    - Add `attempts` (integer) - how many times the execution has been claimed
+
+  2. New functions
+    - `claim_agent_executions(p_worker_id, p_limit, p_stale_after_seconds)`
+      Atomically claims runnable executions with FOR UPDATE SKIP LOCKED so that
+      several workers can poll the same table without double-processing.
+      Executions whose claim is older than `p_stale_after_seconds` (a crashed
+      worker) become claimable again.
+
+  3. Security
+    - Workers run with the service role key, which bypasses RLS
+*/
+
+ALTER TABLE agent_executions
+ADD COLUMN IF NOT EXISTS worker_id text,
+ADD COLUMN IF NOT EXISTS claimed_at timestamptz,
+ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_executions_claimable
+ON agent_executions(created_at)
+WHERE status IN ('pending', 'processing');
+
+CREATE OR REPLACE FUNCTION claim_agent_executions(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS TABLE (
+  id uuid,
+  agent_id uuid,
+  agent_name text,
+  agent_category text,
+  input_data jsonb,
+  attempts integer
+)
+LANGUAGE sql
+AS $$
+  WITH claimable AS (
+    SELECT e.id
+    FROM agent_executions e
+    WHERE e.status IN ('pending', 'processing')
+      AND (
+        e.claimed_at IS NULL
+        OR e.claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+      )
+    ORDER BY e.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE agent_executions e
+    SET
+      status = 'processing',
+      worker_id = p_worker_id,
+      claimed_at = now(),
+      attempts = e.attempts + 1
+    FROM claimable c
+    WHERE e.id = c.id
+    RETURNING e.id, e.agent_id, e.input_data, e.attempts
+  )
+  SELECT c.id, c.agent_id, a.name, a.category, c.input_data, c.attempts
+  FROM claimed c
+  JOIN agents a ON a.id = c.agent_id;
+$$;
+
+COMMENT ON COLUMN agent_executions.worker_id IS 'Identifier of the worker that claimed this execution';
+COMMENT ON COLUMN agent_executions.claimed_at IS 'When the execution was last claimed by a worker';
+COMMENT ON COLUMN agent_executions.attempts IS 'Number of times a worker has claimed this execution';
+COMMENT ON FUNCTION claim_agent_executions IS 'Claims runnable agent executions for a worker, skipping rows locked by other workers';
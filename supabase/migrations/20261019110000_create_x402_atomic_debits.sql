@@ -0,0 +1,245 @@
+/*
+  # Atomic x402 debits
+
+  1. Changes to x402_transactions table
+    - Add `idempotency_key` (text) - caller supplied key; retrying a debit with
+      the same key returns the original transaction instead of charging twice
+
+  2. New functions
+    - `x402_debit_session(...)` - locks the session row, validates status,
+      expiry and balance, debits it, flips it to `depleted` when empty and
+      records the `x402_transactions` row, all in one transaction
+    - `x402_spend_credits(...)` - same guarantees for `x402_payment_credits`
+
+  3. Return value
+    Both functions return a jsonb object with `success`, `error_code`, `error`
+    and the resulting balance so the client never has to re-read the row.
+*/
+
+ALTER TABLE x402_transactions
+ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_x402_tx_idempotency_key
+ON x402_transactions(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION x402_debit_session(
+  p_session_token text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_remaining numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE session_token = p_session_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  -- Checked after taking the row lock so concurrent retries with the same key
+  -- are serialised behind the first one.
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'remaining_amount', v_session.remaining_amount,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_INACTIVE', 'error', 'Session is ' || v_session.status);
+  END IF;
+
+  IF v_session.expires_at < now() THEN
+    UPDATE x402_payment_sessions SET status = 'expired' WHERE id = v_session.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_EXPIRED', 'error', 'Session expired');
+  END IF;
+
+  IF v_session.remaining_amount < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_BALANCE',
+      'error', 'Insufficient session balance',
+      'remaining_amount', v_session.remaining_amount
+    );
+  END IF;
+
+  UPDATE x402_payment_sessions
+  SET
+    spent_amount = spent_amount + p_amount,
+    remaining_amount = remaining_amount - p_amount,
+    last_used_at = now(),
+    status = CASE WHEN remaining_amount - p_amount <= 0 THEN 'depleted' ELSE 'active' END
+  WHERE id = v_session.id
+  RETURNING remaining_amount INTO v_remaining;
+
+  INSERT INTO x402_transactions (
+    session_id,
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    x402_header,
+    status,
+    response_code,
+    idempotency_key
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_amount,
+    COALESCE(p_x402_header, 'session=' || p_session_token),
+    'completed',
+    200,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_tx_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_spend_credits(
+  p_wallet_address text,
+  p_service_id uuid,
+  p_service_type text,
+  p_amount numeric,
+  p_resource_url text DEFAULT NULL,
+  p_http_method text DEFAULT 'POST',
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_credit x402_payment_credits%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_balance numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_credit
+  FROM x402_payment_credits
+  WHERE wallet_address = p_wallet_address
+    AND service_id IS NOT DISTINCT FROM p_service_id
+    AND service_type = p_service_type
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CREDIT_ACCOUNT_NOT_FOUND', 'error', 'Credit account not found');
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'new_balance', v_credit.credit_balance,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_credit.credit_balance < p_amount THEN
+    IF v_credit.auto_topup_enabled AND v_credit.credit_balance < v_credit.auto_topup_threshold THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_code', 'AUTO_TOPUP_REQUIRED',
+        'error', 'Insufficient credits. Auto top-up triggered but requires user action.',
+        'new_balance', v_credit.credit_balance
+      );
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_CREDITS',
+      'error', 'Insufficient credits',
+      'new_balance', v_credit.credit_balance
+    );
+  END IF;
+
+  UPDATE x402_payment_credits
+  SET
+    credit_balance = credit_balance - p_amount,
+    total_spent = total_spent + p_amount,
+    updated_at = now()
+  WHERE id = v_credit.id
+  RETURNING credit_balance INTO v_balance;
+
+  INSERT INTO x402_transactions (
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    status,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    p_wallet_address,
+    COALESCE(p_resource_url, p_service_type || '/' || COALESCE(p_service_id::text, '*')),
+    CASE p_service_type
+      WHEN 'agent' THEN 'agent_execution'
+      WHEN 'web_service' THEN 'data_access'
+      ELSE 'api_call'
+    END,
+    p_http_method,
+    p_amount,
+    'completed',
+    p_idempotency_key,
+    jsonb_build_object('payment_source', 'credits', 'credit_id', v_credit.id)
+  )
+  RETURNING id INTO v_tx_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
+
+COMMENT ON COLUMN x402_transactions.idempotency_key IS 'Caller supplied key that makes a debit safe to retry';
+COMMENT ON FUNCTION x402_debit_session IS 'Atomically debits an x402 session and records the transaction';
+COMMENT ON FUNCTION x402_spend_credits IS 'Atomically debits an x402 credit balance and records the transaction';
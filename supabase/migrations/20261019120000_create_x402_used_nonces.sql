@@ -0,0 +1,42 @@
+/*
+  # x402 header nonces
+
+  1. New table: x402_used_nonces
+    - `wallet_address` (text) - wallet that signed the X-402-Payment header
+    - `nonce` (text) - random value included in the signed payload
+    - `expires_at` (timestamptz) - after this the header's timestamp is stale
+      anyway, so the row can be pruned
+    - Primary key (wallet_address, nonce) makes a replayed header fail to insert
+
+  2. Security
+    - RLS enabled; servers verifying headers insert with the anon or service key
+*/
+
+CREATE TABLE IF NOT EXISTS x402_used_nonces (
+  wallet_address text NOT NULL,
+  nonce text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (wallet_address, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_nonces_expires ON x402_used_nonces(expires_at);
+
+ALTER TABLE x402_used_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view nonces"
+  ON x402_used_nonces FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous can record nonces"
+  ON x402_used_nonces FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous can prune expired nonces"
+  ON x402_used_nonces FOR DELETE
+  TO anon
+  USING (expires_at < now());
+
+COMMENT ON TABLE x402_used_nonces IS 'Nonces of verified X-402-Payment headers, used to reject replays';
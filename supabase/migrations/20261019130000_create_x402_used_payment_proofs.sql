@@ -0,0 +1,46 @@
+/*
+  # x402 used payment proofs
+
+  1. New table: x402_used_payment_proofs
+    - `signature` (text, primary key) - Solana transaction signature presented
+      as an x402 payment proof
+    - `wallet_address` (text) - payer wallet verified from the transfer
+    - `recipient_address` (text) - service owner wallet that received it
+    - `resource_url` (text) - resource the proof paid for
+    - `amount_usd` (numeric) - price the proof was accepted for
+    - `lamports` (bigint) - lamports actually transferred to the recipient
+
+  2. Purpose
+    - One on-chain transfer can only pay for one request; a second claim on
+      the same signature fails on the primary key
+
+  3. Security
+    - RLS enabled; verifiers insert with the anon or service key
+*/
+
+CREATE TABLE IF NOT EXISTS x402_used_payment_proofs (
+  signature text PRIMARY KEY,
+  wallet_address text NOT NULL,
+  recipient_address text NOT NULL,
+  resource_url text,
+  amount_usd numeric(18, 6) NOT NULL,
+  lamports bigint NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_used_proofs_wallet ON x402_used_payment_proofs(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_x402_used_proofs_recipient ON x402_used_payment_proofs(recipient_address);
+
+ALTER TABLE x402_used_payment_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view used proofs"
+  ON x402_used_payment_proofs FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous can claim proofs"
+  ON x402_used_payment_proofs FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+COMMENT ON TABLE x402_used_payment_proofs IS 'Payment proof signatures that have already paid for an x402 request';
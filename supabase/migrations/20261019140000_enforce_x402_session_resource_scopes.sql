@@ -0,0 +1,233 @@
+/*
+  # Enforce x402 session resource scopes
+
+  1. Changes to x402_payment_sessions table
+    - Add `resource_patterns` (text[]) - every glob the session may pay for
+    - Existing sessions are backfilled from `resource_pattern`; a trailing
+      single-star segment (which used to mean "anything under this service")
+      becomes a double-star segment and a bare `*` becomes `**` so the old
+      scopes keep matching
+    - A trigger fills `resource_patterns` for clients that still only send
+      `resource_pattern`
+
+  2. New functions
+    - `x402_normalize_resource_pattern(pattern)` - legacy pattern rewrite
+    - `x402_glob_to_regex(pattern)` - same glob rules as
+      `src/utils/resourcePatterns.ts`: `*` within a segment, `**` across
+      segments, a trailing double-star segment also matches the prefix,
+      `?` one character
+
+  3. Changes to functions
+    - `x402_debit_session` takes `p_resource` and rejects debits whose
+      resource matches none of the session's patterns with
+      `RESOURCE_NOT_AUTHORIZED`
+*/
+
+CREATE OR REPLACE FUNCTION x402_normalize_resource_pattern(p_pattern text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN trim(p_pattern) = '*' THEN '**'
+    WHEN trim(p_pattern) ~ '/\*$' AND trim(p_pattern) !~ '/\*\*$' THEN regexp_replace(trim(p_pattern), '/\*$', '/**')
+    ELSE trim(p_pattern)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_glob_to_regex(p_pattern text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_source text := '';
+  v_len integer := length(p_pattern);
+  v_i integer := 1;
+  v_char text;
+BEGIN
+  WHILE v_i <= v_len LOOP
+    v_char := substr(p_pattern, v_i, 1);
+
+    IF substr(p_pattern, v_i, 3) = '/**' AND v_i + 2 = v_len THEN
+      v_source := v_source || '(/.*)?';
+      v_i := v_i + 3;
+    ELSIF substr(p_pattern, v_i, 2) = '**' THEN
+      v_source := v_source || '.*';
+      v_i := v_i + 2;
+    ELSIF v_char = '*' THEN
+      v_source := v_source || '[^/]*';
+      v_i := v_i + 1;
+    ELSIF v_char = '?' THEN
+      v_source := v_source || '[^/]';
+      v_i := v_i + 1;
+    ELSE
+      v_source := v_source || regexp_replace(v_char, '([.+^$(){}|\[\]\\])', '\\\1', 'g');
+      v_i := v_i + 1;
+    END IF;
+  END LOOP;
+
+  RETURN '^' || v_source || '$';
+END;
+$$;
+
+ALTER TABLE x402_payment_sessions
+ADD COLUMN IF NOT EXISTS resource_patterns text[];
+
+UPDATE x402_payment_sessions
+SET resource_patterns = ARRAY[x402_normalize_resource_pattern(resource_pattern)]
+WHERE resource_patterns IS NULL OR cardinality(resource_patterns) = 0;
+
+ALTER TABLE x402_payment_sessions
+ALTER COLUMN resource_patterns SET DEFAULT '{}',
+ALTER COLUMN resource_patterns SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION x402_fill_session_resource_patterns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.resource_patterns IS NULL OR cardinality(NEW.resource_patterns) = 0 THEN
+    NEW.resource_patterns := ARRAY[x402_normalize_resource_pattern(NEW.resource_pattern)];
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_x402_session_resource_patterns ON x402_payment_sessions;
+
+CREATE TRIGGER trg_x402_session_resource_patterns
+  BEFORE INSERT ON x402_payment_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION x402_fill_session_resource_patterns();
+
+-- The signature changes, so the previous overload has to go first
+DROP FUNCTION IF EXISTS x402_debit_session(text, numeric, text, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION x402_debit_session(
+  p_session_token text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL,
+  p_resource text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_remaining numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE session_token = p_session_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  -- Checked after taking the row lock so concurrent retries with the same key
+  -- are serialised behind the first one.
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'remaining_amount', v_session.remaining_amount,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_INACTIVE', 'error', 'Session is ' || v_session.status);
+  END IF;
+
+  IF v_session.expires_at < now() THEN
+    UPDATE x402_payment_sessions SET status = 'expired' WHERE id = v_session.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_EXPIRED', 'error', 'Session expired');
+  END IF;
+
+  -- Fails closed: without an explicit resource key the URL has to match.
+  IF NOT EXISTS (
+    SELECT 1
+    FROM unnest(v_session.resource_patterns) AS pattern
+    WHERE COALESCE(p_resource, p_resource_url) ~ x402_glob_to_regex(pattern)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'RESOURCE_NOT_AUTHORIZED',
+      'error', 'Session is not authorized for ' || COALESCE(p_resource, p_resource_url)
+    );
+  END IF;
+
+  IF v_session.remaining_amount < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_BALANCE',
+      'error', 'Insufficient session balance',
+      'remaining_amount', v_session.remaining_amount
+    );
+  END IF;
+
+  UPDATE x402_payment_sessions
+  SET
+    spent_amount = spent_amount + p_amount,
+    remaining_amount = remaining_amount - p_amount,
+    last_used_at = now(),
+    status = CASE WHEN remaining_amount - p_amount <= 0 THEN 'depleted' ELSE 'active' END
+  WHERE id = v_session.id
+  RETURNING remaining_amount INTO v_remaining;
+
+  INSERT INTO x402_transactions (
+    session_id,
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    x402_header,
+    status,
+    response_code,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_amount,
+    COALESCE(p_x402_header, 'session=' || p_session_token),
+    'completed',
+    200,
+    p_idempotency_key,
+    jsonb_build_object('resource', COALESCE(p_resource, p_resource_url))
+  )
+  RETURNING id INTO v_tx_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+COMMENT ON COLUMN x402_payment_sessions.resource_patterns IS 'Glob patterns of the resources this session may pay for';
+COMMENT ON FUNCTION x402_debit_session IS 'Atomically debits an x402 session for an authorized resource and records the transaction';
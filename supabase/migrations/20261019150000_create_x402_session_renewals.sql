@@ -0,0 +1,275 @@
+/*
+  # x402 session auto-renewal
+
+  1. Changes to x402_payment_sessions table
+    - `renewal_source` (text) - `wallet` (prompt the connected wallet for a
+      fresh payment) or `credits` (debit a pre-approved credit balance)
+    - `renewal_credit_service_id` / `renewal_credit_service_type` - credit
+      account debited when `renewal_source` is `credits`
+    - `renewal_threshold` (numeric) - renew once `remaining_amount` drops to
+      or below this value
+    - `renewal_window_minutes` (integer) - renew once the session is this
+      close to `expires_at`
+    - `renewal_duration_hours` (integer) - how far each renewal pushes
+      `expires_at`
+    - `max_renewals` / `max_renewal_total` - optional caps on the number of
+      renewals and the total USD added by them
+    - `renewal_count`, `total_renewed`, `last_renewed_at` - running totals
+
+  2. New table: x402_session_renewals
+    - One row per renewal attempt, linked to the session and to the payment
+      that funded it: `payment_signature` for wallet renewals (see
+      `transaction_logs`), `transaction_id` for the `x402_transactions` row
+      written by `x402_spend_credits` for credit renewals
+    - Failed attempts are recorded too so caps and notifications can be audited
+
+  3. New functions
+    - `x402_sessions_due_for_renewal(p_wallet_address, p_limit)` - auto-renew
+      sessions under their threshold or inside their expiry window whose caps
+      still allow another renewal
+    - `x402_renew_session(...)` - locks the session, re-checks the caps, debits
+      credits when needed and extends the session in one transaction
+
+  4. Security
+    - RLS enabled on x402_session_renewals with anon select/insert policies
+*/
+
+ALTER TABLE x402_payment_sessions
+ADD COLUMN IF NOT EXISTS renewal_source text DEFAULT 'wallet',
+ADD COLUMN IF NOT EXISTS renewal_credit_service_id uuid,
+ADD COLUMN IF NOT EXISTS renewal_credit_service_type text,
+ADD COLUMN IF NOT EXISTS renewal_threshold numeric(18, 6) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS renewal_window_minutes integer DEFAULT 60,
+ADD COLUMN IF NOT EXISTS renewal_duration_hours integer DEFAULT 24,
+ADD COLUMN IF NOT EXISTS max_renewals integer,
+ADD COLUMN IF NOT EXISTS max_renewal_total numeric(18, 6),
+ADD COLUMN IF NOT EXISTS renewal_count integer DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_renewed numeric(18, 6) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_renewed_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'valid_session_renewal_source'
+  ) THEN
+    ALTER TABLE x402_payment_sessions
+    ADD CONSTRAINT valid_session_renewal_source CHECK (renewal_source IN ('wallet', 'credits'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_x402_sessions_auto_renew
+ON x402_payment_sessions(expires_at)
+WHERE auto_renew = true;
+
+CREATE TABLE IF NOT EXISTS x402_session_renewals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES x402_payment_sessions(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  amount numeric(18, 6) NOT NULL,
+  source text NOT NULL,
+  trigger text NOT NULL,
+  status text NOT NULL DEFAULT 'completed',
+  payment_signature text,
+  transaction_id uuid REFERENCES x402_transactions(id) ON DELETE SET NULL,
+  remaining_before numeric(18, 6),
+  remaining_after numeric(18, 6),
+  expires_before timestamptz,
+  expires_after timestamptz,
+  error_code text,
+  error_message text,
+  idempotency_key text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_renewal_source CHECK (source IN ('wallet', 'credits')),
+  CONSTRAINT valid_renewal_trigger CHECK (trigger IN ('depletion', 'expiry', 'manual')),
+  CONSTRAINT valid_renewal_status CHECK (status IN ('completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_renewals_session ON x402_session_renewals(session_id);
+CREATE INDEX IF NOT EXISTS idx_x402_renewals_wallet ON x402_session_renewals(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_x402_renewals_created ON x402_session_renewals(created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_x402_renewals_idempotency_key
+ON x402_session_renewals(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+ALTER TABLE x402_session_renewals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view renewals"
+  ON x402_session_renewals FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous can record renewals"
+  ON x402_session_renewals FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION x402_sessions_due_for_renewal(
+  p_wallet_address text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF x402_payment_sessions
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM x402_payment_sessions
+  WHERE auto_renew = true
+    AND status IN ('active', 'depleted')
+    AND (p_wallet_address IS NULL OR wallet_address = p_wallet_address)
+    AND renewal_amount > 0
+    AND (
+      remaining_amount <= COALESCE(renewal_threshold, 0)
+      OR expires_at <= now() + make_interval(mins => COALESCE(renewal_window_minutes, 0))
+    )
+    AND (max_renewals IS NULL OR renewal_count < max_renewals)
+    AND (max_renewal_total IS NULL OR total_renewed + renewal_amount <= max_renewal_total)
+  ORDER BY expires_at ASC
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_renew_session(
+  p_session_id uuid,
+  p_amount numeric,
+  p_trigger text DEFAULT 'manual',
+  p_payment_signature text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing x402_session_renewals%ROWTYPE;
+  v_spend jsonb;
+  v_tx_id uuid;
+  v_renewal_id uuid;
+  v_new_expires timestamptz;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM x402_session_renewals
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', v_existing.status = 'completed',
+        'renewal_id', v_existing.id,
+        'remaining_amount', v_session.remaining_amount,
+        'expires_at', v_session.expires_at,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_session.status = 'revoked' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_REVOKED', 'error', 'Session is revoked');
+  END IF;
+
+  IF p_trigger <> 'manual' AND NOT v_session.auto_renew THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTO_RENEW_DISABLED', 'error', 'Auto-renew is disabled for this session');
+  END IF;
+
+  IF v_session.max_renewals IS NOT NULL AND v_session.renewal_count >= v_session.max_renewals THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'RENEWAL_LIMIT_REACHED', 'error', 'Session has reached its renewal limit');
+  END IF;
+
+  IF v_session.max_renewal_total IS NOT NULL AND v_session.total_renewed + p_amount > v_session.max_renewal_total THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'RENEWAL_CAP_EXCEEDED', 'error', 'Renewal would exceed the session renewal cap');
+  END IF;
+
+  IF v_session.renewal_source = 'credits' THEN
+    v_spend := x402_spend_credits(
+      v_session.wallet_address,
+      v_session.renewal_credit_service_id,
+      COALESCE(v_session.renewal_credit_service_type, 'agent'),
+      p_amount,
+      'x402-session-renewal:' || v_session.id,
+      'POST',
+      CASE WHEN p_idempotency_key IS NULL THEN NULL ELSE 'renewal:' || p_idempotency_key END
+    );
+
+    IF NOT (v_spend->>'success')::boolean THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_code', v_spend->>'error_code',
+        'error', v_spend->>'error'
+      );
+    END IF;
+
+    v_tx_id := (v_spend->>'transaction_id')::uuid;
+  ELSIF p_payment_signature IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'PAYMENT_REQUIRED', 'error', 'Wallet renewals need a payment signature');
+  END IF;
+
+  v_new_expires := GREATEST(v_session.expires_at, now())
+    + make_interval(hours => COALESCE(v_session.renewal_duration_hours, 24));
+
+  UPDATE x402_payment_sessions
+  SET
+    authorized_amount = authorized_amount + p_amount,
+    remaining_amount = remaining_amount + p_amount,
+    expires_at = v_new_expires,
+    status = 'active',
+    renewal_count = renewal_count + 1,
+    total_renewed = total_renewed + p_amount,
+    last_renewed_at = now()
+  WHERE id = v_session.id;
+
+  INSERT INTO x402_session_renewals (
+    session_id,
+    wallet_address,
+    amount,
+    source,
+    trigger,
+    status,
+    payment_signature,
+    transaction_id,
+    remaining_before,
+    remaining_after,
+    expires_before,
+    expires_after,
+    idempotency_key
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_amount,
+    v_session.renewal_source,
+    p_trigger,
+    'completed',
+    p_payment_signature,
+    v_tx_id,
+    v_session.remaining_amount,
+    v_session.remaining_amount + p_amount,
+    v_session.expires_at,
+    v_new_expires,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_renewal_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'renewal_id', v_renewal_id,
+    'transaction_id', v_tx_id,
+    'remaining_amount', v_session.remaining_amount + p_amount,
+    'expires_at', v_new_expires,
+    'replayed', false
+  );
+END;
+$$;
+
+COMMENT ON TABLE x402_session_renewals IS 'Auto-renewal history of x402 payment sessions, linked to the payment that funded each renewal';
+COMMENT ON FUNCTION x402_renew_session IS 'Atomically tops up and extends an x402 session, enforcing its renewal caps';
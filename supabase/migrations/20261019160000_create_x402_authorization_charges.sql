@@ -0,0 +1,207 @@
+/*
+  # x402 spending authorizations
+
+  1. New table: x402_authorization_charges
+    - One row per debit made under an `x402_payment_authorizations` token
+    - `authorization_id` (uuid) - authorization that allowed the charge
+    - `transaction_id` (uuid) - `x402_transactions` row written by the credit debit
+    - `amount` (numeric) - USD charged
+    - `idempotency_key` (text) - retries with the same key return the first charge
+    - The per-day and per-month limits are rolling windows (24 hours and
+      30 days) summed over this table
+
+  2. New function: x402_charge_authorization(...)
+    - Locks the authorization, checks status, expiry, the per-request, per-day,
+      per-month and total limits, then debits the wallet's credits through
+      `x402_spend_credits` (service credits first, platform credits second)
+    - Error codes: AUTHORIZATION_NOT_FOUND, WALLET_MISMATCH, SERVICE_MISMATCH,
+      AUTHORIZATION_PAUSED, AUTHORIZATION_REVOKED, AUTHORIZATION_EXPIRED,
+      PER_REQUEST_LIMIT_EXCEEDED, DAILY_LIMIT_EXCEEDED,
+      MONTHLY_LIMIT_EXCEEDED, AUTHORIZATION_EXHAUSTED and the credit errors
+
+  3. Security
+    - RLS enabled on x402_authorization_charges with anon select/insert policies
+*/
+
+CREATE TABLE IF NOT EXISTS x402_authorization_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  authorization_id uuid NOT NULL REFERENCES x402_payment_authorizations(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES x402_transactions(id) ON DELETE SET NULL,
+  amount numeric(18, 6) NOT NULL,
+  idempotency_key text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT positive_authorization_charge CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_auth_charges_window
+ON x402_authorization_charges(authorization_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_x402_auth_charges_idempotency_key
+ON x402_authorization_charges(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+ALTER TABLE x402_authorization_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view authorization charges"
+  ON x402_authorization_charges FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous can record authorization charges"
+  ON x402_authorization_charges FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION x402_charge_authorization(
+  p_authorization_token text,
+  p_wallet_address text,
+  p_amount numeric,
+  p_resource_url text DEFAULT NULL,
+  p_http_method text DEFAULT 'POST',
+  p_idempotency_key text DEFAULT NULL,
+  p_service_id uuid DEFAULT NULL,
+  p_service_type text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_auth x402_payment_authorizations%ROWTYPE;
+  v_existing x402_authorization_charges%ROWTYPE;
+  v_spent_day numeric(18, 6);
+  v_spent_month numeric(18, 6);
+  v_spend jsonb;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_auth
+  FROM x402_payment_authorizations
+  WHERE authorization_token = p_authorization_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_NOT_FOUND', 'error', 'Authorization not found');
+  END IF;
+
+  IF v_auth.wallet_address <> p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Authorization belongs to another wallet');
+  END IF;
+
+  IF (p_service_id IS NOT NULL AND v_auth.service_id <> p_service_id)
+    OR (p_service_type IS NOT NULL AND v_auth.service_type <> p_service_type) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SERVICE_MISMATCH', 'error', 'Authorization is for another service');
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM x402_authorization_charges
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing.transaction_id,
+        'total_spent', v_auth.total_spent,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_auth.status = 'paused' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_PAUSED', 'error', 'Authorization is paused');
+  END IF;
+
+  IF v_auth.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_' || upper(v_auth.status), 'error', 'Authorization is ' || v_auth.status);
+  END IF;
+
+  IF v_auth.expires_at IS NOT NULL AND v_auth.expires_at < now() THEN
+    UPDATE x402_payment_authorizations SET status = 'expired', updated_at = now() WHERE id = v_auth.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_EXPIRED', 'error', 'Authorization expired');
+  END IF;
+
+  IF v_auth.spending_limit_per_request IS NOT NULL AND p_amount > v_auth.spending_limit_per_request THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'PER_REQUEST_LIMIT_EXCEEDED', 'error', 'Amount exceeds the per-request limit');
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at > now() - interval '1 day'), 0),
+    COALESCE(SUM(amount), 0)
+  INTO v_spent_day, v_spent_month
+  FROM x402_authorization_charges
+  WHERE authorization_id = v_auth.id
+    AND created_at > now() - interval '30 days';
+
+  IF v_auth.spending_limit_per_day IS NOT NULL AND v_spent_day + p_amount > v_auth.spending_limit_per_day THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'DAILY_LIMIT_EXCEEDED',
+      'error', 'Amount exceeds the rolling 24 hour limit',
+      'spent_today', v_spent_day
+    );
+  END IF;
+
+  IF v_auth.spending_limit_per_month IS NOT NULL AND v_spent_month + p_amount > v_auth.spending_limit_per_month THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'MONTHLY_LIMIT_EXCEEDED',
+      'error', 'Amount exceeds the rolling 30 day limit',
+      'spent_this_month', v_spent_month
+    );
+  END IF;
+
+  IF v_auth.total_spent + p_amount > v_auth.total_authorized THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_EXHAUSTED', 'error', 'Authorization has no budget left');
+  END IF;
+
+  v_spend := x402_spend_credits(
+    v_auth.wallet_address,
+    v_auth.service_id,
+    v_auth.service_type,
+    p_amount,
+    p_resource_url,
+    p_http_method,
+    p_idempotency_key
+  );
+
+  IF v_spend->>'error_code' = 'CREDIT_ACCOUNT_NOT_FOUND' THEN
+    v_spend := x402_spend_credits(
+      v_auth.wallet_address,
+      NULL,
+      v_auth.service_type,
+      p_amount,
+      COALESCE(p_resource_url, v_auth.service_type || '/' || v_auth.service_id),
+      p_http_method,
+      p_idempotency_key
+    );
+  END IF;
+
+  IF NOT (v_spend->>'success')::boolean THEN
+    RETURN v_spend;
+  END IF;
+
+  UPDATE x402_payment_authorizations
+  SET
+    total_spent = total_spent + p_amount,
+    updated_at = now()
+  WHERE id = v_auth.id;
+
+  INSERT INTO x402_authorization_charges (authorization_id, transaction_id, amount, idempotency_key)
+  VALUES (v_auth.id, (v_spend->>'transaction_id')::uuid, p_amount, p_idempotency_key);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_spend->>'transaction_id',
+    'new_balance', v_spend->'new_balance',
+    'total_spent', v_auth.total_spent + p_amount,
+    'spent_today', v_spent_day + p_amount,
+    'spent_this_month', v_spent_month + p_amount,
+    'replayed', false
+  );
+END;
+$$;
+
+COMMENT ON TABLE x402_authorization_charges IS 'Debits made under x402 spending authorizations, used for the rolling daily and monthly limits';
+COMMENT ON FUNCTION x402_charge_authorization IS 'Charges an x402 spending authorization against the wallet credits after enforcing its limits';
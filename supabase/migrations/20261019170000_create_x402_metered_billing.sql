@@ -0,0 +1,171 @@
+/*
+  # x402 metered billing
+
+  1. Purpose
+    - Services priced `per_minute`, `per_kb` or `per_token` only know the
+      charge after the request ran, so session payments for them hold an
+      upper bound first and settle the measured amount afterwards
+    - The pricing breakdown (units, unit price, min/max clamps, usage) is
+      stored in `x402_transactions.metadata.billing`
+
+  2. New functions
+    - `x402_hold_session(...)` - debits the hold through `x402_debit_session`
+      (same scope, balance and idempotency checks) and leaves the transaction
+      `pending`
+    - `x402_settle_hold(p_transaction_id, p_amount, p_billing, p_failed)` -
+      charges at most the held amount, returns the rest to the session and
+      completes (or fails) the transaction
+    - `x402_record_billing(p_transaction_id, p_billing)` - attaches a billing
+      breakdown to a completed transaction that has none yet (credit and
+      proof payments, which are charged once the usage is known)
+
+  3. Security
+    - `x402_transactions` has no update policy for anon, so these functions
+      run as SECURITY DEFINER and only touch rows they have validated
+*/
+
+CREATE OR REPLACE FUNCTION x402_hold_session(
+  p_session_token text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL,
+  p_resource text DEFAULT NULL,
+  p_billing jsonb DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  v_result := x402_debit_session(
+    p_session_token,
+    p_amount,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_idempotency_key,
+    p_x402_header,
+    p_resource
+  );
+
+  IF (v_result->>'success')::boolean AND NOT COALESCE((v_result->>'replayed')::boolean, false) THEN
+    UPDATE x402_transactions
+    SET
+      status = 'pending',
+      response_code = NULL,
+      metadata = metadata || jsonb_build_object('billing', p_billing || jsonb_build_object('hold_amount', p_amount))
+    WHERE id = (v_result->>'transaction_id')::uuid;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_settle_hold(
+  p_transaction_id uuid,
+  p_amount numeric,
+  p_billing jsonb DEFAULT '{}',
+  p_failed boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx x402_transactions%ROWTYPE;
+  v_hold numeric(18, 6);
+  v_final numeric(18, 6);
+  v_release numeric(18, 6);
+  v_remaining numeric(18, 6);
+BEGIN
+  SELECT * INTO v_tx
+  FROM x402_transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not found');
+  END IF;
+
+  IF v_tx.metadata->'billing'->'hold_amount' IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_A_HOLD', 'error', 'Transaction is not a metered hold');
+  END IF;
+
+  -- Settling twice (e.g. a retried request handler) returns the first result
+  IF v_tx.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'transaction_id', v_tx.id,
+      'amount_charged', v_tx.amount_charged,
+      'replayed', true
+    );
+  END IF;
+
+  v_hold := v_tx.amount_charged;
+  v_final := CASE WHEN p_failed THEN 0 ELSE LEAST(GREATEST(COALESCE(p_amount, 0), 0), v_hold) END;
+  v_release := v_hold - v_final;
+
+  IF v_tx.session_id IS NOT NULL AND v_release > 0 THEN
+    UPDATE x402_payment_sessions
+    SET
+      spent_amount = spent_amount - v_release,
+      remaining_amount = remaining_amount + v_release,
+      status = CASE WHEN status = 'depleted' THEN 'active' ELSE status END
+    WHERE id = v_tx.session_id
+    RETURNING remaining_amount INTO v_remaining;
+  END IF;
+
+  UPDATE x402_transactions
+  SET
+    amount_charged = v_final,
+    status = CASE WHEN p_failed THEN 'failed' ELSE 'completed' END,
+    metadata = metadata || jsonb_build_object(
+      'billing',
+      (metadata->'billing') || p_billing || jsonb_build_object(
+        'settled_amount', v_final,
+        'released_amount', v_release,
+        'capped_at_hold', NOT p_failed AND COALESCE(p_amount, 0) > v_hold
+      )
+    )
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx.id,
+    'amount_charged', v_final,
+    'released_amount', v_release,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_record_billing(
+  p_transaction_id uuid,
+  p_billing jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE x402_transactions
+  SET metadata = metadata || jsonb_build_object('billing', p_billing)
+  WHERE id = p_transaction_id
+    AND status = 'completed'
+    AND NOT (metadata ? 'billing');
+
+  RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION x402_hold_session IS 'Holds the upper bound of a metered x402 charge on a session';
+COMMENT ON FUNCTION x402_settle_hold IS 'Settles a metered x402 hold at the measured amount and releases the rest';
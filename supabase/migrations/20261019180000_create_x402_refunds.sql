@@ -0,0 +1,411 @@
+/*
+  # x402 refunds
+
+  1. Changes to x402_service_configs table
+    - `auto_refund` (boolean, default true) - refund calls the service failed
+    - `refund_status_codes` (integer[], default 500, 502, 503, 504) - upstream
+      status codes treated as a failed call; a request that never got a
+      response (network error, dropped connection) is always refundable
+
+  2. New table: x402_refunds
+    - One row per refund, automatic or manual
+    - `transaction_id` (uuid) - refunded `x402_transactions` row
+    - `amount` (numeric) - USD returned
+    - `reason` (text) - failure or dispute description
+    - `refund_type` (text) - `automatic` or `manual`
+    - `destination` (text) - `session` when the paying session is still
+      usable, otherwise `credits`
+    - `refunded_by` (text) - owner wallet for manual refunds
+
+  3. New functions
+    - `x402_refund_transaction(...)` - returns the amount to the paying session
+      or credit account and marks the transaction `refunded` once fully refunded.
+      Proof payments and closed sessions are refunded as platform credits
+    - `x402_refund_failed_call(p_transaction_id, p_response_code, p_error)` -
+      automatic refund, checked against the service's refund policy
+    - `x402_refund_by_owner(p_transaction_id, p_owner_wallet, p_reason, p_amount)` -
+      manual (possibly partial) refund by the service owner
+    - `x402_transaction_service(p_transaction_id)` - service config a
+      transaction paid for, resolved from the resource key, the authorization
+      charge or the service credit account
+
+  4. Changes to x402_authorization_charges table
+    - Charges may drop to 0 so refunds no longer count towards the rolling limits
+
+  5. Security
+    - RLS enabled on x402_refunds with an anon select policy; refunds are only
+      written by the SECURITY DEFINER functions above
+*/
+
+ALTER TABLE x402_service_configs
+ADD COLUMN IF NOT EXISTS auto_refund boolean DEFAULT true,
+ADD COLUMN IF NOT EXISTS refund_status_codes integer[] DEFAULT '{500,502,503,504}';
+
+ALTER TABLE x402_authorization_charges
+DROP CONSTRAINT IF EXISTS positive_authorization_charge;
+
+ALTER TABLE x402_authorization_charges
+ADD CONSTRAINT positive_authorization_charge CHECK (amount >= 0);
+
+CREATE TABLE IF NOT EXISTS x402_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES x402_transactions(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  amount numeric(18, 6) NOT NULL,
+  reason text NOT NULL,
+  refund_type text NOT NULL,
+  destination text NOT NULL,
+  session_id uuid REFERENCES x402_payment_sessions(id) ON DELETE SET NULL,
+  credit_id uuid REFERENCES x402_payment_credits(id) ON DELETE SET NULL,
+  refunded_by text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT positive_refund_amount CHECK (amount > 0),
+  CONSTRAINT valid_refund_type CHECK (refund_type IN ('automatic', 'manual')),
+  CONSTRAINT valid_refund_destination CHECK (destination IN ('session', 'credits'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_refunds_transaction ON x402_refunds(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_x402_refunds_wallet ON x402_refunds(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_x402_refunds_created ON x402_refunds(created_at DESC);
+
+ALTER TABLE x402_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view refunds"
+  ON x402_refunds FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE OR REPLACE FUNCTION x402_transaction_service(p_transaction_id uuid)
+RETURNS x402_service_configs
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_tx x402_transactions%ROWTYPE;
+  v_config x402_service_configs%ROWTYPE;
+  v_resource text;
+BEGIN
+  SELECT * INTO v_tx FROM x402_transactions WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Session and proof payments store the `serviceType/serviceId/path` key
+  v_resource := v_tx.metadata->>'resource';
+  IF v_resource ~ '^(agent|api|web_service)/[0-9a-fA-F-]{36}(/|$)' THEN
+    SELECT * INTO v_config
+    FROM x402_service_configs
+    WHERE service_type = split_part(v_resource, '/', 1)
+      AND service_id = split_part(v_resource, '/', 2)::uuid;
+
+    IF FOUND THEN
+      RETURN v_config;
+    END IF;
+  END IF;
+
+  SELECT c.* INTO v_config
+  FROM x402_authorization_charges ac
+  JOIN x402_payment_authorizations a ON a.id = ac.authorization_id
+  JOIN x402_service_configs c ON c.service_id = a.service_id AND c.service_type = a.service_type
+  WHERE ac.transaction_id = p_transaction_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN v_config;
+  END IF;
+
+  IF v_tx.metadata ? 'credit_id' THEN
+    SELECT c.* INTO v_config
+    FROM x402_payment_credits pc
+    JOIN x402_service_configs c ON c.service_id = pc.service_id AND c.service_type = pc.service_type
+    WHERE pc.id = (v_tx.metadata->>'credit_id')::uuid;
+
+    IF FOUND THEN
+      RETURN v_config;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_refund_transaction(
+  p_transaction_id uuid,
+  p_reason text,
+  p_amount numeric DEFAULT NULL,
+  p_refund_type text DEFAULT 'manual',
+  p_refunded_by text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx x402_transactions%ROWTYPE;
+  v_session x402_payment_sessions%ROWTYPE;
+  v_refunded numeric(18, 6);
+  v_amount numeric(18, 6);
+  v_destination text;
+  v_session_id uuid;
+  v_credit_id uuid;
+  v_balance numeric(18, 6);
+  v_refund_id uuid;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'REASON_REQUIRED', 'error', 'A refund reason is required');
+  END IF;
+
+  SELECT * INTO v_tx
+  FROM x402_transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not found');
+  END IF;
+
+  v_refunded := COALESCE((v_tx.metadata->'refund'->>'refunded_amount')::numeric, 0);
+
+  -- Retried automatic refunds return the first result
+  IF v_tx.status = 'refunded' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'transaction_id', v_tx.id,
+      'refunded_amount', v_refunded,
+      'replayed', true
+    );
+  END IF;
+
+  IF v_tx.status <> 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_REFUNDABLE', 'error', 'Only completed transactions can be refunded');
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_tx.amount_charged - v_refunded);
+
+  IF v_amount <= 0 OR v_amount > v_tx.amount_charged - v_refunded THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_REFUND_AMOUNT',
+      'error', 'Refund must be positive and at most the unrefunded amount',
+      'refundable_amount', v_tx.amount_charged - v_refunded
+    );
+  END IF;
+
+  IF v_tx.session_id IS NOT NULL THEN
+    SELECT * INTO v_session
+    FROM x402_payment_sessions
+    WHERE id = v_tx.session_id
+    FOR UPDATE;
+
+    IF FOUND AND v_session.status IN ('active', 'depleted') AND v_session.expires_at > now() THEN
+      UPDATE x402_payment_sessions
+      SET
+        spent_amount = GREATEST(spent_amount - v_amount, 0),
+        remaining_amount = remaining_amount + v_amount,
+        status = 'active'
+      WHERE id = v_session.id
+      RETURNING remaining_amount INTO v_balance;
+
+      v_destination := 'session';
+      v_session_id := v_session.id;
+    END IF;
+  END IF;
+
+  IF v_destination IS NULL AND v_tx.metadata ? 'credit_id' THEN
+    UPDATE x402_payment_credits
+    SET
+      credit_balance = credit_balance + v_amount,
+      total_spent = GREATEST(total_spent - v_amount, 0),
+      updated_at = now()
+    WHERE id = (v_tx.metadata->>'credit_id')::uuid
+    RETURNING id, credit_balance INTO v_credit_id, v_balance;
+
+    IF FOUND THEN
+      v_destination := 'credits';
+    END IF;
+  END IF;
+
+  -- On-chain proofs and closed sessions are refunded as platform credits
+  IF v_destination IS NULL THEN
+    SELECT id INTO v_credit_id
+    FROM x402_payment_credits
+    WHERE wallet_address = v_tx.wallet_address
+      AND service_id IS NULL
+      AND service_type = CASE v_tx.resource_type
+        WHEN 'agent_execution' THEN 'agent'
+        WHEN 'data_access' THEN 'web_service'
+        ELSE 'api'
+      END
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE x402_payment_credits
+      SET credit_balance = credit_balance + v_amount, updated_at = now()
+      WHERE id = v_credit_id
+      RETURNING credit_balance INTO v_balance;
+    ELSE
+      INSERT INTO x402_payment_credits (wallet_address, service_id, service_type, credit_balance)
+      VALUES (
+        v_tx.wallet_address,
+        NULL,
+        CASE v_tx.resource_type
+          WHEN 'agent_execution' THEN 'agent'
+          WHEN 'data_access' THEN 'web_service'
+          ELSE 'api'
+        END,
+        v_amount
+      )
+      RETURNING id, credit_balance INTO v_credit_id, v_balance;
+    END IF;
+
+    v_destination := 'credits';
+  END IF;
+
+  -- Refunded authorization charges stop counting towards the limits
+  UPDATE x402_authorization_charges
+  SET amount = GREATEST(amount - v_amount, 0)
+  WHERE transaction_id = v_tx.id;
+
+  UPDATE x402_payment_authorizations a
+  SET total_spent = GREATEST(a.total_spent - v_amount, 0), updated_at = now()
+  FROM x402_authorization_charges ac
+  WHERE ac.transaction_id = v_tx.id
+    AND a.id = ac.authorization_id;
+
+  INSERT INTO x402_refunds (
+    transaction_id,
+    wallet_address,
+    amount,
+    reason,
+    refund_type,
+    destination,
+    session_id,
+    credit_id,
+    refunded_by
+  ) VALUES (
+    v_tx.id,
+    v_tx.wallet_address,
+    v_amount,
+    p_reason,
+    p_refund_type,
+    v_destination,
+    v_session_id,
+    v_credit_id,
+    p_refunded_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  UPDATE x402_transactions
+  SET
+    status = CASE WHEN v_refunded + v_amount >= amount_charged THEN 'refunded' ELSE status END,
+    metadata = metadata || jsonb_build_object(
+      'refund',
+      jsonb_build_object(
+        'refunded_amount', v_refunded + v_amount,
+        'reason', p_reason,
+        'refund_type', p_refund_type,
+        'refunded_at', now()
+      )
+    )
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refund_id', v_refund_id,
+    'transaction_id', v_tx.id,
+    'amount', v_amount,
+    'refunded_amount', v_refunded + v_amount,
+    'destination', v_destination,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_refund_failed_call(
+  p_transaction_id uuid,
+  p_response_code integer DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+  v_status_codes integer[] := '{500,502,503,504}';
+BEGIN
+  v_config := x402_transaction_service(p_transaction_id);
+
+  IF v_config.id IS NOT NULL THEN
+    IF NOT COALESCE(v_config.auto_refund, true) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'AUTO_REFUND_DISABLED', 'error', 'Service does not refund failed calls');
+    END IF;
+
+    v_status_codes := COALESCE(v_config.refund_status_codes, v_status_codes);
+  END IF;
+
+  -- No response code means the call never completed
+  IF p_response_code IS NOT NULL AND NOT (p_response_code = ANY(v_status_codes)) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'NOT_REFUNDABLE_STATUS',
+      'error', 'HTTP ' || p_response_code || ' is not refundable for this service'
+    );
+  END IF;
+
+  UPDATE x402_transactions
+  SET response_code = p_response_code, error_message = p_error
+  WHERE id = p_transaction_id
+    AND status = 'completed';
+
+  RETURN x402_refund_transaction(
+    p_transaction_id,
+    CASE
+      WHEN p_response_code IS NULL THEN 'Call failed: ' || COALESCE(p_error, 'no response')
+      ELSE 'Upstream returned HTTP ' || p_response_code
+    END,
+    NULL,
+    'automatic',
+    NULL
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_refund_by_owner(
+  p_transaction_id uuid,
+  p_owner_wallet text,
+  p_reason text,
+  p_amount numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+BEGIN
+  v_config := x402_transaction_service(p_transaction_id);
+
+  IF v_config.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SERVICE_NOT_FOUND', 'error', 'Transaction is not linked to a service');
+  END IF;
+
+  IF v_config.owner_wallet <> p_owner_wallet THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_SERVICE_OWNER', 'error', 'Only the service owner can refund this transaction');
+  END IF;
+
+  RETURN x402_refund_transaction(p_transaction_id, p_reason, p_amount, 'manual', p_owner_wallet);
+END;
+$$;
+
+COMMENT ON COLUMN x402_service_configs.auto_refund IS 'Refund x402 calls that fail with a refundable status or never complete';
+COMMENT ON COLUMN x402_service_configs.refund_status_codes IS 'Upstream HTTP status codes that trigger an automatic refund';
+COMMENT ON TABLE x402_refunds IS 'Automatic and manual refunds of x402 transactions';
+COMMENT ON FUNCTION x402_refund_transaction IS 'Returns an x402 charge to the paying session or credit account';
+COMMENT ON FUNCTION x402_refund_failed_call IS 'Refunds a failed x402 call according to the service refund policy';
+COMMENT ON FUNCTION x402_refund_by_owner IS 'Manual refund of an x402 transaction by the service owner';
@@ -0,0 +1,41 @@
+/*
+  # x402 USDC settlement
+
+  1. Changes to x402_payment_sessions table
+    - Add `payment_currency` (text, default SOL) - currency the upfront payment
+      was made in; wallet renewals pay in the same currency
+
+  2. Changes to x402_used_payment_proofs table
+    - `lamports` is now nullable, USDC proofs transfer no lamports
+    - Add `token_mint` (text) - SPL mint of a token proof
+    - Add `token_amount` (numeric) - token amount received by the recipient
+
+  3. Notes
+    - `x402_service_configs.currency` already allows USDC; proofs for USDC
+      services must now be USDC transfers, checked against the token balance
+      deltas of the recipient's accounts
+*/
+
+ALTER TABLE x402_payment_sessions
+ADD COLUMN IF NOT EXISTS payment_currency text DEFAULT 'SOL';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'valid_session_payment_currency'
+  ) THEN
+    ALTER TABLE x402_payment_sessions
+    ADD CONSTRAINT valid_session_payment_currency CHECK (payment_currency IN ('SOL', 'USDC'));
+  END IF;
+END $$;
+
+ALTER TABLE x402_used_payment_proofs
+ALTER COLUMN lamports DROP NOT NULL;
+
+ALTER TABLE x402_used_payment_proofs
+ADD COLUMN IF NOT EXISTS token_mint text,
+ADD COLUMN IF NOT EXISTS token_amount numeric(20, 6);
+
+COMMENT ON COLUMN x402_payment_sessions.payment_currency IS 'Currency of the upfront session payment (SOL or USDC)';
+COMMENT ON COLUMN x402_used_payment_proofs.token_mint IS 'SPL token mint of a token payment proof';
+COMMENT ON COLUMN x402_used_payment_proofs.token_amount IS 'Token amount the recipient received';
@@ -0,0 +1,77 @@
+/*
+  # Revenue split payments
+
+  1. New table: payment_splits
+    - One row per leg of a split payment, all sharing the transaction signature
+    - `recipient_address` (text) - wallet that received the leg
+    - `role` (text) - 'creator' for the agent/API owner, 'platform' for the fee wallet
+    - `share_percent` (numeric) - percentage of the payment this leg carries
+    - `currency` (text) - SOL or USDC
+    - `amount` (numeric) - UI amount of the leg
+    - `amount_base_units` (numeric) - lamports or token base units actually transferred
+    - `amount_usd` (numeric) - USD value of the leg at payment time
+    - `service_type` / `service_id` - the agent or API that was paid for
+    - `status` (text) - pending until every leg has been checked on-chain,
+      then verified or failed
+
+  2. Security
+    - RLS enabled; anyone can read splits (creators see their earnings),
+      anonymous users can insert splits and record verification results
+
+  3. Notes
+    - Each payment is a single transaction with one transfer per leg, so legs
+      cannot land partially; amounts are allocated in basis points and the
+      rounding remainder goes to the platform leg
+*/
+
+CREATE TABLE IF NOT EXISTS payment_splits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_signature text NOT NULL,
+  payer_wallet text NOT NULL,
+  payment_type text NOT NULL DEFAULT 'agent_payment',
+  service_type text,
+  service_id uuid,
+  recipient_address text NOT NULL,
+  role text NOT NULL,
+  share_percent numeric(5, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'SOL',
+  amount numeric(20, 9) NOT NULL,
+  amount_base_units numeric(30, 0) NOT NULL,
+  amount_usd numeric(18, 6),
+  status text NOT NULL DEFAULT 'pending',
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT unique_payment_split_leg UNIQUE (transaction_signature, role),
+  CONSTRAINT valid_split_role CHECK (role IN ('creator', 'platform')),
+  CONSTRAINT valid_split_percent CHECK (share_percent > 0 AND share_percent <= 100),
+  CONSTRAINT valid_split_currency CHECK (currency IN ('SOL', 'USDC')),
+  CONSTRAINT valid_split_service_type CHECK (service_type IS NULL OR service_type IN ('agent', 'api')),
+  CONSTRAINT valid_split_status CHECK (status IN ('pending', 'verified', 'failed')),
+  CONSTRAINT positive_split_amount CHECK (amount_base_units > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_splits_signature ON payment_splits(transaction_signature);
+CREATE INDEX IF NOT EXISTS idx_payment_splits_recipient ON payment_splits(recipient_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_splits_service ON payment_splits(service_type, service_id);
+
+ALTER TABLE payment_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view payment splits"
+  ON payment_splits FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anonymous can insert payment splits"
+  ON payment_splits FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous can update payment split status"
+  ON payment_splits FOR UPDATE
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE payment_splits IS 'Legs of split payments: creator share and platform fee of one transaction';
+COMMENT ON COLUMN payment_splits.share_percent IS 'Percentage of the payment carried by this leg';
+COMMENT ON COLUMN payment_splits.amount_base_units IS 'Lamports or token base units transferred to the recipient';
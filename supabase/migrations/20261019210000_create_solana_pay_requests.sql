@@ -0,0 +1,265 @@
+/*
+  # Solana Pay transfer requests
+
+  1. New table: solana_pay_requests
+    - One row per QR code shown to a payer
+    - `reference` (text, unique) - random public key added to the transfer as a
+      read-only account; the watcher finds the payment by querying signatures
+      for this address
+    - `recipient`, `amount`, `amount_base_units`, `currency`, `spl_token` - what
+      the transfer request URL asks the wallet to pay
+    - `purpose` (text) - what the payment is for: agent_execution, x402_session,
+      credit_top_up or api_payment
+    - `params` (jsonb) - purpose specific input (agent id and query, session
+      resource patterns and duration, credit service)
+    - `status` (text) - pending, confirmed or expired
+    - `transaction_signature` (text, unique) - the transfer that paid it
+    - `payer_wallet` (text) - wallet that signed the transfer on the payer's device
+    - `target_id` (text) - execution id, session id or credit id it produced
+
+  2. New functions
+    - `solana_pay_fulfill_request(p_reference, p_signature, p_payer_wallet, p_amount_base_units)`
+      Locks the request, checks the amount and that the signature has not paid
+      for another request, then creates the execution, session or credits for
+      the payer wallet in the same transaction. Calling it again with the same
+      signature returns the first result.
+
+  3. Security
+    - RLS enabled; anonymous users can create and read requests and mark them
+      expired, fulfilment only goes through the function
+
+  4. Notes
+    - Transfer requests have a single recipient, so these payments go to the
+      platform wallet rather than being split with the creator
+    - A payment that lands after the request expired is still honoured
+*/
+
+CREATE TABLE IF NOT EXISTS solana_pay_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text UNIQUE NOT NULL,
+  recipient text NOT NULL,
+  amount numeric(20, 9) NOT NULL,
+  amount_base_units numeric(30, 0) NOT NULL,
+  currency text NOT NULL DEFAULT 'SOL',
+  spl_token text,
+  amount_usd numeric(18, 6) NOT NULL,
+  purpose text NOT NULL,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  label text,
+  message text,
+  status text NOT NULL DEFAULT 'pending',
+  transaction_signature text UNIQUE,
+  payer_wallet text,
+  target_id text,
+  expires_at timestamptz NOT NULL,
+  confirmed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_solana_pay_currency CHECK (currency IN ('SOL', 'USDC')),
+  CONSTRAINT valid_solana_pay_purpose CHECK (purpose IN ('agent_execution', 'x402_session', 'credit_top_up', 'api_payment')),
+  CONSTRAINT valid_solana_pay_status CHECK (status IN ('pending', 'confirmed', 'expired')),
+  CONSTRAINT positive_solana_pay_amount CHECK (amount_base_units > 0 AND amount_usd > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_solana_pay_requests_pending ON solana_pay_requests(expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_solana_pay_requests_payer ON solana_pay_requests(payer_wallet);
+
+ALTER TABLE solana_pay_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view solana pay requests"
+  ON solana_pay_requests FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anonymous can create solana pay requests"
+  ON solana_pay_requests FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'pending' AND transaction_signature IS NULL);
+
+CREATE POLICY "Anonymous can expire solana pay requests"
+  ON solana_pay_requests FOR UPDATE
+  TO anon, authenticated
+  USING (status = 'pending')
+  WITH CHECK (status = 'expired');
+
+CREATE OR REPLACE FUNCTION solana_pay_fulfill_request(
+  p_reference text,
+  p_signature text,
+  p_payer_wallet text,
+  p_amount_base_units numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request solana_pay_requests%ROWTYPE;
+  v_target_id text;
+  v_session_token text;
+  v_credit_id uuid;
+  v_service_id uuid;
+  v_service_type text;
+BEGIN
+  SELECT * INTO v_request
+  FROM solana_pay_requests
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'REQUEST_NOT_FOUND', 'error', 'Payment request not found');
+  END IF;
+
+  IF v_request.status = 'confirmed' THEN
+    IF v_request.transaction_signature = p_signature THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'request_id', v_request.id,
+        'purpose', v_request.purpose,
+        'target_id', v_request.target_id,
+        'session_token', (SELECT session_token FROM x402_payment_sessions WHERE id::text = v_request.target_id AND v_request.purpose = 'x402_session')
+      );
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error_code', 'ALREADY_FULFILLED', 'error', 'Payment request was already paid by another transaction');
+  END IF;
+
+  IF p_amount_base_units < v_request.amount_base_units THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'AMOUNT_MISMATCH',
+      'error', format('Expected %s base units, received %s', v_request.amount_base_units, p_amount_base_units)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM solana_pay_requests WHERE transaction_signature = p_signature) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already paid for another request');
+  END IF;
+
+  IF v_request.purpose = 'agent_execution' THEN
+    INSERT INTO agent_executions (
+      agent_id,
+      status,
+      cost_usdc,
+      payment_required,
+      transaction_signature,
+      input_data
+    )
+    VALUES (
+      (v_request.params->>'agent_id')::uuid,
+      'processing',
+      v_request.amount_usd,
+      true,
+      p_signature,
+      COALESCE(v_request.params->'input_data', '{}'::jsonb)
+    )
+    RETURNING id::text INTO v_target_id;
+
+  ELSIF v_request.purpose = 'x402_session' THEN
+    v_session_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+    INSERT INTO x402_payment_sessions (
+      wallet_address,
+      session_token,
+      authorized_amount,
+      spent_amount,
+      remaining_amount,
+      resource_pattern,
+      resource_patterns,
+      status,
+      expires_at,
+      initial_payment_signature,
+      payment_currency
+    )
+    SELECT
+      p_payer_wallet,
+      v_session_token,
+      v_request.amount_usd,
+      0,
+      v_request.amount_usd,
+      patterns[1],
+      patterns,
+      'active',
+      now() + make_interval(hours => COALESCE((v_request.params->>'duration_hours')::integer, 24)),
+      p_signature,
+      v_request.currency
+    FROM (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(v_request.params->'resource_patterns')) AS patterns
+    ) p
+    RETURNING id::text INTO v_target_id;
+
+  ELSIF v_request.purpose = 'credit_top_up' THEN
+    v_service_id := NULLIF(v_request.params->>'service_id', '')::uuid;
+    v_service_type := COALESCE(v_request.params->>'service_type', 'api');
+
+    SELECT id INTO v_credit_id
+    FROM x402_payment_credits
+    WHERE wallet_address = p_payer_wallet
+      AND service_id IS NOT DISTINCT FROM v_service_id
+      AND service_type = v_service_type
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE x402_payment_credits
+      SET
+        credit_balance = credit_balance + v_request.amount_usd,
+        total_purchased = total_purchased + v_request.amount_usd,
+        last_topup_tx = p_signature,
+        last_topup_amount = v_request.amount_usd,
+        last_topup_at = now(),
+        updated_at = now()
+      WHERE id = v_credit_id;
+    ELSE
+      INSERT INTO x402_payment_credits (
+        wallet_address,
+        service_id,
+        service_type,
+        credit_balance,
+        total_purchased,
+        total_spent,
+        last_topup_tx,
+        last_topup_amount,
+        last_topup_at
+      )
+      VALUES (
+        p_payer_wallet,
+        v_service_id,
+        v_service_type,
+        v_request.amount_usd,
+        v_request.amount_usd,
+        0,
+        p_signature,
+        v_request.amount_usd,
+        now()
+      )
+      RETURNING id INTO v_credit_id;
+    END IF;
+
+    v_target_id := v_credit_id::text;
+  END IF;
+
+  UPDATE solana_pay_requests
+  SET
+    status = 'confirmed',
+    transaction_signature = p_signature,
+    payer_wallet = p_payer_wallet,
+    target_id = v_target_id,
+    confirmed_at = now()
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'replayed', false,
+    'request_id', v_request.id,
+    'purpose', v_request.purpose,
+    'target_id', v_target_id,
+    'session_token', v_session_token
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION solana_pay_fulfill_request(text, text, text, numeric) TO anon, authenticated;
+
+COMMENT ON TABLE solana_pay_requests IS 'Solana Pay transfer requests shown as QR codes, matched to payments by reference key';
+COMMENT ON COLUMN solana_pay_requests.reference IS 'Public key included in the transfer, used to find the payment on-chain';
+COMMENT ON FUNCTION solana_pay_fulfill_request IS 'Marks a request paid and creates the execution, session or credits it was created for';
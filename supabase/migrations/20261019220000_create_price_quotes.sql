@@ -0,0 +1,69 @@
+/*
+  # Locked price quotes
+
+  1. New table: price_quotes
+    - One row per SOL price quote shown to a payer
+    - `usd_amount`, `sol_amount`, `lamports`, `conversion_rate` - what the quote
+      locks; the payment must transfer at least `lamports`
+    - `price_source` (text) - oracle sources the rate came from
+    - `signer`, `signature` (text) - ed25519 key and signature over the quote id,
+      USD amount, lamports, rate and expiry; verifiers reject quotes whose
+      columns no longer match the signature
+    - `status` (text) - open until a payment redeems it, then used
+    - `transaction_signature` (text, unique) - the payment that used the quote
+    - `wallet_address` (text) - wallet the quote was issued to or redeemed by
+    - `expires_at` (timestamptz) - the payment has to land on-chain before this
+
+  2. Security
+    - RLS enabled; anonymous users can issue and read quotes and redeem an
+      open quote once
+
+  3. Notes
+    - The rate is copied to `x402_transactions.conversion_rate` and
+      `x402_transactions.sol_amount` when a quoted payment pays for an x402
+      request
+*/
+
+CREATE TABLE IF NOT EXISTS price_quotes (
+  id uuid PRIMARY KEY,
+  usd_amount numeric(18, 6) NOT NULL,
+  sol_amount numeric(20, 9) NOT NULL,
+  lamports numeric(30, 0) NOT NULL,
+  conversion_rate numeric(20, 6) NOT NULL,
+  price_source text NOT NULL,
+  signer text NOT NULL,
+  signature text NOT NULL,
+  status text NOT NULL DEFAULT 'open',
+  transaction_signature text UNIQUE,
+  wallet_address text,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_quote_status CHECK (status IN ('open', 'used')),
+  CONSTRAINT positive_quote_amounts CHECK (usd_amount > 0 AND lamports > 0 AND conversion_rate > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_quotes_wallet ON price_quotes(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_price_quotes_open ON price_quotes(expires_at) WHERE status = 'open';
+
+ALTER TABLE price_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anonymous can view price quotes"
+  ON price_quotes FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anonymous can issue price quotes"
+  ON price_quotes FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'open' AND transaction_signature IS NULL);
+
+CREATE POLICY "Anonymous can redeem open price quotes"
+  ON price_quotes FOR UPDATE
+  TO anon, authenticated
+  USING (status = 'open')
+  WITH CHECK (status = 'used' AND transaction_signature IS NOT NULL);
+
+COMMENT ON TABLE price_quotes IS 'Signed, time-limited SOL/USD quotes that payments are built and verified against';
+COMMENT ON COLUMN price_quotes.lamports IS 'Minimum lamports the payment must transfer';
+COMMENT ON COLUMN price_quotes.signature IS 'Base58 ed25519 signature by signer over id, usd_amount, lamports, conversion_rate and expires_at';
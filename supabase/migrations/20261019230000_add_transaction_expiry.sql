@@ -0,0 +1,105 @@
+/*
+  # Expiring dropped payments
+
+  1. Changes to transaction_logs
+    - Rows are logged as soon as a payment is broadcast, before it confirms.
+      `metadata` carries `raw_transaction` (the signed transaction, base64),
+      `blockhash` and `last_valid_block_height`, so the monitor can rebroadcast
+      a dropped transaction after a reload while its blockhash is valid
+    - New status value `expired` for payments whose blockhash expired without
+      the transaction landing; the payer was never charged
+
+  2. New functions
+    - `expire_transaction_log(p_signature, p_reason)`
+      Locks a pending log row, marks it expired and cancels what the payment
+      paid for in the same transaction:
+        - `agent_executions` with the signature that have not finished are failed
+        - active `x402_payment_sessions` opened with it are revoked
+        - `x402_payment_credits` topped up with it lose the top-up amount
+      Returns what was undone so the client can tell the payer
+
+  3. Notes
+    - Only the transaction monitor calls this, after checking the chain is past
+      `last_valid_block_height` and the signature is still unknown
+    - Rows that are no longer pending are left alone, so calling it twice is safe
+*/
+
+CREATE OR REPLACE FUNCTION expire_transaction_log(
+  p_signature text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log record;
+  v_executions integer := 0;
+  v_sessions integer := 0;
+  v_credits integer := 0;
+BEGIN
+  SELECT * INTO v_log
+  FROM transaction_logs
+  WHERE signature = p_signature
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not logged');
+  END IF;
+
+  IF v_log.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'NOT_PENDING',
+      'error', format('Transaction is already %s', v_log.status)
+    );
+  END IF;
+
+  UPDATE transaction_logs
+  SET
+    status = 'expired',
+    error_message = COALESCE(p_reason, 'Blockhash expired before the transaction landed')
+  WHERE signature = p_signature;
+
+  UPDATE agent_executions
+  SET
+    status = 'failed',
+    error_message = 'Payment expired before it was processed. You were not charged.',
+    completed_at = now()
+  WHERE transaction_signature = p_signature
+    AND status IN ('pending', 'payment_required', 'processing');
+
+  GET DIAGNOSTICS v_executions = ROW_COUNT;
+
+  UPDATE x402_payment_sessions
+  SET status = 'revoked'
+  WHERE initial_payment_signature = p_signature
+    AND status = 'active';
+
+  GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+  UPDATE x402_payment_credits
+  SET
+    credit_balance = GREATEST(credit_balance - COALESCE(last_topup_amount, 0), 0),
+    total_purchased = GREATEST(total_purchased - COALESCE(last_topup_amount, 0), 0),
+    updated_at = now()
+  WHERE last_topup_tx = p_signature;
+
+  GET DIAGNOSTICS v_credits = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'wallet_address', v_log.wallet_address,
+    'transaction_type', v_log.transaction_type,
+    'amount_usd', v_log.amount_usd,
+    'executions_cancelled', v_executions,
+    'sessions_revoked', v_sessions,
+    'credits_reversed', v_credits
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION expire_transaction_log(text, text) TO anon, authenticated;
+
+COMMENT ON FUNCTION expire_transaction_log IS 'Marks a pending payment expired and cancels the execution, session or credit top-up it paid for';
@@ -0,0 +1,110 @@
+/*
+  # Payment reconciliation
+
+  1. New table: payment_reconciliation_runs
+    - One row per run of the reconciliation job
+    - `cluster` (text) and `wallets` (text[]) - the platform wallets whose
+      on-chain history was scanned
+    - `window_start`, `window_end` (timestamptz) - block time range scanned and
+      record creation range checked
+    - `signatures_scanned`, `records_checked`, `matched_count`, `issue_count` -
+      totals for the run
+    - `status` (text) - running, completed or failed
+
+  2. New table: payment_reconciliation_issues
+    - One row per discrepancy found by a run
+    - `issue_type` (text):
+        - unrecorded_transfer - an incoming transfer with no internal record
+        - missing_transfer - a record whose signature never transferred to a
+          platform wallet
+        - multiple_records - one transfer claimed by several records
+        - status_mismatch - a record that says failed, expired or pending for
+          a transfer that confirmed
+    - `signature`, `record_source`, `record_id` - what the issue is about;
+      `record_source` is agent_payments, payment_transactions,
+      transaction_logs, x402_payment_credits or x402_payment_sessions
+    - `amount_sol`, `amount_usd`, `token_amount` - on-chain amounts received,
+      or the recorded amounts when nothing was received
+    - `resolution_status` (text) - open until finance resolves or ignores it,
+      with `resolution_note`, `resolved_by`, `resolved_at`
+
+  3. Security
+    - RLS enabled; authenticated users (finance) can read runs and issues and
+      resolve issues; the job writes with the service role key
+*/
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster text NOT NULL,
+  wallets text[] NOT NULL,
+  window_start timestamptz,
+  window_end timestamptz NOT NULL,
+  signatures_scanned integer NOT NULL DEFAULT 0,
+  records_checked integer NOT NULL DEFAULT 0,
+  matched_count integer NOT NULL DEFAULT 0,
+  issue_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'running',
+  error_message text,
+  started_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  CONSTRAINT valid_reconciliation_status CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON payment_reconciliation_runs(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_issues (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid REFERENCES payment_reconciliation_runs(id) ON DELETE CASCADE NOT NULL,
+  issue_type text NOT NULL,
+  signature text NOT NULL,
+  record_source text,
+  record_id text,
+  wallet_address text,
+  amount_sol numeric(20, 9),
+  amount_usd numeric(18, 6),
+  token_amount numeric(20, 6),
+  block_time timestamptz,
+  details jsonb DEFAULT '{}'::jsonb,
+  resolution_status text NOT NULL DEFAULT 'open',
+  resolution_note text,
+  resolved_by text,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_reconciliation_issue_type CHECK (
+    issue_type IN ('unrecorded_transfer', 'missing_transfer', 'multiple_records', 'status_mismatch')
+  ),
+  CONSTRAINT valid_reconciliation_record_source CHECK (
+    record_source IS NULL OR record_source IN (
+      'agent_payments', 'payment_transactions', 'transaction_logs', 'x402_payment_credits', 'x402_payment_sessions'
+    )
+  ),
+  CONSTRAINT valid_reconciliation_resolution CHECK (resolution_status IN ('open', 'resolved', 'ignored'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_issues_run ON payment_reconciliation_issues(run_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_issues_signature ON payment_reconciliation_issues(signature);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_issues_open ON payment_reconciliation_issues(issue_type, created_at DESC)
+  WHERE resolution_status = 'open';
+
+ALTER TABLE payment_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reconciliation_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view reconciliation runs"
+  ON payment_reconciliation_runs FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view reconciliation issues"
+  ON payment_reconciliation_issues FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can resolve reconciliation issues"
+  ON payment_reconciliation_issues FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (resolution_status IN ('open', 'resolved', 'ignored'));
+
+COMMENT ON TABLE payment_reconciliation_runs IS 'Runs of the job that matches on-chain transfers to platform wallets against internal payment records';
+COMMENT ON TABLE payment_reconciliation_issues IS 'Discrepancies between on-chain transfers and payment records, for finance to resolve';
+COMMENT ON COLUMN payment_reconciliation_issues.signature IS 'Transaction signature of the transfer or of the record that claims one';
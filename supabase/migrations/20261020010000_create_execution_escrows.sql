@@ -0,0 +1,310 @@
+/*
+  # Escrowed agent execution payments
+
+  1. New table: execution_escrows
+    - One row per paid agent execution, holding the payment in the platform
+      controlled escrow wallet until the execution finishes
+    - `execution_id` (uuid, unique) - the execution the payment is for
+    - `payer_wallet`, `creator_wallet`, `escrow_wallet` - who paid, who is paid
+      on release (null pays the platform only), and where the funds are held
+    - `currency`, `amount`, `amount_base_units`, `amount_usd`,
+      `platform_fee_percent` - what was deposited and how a release is split
+    - `status` (text):
+        - awaiting_funding - execution created, deposit not recorded yet
+        - funded - deposit confirmed, execution running
+        - releasing / refunding - claimed by the settlement worker
+        - released - paid to the creator and platform after `completed`
+        - refunded - returned to the payer after `failed`, `rejected` or a timeout
+        - cancelled - never funded, or the deposit did not check out on-chain
+    - `funding_signature`, `settlement_signature` (text, unique) - deposit and
+      release/refund transactions; `settlement_last_valid_block_height` lets a
+      restarted worker tell whether an unconfirmed settlement can still land
+    - `funding_expires_at` - unfunded escrows are cancelled after this
+    - `timeout_at` - funded escrows whose execution has not finished by then
+      are refunded and the execution failed
+    - `worker_id`, `claimed_at`, `attempts` - settlement worker claim
+
+  2. New functions
+    - `escrow_open_execution(...)` - creates the execution (payment_required)
+      and its escrow in one go, returns both ids
+    - `escrow_fund_execution(p_execution_id, p_signature, p_amount, p_amount_base_units, p_timeout_seconds)`
+      records the deposit and moves the execution to `pending` so the
+      execution worker picks it up; repeating it with the same signature is a no-op
+    - `escrow_cancel_execution(p_execution_id)` - cancels an unfunded escrow
+      and fails its execution, for payments the user abandoned
+    - `claim_escrow_settlements(p_worker_id, p_limit, p_stale_after_seconds)`
+      cancels expired unfunded escrows, times out overdue executions and claims
+      funded escrows whose execution is terminal, with FOR UPDATE SKIP LOCKED
+
+  3. Security
+    - RLS enabled; anyone can read escrows (the tracker shows their state),
+      changes go through the functions or the service role settlement worker
+
+  4. Notes
+    - The deposit amount is reported by the client; the settlement worker
+      checks it on-chain before moving any funds out of escrow
+*/
+
+CREATE TABLE IF NOT EXISTS execution_escrows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  execution_id uuid UNIQUE NOT NULL REFERENCES agent_executions(id) ON DELETE CASCADE,
+  agent_id uuid REFERENCES agents(id) ON DELETE SET NULL,
+  payer_wallet text NOT NULL,
+  creator_wallet text,
+  escrow_wallet text NOT NULL,
+  currency text NOT NULL DEFAULT 'SOL',
+  amount numeric(20, 9),
+  amount_base_units numeric(30, 0),
+  amount_usd numeric(18, 6) NOT NULL,
+  platform_fee_percent numeric(5, 2) NOT NULL DEFAULT 10,
+  status text NOT NULL DEFAULT 'awaiting_funding',
+  funding_signature text UNIQUE,
+  settlement_signature text UNIQUE,
+  settlement_last_valid_block_height bigint,
+  settlement_error text,
+  worker_id text,
+  claimed_at timestamptz,
+  attempts integer NOT NULL DEFAULT 0,
+  funding_expires_at timestamptz NOT NULL DEFAULT now() + interval '15 minutes',
+  timeout_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  funded_at timestamptz,
+  settled_at timestamptz,
+  CONSTRAINT valid_escrow_status CHECK (
+    status IN ('awaiting_funding', 'funded', 'releasing', 'refunding', 'released', 'refunded', 'cancelled')
+  ),
+  CONSTRAINT valid_escrow_currency CHECK (currency IN ('SOL', 'USDC')),
+  CONSTRAINT valid_escrow_fee CHECK (platform_fee_percent >= 0 AND platform_fee_percent <= 100),
+  CONSTRAINT positive_escrow_amount CHECK (amount_usd > 0 AND (amount_base_units IS NULL OR amount_base_units > 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_escrows_payer ON execution_escrows(payer_wallet, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_execution_escrows_creator ON execution_escrows(creator_wallet, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_execution_escrows_open ON execution_escrows(status)
+  WHERE status IN ('awaiting_funding', 'funded', 'releasing', 'refunding');
+
+ALTER TABLE execution_escrows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view execution escrows"
+  ON execution_escrows FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION escrow_open_execution(
+  p_agent_id uuid,
+  p_payer_wallet text,
+  p_input_data jsonb,
+  p_amount_usd numeric,
+  p_currency text,
+  p_escrow_wallet text,
+  p_creator_wallet text DEFAULT NULL,
+  p_platform_fee_percent numeric DEFAULT 10
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution_id uuid;
+  v_escrow_id uuid;
+BEGIN
+  INSERT INTO agent_executions (agent_id, status, cost_usdc, payment_required, input_data)
+  VALUES (p_agent_id, 'payment_required', p_amount_usd, true, COALESCE(p_input_data, '{}'::jsonb))
+  RETURNING id INTO v_execution_id;
+
+  INSERT INTO execution_escrows (
+    execution_id,
+    agent_id,
+    payer_wallet,
+    creator_wallet,
+    escrow_wallet,
+    currency,
+    amount_usd,
+    platform_fee_percent
+  )
+  VALUES (
+    v_execution_id,
+    p_agent_id,
+    p_payer_wallet,
+    p_creator_wallet,
+    p_escrow_wallet,
+    p_currency,
+    p_amount_usd,
+    p_platform_fee_percent
+  )
+  RETURNING id INTO v_escrow_id;
+
+  RETURN jsonb_build_object('success', true, 'execution_id', v_execution_id, 'escrow_id', v_escrow_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION escrow_fund_execution(
+  p_execution_id uuid,
+  p_signature text,
+  p_amount numeric,
+  p_amount_base_units numeric,
+  p_timeout_seconds integer DEFAULT 600
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_escrow execution_escrows%ROWTYPE;
+BEGIN
+  SELECT * INTO v_escrow
+  FROM execution_escrows
+  WHERE execution_id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ESCROW_NOT_FOUND', 'error', 'No escrow for this execution');
+  END IF;
+
+  IF v_escrow.status <> 'awaiting_funding' THEN
+    IF v_escrow.funding_signature = p_signature THEN
+      RETURN jsonb_build_object('success', true, 'replayed', true, 'escrow_id', v_escrow.id, 'status', v_escrow.status);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'ESCROW_NOT_OPEN',
+      'error', format('Escrow is already %s', v_escrow.status)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM execution_escrows WHERE funding_signature = p_signature) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already funded another escrow');
+  END IF;
+
+  UPDATE execution_escrows
+  SET
+    status = 'funded',
+    funding_signature = p_signature,
+    amount = p_amount,
+    amount_base_units = p_amount_base_units,
+    funded_at = now(),
+    timeout_at = now() + make_interval(secs => p_timeout_seconds)
+  WHERE id = v_escrow.id;
+
+  UPDATE agent_executions
+  SET
+    status = 'pending',
+    transaction_signature = p_signature
+  WHERE id = p_execution_id
+    AND status = 'payment_required';
+
+  RETURN jsonb_build_object('success', true, 'replayed', false, 'escrow_id', v_escrow.id, 'status', 'funded');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION escrow_cancel_execution(p_execution_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE execution_escrows
+  SET
+    status = 'cancelled',
+    settled_at = now()
+  WHERE execution_id = p_execution_id
+    AND status = 'awaiting_funding';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ESCROW_NOT_OPEN', 'error', 'Escrow is not awaiting funding');
+  END IF;
+
+  UPDATE agent_executions
+  SET
+    status = 'failed',
+    error_message = 'Payment was not completed',
+    completed_at = now()
+  WHERE id = p_execution_id
+    AND status = 'payment_required';
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_escrow_settlements(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS SETOF execution_escrows
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deposits that never arrived
+  WITH expired AS (
+    UPDATE execution_escrows
+    SET status = 'cancelled', settled_at = now()
+    WHERE status = 'awaiting_funding'
+      AND funding_expires_at < now()
+    RETURNING execution_id
+  )
+  UPDATE agent_executions e
+  SET status = 'failed', error_message = 'Payment was not received in time', completed_at = now()
+  FROM expired
+  WHERE e.id = expired.execution_id
+    AND e.status = 'payment_required';
+
+  -- Executions that ran past the escrow timeout are failed, which refunds them
+  -- below; clearing worker_id stops a still-running execution worker from
+  -- writing a late result over it
+  UPDATE agent_executions e
+  SET
+    status = 'failed',
+    error_message = 'Execution timed out. Your payment is being refunded.',
+    completed_at = now(),
+    worker_id = NULL
+  FROM execution_escrows x
+  WHERE x.execution_id = e.id
+    AND x.status = 'funded'
+    AND x.timeout_at < now()
+    AND e.status IN ('pending', 'processing');
+
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT x.id, e.status AS execution_status
+    FROM execution_escrows x
+    JOIN agent_executions e ON e.id = x.execution_id
+    WHERE (
+        x.status = 'funded'
+        AND e.status IN ('completed', 'failed', 'rejected')
+      )
+      OR (
+        x.status IN ('releasing', 'refunding')
+        AND x.claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+      )
+    ORDER BY x.funded_at
+    LIMIT p_limit
+    FOR UPDATE OF x SKIP LOCKED
+  )
+  UPDATE execution_escrows x
+  SET
+    status = CASE
+      WHEN x.status IN ('releasing', 'refunding') THEN x.status
+      WHEN c.execution_status = 'completed' THEN 'releasing'
+      ELSE 'refunding'
+    END,
+    worker_id = p_worker_id,
+    claimed_at = now(),
+    attempts = x.attempts + 1
+  FROM claimable c
+  WHERE x.id = c.id
+  RETURNING x.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION escrow_open_execution(uuid, text, jsonb, numeric, text, text, text, numeric) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION escrow_fund_execution(uuid, text, numeric, numeric, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION escrow_cancel_execution(uuid) TO anon, authenticated;
+
+COMMENT ON TABLE execution_escrows IS 'Agent execution payments held in escrow until the execution completes, fails or times out';
+COMMENT ON COLUMN execution_escrows.amount_base_units IS 'Lamports or token base units deposited, as reported by the payer and checked on-chain before settlement';
+COMMENT ON FUNCTION claim_escrow_settlements IS 'Expires unfunded escrows, times out overdue executions and claims escrows ready to release or refund';
@@ -0,0 +1,541 @@
+/*
+  # x402 payment channels
+
+  1. New table: x402_payment_channels
+    - A consumer deposits once into the platform escrow wallet and then pays
+      each call with a voucher: the cumulative amount owed so far and an
+      increasing nonce, signed with the payer's wallet key
+    - `payer_wallet`, `recipient_wallet` (the service owner), `channel_wallet`
+      (where the deposit is held), `service_id`, `service_type`
+    - `deposit_amount` (USD), `deposit_base_units`, `deposit_signature`,
+      `currency` - the deposit; `deposit_verified_at` is set once the provider
+      has seen it on-chain
+    - `voucher_amount`, `voucher_nonce` - latest accepted voucher
+    - `settled_amount`, `settled_base_units`, `last_settled_at` - how much of
+      the vouchers has been paid out to the provider
+    - `settlement_threshold`, `settlement_interval_seconds` - an open channel
+      is settled once the unsettled amount reaches the threshold or the
+      interval has passed since the last settlement
+    - `status` (text):
+        - open - accepting vouchers
+        - closing - close requested, waiting for the dispute window to end
+        - closed - final settlement paid out, remainder refunded to the payer
+    - `dispute_window_seconds`, `close_requested_by`, `close_requested_at`,
+      `dispute_ends_at` - when the payer (or expiry) closes a channel, the
+      provider has until `dispute_ends_at` to submit a later voucher it holds
+    - `worker_id`, `claimed_at`, `settlement_error` - settlement worker claim
+
+  2. New table: x402_channel_vouchers
+    - Every accepted voucher with its signature, so settlement can fall back
+      to the latest voucher that verifies
+
+  3. New table: x402_channel_settlements
+    - One row per on-chain settlement (`periodic` or `final`), `pending`
+      until it confirms; `last_valid_block_height` lets a restarted worker
+      tell whether an unconfirmed settlement can still land
+
+  4. New functions
+    - `x402_open_channel(...)` - records a channel for a sent deposit
+    - `x402_accept_channel_voucher(...)` - checks a voucher against the
+      channel under a row lock (nonce, deposit, minimum increment) and records
+      the call in `x402_transactions`; without a resource it records a
+      dispute voucher on a closing channel
+    - `x402_request_channel_close(p_channel_id, p_wallet_address)` - a payer
+      close starts the dispute window, a provider close ends it right away
+    - `claim_x402_channel_settlements(p_worker_id, p_limit, p_stale_after_seconds)`
+      moves expired channels to closing and claims channels that are due
+    - `x402_confirm_channel_settlement(p_settlement_id)` - applies a
+      confirmed settlement to its channel, closing it after a final one
+
+  5. Security
+    - RLS enabled; anyone can read channels, vouchers and settlements, changes
+      go through the functions or the service role settlement worker
+
+  6. Notes
+    - Voucher signatures are checked by the provider before calling
+      `x402_accept_channel_voucher` and again by the settlement worker before
+      anything is paid out
+    - Error codes: SERVICE_NOT_CONFIGURED, CURRENCY_MISMATCH,
+      SIGNATURE_ALREADY_USED, CHANNEL_NOT_FOUND, WALLET_MISMATCH,
+      SERVICE_MISMATCH, CHANNEL_CLOSING, CHANNEL_CLOSED, CHANNEL_EXPIRED,
+      DISPUTE_WINDOW_OVER, DEPOSIT_NOT_VERIFIED, VOUCHER_REPLAYED,
+      INSUFFICIENT_CHANNEL_BALANCE, VOUCHER_TOO_LOW, NOT_CHANNEL_PARTY
+*/
+
+CREATE TABLE IF NOT EXISTS x402_payment_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payer_wallet text NOT NULL,
+  recipient_wallet text NOT NULL,
+  channel_wallet text NOT NULL,
+  service_id uuid NOT NULL,
+  service_type text NOT NULL,
+  currency text NOT NULL DEFAULT 'USDC',
+  deposit_amount numeric(18, 6) NOT NULL,
+  deposit_base_units numeric(30, 0) NOT NULL,
+  deposit_signature text UNIQUE NOT NULL,
+  deposit_verified_at timestamptz,
+  platform_fee_percent numeric(5, 2) NOT NULL DEFAULT 10,
+  voucher_amount numeric(18, 6) NOT NULL DEFAULT 0,
+  voucher_nonce bigint NOT NULL DEFAULT 0,
+  settled_amount numeric(18, 6) NOT NULL DEFAULT 0,
+  settled_base_units numeric(30, 0) NOT NULL DEFAULT 0,
+  settlement_threshold numeric(18, 6) NOT NULL DEFAULT 1,
+  settlement_interval_seconds integer NOT NULL DEFAULT 3600,
+  last_settled_at timestamptz,
+  status text NOT NULL DEFAULT 'open',
+  dispute_window_seconds integer NOT NULL DEFAULT 3600,
+  close_requested_by text,
+  close_requested_at timestamptz,
+  dispute_ends_at timestamptz,
+  expires_at timestamptz NOT NULL,
+  settlement_error text,
+  worker_id text,
+  claimed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  closed_at timestamptz,
+  CONSTRAINT valid_channel_status CHECK (status IN ('open', 'closing', 'closed')),
+  CONSTRAINT valid_channel_service_type CHECK (service_type IN ('agent', 'api', 'web_service')),
+  CONSTRAINT valid_channel_currency CHECK (currency IN ('SOL', 'USDC')),
+  CONSTRAINT valid_channel_fee CHECK (platform_fee_percent >= 0 AND platform_fee_percent <= 100),
+  CONSTRAINT valid_channel_close_requester CHECK (close_requested_by IS NULL OR close_requested_by IN ('payer', 'recipient', 'expiry')),
+  CONSTRAINT positive_channel_deposit CHECK (deposit_amount > 0 AND deposit_base_units > 0),
+  CONSTRAINT channel_voucher_within_deposit CHECK (voucher_amount <= deposit_amount AND settled_amount <= voucher_amount),
+  CONSTRAINT valid_channel_windows CHECK (dispute_window_seconds >= 0 AND settlement_interval_seconds > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_channels_payer ON x402_payment_channels(payer_wallet, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_x402_channels_recipient ON x402_payment_channels(recipient_wallet, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_x402_channels_active ON x402_payment_channels(status)
+  WHERE status IN ('open', 'closing');
+
+CREATE TABLE IF NOT EXISTS x402_channel_vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES x402_payment_channels(id) ON DELETE CASCADE,
+  amount numeric(18, 6) NOT NULL,
+  nonce bigint NOT NULL,
+  signature text NOT NULL,
+  transaction_id uuid REFERENCES x402_transactions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(channel_id, nonce)
+);
+
+CREATE TABLE IF NOT EXISTS x402_channel_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES x402_payment_channels(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  signature text UNIQUE NOT NULL,
+  last_valid_block_height bigint,
+  voucher_nonce bigint NOT NULL,
+  voucher_amount numeric(18, 6) NOT NULL,
+  amount numeric(18, 6) NOT NULL,
+  payout_base_units numeric(30, 0) NOT NULL DEFAULT 0,
+  refund_base_units numeric(30, 0) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending',
+  error text,
+  created_at timestamptz DEFAULT now(),
+  confirmed_at timestamptz,
+  CONSTRAINT valid_channel_settlement_kind CHECK (kind IN ('periodic', 'final')),
+  CONSTRAINT valid_channel_settlement_status CHECK (status IN ('pending', 'confirmed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_channel_settlements_channel
+ON x402_channel_settlements(channel_id, created_at DESC);
+
+ALTER TABLE x402_payment_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE x402_channel_vouchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE x402_channel_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view payment channels"
+  ON x402_payment_channels FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view channel vouchers"
+  ON x402_channel_vouchers FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view channel settlements"
+  ON x402_channel_settlements FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION x402_open_channel(
+  p_payer_wallet text,
+  p_service_id uuid,
+  p_service_type text,
+  p_channel_wallet text,
+  p_currency text,
+  p_deposit_amount numeric,
+  p_deposit_base_units numeric,
+  p_deposit_signature text,
+  p_duration_seconds integer DEFAULT 604800,
+  p_dispute_window_seconds integer DEFAULT 3600,
+  p_settlement_threshold numeric DEFAULT 1,
+  p_platform_fee_percent numeric DEFAULT 10
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+  v_channel_id uuid;
+  v_expires_at timestamptz := now() + make_interval(secs => p_duration_seconds);
+BEGIN
+  SELECT * INTO v_config
+  FROM x402_service_configs
+  WHERE service_id = p_service_id
+    AND service_type = p_service_type
+    AND is_active = true
+    AND accepts_x402 = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SERVICE_NOT_CONFIGURED', 'error', 'Service not configured for x402 payments');
+  END IF;
+
+  IF v_config.currency <> p_currency THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'CURRENCY_MISMATCH',
+      'error', format('Service is paid in %s', v_config.currency)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM x402_payment_channels WHERE deposit_signature = p_deposit_signature) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already funded another channel');
+  END IF;
+
+  INSERT INTO x402_payment_channels (
+    payer_wallet,
+    recipient_wallet,
+    channel_wallet,
+    service_id,
+    service_type,
+    currency,
+    deposit_amount,
+    deposit_base_units,
+    deposit_signature,
+    platform_fee_percent,
+    settlement_threshold,
+    dispute_window_seconds,
+    expires_at
+  )
+  VALUES (
+    p_payer_wallet,
+    v_config.owner_wallet,
+    p_channel_wallet,
+    p_service_id,
+    p_service_type,
+    p_currency,
+    p_deposit_amount,
+    p_deposit_base_units,
+    p_deposit_signature,
+    p_platform_fee_percent,
+    p_settlement_threshold,
+    p_dispute_window_seconds,
+    v_expires_at
+  )
+  RETURNING id INTO v_channel_id;
+
+  RETURN jsonb_build_object('success', true, 'channel_id', v_channel_id, 'expires_at', v_expires_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_accept_channel_voucher(
+  p_channel_id uuid,
+  p_wallet_address text,
+  p_amount numeric,
+  p_nonce bigint,
+  p_signature text,
+  p_min_increment numeric DEFAULT 0,
+  p_resource_url text DEFAULT NULL,
+  p_resource_type text DEFAULT 'api_call',
+  p_http_method text DEFAULT 'POST',
+  p_service_id uuid DEFAULT NULL,
+  p_service_type text DEFAULT NULL,
+  p_deposit_verified boolean DEFAULT false,
+  p_x402_header text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_channel x402_payment_channels%ROWTYPE;
+  v_increment numeric;
+  v_transaction_id uuid;
+BEGIN
+  SELECT * INTO v_channel
+  FROM x402_payment_channels
+  WHERE id = p_channel_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CHANNEL_NOT_FOUND', 'error', 'Payment channel not found');
+  END IF;
+
+  IF v_channel.payer_wallet <> p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Channel belongs to another wallet');
+  END IF;
+
+  IF p_service_id IS NOT NULL
+    AND (v_channel.service_id <> p_service_id OR v_channel.service_type IS DISTINCT FROM p_service_type) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SERVICE_MISMATCH', 'error', 'Channel is for another service');
+  END IF;
+
+  IF v_channel.status = 'closed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CHANNEL_CLOSED', 'error', 'Payment channel is closed');
+  END IF;
+
+  -- Paid calls need an open channel; a closing one only takes the provider's
+  -- dispute vouchers until the window ends
+  IF p_resource_url IS NOT NULL THEN
+    IF v_channel.status = 'closing' THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'CHANNEL_CLOSING', 'error', 'Payment channel is closing');
+    END IF;
+
+    IF v_channel.expires_at < now() THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'CHANNEL_EXPIRED', 'error', 'Payment channel has expired');
+    END IF;
+  ELSIF v_channel.status = 'closing' AND v_channel.dispute_ends_at <= now() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'DISPUTE_WINDOW_OVER', 'error', 'Dispute window has ended');
+  END IF;
+
+  IF v_channel.deposit_verified_at IS NULL AND NOT p_deposit_verified THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'DEPOSIT_NOT_VERIFIED', 'error', 'Channel deposit has not been verified');
+  END IF;
+
+  IF p_nonce <= v_channel.voucher_nonce THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'VOUCHER_REPLAYED',
+      'error', format('Voucher nonce must be greater than %s', v_channel.voucher_nonce),
+      'voucher_nonce', v_channel.voucher_nonce,
+      'voucher_amount', v_channel.voucher_amount
+    );
+  END IF;
+
+  IF p_amount > v_channel.deposit_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_CHANNEL_BALANCE',
+      'error', 'Voucher exceeds the channel deposit',
+      'remaining_amount', v_channel.deposit_amount - v_channel.voucher_amount
+    );
+  END IF;
+
+  v_increment := p_amount - v_channel.voucher_amount;
+
+  IF v_increment < GREATEST(p_min_increment, 0) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'VOUCHER_TOO_LOW',
+      'error', format('Voucher must add at least %s to %s', GREATEST(p_min_increment, 0), v_channel.voucher_amount),
+      'voucher_nonce', v_channel.voucher_nonce,
+      'voucher_amount', v_channel.voucher_amount
+    );
+  END IF;
+
+  UPDATE x402_payment_channels
+  SET
+    voucher_amount = p_amount,
+    voucher_nonce = p_nonce,
+    deposit_verified_at = COALESCE(deposit_verified_at, now())
+  WHERE id = p_channel_id;
+
+  IF p_resource_url IS NOT NULL THEN
+    INSERT INTO x402_transactions (
+      wallet_address,
+      resource_url,
+      resource_type,
+      http_method,
+      amount_charged,
+      x402_header,
+      status,
+      metadata
+    )
+    VALUES (
+      p_wallet_address,
+      p_resource_url,
+      p_resource_type,
+      p_http_method,
+      v_increment,
+      p_x402_header,
+      'completed',
+      jsonb_build_object('channel_id', p_channel_id, 'voucher_nonce', p_nonce, 'voucher_amount', p_amount)
+    )
+    RETURNING id INTO v_transaction_id;
+  END IF;
+
+  INSERT INTO x402_channel_vouchers (channel_id, amount, nonce, signature, transaction_id)
+  VALUES (p_channel_id, p_amount, p_nonce, p_signature, v_transaction_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'increment', v_increment,
+    'voucher_amount', p_amount,
+    'voucher_nonce', p_nonce,
+    'remaining_amount', v_channel.deposit_amount - p_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_request_channel_close(
+  p_channel_id uuid,
+  p_wallet_address text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_channel x402_payment_channels%ROWTYPE;
+  v_requested_by text;
+  v_dispute_ends_at timestamptz;
+BEGIN
+  SELECT * INTO v_channel
+  FROM x402_payment_channels
+  WHERE id = p_channel_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CHANNEL_NOT_FOUND', 'error', 'Payment channel not found');
+  END IF;
+
+  IF v_channel.status = 'closed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CHANNEL_CLOSED', 'error', 'Payment channel is closed');
+  END IF;
+
+  v_requested_by := CASE
+    WHEN p_wallet_address = v_channel.payer_wallet THEN 'payer'
+    WHEN p_wallet_address = v_channel.recipient_wallet THEN 'recipient'
+  END;
+
+  IF v_requested_by IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_CHANNEL_PARTY', 'error', 'Only the payer or the provider can close a channel');
+  END IF;
+
+  -- The provider can only give up its own right to dispute, so its close
+  -- settles right away; the payer has to leave the provider time to respond
+  IF v_requested_by = 'recipient' THEN
+    v_dispute_ends_at := now();
+  ELSIF v_channel.status = 'closing' THEN
+    v_dispute_ends_at := v_channel.dispute_ends_at;
+  ELSE
+    v_dispute_ends_at := now() + make_interval(secs => v_channel.dispute_window_seconds);
+  END IF;
+
+  UPDATE x402_payment_channels
+  SET
+    status = 'closing',
+    close_requested_by = CASE WHEN status = 'closing' THEN close_requested_by ELSE v_requested_by END,
+    close_requested_at = COALESCE(close_requested_at, now()),
+    dispute_ends_at = LEAST(COALESCE(dispute_ends_at, v_dispute_ends_at), v_dispute_ends_at)
+  WHERE id = p_channel_id
+  RETURNING dispute_ends_at INTO v_dispute_ends_at;
+
+  RETURN jsonb_build_object('success', true, 'status', 'closing', 'requested_by', v_requested_by, 'dispute_ends_at', v_dispute_ends_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_x402_channel_settlements(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS SETOF x402_payment_channels
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Expired channels close like a payer close, so the provider still gets
+  -- its dispute window
+  UPDATE x402_payment_channels
+  SET
+    status = 'closing',
+    close_requested_by = 'expiry',
+    close_requested_at = now(),
+    dispute_ends_at = now() + make_interval(secs => dispute_window_seconds)
+  WHERE status = 'open'
+    AND expires_at < now();
+
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT c.id
+    FROM x402_payment_channels c
+    WHERE (c.worker_id IS NULL OR c.claimed_at < now() - make_interval(secs => p_stale_after_seconds))
+      AND (
+        (c.status = 'closing' AND c.dispute_ends_at <= now())
+        OR (
+          c.status = 'open'
+          AND c.voucher_amount > c.settled_amount
+          AND (
+            c.voucher_amount - c.settled_amount >= c.settlement_threshold
+            OR COALESCE(c.last_settled_at, c.deposit_verified_at, c.created_at)
+              < now() - make_interval(secs => c.settlement_interval_seconds)
+          )
+        )
+        OR EXISTS (
+          SELECT 1 FROM x402_channel_settlements s
+          WHERE s.channel_id = c.id AND s.status = 'pending'
+        )
+      )
+    ORDER BY COALESCE(c.dispute_ends_at, c.last_settled_at, c.created_at)
+    LIMIT p_limit
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  UPDATE x402_payment_channels c
+  SET
+    worker_id = p_worker_id,
+    claimed_at = now()
+  FROM claimable
+  WHERE c.id = claimable.id
+  RETURNING c.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_confirm_channel_settlement(p_settlement_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settlement x402_channel_settlements%ROWTYPE;
+BEGIN
+  UPDATE x402_channel_settlements
+  SET status = 'confirmed', error = NULL, confirmed_at = now()
+  WHERE id = p_settlement_id
+    AND status = 'pending'
+  RETURNING * INTO v_settlement;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SETTLEMENT_NOT_PENDING', 'error', 'Settlement is not pending');
+  END IF;
+
+  UPDATE x402_payment_channels
+  SET
+    settled_amount = GREATEST(settled_amount, v_settlement.voucher_amount),
+    settled_base_units = settled_base_units + v_settlement.payout_base_units,
+    last_settled_at = now(),
+    settlement_error = NULL,
+    status = CASE WHEN v_settlement.kind = 'final' THEN 'closed' ELSE status END,
+    closed_at = CASE WHEN v_settlement.kind = 'final' THEN now() ELSE closed_at END,
+    worker_id = NULL,
+    claimed_at = NULL
+  WHERE id = v_settlement.channel_id;
+
+  RETURN jsonb_build_object('success', true, 'channel_id', v_settlement.channel_id, 'kind', v_settlement.kind);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION x402_open_channel(text, uuid, text, text, text, numeric, numeric, text, integer, integer, numeric, numeric) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION x402_accept_channel_voucher(uuid, text, numeric, bigint, text, numeric, text, text, text, uuid, text, boolean, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION x402_request_channel_close(uuid, text) TO anon, authenticated;
+
+COMMENT ON TABLE x402_payment_channels IS 'Prepaid x402 channels paid call by call with signed cumulative vouchers and settled on-chain in batches';
+COMMENT ON COLUMN x402_payment_channels.voucher_amount IS 'Cumulative USD owed under the latest accepted voucher';
+COMMENT ON COLUMN x402_payment_channels.dispute_ends_at IS 'Until then the provider can submit a later voucher for a closing channel';
+COMMENT ON FUNCTION claim_x402_channel_settlements IS 'Closes expired channels and claims channels due for a periodic or final settlement';
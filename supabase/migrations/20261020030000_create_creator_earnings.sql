@@ -0,0 +1,584 @@
+/*
+  # Creator earnings ledger and payout withdrawals
+
+  1. New table: creator_earnings
+    - Ledger of what each creator wallet earned, one row per entry
+    - `creator_wallet` (text) - agent creator or service owner
+    - `service_type`, `service_id` - the agent, API or web service paid for
+    - `entry_type` (text):
+        - earning - gross price of a paid execution or call
+        - platform_fee - the platform's share (negative; positive when a
+          refund returns it)
+        - refund - money returned to the payer (negative)
+    - `amount` (numeric) - signed USD
+    - `settlement` (text):
+        - custodial - the platform holds the money until it is withdrawn
+          (x402 sessions, credits and authorizations, refunds)
+        - direct - already paid to the creator on-chain (split payments,
+          escrow releases, channel settlements and payment proofs)
+    - `source`, `source_id` - the `x402_transactions`, `x402_refunds` or
+      `payment_splits` row the entry was recorded from; unique per entry type
+    - `available_at` - custodial earnings can be withdrawn from then on, after
+      a hold that leaves room for refunds
+    - `occurred_at` - when the payment or refund happened
+
+  2. New table: creator_withdrawals
+    - A creator's request to be paid their available balance
+    - `status` (text): requested, processing (in a payout batch), completed,
+      cancelled; a failed batch puts its withdrawals back to requested
+    - `amount` (USD), `currency` (SOL or USDC), `amount_base_units` and
+      `signature` once paid
+
+  3. New table: creator_payout_batches
+    - One on-chain transfer paying several withdrawals of the same currency
+    - `status` (text): pending, confirmed, failed
+    - `signature`, `last_valid_block_height` - set when sent, so a restarted
+      worker can tell whether the transfer can still land
+    - `worker_id`, `claimed_at`, `attempts` - payout worker claim
+
+  4. New functions
+    - `sync_creator_earnings(p_platform_fee_percent, p_hold_seconds, p_limit)`
+      records ledger entries for new payments and refunds and refreshes
+      `agents.revenue` and `apis.total_revenue` from the ledger
+    - `creator_earnings_balance(p_creator_wallet)` - pending, available,
+      processing and paid balances
+    - `request_creator_withdrawal(p_creator_wallet, p_amount, p_currency, p_minimum_amount)`
+    - `cancel_creator_withdrawal(p_withdrawal_id, p_creator_wallet)`
+    - `claim_creator_payouts(p_worker_id, p_currency, p_limit, p_stale_after_seconds)`
+      batches requested withdrawals, or reclaims a stale batch
+    - `complete_creator_payout_batch(p_batch_id, p_signature)` and
+      `release_creator_payout_batch(p_batch_id, p_error)`
+
+  5. Security
+    - RLS enabled; anyone can read the ledger, withdrawals and batches,
+      changes go through the functions or the service role payout worker
+    - Withdrawals are always paid to the requesting creator wallet
+
+  6. Notes
+    - Error codes: INVALID_AMOUNT, BELOW_MINIMUM_WITHDRAWAL,
+      INSUFFICIENT_AVAILABLE_BALANCE, WITHDRAWAL_NOT_FOUND,
+      WITHDRAWAL_NOT_CANCELLABLE
+*/
+
+CREATE TABLE IF NOT EXISTS creator_earnings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_wallet text NOT NULL,
+  service_type text,
+  service_id uuid,
+  entry_type text NOT NULL,
+  amount numeric(18, 6) NOT NULL,
+  settlement text NOT NULL,
+  source text NOT NULL,
+  source_id uuid NOT NULL,
+  transaction_signature text,
+  available_at timestamptz,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_earning_entry_type CHECK (entry_type IN ('earning', 'platform_fee', 'refund')),
+  CONSTRAINT valid_earning_settlement CHECK (settlement IN ('custodial', 'direct')),
+  CONSTRAINT valid_earning_source CHECK (source IN ('x402_transaction', 'x402_refund', 'payment_split')),
+  CONSTRAINT valid_earning_service_type CHECK (service_type IS NULL OR service_type IN ('agent', 'api', 'web_service')),
+  UNIQUE(source, source_id, entry_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_earnings_wallet ON creator_earnings(creator_wallet, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_earnings_service ON creator_earnings(service_type, service_id);
+
+CREATE TABLE IF NOT EXISTS creator_payout_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  total_amount numeric(18, 6) NOT NULL,
+  signature text UNIQUE,
+  last_valid_block_height bigint,
+  error text,
+  worker_id text,
+  claimed_at timestamptz,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  confirmed_at timestamptz,
+  CONSTRAINT valid_payout_batch_status CHECK (status IN ('pending', 'confirmed', 'failed')),
+  CONSTRAINT valid_payout_batch_currency CHECK (currency IN ('SOL', 'USDC'))
+);
+
+CREATE TABLE IF NOT EXISTS creator_withdrawals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_wallet text NOT NULL,
+  amount numeric(18, 6) NOT NULL,
+  currency text NOT NULL DEFAULT 'USDC',
+  status text NOT NULL DEFAULT 'requested',
+  batch_id uuid REFERENCES creator_payout_batches(id) ON DELETE SET NULL,
+  amount_base_units numeric(30, 0),
+  signature text,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  CONSTRAINT valid_withdrawal_status CHECK (status IN ('requested', 'processing', 'completed', 'cancelled')),
+  CONSTRAINT valid_withdrawal_currency CHECK (currency IN ('SOL', 'USDC')),
+  CONSTRAINT positive_withdrawal_amount CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_withdrawals_wallet ON creator_withdrawals(creator_wallet, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_withdrawals_batch ON creator_withdrawals(batch_id);
+CREATE INDEX IF NOT EXISTS idx_creator_withdrawals_requested ON creator_withdrawals(currency, created_at)
+  WHERE status = 'requested';
+
+ALTER TABLE creator_earnings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE creator_withdrawals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE creator_payout_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view creator earnings"
+  ON creator_earnings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view creator withdrawals"
+  ON creator_withdrawals FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view creator payout batches"
+  ON creator_payout_batches FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION sync_creator_earnings(
+  p_platform_fee_percent numeric DEFAULT 10,
+  p_hold_seconds integer DEFAULT 86400,
+  p_limit integer DEFAULT 500
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transactions integer;
+  v_refunds integer;
+  v_splits integer;
+BEGIN
+  -- x402 calls. Sessions, credits and authorizations are paid to the
+  -- platform, which owes the creator the price minus its fee; payment proofs
+  -- went to the owner directly. Channel calls are recorded from their
+  -- settlement splits instead.
+  WITH paid AS (
+    SELECT
+      t.id,
+      t.amount_charged,
+      t.created_at,
+      t.payment_proof IS NOT NULL AS direct,
+      c.owner_wallet,
+      c.service_type,
+      c.service_id
+    FROM x402_transactions t
+    CROSS JOIN LATERAL x402_transaction_service(t.id) c
+    WHERE t.status IN ('completed', 'refunded')
+      AND t.amount_charged > 0
+      AND NOT (COALESCE(t.metadata, '{}'::jsonb) ? 'channel_id')
+      AND NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'x402_transaction' AND e.source_id = t.id
+      )
+      AND c.owner_wallet IS NOT NULL
+    ORDER BY t.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, transaction_signature, available_at, occurred_at
+    )
+    SELECT
+      p.owner_wallet,
+      p.service_type,
+      p.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'earning' THEN p.amount_charged
+        ELSE -round(p.amount_charged * p_platform_fee_percent / 100, 6)
+      END,
+      CASE WHEN p.direct THEN 'direct' ELSE 'custodial' END,
+      'x402_transaction',
+      p.id,
+      NULL,
+      CASE WHEN p.direct THEN NULL ELSE p.created_at + make_interval(secs => p_hold_seconds) END,
+      p.created_at
+    FROM paid p
+    CROSS JOIN (VALUES ('earning'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'earning' OR NOT p.direct
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_transactions FROM inserted;
+
+  -- Refunds come out of the creator's custodial balance, including refunds
+  -- of payment proofs, which the platform pays back as credits. The fee on
+  -- a refunded session, credit or authorization call is returned, and both
+  -- are released together with the call they reverse.
+  WITH refunded AS (
+    SELECT
+      r.id,
+      r.amount,
+      r.created_at,
+      t.created_at AS paid_at,
+      t.payment_proof IS NOT NULL AS direct,
+      c.owner_wallet,
+      c.service_type,
+      c.service_id
+    FROM x402_refunds r
+    JOIN x402_transactions t ON t.id = r.transaction_id
+    CROSS JOIN LATERAL x402_transaction_service(r.transaction_id) c
+    WHERE NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'x402_refund' AND e.source_id = r.id
+      )
+      AND c.owner_wallet IS NOT NULL
+    ORDER BY r.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, available_at, occurred_at
+    )
+    SELECT
+      r.owner_wallet,
+      r.service_type,
+      r.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'refund' THEN -r.amount
+        ELSE round(r.amount * p_platform_fee_percent / 100, 6)
+      END,
+      'custodial',
+      'x402_refund',
+      r.id,
+      CASE WHEN r.direct THEN r.created_at ELSE r.paid_at + make_interval(secs => p_hold_seconds) END,
+      r.created_at
+    FROM refunded r
+    CROSS JOIN (VALUES ('refund'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'refund' OR NOT r.direct
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_refunds FROM inserted;
+
+  -- Split payments, escrow releases and channel settlements paid the creator
+  -- on-chain; the gross price is worked back from the creator's share
+  WITH paid AS (
+    SELECT s.*
+    FROM payment_splits s
+    WHERE s.role = 'creator'
+      AND s.status = 'verified'
+      AND s.amount_usd IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'payment_split' AND e.source_id = s.id
+      )
+    ORDER BY s.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, transaction_signature, occurred_at
+    )
+    SELECT
+      p.recipient_address,
+      p.service_type,
+      p.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'earning' THEN round(p.amount_usd * 100 / p.share_percent, 6)
+        ELSE p.amount_usd - round(p.amount_usd * 100 / p.share_percent, 6)
+      END,
+      'direct',
+      'payment_split',
+      p.id,
+      p.transaction_signature,
+      p.created_at
+    FROM paid p
+    CROSS JOIN (VALUES ('earning'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'earning' OR p.share_percent < 100
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_splits FROM inserted;
+
+  -- The revenue counters show what each listing earned its creator
+  UPDATE agents a
+  SET revenue = totals.net
+  FROM (
+    SELECT service_id, sum(amount) AS net
+    FROM creator_earnings
+    WHERE service_type = 'agent'
+      AND service_id IN (SELECT service_id FROM creator_earnings WHERE created_at >= now() AND service_type = 'agent')
+    GROUP BY service_id
+  ) totals
+  WHERE a.id = totals.service_id;
+
+  UPDATE apis a
+  SET total_revenue = totals.net
+  FROM (
+    SELECT service_id, sum(amount) AS net
+    FROM creator_earnings
+    WHERE service_type = 'api'
+      AND service_id IN (SELECT service_id FROM creator_earnings WHERE created_at >= now() AND service_type = 'api')
+    GROUP BY service_id
+  ) totals
+  WHERE a.id = totals.service_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transactions', v_transactions,
+    'refunds', v_refunds,
+    'splits', v_splits
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION creator_earnings_balance(p_creator_wallet text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_pending numeric;
+  v_released numeric;
+  v_direct numeric;
+  v_earned numeric;
+  v_fees numeric;
+  v_refunded numeric;
+  v_processing numeric;
+  v_withdrawn numeric;
+BEGIN
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE settlement = 'custodial' AND available_at > now()), 0),
+    COALESCE(sum(amount) FILTER (WHERE settlement = 'custodial' AND available_at <= now()), 0),
+    COALESCE(sum(amount) FILTER (WHERE settlement = 'direct'), 0),
+    COALESCE(sum(amount) FILTER (WHERE entry_type = 'earning'), 0),
+    COALESCE(-sum(amount) FILTER (WHERE entry_type = 'platform_fee'), 0),
+    COALESCE(-sum(amount) FILTER (WHERE entry_type = 'refund'), 0)
+  INTO v_pending, v_released, v_direct, v_earned, v_fees, v_refunded
+  FROM creator_earnings
+  WHERE creator_wallet = p_creator_wallet;
+
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE status IN ('requested', 'processing')), 0),
+    COALESCE(sum(amount) FILTER (WHERE status = 'completed'), 0)
+  INTO v_processing, v_withdrawn
+  FROM creator_withdrawals
+  WHERE creator_wallet = p_creator_wallet;
+
+  RETURN jsonb_build_object(
+    'pending', v_pending,
+    'available', v_released - v_processing - v_withdrawn,
+    'processing', v_processing,
+    'paid', v_direct + v_withdrawn,
+    'withdrawn', v_withdrawn,
+    'earned', v_earned,
+    'platform_fees', v_fees,
+    'refunded', v_refunded
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_creator_withdrawal(
+  p_creator_wallet text,
+  p_amount numeric,
+  p_currency text DEFAULT 'USDC',
+  p_minimum_amount numeric DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_available numeric;
+  v_withdrawal_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Withdrawal amount must be positive');
+  END IF;
+
+  IF p_amount < p_minimum_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'BELOW_MINIMUM_WITHDRAWAL',
+      'error', format('Withdrawals start at $%s', p_minimum_amount)
+    );
+  END IF;
+
+  -- Serializes withdrawals per wallet so two requests cannot both spend the
+  -- same available balance
+  PERFORM pg_advisory_xact_lock(hashtext('creator_withdrawal:' || p_creator_wallet));
+
+  v_available := (creator_earnings_balance(p_creator_wallet)->>'available')::numeric;
+
+  IF p_amount > v_available THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_AVAILABLE_BALANCE',
+      'error', 'Amount exceeds your available balance',
+      'available', v_available
+    );
+  END IF;
+
+  INSERT INTO creator_withdrawals (creator_wallet, amount, currency)
+  VALUES (p_creator_wallet, p_amount, p_currency)
+  RETURNING id INTO v_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'withdrawal_id', v_withdrawal_id, 'available', v_available - p_amount);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_creator_withdrawal(
+  p_withdrawal_id uuid,
+  p_creator_wallet text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE creator_withdrawals
+  SET status = 'cancelled'
+  WHERE id = p_withdrawal_id
+    AND creator_wallet = p_creator_wallet
+    AND status = 'requested';
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM creator_withdrawals WHERE id = p_withdrawal_id AND creator_wallet = p_creator_wallet) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'WITHDRAWAL_NOT_CANCELLABLE', 'error', 'Withdrawal is already being paid');
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error_code', 'WITHDRAWAL_NOT_FOUND', 'error', 'Withdrawal not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_creator_payouts(
+  p_worker_id text,
+  p_currency text,
+  p_limit integer DEFAULT 6,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS SETOF creator_payout_batches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_batch creator_payout_batches%ROWTYPE;
+  v_withdrawal_ids uuid[];
+BEGIN
+  -- A batch whose worker went away is picked up again first
+  UPDATE creator_payout_batches b
+  SET worker_id = p_worker_id, claimed_at = now(), attempts = b.attempts + 1
+  WHERE b.id = (
+    SELECT id
+    FROM creator_payout_batches
+    WHERE status = 'pending'
+      AND currency = p_currency
+      AND claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.* INTO v_batch;
+
+  IF FOUND THEN
+    RETURN NEXT v_batch;
+    RETURN;
+  END IF;
+
+  SELECT array_agg(id) INTO v_withdrawal_ids
+  FROM (
+    SELECT id
+    FROM creator_withdrawals
+    WHERE status = 'requested'
+      AND currency = p_currency
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) requested;
+
+  IF v_withdrawal_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO creator_payout_batches (currency, total_amount, worker_id, claimed_at, attempts)
+  SELECT p_currency, sum(amount), p_worker_id, now(), 1
+  FROM creator_withdrawals
+  WHERE id = ANY(v_withdrawal_ids)
+  RETURNING * INTO v_batch;
+
+  UPDATE creator_withdrawals
+  SET status = 'processing', batch_id = v_batch.id, error = NULL
+  WHERE id = ANY(v_withdrawal_ids);
+
+  RETURN NEXT v_batch;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_creator_payout_batch(
+  p_batch_id uuid,
+  p_signature text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE creator_payout_batches
+  SET status = 'confirmed', signature = p_signature, error = NULL, confirmed_at = now()
+  WHERE id = p_batch_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'BATCH_NOT_PENDING', 'error', 'Payout batch is not pending');
+  END IF;
+
+  UPDATE creator_withdrawals
+  SET status = 'completed', signature = p_signature, completed_at = now()
+  WHERE batch_id = p_batch_id
+    AND status = 'processing';
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_creator_payout_batch(
+  p_batch_id uuid,
+  p_error text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE creator_payout_batches
+  SET status = 'failed', error = p_error
+  WHERE id = p_batch_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'BATCH_NOT_PENDING', 'error', 'Payout batch is not pending');
+  END IF;
+
+  -- Nothing was paid, so the withdrawals wait for the next batch
+  UPDATE creator_withdrawals
+  SET status = 'requested', batch_id = NULL, amount_base_units = NULL, error = p_error
+  WHERE batch_id = p_batch_id
+    AND status = 'processing';
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION creator_earnings_balance(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_creator_withdrawal(text, numeric, text, numeric) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_creator_withdrawal(uuid, text) TO anon, authenticated;
+
+COMMENT ON TABLE creator_earnings IS 'Per-creator ledger of earnings, platform fees and refunds, custodial or paid directly on-chain';
+COMMENT ON TABLE creator_withdrawals IS 'Creator requests to be paid their available custodial balance';
+COMMENT ON TABLE creator_payout_batches IS 'On-chain transfers paying several creator withdrawals at once';
+COMMENT ON FUNCTION sync_creator_earnings IS 'Records ledger entries for new x402 payments, refunds and split payments and refreshes the revenue counters';
@@ -0,0 +1,2297 @@
+/*
+  # Double-entry ledger
+
+  1. New tables
+    - `ledger_accounts` - one per balance holder, keyed by `owner_type` and
+      `owner_id`:
+        - platform_cash (asset) - money the platform received on-chain
+        - platform_fees (revenue) - the platform's share of every call
+        - opening_balances (equity) - balances that existed before the ledger
+        - session (liability) - prepaid funds of one `x402_payment_sessions` row
+        - credits (liability) - balance of one `x402_payment_credits` row
+        - creator (liability) - what the platform owes a creator wallet
+    - `ledger_journal_entries` - one per business event (`entry_type`), with
+      the row it was posted for (`reference_type`, `reference_id`) and an
+      optional unique `idempotency_key`
+    - `ledger_postings` - signed USD amounts, debits positive and credits
+      negative. `service_type` and `service_id` tag creator postings with the
+      agent or API that earned them
+
+  2. Entry types
+    - top_up - Dr platform_cash, Cr session or credits
+    - charge - Dr session or credits, Cr creator (price minus fee) and
+      platform_fees (fee); release and refund post the reverse
+    - transfer - credits moved into a session (funding and renewals)
+    - direct_payment - split payments, escrow releases, channel settlements
+      and payment proofs paid the creator on-chain: the earning is credited to
+      the creator and settled in the same entry
+    - payout - Dr creator, Cr platform_cash for a completed withdrawal
+    - reversal - a top-up whose payment never landed
+    - opening_balance - balances carried over when the ledger was created
+
+  3. Derived balances
+    - `ledger_account_balances` view - debit-positive for assets, credit-
+      positive for everything else
+    - `ledger_service_revenue` view - what each agent or API earned its creator
+    - `x402_payment_sessions.remaining_amount`,
+      `x402_payment_credits.credit_balance`, `agents.revenue` and
+      `apis.total_revenue` are projections of the ledger, written only by a
+      trigger on `ledger_postings`. Changing them any other way raises;
+      new rows must start at 0
+
+  4. New functions
+    - `ledger_post(...)` - posts a balanced entry, replaying on a known key
+    - `ledger_post_charge(...)` - charge, release or refund of an x402 call
+    - `x402_fund_session(...)` - funds a new session from its wallet payment
+      or from credits
+    - `x402_top_up_credits(...)` - adds a wallet payment to a credit account
+    - `ledger_check_invariants()` - on-demand check that every entry
+      balances, the projections match the ledger and no prepaid balance is
+      negative
+
+  5. Changed functions
+    - Post to the ledger instead of updating balances: `x402_debit_session`,
+      `x402_spend_credits`, `x402_renew_session`, `x402_settle_hold`,
+      `x402_refund_transaction`, `solana_pay_fulfill_request`,
+      `expire_transaction_log` and `complete_creator_payout_batch`
+    - `sync_creator_earnings` no longer writes the revenue counters
+
+  6. Security
+    - RLS enabled; anyone can read accounts, entries and postings, which are
+      append-only and written by SECURITY DEFINER functions
+    - `x402_debit_session` and `x402_spend_credits` become SECURITY DEFINER
+      so anon callers can post
+    - The posting helpers are not executable by anon or authenticated
+
+  7. Notes
+    - Credit renewals move credits into the session instead of spending them,
+      so they no longer create an `x402_transactions` row
+    - Error codes: PAYMENT_REQUIRED, SIGNATURE_ALREADY_USED,
+      SESSION_NOT_FOUND, SESSION_INACTIVE, CREDIT_ACCOUNT_NOT_FOUND,
+      INSUFFICIENT_CREDITS, INVALID_AMOUNT
+*/
+
+-- 1. Tables
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_type text NOT NULL,
+  owner_id text NOT NULL DEFAULT '',
+  account_type text NOT NULL,
+  currency text NOT NULL DEFAULT 'USD',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT unique_ledger_account UNIQUE (owner_type, owner_id),
+  CONSTRAINT valid_ledger_owner_type CHECK (
+    owner_type IN ('platform_cash', 'platform_fees', 'opening_balances', 'session', 'credits', 'creator')
+  ),
+  CONSTRAINT valid_ledger_account_type CHECK (account_type IN ('asset', 'liability', 'revenue', 'equity'))
+);
+
+CREATE TABLE IF NOT EXISTS ledger_journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type text NOT NULL,
+  description text,
+  reference_type text,
+  reference_id text,
+  idempotency_key text UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_ledger_entry_type CHECK (
+    entry_type IN (
+      'opening_balance', 'top_up', 'charge', 'release', 'refund',
+      'transfer', 'direct_payment', 'payout', 'reversal'
+    )
+  )
+);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_entry_id uuid NOT NULL REFERENCES ledger_journal_entries(id),
+  account_id uuid NOT NULL REFERENCES ledger_accounts(id),
+  amount numeric(18, 6) NOT NULL,
+  service_type text,
+  service_id uuid,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT nonzero_ledger_posting CHECK (amount <> 0),
+  CONSTRAINT valid_ledger_service_type CHECK (service_type IS NULL OR service_type IN ('agent', 'api', 'web_service'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_reference ON ledger_journal_entries(reference_type, reference_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_created ON ledger_journal_entries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry ON ledger_postings(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings(account_id);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_service
+ON ledger_postings(service_type, service_id)
+WHERE service_id IS NOT NULL;
+
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_postings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view ledger accounts"
+  ON ledger_accounts FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view ledger journal entries"
+  ON ledger_journal_entries FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view ledger postings"
+  ON ledger_postings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Checked at commit, once every posting of the entry is in
+CREATE OR REPLACE FUNCTION ledger_check_entry_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total numeric;
+  v_count integer;
+BEGIN
+  SELECT COALESCE(sum(amount), 0), count(*)
+  INTO v_total, v_count
+  FROM ledger_postings
+  WHERE journal_entry_id = NEW.journal_entry_id;
+
+  IF v_total <> 0 OR v_count < 2 THEN
+    RAISE EXCEPTION 'Journal entry % does not balance (% postings, sum %)', NEW.journal_entry_id, v_count, v_total
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_postings_balanced ON ledger_postings;
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+  AFTER INSERT ON ledger_postings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_check_entry_balanced();
+
+CREATE OR REPLACE FUNCTION ledger_reject_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only; post a correcting entry instead', TG_TABLE_NAME
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_journal_entries_append_only ON ledger_journal_entries;
+CREATE TRIGGER ledger_journal_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_reject_change();
+
+DROP TRIGGER IF EXISTS ledger_postings_append_only ON ledger_postings;
+CREATE TRIGGER ledger_postings_append_only
+  BEFORE UPDATE OR DELETE ON ledger_postings
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_reject_change();
+
+-- 2. Posting helpers
+
+CREATE OR REPLACE FUNCTION ledger_account(p_owner_type text, p_owner_id text DEFAULT '')
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account_id uuid;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM ledger_accounts
+  WHERE owner_type = p_owner_type
+    AND owner_id = COALESCE(p_owner_id, '');
+
+  IF FOUND THEN
+    RETURN v_account_id;
+  END IF;
+
+  INSERT INTO ledger_accounts (owner_type, owner_id, account_type)
+  VALUES (
+    p_owner_type,
+    COALESCE(p_owner_id, ''),
+    CASE p_owner_type
+      WHEN 'platform_cash' THEN 'asset'
+      WHEN 'platform_fees' THEN 'revenue'
+      WHEN 'opening_balances' THEN 'equity'
+      ELSE 'liability'
+    END
+  )
+  ON CONFLICT (owner_type, owner_id) DO NOTHING
+  RETURNING id INTO v_account_id;
+
+  IF v_account_id IS NULL THEN
+    SELECT id INTO v_account_id
+    FROM ledger_accounts
+    WHERE owner_type = p_owner_type
+      AND owner_id = COALESCE(p_owner_id, '');
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ledger_leg(
+  p_owner_type text,
+  p_owner_id text,
+  p_amount numeric,
+  p_service_type text DEFAULT NULL,
+  p_service_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'owner_type', p_owner_type,
+    'owner_id', COALESCE(p_owner_id, ''),
+    'amount', round(p_amount, 6),
+    'service_type', p_service_type,
+    'service_id', p_service_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION ledger_post(
+  p_entry_type text,
+  p_legs jsonb,
+  p_reference_type text DEFAULT NULL,
+  p_reference_id text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id uuid;
+  v_total numeric;
+  v_count integer;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_entry_id
+    FROM ledger_journal_entries
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN v_entry_id;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(sum((leg->>'amount')::numeric), 0),
+    count(*) FILTER (WHERE (leg->>'amount')::numeric <> 0)
+  INTO v_total, v_count
+  FROM jsonb_array_elements(p_legs) AS leg;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'Ledger % entry does not balance: postings sum to %', p_entry_type, v_total
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Nothing moved (a zero fee, a fully spent balance)
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ledger_journal_entries (entry_type, description, reference_type, reference_id, idempotency_key)
+  VALUES (p_entry_type, p_description, p_reference_type, p_reference_id, p_idempotency_key)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO ledger_postings (journal_entry_id, account_id, amount, service_type, service_id)
+  SELECT
+    v_entry_id,
+    ledger_account(leg->>'owner_type', leg->>'owner_id'),
+    (leg->>'amount')::numeric,
+    leg->>'service_type',
+    (leg->>'service_id')::uuid
+  FROM jsonb_array_elements(p_legs) AS leg
+  WHERE (leg->>'amount')::numeric <> 0;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Same default as the payout worker's platform fee
+CREATE OR REPLACE FUNCTION ledger_platform_fee_percent()
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 10::numeric;
+$$;
+
+-- Charges move money from the payer to the creator, minus the platform fee;
+-- releases and refunds move it back. Calls that no service config claims
+-- are kept by the platform. Direct calls (proofs, channels) took no fee.
+CREATE OR REPLACE FUNCTION ledger_post_charge(
+  p_entry_type text,
+  p_transaction_id uuid,
+  p_payer_type text,
+  p_payer_id text,
+  p_amount numeric,
+  p_direct boolean DEFAULT false,
+  p_idempotency_key text DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+  v_sign integer;
+  v_fee numeric(18, 6);
+BEGIN
+  v_sign := CASE WHEN p_entry_type = 'charge' THEN 1 ELSE -1 END;
+  v_config := x402_transaction_service(p_transaction_id);
+
+  IF v_config.id IS NULL OR v_config.owner_wallet IS NULL THEN
+    RETURN ledger_post(
+      p_entry_type,
+      jsonb_build_array(
+        ledger_leg(p_payer_type, p_payer_id, v_sign * p_amount),
+        ledger_leg('platform_fees', '', -v_sign * p_amount)
+      ),
+      'x402_transaction',
+      p_transaction_id::text,
+      p_idempotency_key,
+      p_description
+    );
+  END IF;
+
+  v_fee := CASE WHEN p_direct THEN 0 ELSE round(p_amount * ledger_platform_fee_percent() / 100, 6) END;
+
+  RETURN ledger_post(
+    p_entry_type,
+    jsonb_build_array(
+      ledger_leg(p_payer_type, p_payer_id, v_sign * p_amount),
+      ledger_leg('creator', v_config.owner_wallet, -v_sign * (p_amount - v_fee), v_config.service_type, v_config.service_id),
+      ledger_leg('platform_fees', '', -v_sign * v_fee, v_config.service_type, v_config.service_id)
+    ),
+    'x402_transaction',
+    p_transaction_id::text,
+    p_idempotency_key,
+    p_description
+  );
+END;
+$$;
+
+-- 3. Opening balances, posted before the projections are wired up so the
+-- existing columns are not counted twice
+
+SELECT ledger_post(
+  'opening_balance',
+  jsonb_build_array(
+    ledger_leg('opening_balances', '', remaining_amount),
+    ledger_leg('session', id::text, -remaining_amount)
+  ),
+  'x402_session',
+  id::text,
+  'opening:session:' || id
+)
+FROM x402_payment_sessions
+WHERE remaining_amount <> 0;
+
+SELECT ledger_post(
+  'opening_balance',
+  jsonb_build_array(
+    ledger_leg('opening_balances', '', credit_balance),
+    ledger_leg('credits', id::text, -credit_balance)
+  ),
+  'x402_credits',
+  id::text,
+  'opening:credits:' || id
+)
+FROM x402_payment_credits
+WHERE credit_balance <> 0;
+
+-- What creators have not withdrawn yet is still owed
+SELECT ledger_post(
+  'opening_balance',
+  jsonb_build_array(
+    ledger_leg('opening_balances', '', owed),
+    ledger_leg('creator', creator_wallet, -owed)
+  ),
+  'creator',
+  creator_wallet,
+  'opening:creator:' || creator_wallet
+)
+FROM (
+  SELECT
+    e.creator_wallet,
+    e.custodial - COALESCE((
+      SELECT sum(w.amount)
+      FROM creator_withdrawals w
+      WHERE w.creator_wallet = e.creator_wallet
+        AND w.status = 'completed'
+    ), 0) AS owed
+  FROM (
+    SELECT creator_wallet, sum(amount) AS custodial
+    FROM creator_earnings
+    WHERE settlement = 'custodial'
+    GROUP BY creator_wallet
+  ) e
+) owed
+WHERE owed <> 0;
+
+-- Revenue earned so far is attributed to each listing without changing what
+-- its creator is owed
+SELECT ledger_post(
+  'opening_balance',
+  jsonb_build_array(
+    ledger_leg('creator', COALESCE(wallet_address, ''), -revenue, 'agent', id),
+    ledger_leg('creator', COALESCE(wallet_address, ''), revenue)
+  ),
+  'agent',
+  id::text,
+  'opening:agent:' || id
+)
+FROM agents
+WHERE COALESCE(revenue, 0) <> 0;
+
+SELECT ledger_post(
+  'opening_balance',
+  jsonb_build_array(
+    ledger_leg('creator', COALESCE(wallet_address, ''), -total_revenue, 'api', id),
+    ledger_leg('creator', COALESCE(wallet_address, ''), total_revenue)
+  ),
+  'api',
+  id::text,
+  'opening:api:' || id
+)
+FROM apis
+WHERE COALESCE(total_revenue, 0) <> 0;
+
+-- 4. Projections
+
+CREATE OR REPLACE FUNCTION ledger_project_posting()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account ledger_accounts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_account FROM ledger_accounts WHERE id = NEW.account_id;
+
+  PERFORM set_config('ledger.projecting', 'on', true);
+
+  IF v_account.owner_type = 'session' THEN
+    UPDATE x402_payment_sessions
+    SET remaining_amount = remaining_amount - NEW.amount
+    WHERE id = v_account.owner_id::uuid;
+  ELSIF v_account.owner_type = 'credits' THEN
+    UPDATE x402_payment_credits
+    SET credit_balance = credit_balance - NEW.amount
+    WHERE id = v_account.owner_id::uuid;
+  ELSIF v_account.owner_type = 'creator' AND NEW.service_type = 'agent' THEN
+    UPDATE agents
+    SET revenue = COALESCE(revenue, 0) - NEW.amount
+    WHERE id = NEW.service_id;
+  ELSIF v_account.owner_type = 'creator' AND NEW.service_type = 'api' THEN
+    UPDATE apis
+    SET total_revenue = COALESCE(total_revenue, 0) - NEW.amount
+    WHERE id = NEW.service_id;
+  END IF;
+
+  PERFORM set_config('ledger.projecting', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_postings_project ON ledger_postings;
+CREATE TRIGGER ledger_postings_project
+  AFTER INSERT ON ledger_postings
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_project_posting();
+
+CREATE OR REPLACE FUNCTION ledger_guard_projection()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_old numeric := 0;
+  v_new numeric;
+BEGIN
+  IF current_setting('ledger.projecting', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  v_new := COALESCE((to_jsonb(NEW)->>TG_ARGV[0])::numeric, 0);
+  IF TG_OP = 'UPDATE' THEN
+    v_old := COALESCE((to_jsonb(OLD)->>TG_ARGV[0])::numeric, 0);
+  END IF;
+
+  IF v_new <> v_old THEN
+    RAISE EXCEPTION '%.% is derived from the ledger; post a journal entry instead', TG_TABLE_NAME, TG_ARGV[0]
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_guard_session_balance ON x402_payment_sessions;
+CREATE TRIGGER ledger_guard_session_balance
+  BEFORE INSERT OR UPDATE OF remaining_amount ON x402_payment_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_guard_projection('remaining_amount');
+
+DROP TRIGGER IF EXISTS ledger_guard_credit_balance ON x402_payment_credits;
+CREATE TRIGGER ledger_guard_credit_balance
+  BEFORE INSERT OR UPDATE OF credit_balance ON x402_payment_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_guard_projection('credit_balance');
+
+DROP TRIGGER IF EXISTS ledger_guard_agent_revenue ON agents;
+CREATE TRIGGER ledger_guard_agent_revenue
+  BEFORE INSERT OR UPDATE OF revenue ON agents
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_guard_projection('revenue');
+
+DROP TRIGGER IF EXISTS ledger_guard_api_revenue ON apis;
+CREATE TRIGGER ledger_guard_api_revenue
+  BEFORE INSERT OR UPDATE OF total_revenue ON apis
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_guard_projection('total_revenue');
+
+CREATE OR REPLACE VIEW ledger_account_balances AS
+SELECT
+  a.id AS account_id,
+  a.owner_type,
+  a.owner_id,
+  a.account_type,
+  a.currency,
+  CASE WHEN a.account_type = 'asset' THEN 1 ELSE -1 END * COALESCE(sum(p.amount), 0) AS balance,
+  count(p.id) AS posting_count,
+  max(p.created_at) AS last_posted_at
+FROM ledger_accounts a
+LEFT JOIN ledger_postings p ON p.account_id = a.id
+GROUP BY a.id;
+
+CREATE OR REPLACE VIEW ledger_service_revenue AS
+SELECT
+  p.service_type,
+  p.service_id,
+  a.owner_id AS creator_wallet,
+  -sum(p.amount) AS revenue
+FROM ledger_postings p
+JOIN ledger_accounts a ON a.id = p.account_id
+WHERE a.owner_type = 'creator'
+  AND p.service_id IS NOT NULL
+GROUP BY p.service_type, p.service_id, a.owner_id;
+
+-- 5. Payments made outside x402 balances
+
+-- Verified split legs were paid on-chain: the creator leg is earned and
+-- settled at once, the platform leg is platform cash
+CREATE OR REPLACE FUNCTION ledger_post_payment_split()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'verified' OR COALESCE(NEW.amount_usd, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.role = 'creator' THEN
+    PERFORM ledger_post(
+      'direct_payment',
+      jsonb_build_array(
+        ledger_leg('creator', NEW.recipient_address, -NEW.amount_usd, NEW.service_type, NEW.service_id),
+        ledger_leg('creator', NEW.recipient_address, NEW.amount_usd)
+      ),
+      'payment_split',
+      NEW.id::text,
+      'payment_split:' || NEW.id,
+      'Paid on-chain in ' || NEW.transaction_signature
+    );
+  ELSE
+    PERFORM ledger_post(
+      'direct_payment',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', NEW.amount_usd),
+        ledger_leg('platform_fees', '', -NEW.amount_usd, NEW.service_type, NEW.service_id)
+      ),
+      'payment_split',
+      NEW.id::text,
+      'payment_split:' || NEW.id,
+      'Paid on-chain in ' || NEW.transaction_signature
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_payment_splits ON payment_splits;
+CREATE TRIGGER ledger_payment_splits
+  AFTER INSERT OR UPDATE OF status ON payment_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_post_payment_split();
+
+-- Payment proofs paid the service owner directly
+CREATE OR REPLACE FUNCTION ledger_post_payment_proof()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+BEGIN
+  IF NEW.payment_proof IS NULL
+    OR NEW.status <> 'completed'
+    OR NEW.amount_charged <= 0
+    OR COALESCE(NEW.metadata, '{}'::jsonb) ? 'channel_id'
+  THEN
+    RETURN NULL;
+  END IF;
+
+  v_config := x402_transaction_service(NEW.id);
+
+  IF v_config.id IS NULL OR v_config.owner_wallet IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM ledger_post(
+    'direct_payment',
+    jsonb_build_array(
+      ledger_leg('creator', v_config.owner_wallet, -NEW.amount_charged, v_config.service_type, v_config.service_id),
+      ledger_leg('creator', v_config.owner_wallet, NEW.amount_charged)
+    ),
+    'x402_transaction',
+    NEW.id::text,
+    'x402_proof:' || NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_x402_payment_proofs ON x402_transactions;
+CREATE TRIGGER ledger_x402_payment_proofs
+  AFTER INSERT OR UPDATE OF status ON x402_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION ledger_post_payment_proof();
+
+-- 6. Funding
+
+CREATE OR REPLACE FUNCTION x402_fund_session(
+  p_session_token text,
+  p_payment_signature text DEFAULT NULL,
+  p_credit_service_id uuid DEFAULT NULL,
+  p_credit_service_type text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_credit x402_payment_credits%ROWTYPE;
+  v_signature text;
+  v_remaining numeric(18, 6);
+  v_balance numeric(18, 6);
+BEGIN
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE session_token = p_session_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  -- Funding twice (a retried request) returns the first result
+  IF EXISTS (
+    SELECT 1
+    FROM ledger_journal_entries
+    WHERE reference_type = 'x402_session'
+      AND reference_id = v_session.id::text
+      AND entry_type IN ('top_up', 'transfer', 'opening_balance')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'session_id', v_session.id,
+      'remaining_amount', v_session.remaining_amount,
+      'replayed', true
+    );
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_INACTIVE', 'error', 'Session is ' || v_session.status);
+  END IF;
+
+  IF v_session.authorized_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Session has no authorized amount');
+  END IF;
+
+  v_signature := COALESCE(p_payment_signature, v_session.initial_payment_signature);
+
+  IF p_credit_service_type IS NOT NULL THEN
+    SELECT * INTO v_credit
+    FROM x402_payment_credits
+    WHERE wallet_address = v_session.wallet_address
+      AND service_id IS NOT DISTINCT FROM p_credit_service_id
+      AND service_type = p_credit_service_type
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'CREDIT_ACCOUNT_NOT_FOUND', 'error', 'Credit account not found');
+    END IF;
+
+    IF v_credit.credit_balance < v_session.authorized_amount THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_code', 'INSUFFICIENT_CREDITS',
+        'error', 'Insufficient credits',
+        'new_balance', v_credit.credit_balance
+      );
+    END IF;
+
+    UPDATE x402_payment_credits
+    SET total_spent = total_spent + v_session.authorized_amount, updated_at = now()
+    WHERE id = v_credit.id;
+
+    PERFORM ledger_post(
+      'transfer',
+      jsonb_build_array(
+        ledger_leg('credits', v_credit.id::text, v_session.authorized_amount),
+        ledger_leg('session', v_session.id::text, -v_session.authorized_amount)
+      ),
+      'x402_session',
+      v_session.id::text,
+      'session_funding:' || v_session.id,
+      'Session funded from credits'
+    );
+
+    SELECT credit_balance INTO v_balance FROM x402_payment_credits WHERE id = v_credit.id;
+  ELSIF v_signature IS NOT NULL THEN
+    IF EXISTS (SELECT 1 FROM ledger_journal_entries WHERE idempotency_key = 'payment:' || v_signature) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Payment already funded another balance');
+    END IF;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_session.authorized_amount),
+        ledger_leg('session', v_session.id::text, -v_session.authorized_amount)
+      ),
+      'x402_session',
+      v_session.id::text,
+      'payment:' || v_signature,
+      'Session paid in ' || v_signature
+    );
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error_code', 'PAYMENT_REQUIRED', 'error', 'Sessions are funded by a payment or from credits');
+  END IF;
+
+  SELECT remaining_amount INTO v_remaining FROM x402_payment_sessions WHERE id = v_session.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', v_session.id,
+    'remaining_amount', v_remaining,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_top_up_credits(
+  p_wallet_address text,
+  p_service_id uuid,
+  p_service_type text,
+  p_amount numeric,
+  p_payment_signature text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit_id uuid;
+  v_existing ledger_journal_entries%ROWTYPE;
+  v_balance numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_payment_signature IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'PAYMENT_REQUIRED', 'error', 'Top-ups need a payment signature');
+  END IF;
+
+  SELECT id INTO v_credit_id
+  FROM x402_payment_credits
+  WHERE wallet_address = p_wallet_address
+    AND service_id IS NOT DISTINCT FROM p_service_id
+    AND service_type = p_service_type
+  FOR UPDATE;
+
+  SELECT * INTO v_existing
+  FROM ledger_journal_entries
+  WHERE idempotency_key = 'payment:' || p_payment_signature;
+
+  IF FOUND THEN
+    IF v_existing.reference_type = 'x402_credits' AND v_existing.reference_id = v_credit_id::text THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'credit_id', v_credit_id,
+        'new_balance', (SELECT credit_balance FROM x402_payment_credits WHERE id = v_credit_id),
+        'replayed', true
+      );
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Payment already funded another balance');
+  END IF;
+
+  IF v_credit_id IS NOT NULL THEN
+    UPDATE x402_payment_credits
+    SET
+      total_purchased = total_purchased + p_amount,
+      last_topup_tx = p_payment_signature,
+      last_topup_amount = p_amount,
+      last_topup_at = now(),
+      updated_at = now()
+    WHERE id = v_credit_id;
+  ELSE
+    INSERT INTO x402_payment_credits (
+      wallet_address,
+      service_id,
+      service_type,
+      credit_balance,
+      total_purchased,
+      total_spent,
+      last_topup_tx,
+      last_topup_amount,
+      last_topup_at
+    )
+    VALUES (p_wallet_address, p_service_id, p_service_type, 0, p_amount, 0, p_payment_signature, p_amount, now())
+    RETURNING id INTO v_credit_id;
+  END IF;
+
+  PERFORM ledger_post(
+    'top_up',
+    jsonb_build_array(
+      ledger_leg('platform_cash', '', p_amount),
+      ledger_leg('credits', v_credit_id::text, -p_amount)
+    ),
+    'x402_credits',
+    v_credit_id::text,
+    'payment:' || p_payment_signature,
+    'Credits paid in ' || p_payment_signature
+  );
+
+  SELECT credit_balance INTO v_balance FROM x402_payment_credits WHERE id = v_credit_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'credit_id', v_credit_id,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
+
+-- 7. Debits
+
+CREATE OR REPLACE FUNCTION x402_debit_session(
+  p_session_token text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL,
+  p_resource text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_remaining numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE session_token = p_session_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  -- Checked after taking the row lock so concurrent retries with the same key
+  -- are serialised behind the first one.
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'remaining_amount', v_session.remaining_amount,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_INACTIVE', 'error', 'Session is ' || v_session.status);
+  END IF;
+
+  IF v_session.expires_at < now() THEN
+    UPDATE x402_payment_sessions SET status = 'expired' WHERE id = v_session.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_EXPIRED', 'error', 'Session expired');
+  END IF;
+
+  -- Fails closed: without an explicit resource key the URL has to match.
+  IF NOT EXISTS (
+    SELECT 1
+    FROM unnest(v_session.resource_patterns) AS pattern
+    WHERE COALESCE(p_resource, p_resource_url) ~ x402_glob_to_regex(pattern)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'RESOURCE_NOT_AUTHORIZED',
+      'error', 'Session is not authorized for ' || COALESCE(p_resource, p_resource_url)
+    );
+  END IF;
+
+  IF v_session.remaining_amount < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_BALANCE',
+      'error', 'Insufficient session balance',
+      'remaining_amount', v_session.remaining_amount
+    );
+  END IF;
+
+  INSERT INTO x402_transactions (
+    session_id,
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    x402_header,
+    status,
+    response_code,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_amount,
+    COALESCE(p_x402_header, 'session=' || p_session_token),
+    'completed',
+    200,
+    p_idempotency_key,
+    jsonb_build_object('resource', COALESCE(p_resource, p_resource_url))
+  )
+  RETURNING id INTO v_tx_id;
+
+  PERFORM ledger_post_charge('charge', v_tx_id, 'session', v_session.id::text, p_amount, false, 'x402_charge:' || v_tx_id);
+
+  UPDATE x402_payment_sessions
+  SET
+    spent_amount = spent_amount + p_amount,
+    last_used_at = now(),
+    status = CASE WHEN remaining_amount <= 0 THEN 'depleted' ELSE 'active' END
+  WHERE id = v_session.id
+  RETURNING remaining_amount INTO v_remaining;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_spend_credits(
+  p_wallet_address text,
+  p_service_id uuid,
+  p_service_type text,
+  p_amount numeric,
+  p_resource_url text DEFAULT NULL,
+  p_http_method text DEFAULT 'POST',
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit x402_payment_credits%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_balance numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_credit
+  FROM x402_payment_credits
+  WHERE wallet_address = p_wallet_address
+    AND service_id IS NOT DISTINCT FROM p_service_id
+    AND service_type = p_service_type
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CREDIT_ACCOUNT_NOT_FOUND', 'error', 'Credit account not found');
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'new_balance', v_credit.credit_balance,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_credit.credit_balance < p_amount THEN
+    IF v_credit.auto_topup_enabled AND v_credit.credit_balance < v_credit.auto_topup_threshold THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_code', 'AUTO_TOPUP_REQUIRED',
+        'error', 'Insufficient credits. Auto top-up triggered but requires user action.',
+        'new_balance', v_credit.credit_balance
+      );
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_CREDITS',
+      'error', 'Insufficient credits',
+      'new_balance', v_credit.credit_balance
+    );
+  END IF;
+
+  INSERT INTO x402_transactions (
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    status,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    p_wallet_address,
+    COALESCE(p_resource_url, p_service_type || '/' || COALESCE(p_service_id::text, '*')),
+    CASE p_service_type
+      WHEN 'agent' THEN 'agent_execution'
+      WHEN 'web_service' THEN 'data_access'
+      ELSE 'api_call'
+    END,
+    p_http_method,
+    p_amount,
+    'completed',
+    p_idempotency_key,
+    jsonb_build_object('payment_source', 'credits', 'credit_id', v_credit.id)
+  )
+  RETURNING id INTO v_tx_id;
+
+  PERFORM ledger_post_charge('charge', v_tx_id, 'credits', v_credit.id::text, p_amount, false, 'x402_charge:' || v_tx_id);
+
+  UPDATE x402_payment_credits
+  SET
+    total_spent = total_spent + p_amount,
+    updated_at = now()
+  WHERE id = v_credit.id
+  RETURNING credit_balance INTO v_balance;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_renew_session(
+  p_session_id uuid,
+  p_amount numeric,
+  p_trigger text DEFAULT 'manual',
+  p_payment_signature text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing x402_session_renewals%ROWTYPE;
+  v_credit x402_payment_credits%ROWTYPE;
+  v_renewal_id uuid;
+  v_new_expires timestamptz;
+  v_remaining numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM x402_session_renewals
+    WHERE idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', v_existing.status = 'completed',
+        'renewal_id', v_existing.id,
+        'remaining_amount', v_session.remaining_amount,
+        'expires_at', v_session.expires_at,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF v_session.status = 'revoked' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_REVOKED', 'error', 'Session is revoked');
+  END IF;
+
+  IF p_trigger <> 'manual' AND NOT v_session.auto_renew THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTO_RENEW_DISABLED', 'error', 'Auto-renew is disabled for this session');
+  END IF;
+
+  IF v_session.max_renewals IS NOT NULL AND v_session.renewal_count >= v_session.max_renewals THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'RENEWAL_LIMIT_REACHED', 'error', 'Session has reached its renewal limit');
+  END IF;
+
+  IF v_session.max_renewal_total IS NOT NULL AND v_session.total_renewed + p_amount > v_session.max_renewal_total THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'RENEWAL_CAP_EXCEEDED', 'error', 'Renewal would exceed the session renewal cap');
+  END IF;
+
+  IF v_session.renewal_source = 'credits' THEN
+    SELECT * INTO v_credit
+    FROM x402_payment_credits
+    WHERE wallet_address = v_session.wallet_address
+      AND service_id IS NOT DISTINCT FROM v_session.renewal_credit_service_id
+      AND service_type = COALESCE(v_session.renewal_credit_service_type, 'agent')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'CREDIT_ACCOUNT_NOT_FOUND', 'error', 'Credit account not found');
+    END IF;
+
+    IF v_credit.credit_balance < p_amount THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'INSUFFICIENT_CREDITS', 'error', 'Insufficient credits');
+    END IF;
+  ELSIF p_payment_signature IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'PAYMENT_REQUIRED', 'error', 'Wallet renewals need a payment signature');
+  ELSIF EXISTS (SELECT 1 FROM ledger_journal_entries WHERE idempotency_key = 'payment:' || p_payment_signature) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Payment already funded another balance');
+  END IF;
+
+  v_new_expires := GREATEST(v_session.expires_at, now())
+    + make_interval(hours => COALESCE(v_session.renewal_duration_hours, 24));
+
+  UPDATE x402_payment_sessions
+  SET
+    authorized_amount = authorized_amount + p_amount,
+    expires_at = v_new_expires,
+    status = 'active',
+    renewal_count = renewal_count + 1,
+    total_renewed = total_renewed + p_amount,
+    last_renewed_at = now()
+  WHERE id = v_session.id;
+
+  INSERT INTO x402_session_renewals (
+    session_id,
+    wallet_address,
+    amount,
+    source,
+    trigger,
+    status,
+    payment_signature,
+    remaining_before,
+    remaining_after,
+    expires_before,
+    expires_after,
+    idempotency_key
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_amount,
+    v_session.renewal_source,
+    p_trigger,
+    'completed',
+    p_payment_signature,
+    v_session.remaining_amount,
+    v_session.remaining_amount + p_amount,
+    v_session.expires_at,
+    v_new_expires,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_renewal_id;
+
+  IF v_session.renewal_source = 'credits' THEN
+    UPDATE x402_payment_credits
+    SET total_spent = total_spent + p_amount, updated_at = now()
+    WHERE id = v_credit.id;
+
+    PERFORM ledger_post(
+      'transfer',
+      jsonb_build_array(
+        ledger_leg('credits', v_credit.id::text, p_amount),
+        ledger_leg('session', v_session.id::text, -p_amount)
+      ),
+      'x402_session_renewal',
+      v_renewal_id::text,
+      'renewal:' || v_renewal_id,
+      'Session renewed from credits'
+    );
+  ELSE
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', p_amount),
+        ledger_leg('session', v_session.id::text, -p_amount)
+      ),
+      'x402_session_renewal',
+      v_renewal_id::text,
+      'payment:' || p_payment_signature,
+      'Session renewed in ' || p_payment_signature
+    );
+  END IF;
+
+  SELECT remaining_amount INTO v_remaining FROM x402_payment_sessions WHERE id = v_session.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'renewal_id', v_renewal_id,
+    'remaining_amount', v_remaining,
+    'expires_at', v_new_expires,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_settle_hold(
+  p_transaction_id uuid,
+  p_amount numeric,
+  p_billing jsonb DEFAULT '{}',
+  p_failed boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx x402_transactions%ROWTYPE;
+  v_hold numeric(18, 6);
+  v_final numeric(18, 6);
+  v_release numeric(18, 6);
+  v_remaining numeric(18, 6);
+BEGIN
+  SELECT * INTO v_tx
+  FROM x402_transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not found');
+  END IF;
+
+  IF v_tx.metadata->'billing'->'hold_amount' IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_A_HOLD', 'error', 'Transaction is not a metered hold');
+  END IF;
+
+  -- Settling twice (e.g. a retried request handler) returns the first result
+  IF v_tx.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'transaction_id', v_tx.id,
+      'amount_charged', v_tx.amount_charged,
+      'replayed', true
+    );
+  END IF;
+
+  v_hold := v_tx.amount_charged;
+  v_final := CASE WHEN p_failed THEN 0 ELSE LEAST(GREATEST(COALESCE(p_amount, 0), 0), v_hold) END;
+  v_release := v_hold - v_final;
+
+  IF v_tx.session_id IS NOT NULL AND v_release > 0 THEN
+    PERFORM ledger_post_charge('release', v_tx.id, 'session', v_tx.session_id::text, v_release, false, 'x402_release:' || v_tx.id);
+
+    UPDATE x402_payment_sessions
+    SET
+      spent_amount = spent_amount - v_release,
+      status = CASE WHEN status = 'depleted' THEN 'active' ELSE status END
+    WHERE id = v_tx.session_id
+    RETURNING remaining_amount INTO v_remaining;
+  END IF;
+
+  UPDATE x402_transactions
+  SET
+    amount_charged = v_final,
+    status = CASE WHEN p_failed THEN 'failed' ELSE 'completed' END,
+    metadata = metadata || jsonb_build_object(
+      'billing',
+      (metadata->'billing') || p_billing || jsonb_build_object(
+        'settled_amount', v_final,
+        'released_amount', v_release,
+        'capped_at_hold', NOT p_failed AND COALESCE(p_amount, 0) > v_hold
+      )
+    )
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx.id,
+    'amount_charged', v_final,
+    'released_amount', v_release,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_refund_transaction(
+  p_transaction_id uuid,
+  p_reason text,
+  p_amount numeric DEFAULT NULL,
+  p_refund_type text DEFAULT 'manual',
+  p_refunded_by text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx x402_transactions%ROWTYPE;
+  v_session x402_payment_sessions%ROWTYPE;
+  v_refunded numeric(18, 6);
+  v_amount numeric(18, 6);
+  v_destination text;
+  v_session_id uuid;
+  v_credit_id uuid;
+  v_balance numeric(18, 6);
+  v_refund_id uuid;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'REASON_REQUIRED', 'error', 'A refund reason is required');
+  END IF;
+
+  SELECT * INTO v_tx
+  FROM x402_transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not found');
+  END IF;
+
+  v_refunded := COALESCE((v_tx.metadata->'refund'->>'refunded_amount')::numeric, 0);
+
+  -- Retried automatic refunds return the first result
+  IF v_tx.status = 'refunded' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'transaction_id', v_tx.id,
+      'refunded_amount', v_refunded,
+      'replayed', true
+    );
+  END IF;
+
+  IF v_tx.status <> 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_REFUNDABLE', 'error', 'Only completed transactions can be refunded');
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_tx.amount_charged - v_refunded);
+
+  IF v_amount <= 0 OR v_amount > v_tx.amount_charged - v_refunded THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_REFUND_AMOUNT',
+      'error', 'Refund must be positive and at most the unrefunded amount',
+      'refundable_amount', v_tx.amount_charged - v_refunded
+    );
+  END IF;
+
+  IF v_tx.session_id IS NOT NULL THEN
+    SELECT * INTO v_session
+    FROM x402_payment_sessions
+    WHERE id = v_tx.session_id
+    FOR UPDATE;
+
+    IF FOUND AND v_session.status IN ('active', 'depleted') AND v_session.expires_at > now() THEN
+      UPDATE x402_payment_sessions
+      SET
+        spent_amount = GREATEST(spent_amount - v_amount, 0),
+        status = 'active'
+      WHERE id = v_session.id;
+
+      v_destination := 'session';
+      v_session_id := v_session.id;
+    END IF;
+  END IF;
+
+  IF v_destination IS NULL AND v_tx.metadata ? 'credit_id' THEN
+    UPDATE x402_payment_credits
+    SET
+      total_spent = GREATEST(total_spent - v_amount, 0),
+      updated_at = now()
+    WHERE id = (v_tx.metadata->>'credit_id')::uuid
+    RETURNING id INTO v_credit_id;
+
+    IF FOUND THEN
+      v_destination := 'credits';
+    END IF;
+  END IF;
+
+  -- On-chain proofs and closed sessions are refunded as platform credits
+  IF v_destination IS NULL THEN
+    SELECT id INTO v_credit_id
+    FROM x402_payment_credits
+    WHERE wallet_address = v_tx.wallet_address
+      AND service_id IS NULL
+      AND service_type = CASE v_tx.resource_type
+        WHEN 'agent_execution' THEN 'agent'
+        WHEN 'data_access' THEN 'web_service'
+        ELSE 'api'
+      END
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      INSERT INTO x402_payment_credits (wallet_address, service_id, service_type, credit_balance)
+      VALUES (
+        v_tx.wallet_address,
+        NULL,
+        CASE v_tx.resource_type
+          WHEN 'agent_execution' THEN 'agent'
+          WHEN 'data_access' THEN 'web_service'
+          ELSE 'api'
+        END,
+        0
+      )
+      RETURNING id INTO v_credit_id;
+    END IF;
+
+    v_destination := 'credits';
+  END IF;
+
+  -- Refunded authorization charges stop counting towards the limits
+  UPDATE x402_authorization_charges
+  SET amount = GREATEST(amount - v_amount, 0)
+  WHERE transaction_id = v_tx.id;
+
+  UPDATE x402_payment_authorizations a
+  SET total_spent = GREATEST(a.total_spent - v_amount, 0), updated_at = now()
+  FROM x402_authorization_charges ac
+  WHERE ac.transaction_id = v_tx.id
+    AND a.id = ac.authorization_id;
+
+  INSERT INTO x402_refunds (
+    transaction_id,
+    wallet_address,
+    amount,
+    reason,
+    refund_type,
+    destination,
+    session_id,
+    credit_id,
+    refunded_by
+  ) VALUES (
+    v_tx.id,
+    v_tx.wallet_address,
+    v_amount,
+    p_reason,
+    p_refund_type,
+    v_destination,
+    v_session_id,
+    v_credit_id,
+    p_refunded_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  -- Calls paid from a session or credits were charged a platform fee, which
+  -- is returned with them; proofs and channel calls were paid out in full
+  PERFORM ledger_post_charge(
+    'refund',
+    v_tx.id,
+    v_destination,
+    COALESCE(v_session_id, v_credit_id)::text,
+    v_amount,
+    v_tx.session_id IS NULL AND NOT (v_tx.metadata ? 'credit_id'),
+    'x402_refund:' || v_refund_id,
+    p_reason
+  );
+
+  IF v_destination = 'session' THEN
+    SELECT remaining_amount INTO v_balance FROM x402_payment_sessions WHERE id = v_session_id;
+  ELSE
+    SELECT credit_balance INTO v_balance FROM x402_payment_credits WHERE id = v_credit_id;
+  END IF;
+
+  UPDATE x402_transactions
+  SET
+    status = CASE WHEN v_refunded + v_amount >= amount_charged THEN 'refunded' ELSE status END,
+    metadata = metadata || jsonb_build_object(
+      'refund',
+      jsonb_build_object(
+        'refunded_amount', v_refunded + v_amount,
+        'reason', p_reason,
+        'refund_type', p_refund_type,
+        'refunded_at', now()
+      )
+    )
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refund_id', v_refund_id,
+    'transaction_id', v_tx.id,
+    'amount', v_amount,
+    'refunded_amount', v_refunded + v_amount,
+    'destination', v_destination,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
+
+-- 8. On-chain payments and payouts
+
+CREATE OR REPLACE FUNCTION solana_pay_fulfill_request(
+  p_reference text,
+  p_signature text,
+  p_payer_wallet text,
+  p_amount_base_units numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request solana_pay_requests%ROWTYPE;
+  v_target_id text;
+  v_session_token text;
+  v_credit_id uuid;
+  v_service_id uuid;
+  v_service_type text;
+BEGIN
+  SELECT * INTO v_request
+  FROM solana_pay_requests
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'REQUEST_NOT_FOUND', 'error', 'Payment request not found');
+  END IF;
+
+  IF v_request.status = 'confirmed' THEN
+    IF v_request.transaction_signature = p_signature THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'request_id', v_request.id,
+        'purpose', v_request.purpose,
+        'target_id', v_request.target_id,
+        'session_token', (SELECT session_token FROM x402_payment_sessions WHERE id::text = v_request.target_id AND v_request.purpose = 'x402_session')
+      );
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error_code', 'ALREADY_FULFILLED', 'error', 'Payment request was already paid by another transaction');
+  END IF;
+
+  IF p_amount_base_units < v_request.amount_base_units THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'AMOUNT_MISMATCH',
+      'error', format('Expected %s base units, received %s', v_request.amount_base_units, p_amount_base_units)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM solana_pay_requests WHERE transaction_signature = p_signature)
+    OR EXISTS (SELECT 1 FROM ledger_journal_entries WHERE idempotency_key = 'payment:' || p_signature)
+  THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already paid for another request');
+  END IF;
+
+  IF v_request.purpose = 'agent_execution' THEN
+    INSERT INTO agent_executions (
+      agent_id,
+      status,
+      cost_usdc,
+      payment_required,
+      transaction_signature,
+      input_data
+    )
+    VALUES (
+      (v_request.params->>'agent_id')::uuid,
+      'processing',
+      v_request.amount_usd,
+      true,
+      p_signature,
+      COALESCE(v_request.params->'input_data', '{}'::jsonb)
+    )
+    RETURNING id::text INTO v_target_id;
+
+  ELSIF v_request.purpose = 'x402_session' THEN
+    v_session_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+    INSERT INTO x402_payment_sessions (
+      wallet_address,
+      session_token,
+      authorized_amount,
+      spent_amount,
+      remaining_amount,
+      resource_pattern,
+      resource_patterns,
+      status,
+      expires_at,
+      initial_payment_signature,
+      payment_currency
+    )
+    SELECT
+      p_payer_wallet,
+      v_session_token,
+      v_request.amount_usd,
+      0,
+      0,
+      patterns[1],
+      patterns,
+      'active',
+      now() + make_interval(hours => COALESCE((v_request.params->>'duration_hours')::integer, 24)),
+      p_signature,
+      v_request.currency
+    FROM (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(v_request.params->'resource_patterns')) AS patterns
+    ) p
+    RETURNING id::text INTO v_target_id;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_request.amount_usd),
+        ledger_leg('session', v_target_id, -v_request.amount_usd)
+      ),
+      'x402_session',
+      v_target_id,
+      'payment:' || p_signature,
+      'Session paid in ' || p_signature
+    );
+
+  ELSIF v_request.purpose = 'credit_top_up' THEN
+    v_service_id := NULLIF(v_request.params->>'service_id', '')::uuid;
+    v_service_type := COALESCE(v_request.params->>'service_type', 'api');
+
+    SELECT id INTO v_credit_id
+    FROM x402_payment_credits
+    WHERE wallet_address = p_payer_wallet
+      AND service_id IS NOT DISTINCT FROM v_service_id
+      AND service_type = v_service_type
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE x402_payment_credits
+      SET
+        total_purchased = total_purchased + v_request.amount_usd,
+        last_topup_tx = p_signature,
+        last_topup_amount = v_request.amount_usd,
+        last_topup_at = now(),
+        updated_at = now()
+      WHERE id = v_credit_id;
+    ELSE
+      INSERT INTO x402_payment_credits (
+        wallet_address,
+        service_id,
+        service_type,
+        credit_balance,
+        total_purchased,
+        total_spent,
+        last_topup_tx,
+        last_topup_amount,
+        last_topup_at
+      )
+      VALUES (
+        p_payer_wallet,
+        v_service_id,
+        v_service_type,
+        0,
+        v_request.amount_usd,
+        0,
+        p_signature,
+        v_request.amount_usd,
+        now()
+      )
+      RETURNING id INTO v_credit_id;
+    END IF;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_request.amount_usd),
+        ledger_leg('credits', v_credit_id::text, -v_request.amount_usd)
+      ),
+      'x402_credits',
+      v_credit_id::text,
+      'payment:' || p_signature,
+      'Credits paid in ' || p_signature
+    );
+
+    v_target_id := v_credit_id::text;
+  END IF;
+
+  UPDATE solana_pay_requests
+  SET
+    status = 'confirmed',
+    transaction_signature = p_signature,
+    payer_wallet = p_payer_wallet,
+    target_id = v_target_id,
+    confirmed_at = now()
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'replayed', false,
+    'request_id', v_request.id,
+    'purpose', v_request.purpose,
+    'target_id', v_target_id,
+    'session_token', v_session_token
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_transaction_log(
+  p_signature text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log record;
+  v_row record;
+  v_executions integer := 0;
+  v_sessions integer := 0;
+  v_credits integer := 0;
+BEGIN
+  SELECT * INTO v_log
+  FROM transaction_logs
+  WHERE signature = p_signature
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not logged');
+  END IF;
+
+  IF v_log.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'NOT_PENDING',
+      'error', format('Transaction is already %s', v_log.status)
+    );
+  END IF;
+
+  UPDATE transaction_logs
+  SET
+    status = 'expired',
+    error_message = COALESCE(p_reason, 'Blockhash expired before the transaction landed')
+  WHERE signature = p_signature;
+
+  UPDATE agent_executions
+  SET
+    status = 'failed',
+    error_message = 'Payment expired before it was processed. You were not charged.',
+    completed_at = now()
+  WHERE transaction_signature = p_signature
+    AND status IN ('pending', 'payment_required', 'processing');
+
+  GET DIAGNOSTICS v_executions = ROW_COUNT;
+
+  -- The platform never received the money, so what is left of it goes
+  -- back out of platform cash
+  FOR v_row IN
+    UPDATE x402_payment_sessions
+    SET status = 'revoked'
+    WHERE initial_payment_signature = p_signature
+      AND status = 'active'
+    RETURNING id, remaining_amount
+  LOOP
+    PERFORM ledger_post(
+      'reversal',
+      jsonb_build_array(
+        ledger_leg('session', v_row.id::text, v_row.remaining_amount),
+        ledger_leg('platform_cash', '', -v_row.remaining_amount)
+      ),
+      'x402_session',
+      v_row.id::text,
+      'reversal:' || p_signature || ':' || v_row.id,
+      'Payment ' || p_signature || ' expired'
+    );
+
+    v_sessions := v_sessions + 1;
+  END LOOP;
+
+  FOR v_row IN
+    UPDATE x402_payment_credits
+    SET
+      total_purchased = GREATEST(total_purchased - COALESCE(last_topup_amount, 0), 0),
+      updated_at = now()
+    WHERE last_topup_tx = p_signature
+    RETURNING id, LEAST(COALESCE(last_topup_amount, 0), credit_balance) AS reversed
+  LOOP
+    PERFORM ledger_post(
+      'reversal',
+      jsonb_build_array(
+        ledger_leg('credits', v_row.id::text, v_row.reversed),
+        ledger_leg('platform_cash', '', -v_row.reversed)
+      ),
+      'x402_credits',
+      v_row.id::text,
+      'reversal:' || p_signature || ':' || v_row.id,
+      'Payment ' || p_signature || ' expired'
+    );
+
+    v_credits := v_credits + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'wallet_address', v_log.wallet_address,
+    'transaction_type', v_log.transaction_type,
+    'amount_usd', v_log.amount_usd,
+    'executions_cancelled', v_executions,
+    'sessions_revoked', v_sessions,
+    'credits_reversed', v_credits
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_creator_payout_batch(
+  p_batch_id uuid,
+  p_signature text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_withdrawal record;
+BEGIN
+  UPDATE creator_payout_batches
+  SET status = 'confirmed', signature = p_signature, error = NULL, confirmed_at = now()
+  WHERE id = p_batch_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'BATCH_NOT_PENDING', 'error', 'Payout batch is not pending');
+  END IF;
+
+  FOR v_withdrawal IN
+    UPDATE creator_withdrawals
+    SET status = 'completed', signature = p_signature, completed_at = now()
+    WHERE batch_id = p_batch_id
+      AND status = 'processing'
+    RETURNING id, creator_wallet, amount
+  LOOP
+    PERFORM ledger_post(
+      'payout',
+      jsonb_build_array(
+        ledger_leg('creator', v_withdrawal.creator_wallet, v_withdrawal.amount),
+        ledger_leg('platform_cash', '', -v_withdrawal.amount)
+      ),
+      'creator_withdrawal',
+      v_withdrawal.id::text,
+      'payout:' || v_withdrawal.id,
+      'Paid in ' || p_signature
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_creator_earnings(
+  p_platform_fee_percent numeric DEFAULT 10,
+  p_hold_seconds integer DEFAULT 86400,
+  p_limit integer DEFAULT 500
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transactions integer;
+  v_refunds integer;
+  v_splits integer;
+BEGIN
+  -- x402 calls. Sessions, credits and authorizations are paid to the
+  -- platform, which owes the creator the price minus its fee; payment proofs
+  -- went to the owner directly. Channel calls are recorded from their
+  -- settlement splits instead.
+  WITH paid AS (
+    SELECT
+      t.id,
+      t.amount_charged,
+      t.created_at,
+      t.payment_proof IS NOT NULL AS direct,
+      c.owner_wallet,
+      c.service_type,
+      c.service_id
+    FROM x402_transactions t
+    CROSS JOIN LATERAL x402_transaction_service(t.id) c
+    WHERE t.status IN ('completed', 'refunded')
+      AND t.amount_charged > 0
+      AND NOT (COALESCE(t.metadata, '{}'::jsonb) ? 'channel_id')
+      AND NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'x402_transaction' AND e.source_id = t.id
+      )
+      AND c.owner_wallet IS NOT NULL
+    ORDER BY t.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, transaction_signature, available_at, occurred_at
+    )
+    SELECT
+      p.owner_wallet,
+      p.service_type,
+      p.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'earning' THEN p.amount_charged
+        ELSE -round(p.amount_charged * p_platform_fee_percent / 100, 6)
+      END,
+      CASE WHEN p.direct THEN 'direct' ELSE 'custodial' END,
+      'x402_transaction',
+      p.id,
+      NULL,
+      CASE WHEN p.direct THEN NULL ELSE p.created_at + make_interval(secs => p_hold_seconds) END,
+      p.created_at
+    FROM paid p
+    CROSS JOIN (VALUES ('earning'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'earning' OR NOT p.direct
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_transactions FROM inserted;
+
+  -- Refunds come out of the creator's custodial balance, including refunds
+  -- of payment proofs, which the platform pays back as credits. The fee on
+  -- a refunded session, credit or authorization call is returned, and both
+  -- are released together with the call they reverse.
+  WITH refunded AS (
+    SELECT
+      r.id,
+      r.amount,
+      r.created_at,
+      t.created_at AS paid_at,
+      t.payment_proof IS NOT NULL AS direct,
+      c.owner_wallet,
+      c.service_type,
+      c.service_id
+    FROM x402_refunds r
+    JOIN x402_transactions t ON t.id = r.transaction_id
+    CROSS JOIN LATERAL x402_transaction_service(r.transaction_id) c
+    WHERE NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'x402_refund' AND e.source_id = r.id
+      )
+      AND c.owner_wallet IS NOT NULL
+    ORDER BY r.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, available_at, occurred_at
+    )
+    SELECT
+      r.owner_wallet,
+      r.service_type,
+      r.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'refund' THEN -r.amount
+        ELSE round(r.amount * p_platform_fee_percent / 100, 6)
+      END,
+      'custodial',
+      'x402_refund',
+      r.id,
+      CASE WHEN r.direct THEN r.created_at ELSE r.paid_at + make_interval(secs => p_hold_seconds) END,
+      r.created_at
+    FROM refunded r
+    CROSS JOIN (VALUES ('refund'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'refund' OR NOT r.direct
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_refunds FROM inserted;
+
+  -- Split payments, escrow releases and channel settlements paid the creator
+  -- on-chain; the gross price is worked back from the creator's share
+  WITH paid AS (
+    SELECT s.*
+    FROM payment_splits s
+    WHERE s.role = 'creator'
+      AND s.status = 'verified'
+      AND s.amount_usd IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'payment_split' AND e.source_id = s.id
+      )
+    ORDER BY s.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, transaction_signature, occurred_at
+    )
+    SELECT
+      p.recipient_address,
+      p.service_type,
+      p.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'earning' THEN round(p.amount_usd * 100 / p.share_percent, 6)
+        ELSE p.amount_usd - round(p.amount_usd * 100 / p.share_percent, 6)
+      END,
+      'direct',
+      'payment_split',
+      p.id,
+      p.transaction_signature,
+      p.created_at
+    FROM paid p
+    CROSS JOIN (VALUES ('earning'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'earning' OR p.share_percent < 100
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_splits FROM inserted;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transactions', v_transactions,
+    'refunds', v_refunds,
+    'splits', v_splits
+  );
+END;
+$$;
+
+-- 9. Invariants
+
+CREATE OR REPLACE FUNCTION ledger_check_invariants()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_violations jsonb := '[]'::jsonb;
+  v_found jsonb;
+  v_trial_balance numeric;
+BEGIN
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb) INTO v_found
+  FROM (
+    SELECT jsonb_build_object(
+      'check', 'unbalanced_entry',
+      'journal_entry_id', e.id,
+      'difference', COALESCE(t.total, 0),
+      'postings', COALESCE(t.postings, 0)
+    ) AS v
+    FROM ledger_journal_entries e
+    LEFT JOIN (
+      SELECT journal_entry_id, sum(amount) AS total, count(*) AS postings
+      FROM ledger_postings
+      GROUP BY journal_entry_id
+    ) t ON t.journal_entry_id = e.id
+    WHERE COALESCE(t.total, 0) <> 0 OR COALESCE(t.postings, 0) < 2
+    LIMIT 100
+  ) found;
+  v_violations := v_violations || v_found;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb) INTO v_found
+  FROM (
+    SELECT jsonb_build_object(
+      'check', 'session_balance',
+      'session_id', s.id,
+      'column', s.remaining_amount,
+      'ledger', COALESCE(b.balance, 0)
+    ) AS v
+    FROM x402_payment_sessions s
+    LEFT JOIN ledger_account_balances b ON b.owner_type = 'session' AND b.owner_id = s.id::text
+    WHERE s.remaining_amount <> COALESCE(b.balance, 0)
+    LIMIT 100
+  ) found;
+  v_violations := v_violations || v_found;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb) INTO v_found
+  FROM (
+    SELECT jsonb_build_object(
+      'check', 'credit_balance',
+      'credit_id', c.id,
+      'column', c.credit_balance,
+      'ledger', COALESCE(b.balance, 0)
+    ) AS v
+    FROM x402_payment_credits c
+    LEFT JOIN ledger_account_balances b ON b.owner_type = 'credits' AND b.owner_id = c.id::text
+    WHERE COALESCE(c.credit_balance, 0) <> COALESCE(b.balance, 0)
+    LIMIT 100
+  ) found;
+  v_violations := v_violations || v_found;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb) INTO v_found
+  FROM (
+    SELECT jsonb_build_object(
+      'check', 'agent_revenue',
+      'agent_id', a.id,
+      'column', a.revenue,
+      'ledger', COALESCE(r.revenue, 0)
+    ) AS v
+    FROM agents a
+    LEFT JOIN (
+      SELECT service_id, sum(revenue) AS revenue
+      FROM ledger_service_revenue
+      WHERE service_type = 'agent'
+      GROUP BY service_id
+    ) r ON r.service_id = a.id
+    WHERE COALESCE(a.revenue, 0) <> COALESCE(r.revenue, 0)
+    LIMIT 100
+  ) found;
+  v_violations := v_violations || v_found;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb) INTO v_found
+  FROM (
+    SELECT jsonb_build_object(
+      'check', 'api_revenue',
+      'api_id', a.id,
+      'column', a.total_revenue,
+      'ledger', COALESCE(r.revenue, 0)
+    ) AS v
+    FROM apis a
+    LEFT JOIN (
+      SELECT service_id, sum(revenue) AS revenue
+      FROM ledger_service_revenue
+      WHERE service_type = 'api'
+      GROUP BY service_id
+    ) r ON r.service_id = a.id
+    WHERE COALESCE(a.total_revenue, 0) <> COALESCE(r.revenue, 0)
+    LIMIT 100
+  ) found;
+  v_violations := v_violations || v_found;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb) INTO v_found
+  FROM (
+    SELECT jsonb_build_object(
+      'check', 'negative_balance',
+      'account_id', account_id,
+      'owner_type', owner_type,
+      'owner_id', owner_id,
+      'balance', balance
+    ) AS v
+    FROM ledger_account_balances
+    WHERE owner_type IN ('session', 'credits')
+      AND balance < 0
+    LIMIT 100
+  ) found;
+  v_violations := v_violations || v_found;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_trial_balance FROM ledger_postings;
+
+  IF v_trial_balance <> 0 THEN
+    v_violations := v_violations || jsonb_build_array(
+      jsonb_build_object('check', 'trial_balance', 'difference', v_trial_balance)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'balanced', jsonb_array_length(v_violations) = 0,
+    'violations', v_violations,
+    'journal_entries', (SELECT count(*) FROM ledger_journal_entries),
+    'checked_at', now()
+  );
+END;
+$$;
+
+-- 10. Permissions and comments
+
+REVOKE EXECUTE ON FUNCTION ledger_account(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_post(text, jsonb, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_post_charge(text, uuid, text, text, numeric, boolean, text, text) FROM PUBLIC, anon, authenticated;
+
+GRANT SELECT ON ledger_account_balances TO anon, authenticated;
+GRANT SELECT ON ledger_service_revenue TO anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION x402_fund_session(text, text, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION x402_top_up_credits(text, uuid, text, numeric, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION ledger_check_invariants() TO anon, authenticated;
+
+COMMENT ON TABLE ledger_accounts IS 'Double-entry ledger accounts for platform cash, fees, prepaid session and credit balances and creator payables';
+COMMENT ON TABLE ledger_journal_entries IS 'One balanced journal entry per top-up, charge, refund, transfer, payout or direct payment';
+COMMENT ON TABLE ledger_postings IS 'Signed postings (debit positive, credit negative) that sum to zero per journal entry';
+COMMENT ON VIEW ledger_account_balances IS 'Account balances derived from postings, debit-positive for assets and credit-positive otherwise';
+COMMENT ON VIEW ledger_service_revenue IS 'What each agent and API earned its creator, derived from tagged creator postings';
+COMMENT ON FUNCTION ledger_post IS 'Posts a balanced journal entry from jsonb legs, returning the existing entry for a known idempotency key';
+COMMENT ON FUNCTION x402_fund_session IS 'Funds a new x402 session with its authorized amount from a wallet payment or from credits';
+COMMENT ON FUNCTION x402_top_up_credits IS 'Adds a confirmed wallet payment to an x402 credit account through the ledger';
+COMMENT ON FUNCTION ledger_check_invariants IS 'Checks that entries balance, projected balance columns match the ledger and prepaid balances are not negative';
+COMMENT ON FUNCTION sync_creator_earnings IS 'Records creator earnings entries for new x402 payments, refunds and split payments';
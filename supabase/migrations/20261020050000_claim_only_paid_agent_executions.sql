@@ -0,0 +1,311 @@
+/*
+  # Claim Only Paid Agent Executions
+
+  1. Changed functions
+    - `claim_agent_executions(p_worker_id, p_limit, p_stale_after_seconds)`
+      only claims executions of free agents or with a confirmed,
+      blockchain-verified `payment_transactions` row; anyone can insert an
+      execution, so the row itself proves nothing
+    - `solana_pay_fulfill_request(...)` also records a confirmed
+      `payment_transactions` row for an execution it creates, so the
+      execution worker claims it
+
+  2. Security
+    - `claim_agent_executions` is revoked from anon and authenticated
+    - Anonymous inserts into `payment_transactions` are limited to pending,
+      unverified rows; only the service role confirms a payment
+*/
+
+CREATE OR REPLACE FUNCTION claim_agent_executions(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS TABLE (
+  id uuid,
+  agent_id uuid,
+  agent_name text,
+  agent_category text,
+  input_data jsonb,
+  attempts integer
+)
+LANGUAGE sql
+AS $$
+  WITH claimable AS (
+    SELECT e.id
+    FROM agent_executions e
+    WHERE e.status IN ('pending', 'processing')
+      AND (
+        e.claimed_at IS NULL
+        OR e.claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+      )
+      AND (
+        EXISTS (
+          SELECT 1
+          FROM payment_transactions p
+          WHERE p.execution_id = e.id
+            AND p.status = 'confirmed'
+            AND p.blockchain_verified_at IS NOT NULL
+        )
+        OR EXISTS (
+          SELECT 1
+          FROM agents a
+          WHERE a.id = e.agent_id
+            AND COALESCE(a.price, 0) = 0
+        )
+      )
+    ORDER BY e.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE agent_executions e
+    SET
+      status = 'processing',
+      worker_id = p_worker_id,
+      claimed_at = now(),
+      attempts = e.attempts + 1
+    FROM claimable c
+    WHERE e.id = c.id
+    RETURNING e.id, e.agent_id, e.input_data, e.attempts
+  )
+  SELECT c.id, c.agent_id, a.name, a.category, c.input_data, c.attempts
+  FROM claimed c
+  JOIN agents a ON a.id = c.agent_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_agent_executions(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY IF EXISTS "Anonymous can insert transactions" ON payment_transactions;
+
+CREATE POLICY "Anonymous can insert pending transactions"
+  ON payment_transactions FOR INSERT
+  TO anon
+  WITH CHECK (
+    status = 'pending'
+    AND blockchain_verified_at IS NULL
+    AND marked_used_at IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION solana_pay_fulfill_request(
+  p_reference text,
+  p_signature text,
+  p_payer_wallet text,
+  p_amount_base_units numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request solana_pay_requests%ROWTYPE;
+  v_target_id text;
+  v_session_token text;
+  v_credit_id uuid;
+  v_service_id uuid;
+  v_service_type text;
+BEGIN
+  SELECT * INTO v_request
+  FROM solana_pay_requests
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'REQUEST_NOT_FOUND', 'error', 'Payment request not found');
+  END IF;
+
+  IF v_request.status = 'confirmed' THEN
+    IF v_request.transaction_signature = p_signature THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'request_id', v_request.id,
+        'purpose', v_request.purpose,
+        'target_id', v_request.target_id,
+        'session_token', (SELECT session_token FROM x402_payment_sessions WHERE id::text = v_request.target_id AND v_request.purpose = 'x402_session')
+      );
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error_code', 'ALREADY_FULFILLED', 'error', 'Payment request was already paid by another transaction');
+  END IF;
+
+  IF p_amount_base_units < v_request.amount_base_units THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'AMOUNT_MISMATCH',
+      'error', format('Expected %s base units, received %s', v_request.amount_base_units, p_amount_base_units)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM solana_pay_requests WHERE transaction_signature = p_signature)
+    OR EXISTS (SELECT 1 FROM ledger_journal_entries WHERE idempotency_key = 'payment:' || p_signature)
+  THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already paid for another request');
+  END IF;
+
+  IF v_request.purpose = 'agent_execution' THEN
+    INSERT INTO agent_executions (
+      agent_id,
+      status,
+      cost_usdc,
+      payment_required,
+      transaction_signature,
+      input_data
+    )
+    VALUES (
+      (v_request.params->>'agent_id')::uuid,
+      'processing',
+      v_request.amount_usd,
+      true,
+      p_signature,
+      COALESCE(v_request.params->'input_data', '{}'::jsonb)
+    )
+    RETURNING id::text INTO v_target_id;
+
+    INSERT INTO payment_transactions (
+      execution_id,
+      wallet_address,
+      recipient_address,
+      amount_usdc,
+      transaction_signature,
+      status,
+      blockchain_verified_at
+    )
+    VALUES (
+      v_target_id::uuid,
+      p_payer_wallet,
+      v_request.recipient,
+      v_request.amount_usd,
+      p_signature,
+      'confirmed',
+      now()
+    );
+
+  ELSIF v_request.purpose = 'x402_session' THEN
+    v_session_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+    INSERT INTO x402_payment_sessions (
+      wallet_address,
+      session_token,
+      authorized_amount,
+      spent_amount,
+      remaining_amount,
+      resource_pattern,
+      resource_patterns,
+      status,
+      expires_at,
+      initial_payment_signature,
+      payment_currency
+    )
+    SELECT
+      p_payer_wallet,
+      v_session_token,
+      v_request.amount_usd,
+      0,
+      0,
+      patterns[1],
+      patterns,
+      'active',
+      now() + make_interval(hours => COALESCE((v_request.params->>'duration_hours')::integer, 24)),
+      p_signature,
+      v_request.currency
+    FROM (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(v_request.params->'resource_patterns')) AS patterns
+    ) p
+    RETURNING id::text INTO v_target_id;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_request.amount_usd),
+        ledger_leg('session', v_target_id, -v_request.amount_usd)
+      ),
+      'x402_session',
+      v_target_id,
+      'payment:' || p_signature,
+      'Session paid in ' || p_signature
+    );
+
+  ELSIF v_request.purpose = 'credit_top_up' THEN
+    v_service_id := NULLIF(v_request.params->>'service_id', '')::uuid;
+    v_service_type := COALESCE(v_request.params->>'service_type', 'api');
+
+    SELECT id INTO v_credit_id
+    FROM x402_payment_credits
+    WHERE wallet_address = p_payer_wallet
+      AND service_id IS NOT DISTINCT FROM v_service_id
+      AND service_type = v_service_type
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE x402_payment_credits
+      SET
+        total_purchased = total_purchased + v_request.amount_usd,
+        last_topup_tx = p_signature,
+        last_topup_amount = v_request.amount_usd,
+        last_topup_at = now(),
+        updated_at = now()
+      WHERE id = v_credit_id;
+    ELSE
+      INSERT INTO x402_payment_credits (
+        wallet_address,
+        service_id,
+        service_type,
+        credit_balance,
+        total_purchased,
+        total_spent,
+        last_topup_tx,
+        last_topup_amount,
+        last_topup_at
+      )
+      VALUES (
+        p_payer_wallet,
+        v_service_id,
+        v_service_type,
+        0,
+        v_request.amount_usd,
+        0,
+        p_signature,
+        v_request.amount_usd,
+        now()
+      )
+      RETURNING id INTO v_credit_id;
+    END IF;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_request.amount_usd),
+        ledger_leg('credits', v_credit_id::text, -v_request.amount_usd)
+      ),
+      'x402_credits',
+      v_credit_id::text,
+      'payment:' || p_signature,
+      'Credits paid in ' || p_signature
+    );
+
+    v_target_id := v_credit_id::text;
+  END IF;
+
+  UPDATE solana_pay_requests
+  SET
+    status = 'confirmed',
+    transaction_signature = p_signature,
+    payer_wallet = p_payer_wallet,
+    target_id = v_target_id,
+    confirmed_at = now()
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'replayed', false,
+    'request_id', v_request.id,
+    'purpose', v_request.purpose,
+    'target_id', v_target_id,
+    'session_token', v_session_token
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION claim_agent_executions IS 'Claims paid agent executions for a worker, skipping rows locked by other workers';
@@ -0,0 +1,420 @@
+/*
+  # Scope x402 Idempotent Replays
+
+  1. Changed functions
+    - `x402_debit_session`, `x402_spend_credits` and `x402_charge_authorization`
+      only look up an idempotency key once the session, credit account or
+      authorization has passed its status and expiry checks, and a key only
+      replays a charge made on that same session, credit account or
+      authorization
+    - A key already used for another payment returns
+      `IDEMPOTENCY_KEY_CONFLICT`
+*/
+
+CREATE OR REPLACE FUNCTION x402_charge_authorization(
+  p_authorization_token text,
+  p_wallet_address text,
+  p_amount numeric,
+  p_resource_url text DEFAULT NULL,
+  p_http_method text DEFAULT 'POST',
+  p_idempotency_key text DEFAULT NULL,
+  p_service_id uuid DEFAULT NULL,
+  p_service_type text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_auth x402_payment_authorizations%ROWTYPE;
+  v_existing x402_authorization_charges%ROWTYPE;
+  v_spent_day numeric(18, 6);
+  v_spent_month numeric(18, 6);
+  v_spend jsonb;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_auth
+  FROM x402_payment_authorizations
+  WHERE authorization_token = p_authorization_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_NOT_FOUND', 'error', 'Authorization not found');
+  END IF;
+
+  IF v_auth.wallet_address <> p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Authorization belongs to another wallet');
+  END IF;
+
+  IF (p_service_id IS NOT NULL AND v_auth.service_id <> p_service_id)
+    OR (p_service_type IS NOT NULL AND v_auth.service_type <> p_service_type) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SERVICE_MISMATCH', 'error', 'Authorization is for another service');
+  END IF;
+
+  IF v_auth.status = 'paused' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_PAUSED', 'error', 'Authorization is paused');
+  END IF;
+
+  IF v_auth.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_' || upper(v_auth.status), 'error', 'Authorization is ' || v_auth.status);
+  END IF;
+
+  IF v_auth.expires_at IS NOT NULL AND v_auth.expires_at < now() THEN
+    UPDATE x402_payment_authorizations SET status = 'expired', updated_at = now() WHERE id = v_auth.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_EXPIRED', 'error', 'Authorization expired');
+  END IF;
+
+  -- Only a live authorization replays, and only charges made under it
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM x402_authorization_charges
+    WHERE idempotency_key = p_idempotency_key
+      AND authorization_id = v_auth.id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing.transaction_id,
+        'total_spent', v_auth.total_spent,
+        'replayed', true
+      );
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM x402_authorization_charges WHERE idempotency_key = p_idempotency_key) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'IDEMPOTENCY_KEY_CONFLICT', 'error', 'Idempotency key was used for another payment');
+    END IF;
+  END IF;
+
+  IF v_auth.spending_limit_per_request IS NOT NULL AND p_amount > v_auth.spending_limit_per_request THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'PER_REQUEST_LIMIT_EXCEEDED', 'error', 'Amount exceeds the per-request limit');
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at > now() - interval '1 day'), 0),
+    COALESCE(SUM(amount), 0)
+  INTO v_spent_day, v_spent_month
+  FROM x402_authorization_charges
+  WHERE authorization_id = v_auth.id
+    AND created_at > now() - interval '30 days';
+
+  IF v_auth.spending_limit_per_day IS NOT NULL AND v_spent_day + p_amount > v_auth.spending_limit_per_day THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'DAILY_LIMIT_EXCEEDED',
+      'error', 'Amount exceeds the rolling 24 hour limit',
+      'spent_today', v_spent_day
+    );
+  END IF;
+
+  IF v_auth.spending_limit_per_month IS NOT NULL AND v_spent_month + p_amount > v_auth.spending_limit_per_month THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'MONTHLY_LIMIT_EXCEEDED',
+      'error', 'Amount exceeds the rolling 30 day limit',
+      'spent_this_month', v_spent_month
+    );
+  END IF;
+
+  IF v_auth.total_spent + p_amount > v_auth.total_authorized THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_EXHAUSTED', 'error', 'Authorization has no budget left');
+  END IF;
+
+  v_spend := x402_spend_credits(
+    v_auth.wallet_address,
+    v_auth.service_id,
+    v_auth.service_type,
+    p_amount,
+    p_resource_url,
+    p_http_method,
+    p_idempotency_key
+  );
+
+  IF v_spend->>'error_code' = 'CREDIT_ACCOUNT_NOT_FOUND' THEN
+    v_spend := x402_spend_credits(
+      v_auth.wallet_address,
+      NULL,
+      v_auth.service_type,
+      p_amount,
+      COALESCE(p_resource_url, v_auth.service_type || '/' || v_auth.service_id),
+      p_http_method,
+      p_idempotency_key
+    );
+  END IF;
+
+  IF NOT (v_spend->>'success')::boolean THEN
+    RETURN v_spend;
+  END IF;
+
+  UPDATE x402_payment_authorizations
+  SET
+    total_spent = total_spent + p_amount,
+    updated_at = now()
+  WHERE id = v_auth.id;
+
+  INSERT INTO x402_authorization_charges (authorization_id, transaction_id, amount, idempotency_key)
+  VALUES (v_auth.id, (v_spend->>'transaction_id')::uuid, p_amount, p_idempotency_key);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_spend->>'transaction_id',
+    'new_balance', v_spend->'new_balance',
+    'total_spent', v_auth.total_spent + p_amount,
+    'spent_today', v_spent_day + p_amount,
+    'spent_this_month', v_spent_month + p_amount,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_debit_session(
+  p_session_token text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL,
+  p_resource text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_remaining numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE session_token = p_session_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_INACTIVE', 'error', 'Session is ' || v_session.status);
+  END IF;
+
+  IF v_session.expires_at < now() THEN
+    UPDATE x402_payment_sessions SET status = 'expired' WHERE id = v_session.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_EXPIRED', 'error', 'Session expired');
+  END IF;
+
+  -- Fails closed: without an explicit resource key the URL has to match.
+  IF NOT EXISTS (
+    SELECT 1
+    FROM unnest(v_session.resource_patterns) AS pattern
+    WHERE COALESCE(p_resource, p_resource_url) ~ x402_glob_to_regex(pattern)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'RESOURCE_NOT_AUTHORIZED',
+      'error', 'Session is not authorized for ' || COALESCE(p_resource, p_resource_url)
+    );
+  END IF;
+
+  -- Checked under the row lock, so concurrent retries with the same key are
+  -- serialised behind the first one, and only once the session is valid for
+  -- this request. A key only replays a charge made on the same session.
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key
+      AND session_id = v_session.id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'remaining_amount', v_session.remaining_amount,
+        'replayed', true
+      );
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM x402_transactions WHERE idempotency_key = p_idempotency_key) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'IDEMPOTENCY_KEY_CONFLICT', 'error', 'Idempotency key was used for another payment');
+    END IF;
+  END IF;
+
+  IF v_session.remaining_amount < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_BALANCE',
+      'error', 'Insufficient session balance',
+      'remaining_amount', v_session.remaining_amount
+    );
+  END IF;
+
+  INSERT INTO x402_transactions (
+    session_id,
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    x402_header,
+    status,
+    response_code,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_amount,
+    COALESCE(p_x402_header, 'session=' || p_session_token),
+    'completed',
+    200,
+    p_idempotency_key,
+    jsonb_build_object('resource', COALESCE(p_resource, p_resource_url))
+  )
+  RETURNING id INTO v_tx_id;
+
+  PERFORM ledger_post_charge('charge', v_tx_id, 'session', v_session.id::text, p_amount, false, 'x402_charge:' || v_tx_id);
+
+  UPDATE x402_payment_sessions
+  SET
+    spent_amount = spent_amount + p_amount,
+    last_used_at = now(),
+    status = CASE WHEN remaining_amount <= 0 THEN 'depleted' ELSE 'active' END
+  WHERE id = v_session.id
+  RETURNING remaining_amount INTO v_remaining;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_spend_credits(
+  p_wallet_address text,
+  p_service_id uuid,
+  p_service_type text,
+  p_amount numeric,
+  p_resource_url text DEFAULT NULL,
+  p_http_method text DEFAULT 'POST',
+  p_idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit x402_payment_credits%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_balance numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_credit
+  FROM x402_payment_credits
+  WHERE wallet_address = p_wallet_address
+    AND service_id IS NOT DISTINCT FROM p_service_id
+    AND service_type = p_service_type
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CREDIT_ACCOUNT_NOT_FOUND', 'error', 'Credit account not found');
+  END IF;
+
+  -- A key only replays a charge made on the same credit account
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key
+      AND metadata->>'credit_id' = v_credit.id::text;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'new_balance', v_credit.credit_balance,
+        'replayed', true
+      );
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM x402_transactions WHERE idempotency_key = p_idempotency_key) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'IDEMPOTENCY_KEY_CONFLICT', 'error', 'Idempotency key was used for another payment');
+    END IF;
+  END IF;
+
+  IF v_credit.credit_balance < p_amount THEN
+    IF v_credit.auto_topup_enabled AND v_credit.credit_balance < v_credit.auto_topup_threshold THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_code', 'AUTO_TOPUP_REQUIRED',
+        'error', 'Insufficient credits. Auto top-up triggered but requires user action.',
+        'new_balance', v_credit.credit_balance
+      );
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_CREDITS',
+      'error', 'Insufficient credits',
+      'new_balance', v_credit.credit_balance
+    );
+  END IF;
+
+  INSERT INTO x402_transactions (
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    status,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    p_wallet_address,
+    COALESCE(p_resource_url, p_service_type || '/' || COALESCE(p_service_id::text, '*')),
+    CASE p_service_type
+      WHEN 'agent' THEN 'agent_execution'
+      WHEN 'web_service' THEN 'data_access'
+      ELSE 'api_call'
+    END,
+    p_http_method,
+    p_amount,
+    'completed',
+    p_idempotency_key,
+    jsonb_build_object('payment_source', 'credits', 'credit_id', v_credit.id)
+  )
+  RETURNING id INTO v_tx_id;
+
+  PERFORM ledger_post_charge('charge', v_tx_id, 'credits', v_credit.id::text, p_amount, false, 'x402_charge:' || v_tx_id);
+
+  UPDATE x402_payment_credits
+  SET
+    total_spent = total_spent + p_amount,
+    updated_at = now()
+  WHERE id = v_credit.id
+  RETURNING credit_balance INTO v_balance;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'new_balance', v_balance,
+    'replayed', false
+  );
+END;
+$$;
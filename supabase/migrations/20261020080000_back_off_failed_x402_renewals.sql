@@ -0,0 +1,46 @@
+/*
+  # Back Off Failed x402 Renewals
+
+  1. Changed functions
+    - `x402_sessions_due_for_renewal(p_wallet_address, p_limit)` - failed
+      attempts since the last successful renewal back the session off
+      (5 minutes, doubling per failure) and after 5 consecutive failures it
+      is no longer offered until it is renewed manually
+*/
+
+CREATE OR REPLACE FUNCTION x402_sessions_due_for_renewal(
+  p_wallet_address text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF x402_payment_sessions
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.*
+  FROM x402_payment_sessions s
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS failures, max(r.created_at) AS last_failed_at
+    FROM x402_session_renewals r
+    WHERE r.session_id = s.id
+      AND r.status = 'failed'
+      AND r.created_at > COALESCE(s.last_renewed_at, '-infinity'::timestamptz)
+  ) f
+  WHERE s.auto_renew = true
+    AND s.status IN ('active', 'depleted')
+    AND (p_wallet_address IS NULL OR s.wallet_address = p_wallet_address)
+    AND s.renewal_amount > 0
+    AND (
+      s.remaining_amount <= COALESCE(s.renewal_threshold, 0)
+      OR s.expires_at <= now() + make_interval(mins => COALESCE(s.renewal_window_minutes, 0))
+    )
+    AND (s.max_renewals IS NULL OR s.renewal_count < s.max_renewals)
+    AND (s.max_renewal_total IS NULL OR s.total_renewed + s.renewal_amount <= s.max_renewal_total)
+    -- Back off after a failed (or declined) attempt and give up after 5 in a row
+    AND f.failures < 5
+    AND (
+      f.last_failed_at IS NULL
+      OR f.last_failed_at < now() - make_interval(mins => 5 * power(2, f.failures - 1)::integer)
+    )
+  ORDER BY s.expires_at ASC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,9 @@
+/*
+  # Restrict x402 Hold Settlement
+
+  1. Security
+    - `x402_settle_hold` decides how much of a hold is charged, so only the
+      service role (the server middleware that measured the usage) may run it
+*/
+
+REVOKE EXECUTE ON FUNCTION x402_settle_hold(uuid, numeric, jsonb, boolean) FROM PUBLIC, anon, authenticated;
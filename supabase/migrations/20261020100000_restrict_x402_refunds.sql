@@ -0,0 +1,72 @@
+/*
+  # Restrict x402 Refunds
+
+  1. Changed functions
+    - `x402_refund_failed_call` no longer refunds a request that never got a
+      response, since the payer can drop the connection at will; the owner
+      can still refund it manually
+    - `x402_refund_by_owner` is called by the service's server once the
+      owner wallet's signature has been checked
+
+  2. Security
+    - The refund functions are revoked from anon and authenticated and only
+      run with the service role
+*/
+
+CREATE OR REPLACE FUNCTION x402_refund_failed_call(
+  p_transaction_id uuid,
+  p_response_code integer DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+  v_status_codes integer[] := '{500,502,503,504}';
+BEGIN
+  v_config := x402_transaction_service(p_transaction_id);
+
+  IF v_config.id IS NOT NULL THEN
+    IF NOT COALESCE(v_config.auto_refund, true) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'AUTO_REFUND_DISABLED', 'error', 'Service does not refund failed calls');
+    END IF;
+
+    v_status_codes := COALESCE(v_config.refund_status_codes, v_status_codes);
+  END IF;
+
+  -- A call that never completed is not proof of a failure
+  IF p_response_code IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_REFUNDABLE_STATUS', 'error', 'Calls without a response are not refunded automatically');
+  END IF;
+
+  IF NOT (p_response_code = ANY(v_status_codes)) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'NOT_REFUNDABLE_STATUS',
+      'error', 'HTTP ' || p_response_code || ' is not refundable for this service'
+    );
+  END IF;
+
+  UPDATE x402_transactions
+  SET response_code = p_response_code, error_message = p_error
+  WHERE id = p_transaction_id
+    AND status = 'completed';
+
+  RETURN x402_refund_transaction(
+    p_transaction_id,
+    'Upstream returned HTTP ' || p_response_code,
+    NULL,
+    'automatic',
+    NULL
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION x402_refund_transaction(uuid, text, numeric, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_refund_failed_call(uuid, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_refund_by_owner(uuid, text, text, numeric) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN x402_service_configs.auto_refund IS 'Refund x402 calls that fail with a refundable status';
@@ -0,0 +1,10 @@
+/*
+  # Restrict Price Quote Issuing
+
+  1. Security
+    - Anonymous users can no longer insert price quotes. Quotes are only
+      inserted by the quote server with the service role, so every stored
+      quote was signed with its key
+*/
+
+DROP POLICY IF EXISTS "Anonymous can issue price quotes" ON price_quotes;
@@ -0,0 +1,135 @@
+/*
+  # Restrict Transaction Expiry
+
+  1. Changed functions
+    - `expire_transaction_log(p_signature, p_reason)` stores what was undone
+      in the log row's `metadata.expiry`, where the payer's browser reads it
+
+  2. Security
+    - Only the transaction monitor running with the service role calls
+      `expire_transaction_log`, after checking the chain is past
+      `last_valid_block_height` and the signature is still unknown; it is
+      revoked from anon and authenticated
+*/
+
+CREATE OR REPLACE FUNCTION expire_transaction_log(
+  p_signature text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log record;
+  v_row record;
+  v_executions integer := 0;
+  v_sessions integer := 0;
+  v_credits integer := 0;
+BEGIN
+  SELECT * INTO v_log
+  FROM transaction_logs
+  WHERE signature = p_signature
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TRANSACTION_NOT_FOUND', 'error', 'Transaction not logged');
+  END IF;
+
+  IF v_log.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'NOT_PENDING',
+      'error', format('Transaction is already %s', v_log.status)
+    );
+  END IF;
+
+  UPDATE transaction_logs
+  SET
+    status = 'expired',
+    error_message = COALESCE(p_reason, 'Blockhash expired before the transaction landed')
+  WHERE signature = p_signature;
+
+  UPDATE agent_executions
+  SET
+    status = 'failed',
+    error_message = 'Payment expired before it was processed. You were not charged.',
+    completed_at = now()
+  WHERE transaction_signature = p_signature
+    AND status IN ('pending', 'payment_required', 'processing');
+
+  GET DIAGNOSTICS v_executions = ROW_COUNT;
+
+  -- The platform never received the money, so what is left of it goes
+  -- back out of platform cash
+  FOR v_row IN
+    UPDATE x402_payment_sessions
+    SET status = 'revoked'
+    WHERE initial_payment_signature = p_signature
+      AND status = 'active'
+    RETURNING id, remaining_amount
+  LOOP
+    PERFORM ledger_post(
+      'reversal',
+      jsonb_build_array(
+        ledger_leg('session', v_row.id::text, v_row.remaining_amount),
+        ledger_leg('platform_cash', '', -v_row.remaining_amount)
+      ),
+      'x402_session',
+      v_row.id::text,
+      'reversal:' || p_signature || ':' || v_row.id,
+      'Payment ' || p_signature || ' expired'
+    );
+
+    v_sessions := v_sessions + 1;
+  END LOOP;
+
+  FOR v_row IN
+    UPDATE x402_payment_credits
+    SET
+      total_purchased = GREATEST(total_purchased - COALESCE(last_topup_amount, 0), 0),
+      updated_at = now()
+    WHERE last_topup_tx = p_signature
+    RETURNING id, LEAST(COALESCE(last_topup_amount, 0), credit_balance) AS reversed
+  LOOP
+    PERFORM ledger_post(
+      'reversal',
+      jsonb_build_array(
+        ledger_leg('credits', v_row.id::text, v_row.reversed),
+        ledger_leg('platform_cash', '', -v_row.reversed)
+      ),
+      'x402_credits',
+      v_row.id::text,
+      'reversal:' || p_signature || ':' || v_row.id,
+      'Payment ' || p_signature || ' expired'
+    );
+
+    v_credits := v_credits + 1;
+  END LOOP;
+
+  -- Browsers cannot call this, they read what was undone from the log row
+  UPDATE transaction_logs
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+    'expiry',
+    jsonb_build_object(
+      'executions_cancelled', v_executions,
+      'sessions_revoked', v_sessions,
+      'credits_reversed', v_credits
+    )
+  )
+  WHERE signature = p_signature;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'wallet_address', v_log.wallet_address,
+    'transaction_type', v_log.transaction_type,
+    'amount_usd', v_log.amount_usd,
+    'executions_cancelled', v_executions,
+    'sessions_revoked', v_sessions,
+    'credits_reversed', v_credits
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_transaction_log(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,347 @@
+/*
+  # Verify Escrow Deposits
+
+  1. Changes to execution_escrows table
+    - `escrow_wallet` is nullable; the settlement worker sets it once it
+      verified the deposit went to its wallet
+    - Add `funding_verified_at` (timestamptz) - when the settlement worker
+      checked the deposit on-chain and released the execution to the
+      execution worker. A `funded` escrow only runs its execution once this
+      is set
+
+  2. New functions
+    - `platform_fee_percent_setting()` - the platform's share of creator
+      payments, server-side so callers cannot pick their own fee
+    - `escrow_confirm_funding(p_escrow_id, p_escrow_wallet, p_timeout_seconds)` -
+      called by the settlement worker once the deposit checked out on-chain:
+      records a verified `payment_transactions` row and moves the execution
+      to `pending` so the execution worker picks it up
+    - `escrow_reject_funding(p_escrow_id, p_reason)` - cancels an escrow whose
+      deposit did not check out and fails its execution
+
+  3. Changed functions
+    - `escrow_open_execution(p_agent_id, p_payer_wallet, p_input_data, p_currency)`
+      takes the price and creator wallet from `agents` and the fee from
+      `platform_fee_percent_setting()` instead of the caller
+    - `escrow_fund_execution(p_execution_id, p_signature, p_amount, p_amount_base_units)`
+      only records the deposit; the execution stays `payment_required`
+      until the deposit is verified
+    - `claim_escrow_settlements` only releases or refunds verified deposits
+
+  4. Security
+    - `escrow_confirm_funding` and `escrow_reject_funding` are revoked from
+      anon and authenticated
+*/
+
+ALTER TABLE execution_escrows
+ALTER COLUMN escrow_wallet DROP NOT NULL;
+
+ALTER TABLE execution_escrows
+ADD COLUMN IF NOT EXISTS funding_verified_at timestamptz;
+
+-- Same default as VITE_PLATFORM_FEE_PERCENT in the app
+CREATE OR REPLACE FUNCTION platform_fee_percent_setting()
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 10::numeric;
+$$;
+
+DROP FUNCTION IF EXISTS escrow_open_execution(uuid, text, jsonb, numeric, text, text, text, numeric);
+DROP FUNCTION IF EXISTS escrow_fund_execution(uuid, text, numeric, numeric, integer);
+
+CREATE OR REPLACE FUNCTION escrow_open_execution(
+  p_agent_id uuid,
+  p_payer_wallet text,
+  p_input_data jsonb,
+  p_currency text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_agent agents%ROWTYPE;
+  v_execution_id uuid;
+  v_escrow_id uuid;
+BEGIN
+  SELECT * INTO v_agent FROM agents WHERE id = p_agent_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AGENT_NOT_FOUND', 'error', 'Agent not found');
+  END IF;
+
+  IF COALESCE(v_agent.price, 0) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AGENT_NOT_PAID', 'error', 'Agent does not charge for executions');
+  END IF;
+
+  INSERT INTO agent_executions (agent_id, status, cost_usdc, payment_required, input_data)
+  VALUES (p_agent_id, 'payment_required', v_agent.price, true, COALESCE(p_input_data, '{}'::jsonb))
+  RETURNING id INTO v_execution_id;
+
+  INSERT INTO execution_escrows (
+    execution_id,
+    agent_id,
+    payer_wallet,
+    creator_wallet,
+    currency,
+    amount_usd,
+    platform_fee_percent
+  )
+  VALUES (
+    v_execution_id,
+    p_agent_id,
+    p_payer_wallet,
+    NULLIF(btrim(v_agent.wallet_address), ''),
+    p_currency,
+    v_agent.price,
+    platform_fee_percent_setting()
+  )
+  RETURNING id INTO v_escrow_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'execution_id', v_execution_id,
+    'escrow_id', v_escrow_id,
+    'amount_usd', v_agent.price
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION escrow_fund_execution(
+  p_execution_id uuid,
+  p_signature text,
+  p_amount numeric,
+  p_amount_base_units numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_escrow execution_escrows%ROWTYPE;
+BEGIN
+  SELECT * INTO v_escrow
+  FROM execution_escrows
+  WHERE execution_id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ESCROW_NOT_FOUND', 'error', 'No escrow for this execution');
+  END IF;
+
+  IF v_escrow.status <> 'awaiting_funding' THEN
+    IF v_escrow.funding_signature = p_signature THEN
+      RETURN jsonb_build_object('success', true, 'replayed', true, 'escrow_id', v_escrow.id, 'status', v_escrow.status);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'ESCROW_NOT_OPEN',
+      'error', format('Escrow is already %s', v_escrow.status)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM execution_escrows WHERE funding_signature = p_signature) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already funded another escrow');
+  END IF;
+
+  UPDATE execution_escrows
+  SET
+    status = 'funded',
+    funding_signature = p_signature,
+    amount = p_amount,
+    amount_base_units = p_amount_base_units,
+    funded_at = now()
+  WHERE id = v_escrow.id;
+
+  UPDATE agent_executions
+  SET transaction_signature = p_signature
+  WHERE id = p_execution_id
+    AND status = 'payment_required';
+
+  RETURN jsonb_build_object('success', true, 'replayed', false, 'escrow_id', v_escrow.id, 'status', 'funded');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION escrow_confirm_funding(
+  p_escrow_id uuid,
+  p_escrow_wallet text,
+  p_timeout_seconds integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_escrow execution_escrows%ROWTYPE;
+BEGIN
+  UPDATE execution_escrows
+  SET
+    escrow_wallet = p_escrow_wallet,
+    funding_verified_at = now(),
+    timeout_at = now() + make_interval(secs => p_timeout_seconds)
+  WHERE id = p_escrow_id
+    AND status = 'funded'
+    AND funding_verified_at IS NULL
+  RETURNING * INTO v_escrow;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ESCROW_NOT_FUNDED', 'error', 'Escrow has no unverified deposit');
+  END IF;
+
+  -- The execution worker only claims executions with a verified payment
+  INSERT INTO payment_transactions (
+    execution_id,
+    wallet_address,
+    recipient_address,
+    amount_usdc,
+    transaction_signature,
+    status,
+    blockchain_verified_at
+  )
+  VALUES (
+    v_escrow.execution_id,
+    v_escrow.payer_wallet,
+    p_escrow_wallet,
+    v_escrow.amount_usd,
+    v_escrow.funding_signature,
+    'confirmed',
+    now()
+  )
+  -- Anyone can insert a pending row for a public signature first
+  ON CONFLICT (transaction_signature) DO UPDATE
+  SET
+    execution_id = EXCLUDED.execution_id,
+    wallet_address = EXCLUDED.wallet_address,
+    recipient_address = EXCLUDED.recipient_address,
+    amount_usdc = EXCLUDED.amount_usdc,
+    status = EXCLUDED.status,
+    blockchain_verified_at = EXCLUDED.blockchain_verified_at;
+
+  UPDATE agent_executions
+  SET status = 'pending'
+  WHERE id = v_escrow.execution_id
+    AND status = 'payment_required';
+
+  RETURN jsonb_build_object('success', true, 'escrow_id', v_escrow.id, 'execution_id', v_escrow.execution_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION escrow_reject_funding(p_escrow_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_execution_id uuid;
+BEGIN
+  UPDATE execution_escrows
+  SET
+    status = 'cancelled',
+    settlement_error = p_reason,
+    settled_at = now()
+  WHERE id = p_escrow_id
+    AND status = 'funded'
+    AND funding_verified_at IS NULL
+  RETURNING execution_id INTO v_execution_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ESCROW_NOT_FUNDED', 'error', 'Escrow has no unverified deposit');
+  END IF;
+
+  UPDATE agent_executions
+  SET
+    status = 'failed',
+    error_message = 'Payment could not be verified',
+    completed_at = now()
+  WHERE id = v_execution_id
+    AND status = 'payment_required';
+
+  RETURN jsonb_build_object('success', true, 'escrow_id', p_escrow_id, 'execution_id', v_execution_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_escrow_settlements(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS SETOF execution_escrows
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deposits that never arrived
+  WITH expired AS (
+    UPDATE execution_escrows
+    SET status = 'cancelled', settled_at = now()
+    WHERE status = 'awaiting_funding'
+      AND funding_expires_at < now()
+    RETURNING execution_id
+  )
+  UPDATE agent_executions e
+  SET status = 'failed', error_message = 'Payment was not received in time', completed_at = now()
+  FROM expired
+  WHERE e.id = expired.execution_id
+    AND e.status = 'payment_required';
+
+  -- Executions that ran past the escrow timeout are failed, which refunds them
+  -- below; clearing worker_id stops a still-running execution worker from
+  -- writing a late result over it
+  UPDATE agent_executions e
+  SET
+    status = 'failed',
+    error_message = 'Execution timed out. Your payment is being refunded.',
+    completed_at = now(),
+    worker_id = NULL
+  FROM execution_escrows x
+  WHERE x.execution_id = e.id
+    AND x.status = 'funded'
+    AND x.timeout_at < now()
+    AND e.status IN ('pending', 'processing');
+
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT x.id, e.status AS execution_status
+    FROM execution_escrows x
+    JOIN agent_executions e ON e.id = x.execution_id
+    WHERE (
+        x.status = 'funded'
+        AND x.funding_verified_at IS NOT NULL
+        AND e.status IN ('completed', 'failed', 'rejected')
+      )
+      OR (
+        x.status IN ('releasing', 'refunding')
+        AND x.claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+      )
+    ORDER BY x.funded_at
+    LIMIT p_limit
+    FOR UPDATE OF x SKIP LOCKED
+  )
+  UPDATE execution_escrows x
+  SET
+    status = CASE
+      WHEN x.status IN ('releasing', 'refunding') THEN x.status
+      WHEN c.execution_status = 'completed' THEN 'releasing'
+      ELSE 'refunding'
+    END,
+    worker_id = p_worker_id,
+    claimed_at = now(),
+    attempts = x.attempts + 1
+  FROM claimable c
+  WHERE x.id = c.id
+  RETURNING x.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION escrow_open_execution(uuid, text, jsonb, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION escrow_fund_execution(uuid, text, numeric, numeric) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION escrow_confirm_funding(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION escrow_reject_funding(uuid, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN execution_escrows.funding_verified_at IS 'When the settlement worker verified the deposit on-chain and released the execution';
@@ -0,0 +1,98 @@
+/*
+  # Set the x402 Channel Fee on the Server
+
+  1. Changed functions
+    - `x402_open_channel(...)` no longer takes `p_platform_fee_percent`; the
+      fee comes from `platform_fee_percent_setting()`
+
+  2. Security
+    - `x402_accept_channel_voucher` is revoked from anon and authenticated;
+      only the provider's server calls it, with the service role
+*/
+
+DROP FUNCTION IF EXISTS x402_open_channel(text, uuid, text, text, text, numeric, numeric, text, integer, integer, numeric, numeric);
+
+CREATE OR REPLACE FUNCTION x402_open_channel(
+  p_payer_wallet text,
+  p_service_id uuid,
+  p_service_type text,
+  p_channel_wallet text,
+  p_currency text,
+  p_deposit_amount numeric,
+  p_deposit_base_units numeric,
+  p_deposit_signature text,
+  p_duration_seconds integer DEFAULT 604800,
+  p_dispute_window_seconds integer DEFAULT 3600,
+  p_settlement_threshold numeric DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+  v_channel_id uuid;
+  v_expires_at timestamptz := now() + make_interval(secs => p_duration_seconds);
+BEGIN
+  SELECT * INTO v_config
+  FROM x402_service_configs
+  WHERE service_id = p_service_id
+    AND service_type = p_service_type
+    AND is_active = true
+    AND accepts_x402 = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SERVICE_NOT_CONFIGURED', 'error', 'Service not configured for x402 payments');
+  END IF;
+
+  IF v_config.currency <> p_currency THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'CURRENCY_MISMATCH',
+      'error', format('Service is paid in %s', v_config.currency)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM x402_payment_channels WHERE deposit_signature = p_deposit_signature) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already funded another channel');
+  END IF;
+
+  INSERT INTO x402_payment_channels (
+    payer_wallet,
+    recipient_wallet,
+    channel_wallet,
+    service_id,
+    service_type,
+    currency,
+    deposit_amount,
+    deposit_base_units,
+    deposit_signature,
+    platform_fee_percent,
+    settlement_threshold,
+    dispute_window_seconds,
+    expires_at
+  )
+  VALUES (
+    p_payer_wallet,
+    v_config.owner_wallet,
+    p_channel_wallet,
+    p_service_id,
+    p_service_type,
+    p_currency,
+    p_deposit_amount,
+    p_deposit_base_units,
+    p_deposit_signature,
+    platform_fee_percent_setting(),
+    p_settlement_threshold,
+    p_dispute_window_seconds,
+    v_expires_at
+  )
+  RETURNING id INTO v_channel_id;
+
+  RETURN jsonb_build_object('success', true, 'channel_id', v_channel_id, 'expires_at', v_expires_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION x402_open_channel(text, uuid, text, text, text, numeric, numeric, text, integer, integer, numeric) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_accept_channel_voucher(uuid, text, numeric, bigint, text, numeric, text, text, text, uuid, text, boolean, text) FROM PUBLIC, anon, authenticated;
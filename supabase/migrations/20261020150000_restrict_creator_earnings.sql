@@ -0,0 +1,267 @@
+/*
+  # Restrict Creator Earnings
+
+  1. Changes to x402_transactions table
+    - Add `recorded_by_platform` (boolean) - true for rows written by the
+      debit functions or the service role. Rows that existed before anonymous
+      inserts were closed are false and never count as earnings
+
+  2. Changed functions
+    - `sync_creator_earnings(p_hold_seconds, p_limit)` takes the fee from
+      `platform_fee_percent_setting()` and only counts x402 calls the ledger
+      charged or recorded as a direct payment
+    - `request_creator_withdrawal(p_creator_wallet, p_amount, p_currency)` no
+      longer takes the minimum from the caller; withdrawals start at $1
+
+  3. Security
+    - Anonymous inserts into `x402_transactions` are dropped: a row anyone
+      could write would be counted as money owed to its service's owner
+    - `request_creator_withdrawal` and `cancel_creator_withdrawal` are revoked
+      from anon and authenticated; the payout server calls them after
+      checking the creator wallet's signature over the request
+*/
+
+DROP POLICY IF EXISTS "Anonymous can insert transactions" ON x402_transactions;
+
+-- Existing rows default to false, everything inserted from now on to true
+ALTER TABLE x402_transactions
+ADD COLUMN IF NOT EXISTS recorded_by_platform boolean NOT NULL DEFAULT false;
+
+ALTER TABLE x402_transactions
+ALTER COLUMN recorded_by_platform SET DEFAULT true;
+
+DROP FUNCTION IF EXISTS sync_creator_earnings(numeric, integer, integer);
+DROP FUNCTION IF EXISTS request_creator_withdrawal(text, numeric, text, numeric);
+
+CREATE OR REPLACE FUNCTION sync_creator_earnings(
+  p_hold_seconds integer DEFAULT 86400,
+  p_limit integer DEFAULT 500
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transactions integer;
+  v_refunds integer;
+  v_splits integer;
+BEGIN
+  -- x402 calls. Sessions, credits and authorizations are paid to the
+  -- platform, which owes the creator the price minus its fee; payment proofs
+  -- went to the owner directly. Channel calls are recorded from their
+  -- settlement splits instead. Only calls the ledger charged or recorded as
+  -- a direct payment count.
+  WITH paid AS (
+    SELECT
+      t.id,
+      t.amount_charged,
+      t.created_at,
+      t.payment_proof IS NOT NULL AS direct,
+      c.owner_wallet,
+      c.service_type,
+      c.service_id
+    FROM x402_transactions t
+    CROSS JOIN LATERAL x402_transaction_service(t.id) c
+    WHERE t.status IN ('completed', 'refunded')
+      AND t.amount_charged > 0
+      AND NOT (COALESCE(t.metadata, '{}'::jsonb) ? 'channel_id')
+      AND EXISTS (
+        SELECT 1 FROM ledger_journal_entries j
+        WHERE j.reference_type = 'x402_transaction'
+          AND j.reference_id = t.id::text
+          AND j.entry_type = CASE WHEN t.payment_proof IS NULL THEN 'charge' ELSE 'direct_payment' END
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'x402_transaction' AND e.source_id = t.id
+      )
+      AND c.owner_wallet IS NOT NULL
+    ORDER BY t.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, transaction_signature, available_at, occurred_at
+    )
+    SELECT
+      p.owner_wallet,
+      p.service_type,
+      p.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'earning' THEN p.amount_charged
+        ELSE -round(p.amount_charged * platform_fee_percent_setting() / 100, 6)
+      END,
+      CASE WHEN p.direct THEN 'direct' ELSE 'custodial' END,
+      'x402_transaction',
+      p.id,
+      NULL,
+      CASE WHEN p.direct THEN NULL ELSE p.created_at + make_interval(secs => p_hold_seconds) END,
+      p.created_at
+    FROM paid p
+    CROSS JOIN (VALUES ('earning'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'earning' OR NOT p.direct
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_transactions FROM inserted;
+
+  -- Refunds come out of the creator's custodial balance, including refunds
+  -- of payment proofs, which the platform pays back as credits. The fee on
+  -- a refunded session, credit or authorization call is returned, and both
+  -- are released together with the call they reverse.
+  WITH refunded AS (
+    SELECT
+      r.id,
+      r.amount,
+      r.created_at,
+      t.created_at AS paid_at,
+      t.payment_proof IS NOT NULL AS direct,
+      c.owner_wallet,
+      c.service_type,
+      c.service_id
+    FROM x402_refunds r
+    JOIN x402_transactions t ON t.id = r.transaction_id
+    CROSS JOIN LATERAL x402_transaction_service(r.transaction_id) c
+    WHERE NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'x402_refund' AND e.source_id = r.id
+      )
+      AND c.owner_wallet IS NOT NULL
+    ORDER BY r.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, available_at, occurred_at
+    )
+    SELECT
+      r.owner_wallet,
+      r.service_type,
+      r.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'refund' THEN -r.amount
+        ELSE round(r.amount * platform_fee_percent_setting() / 100, 6)
+      END,
+      'custodial',
+      'x402_refund',
+      r.id,
+      CASE WHEN r.direct THEN r.created_at ELSE r.paid_at + make_interval(secs => p_hold_seconds) END,
+      r.created_at
+    FROM refunded r
+    CROSS JOIN (VALUES ('refund'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'refund' OR NOT r.direct
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_refunds FROM inserted;
+
+  -- Split payments, escrow releases and channel settlements paid the creator
+  -- on-chain; the gross price is worked back from the creator's share
+  WITH paid AS (
+    SELECT s.*
+    FROM payment_splits s
+    WHERE s.role = 'creator'
+      AND s.status = 'verified'
+      AND s.amount_usd IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM creator_earnings e
+        WHERE e.source = 'payment_split' AND e.source_id = s.id
+      )
+    ORDER BY s.created_at
+    LIMIT p_limit
+  ),
+  inserted AS (
+    INSERT INTO creator_earnings (
+      creator_wallet, service_type, service_id, entry_type, amount, settlement,
+      source, source_id, transaction_signature, occurred_at
+    )
+    SELECT
+      p.recipient_address,
+      p.service_type,
+      p.service_id,
+      entry.entry_type,
+      CASE entry.entry_type
+        WHEN 'earning' THEN round(p.amount_usd * 100 / p.share_percent, 6)
+        ELSE p.amount_usd - round(p.amount_usd * 100 / p.share_percent, 6)
+      END,
+      'direct',
+      'payment_split',
+      p.id,
+      p.transaction_signature,
+      p.created_at
+    FROM paid p
+    CROSS JOIN (VALUES ('earning'), ('platform_fee')) AS entry(entry_type)
+    WHERE entry.entry_type = 'earning' OR p.share_percent < 100
+    ON CONFLICT (source, source_id, entry_type) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_splits FROM inserted;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transactions', v_transactions,
+    'refunds', v_refunds,
+    'splits', v_splits
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_creator_withdrawal(
+  p_creator_wallet text,
+  p_amount numeric,
+  p_currency text DEFAULT 'USDC'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Same as MIN_WITHDRAWAL_USD in the app, so payouts are not eaten by fees
+  v_minimum_amount CONSTANT numeric := 1;
+  v_available numeric;
+  v_withdrawal_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Withdrawal amount must be positive');
+  END IF;
+
+  IF p_amount < v_minimum_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'BELOW_MINIMUM_WITHDRAWAL',
+      'error', format('Withdrawals start at $%s', v_minimum_amount)
+    );
+  END IF;
+
+  -- Serializes withdrawals per wallet so two requests cannot both spend the
+  -- same available balance
+  PERFORM pg_advisory_xact_lock(hashtext('creator_withdrawal:' || p_creator_wallet));
+
+  v_available := (creator_earnings_balance(p_creator_wallet)->>'available')::numeric;
+
+  IF p_amount > v_available THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_AVAILABLE_BALANCE',
+      'error', 'Amount exceeds your available balance',
+      'available', v_available
+    );
+  END IF;
+
+  INSERT INTO creator_withdrawals (creator_wallet, amount, currency)
+  VALUES (p_creator_wallet, p_amount, p_currency)
+  RETURNING id INTO v_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'withdrawal_id', v_withdrawal_id, 'available', v_available - p_amount);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_creator_withdrawal(text, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_creator_withdrawal(uuid, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN x402_transactions.recorded_by_platform IS 'Written by a debit function or the service role, so it counts as a creator earning';
+COMMENT ON FUNCTION sync_creator_earnings IS 'Records creator earnings entries for new x402 payments, refunds and split payments';
@@ -0,0 +1,161 @@
+/*
+  # Verify Wallet Payments Before Funding
+
+  1. New table: x402_funding_requests
+    - A session, renewal, credit top-up or channel deposit the browser paid
+      for (or a session funded from credits), signed with the paying wallet;
+      `pending` until the funding worker has checked the payment on-chain,
+      then `funded` with the function's `result` or `rejected` with an `error`
+
+  2. New table: x402_channel_close_requests
+    - A close asked for by the payer or the provider, with its wallet's
+      signature over the channel id; `pending` until the settlement worker
+      has checked the signature and closed the channel (`processed`) or
+      turned it down (`rejected`)
+
+  3. New functions
+    - `claim_x402_funding_requests(p_worker_id, p_limit, p_stale_after_seconds)`
+      claims pending funding requests with FOR UPDATE SKIP LOCKED
+
+  4. Security
+    - Anything that credits a balance takes a payment the caller claims to
+      have made, so `x402_fund_session`, `x402_top_up_credits`,
+      `x402_renew_session`, `x402_open_channel` and
+      `solana_pay_fulfill_request` are revoked from anon and authenticated
+      and only called by the service role workers that verified the transfer
+      on-chain (payer, recipient and amount)
+    - `x402_request_channel_close` is revoked too; the settlement worker
+      closes a channel for a close request signed by its payer or provider
+    - Anyone can insert a `pending` funding or close request and read them
+      all; only the service role claims and completes them
+*/
+
+CREATE TABLE IF NOT EXISTS x402_funding_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL,
+  source text NOT NULL DEFAULT 'payment',
+  wallet_address text NOT NULL,
+  session_id uuid REFERENCES x402_payment_sessions(id) ON DELETE CASCADE,
+  service_id uuid,
+  service_type text,
+  amount numeric(18, 6) NOT NULL,
+  currency text NOT NULL DEFAULT 'SOL',
+  payment_signature text,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  wallet_signature text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  result jsonb,
+  error text,
+  worker_id text,
+  claimed_at timestamptz,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  processed_at timestamptz,
+  CONSTRAINT valid_funding_kind CHECK (kind IN ('session', 'renewal', 'credits', 'channel')),
+  CONSTRAINT valid_funding_source CHECK (source IN ('payment', 'credits')),
+  CONSTRAINT valid_funding_status CHECK (status IN ('pending', 'funded', 'rejected')),
+  CONSTRAINT valid_funding_currency CHECK (currency IN ('SOL', 'USDC')),
+  CONSTRAINT positive_funding_amount CHECK (amount > 0),
+  CONSTRAINT funding_payment_required CHECK (
+    (source = 'payment' AND payment_signature IS NOT NULL)
+    OR (source = 'credits' AND kind = 'session')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_funding_requests_pending
+ON x402_funding_requests(created_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_x402_funding_requests_wallet
+ON x402_funding_requests(wallet_address, created_at DESC);
+
+ALTER TABLE x402_funding_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view funding requests"
+  ON x402_funding_requests FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can request funding"
+  ON x402_funding_requests FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND result IS NULL
+    AND error IS NULL
+    AND worker_id IS NULL
+    AND claimed_at IS NULL
+    AND attempts = 0
+    AND processed_at IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION claim_x402_funding_requests(
+  p_worker_id text,
+  p_limit integer DEFAULT 10,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS SETOF x402_funding_requests
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT r.id
+    FROM x402_funding_requests r
+    WHERE r.status = 'pending'
+      AND (r.claimed_at IS NULL OR r.claimed_at < now() - make_interval(secs => p_stale_after_seconds))
+    ORDER BY r.claimed_at NULLS FIRST, r.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE x402_funding_requests r
+  SET
+    worker_id = p_worker_id,
+    claimed_at = now(),
+    attempts = r.attempts + 1
+  FROM claimable
+  WHERE r.id = claimable.id
+  RETURNING r.*;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS x402_channel_close_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES x402_payment_channels(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  signature text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  result jsonb,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  processed_at timestamptz,
+  CONSTRAINT valid_channel_close_request_status CHECK (status IN ('pending', 'processed', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_channel_close_requests_pending
+ON x402_channel_close_requests(created_at)
+WHERE status = 'pending';
+
+ALTER TABLE x402_channel_close_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view channel close requests"
+  ON x402_channel_close_requests FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can request a channel close"
+  ON x402_channel_close_requests FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'pending' AND result IS NULL AND error IS NULL AND processed_at IS NULL);
+
+REVOKE EXECUTE ON FUNCTION x402_fund_session(text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_top_up_credits(text, uuid, text, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_renew_session(uuid, numeric, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION solana_pay_fulfill_request(text, text, text, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_open_channel(text, uuid, text, text, text, numeric, numeric, text, integer, integer, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_request_channel_close(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_x402_funding_requests(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE x402_funding_requests IS 'Session, renewal, credit and channel payments waiting for the funding worker to verify them on-chain';
+COMMENT ON TABLE x402_channel_close_requests IS 'Channel closes signed by the payer or provider, applied by the settlement worker';
+COMMENT ON FUNCTION claim_x402_funding_requests IS 'Claims pending funding requests for a worker, skipping rows locked by other workers';
@@ -0,0 +1,119 @@
+/*
+  # Claim x402-Paid Agent Executions
+
+  1. New functions
+    - `claim_x402_execution_payments(p_worker_id, p_limit, p_stale_after_seconds)`
+      claims `payment_required` executions paid from an x402 session with
+      FOR UPDATE SKIP LOCKED. The browser stores the wallet-signed payment
+      header in `x_payment_header`; the execution worker checks the signature
+      and debits the session with the service role, under the idempotency key
+      `agent_execution:<execution id>`
+
+  2. Changed functions
+    - `claim_agent_executions` also claims executions with a completed x402
+      charge under that key covering the agent's price
+
+  3. Security
+    - `claim_x402_execution_payments` is revoked from anon and authenticated
+*/
+
+CREATE OR REPLACE FUNCTION claim_agent_executions(
+  p_worker_id text,
+  p_limit integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS TABLE (
+  id uuid,
+  agent_id uuid,
+  agent_name text,
+  agent_category text,
+  input_data jsonb,
+  attempts integer
+)
+LANGUAGE sql
+AS $$
+  WITH claimable AS (
+    SELECT e.id
+    FROM agent_executions e
+    WHERE e.status IN ('pending', 'processing')
+      AND (
+        e.claimed_at IS NULL
+        OR e.claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+      )
+      AND (
+        EXISTS (
+          SELECT 1
+          FROM payment_transactions p
+          WHERE p.execution_id = e.id
+            AND p.status = 'confirmed'
+            AND p.blockchain_verified_at IS NOT NULL
+        )
+        OR EXISTS (
+          SELECT 1
+          FROM x402_transactions t
+          JOIN agents a ON a.id = e.agent_id
+          WHERE t.idempotency_key = 'agent_execution:' || e.id::text
+            AND t.status = 'completed'
+            AND t.recorded_by_platform
+            AND t.amount_charged >= COALESCE(a.price, 0)
+        )
+        OR EXISTS (
+          SELECT 1
+          FROM agents a
+          WHERE a.id = e.agent_id
+            AND COALESCE(a.price, 0) = 0
+        )
+      )
+    ORDER BY e.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE agent_executions e
+    SET
+      status = 'processing',
+      worker_id = p_worker_id,
+      claimed_at = now(),
+      attempts = e.attempts + 1
+    FROM claimable c
+    WHERE e.id = c.id
+    RETURNING e.id, e.agent_id, e.input_data, e.attempts
+  )
+  SELECT c.id, c.agent_id, a.name, a.category, c.input_data, c.attempts
+  FROM claimed c
+  JOIN agents a ON a.id = c.agent_id;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_x402_execution_payments(
+  p_worker_id text,
+  p_limit integer DEFAULT 10,
+  p_stale_after_seconds integer DEFAULT 300
+)
+RETURNS SETOF agent_executions
+LANGUAGE sql
+AS $$
+  WITH claimable AS (
+    SELECT e.id
+    FROM agent_executions e
+    WHERE e.status = 'payment_required'
+      AND e.x_payment_header LIKE 'session=%'
+      AND (
+        e.claimed_at IS NULL
+        OR e.claimed_at < now() - make_interval(secs => p_stale_after_seconds)
+      )
+    ORDER BY e.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE agent_executions e
+  SET
+    worker_id = p_worker_id,
+    claimed_at = now()
+  FROM claimable c
+  WHERE e.id = c.id
+  RETURNING e.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_x402_execution_payments(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION claim_x402_execution_payments IS 'Claims executions waiting for their x402 session payment, skipping rows locked by other workers';
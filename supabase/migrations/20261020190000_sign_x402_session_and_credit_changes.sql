@@ -0,0 +1,152 @@
+/*
+  # Sign x402 Session and Credit Changes
+
+  1. New tables
+    - `x402_account_requests`: changes to a wallet's sessions and credit
+      accounts, signed by the wallet in the browser. The funding worker checks
+      the signature and applies them with the service role
+      - `kind`: `session_revoke` or `credit_auto_topup`
+      - `target_id`: the session or credit account
+      - `params`: the auto top-up settings
+      - `signature`: the wallet's signature over the request, including its id
+
+  2. New functions
+    - `x402_revoke_session(p_session_id, p_wallet_address)` revokes a session
+      of that wallet
+    - `x402_set_credit_auto_topup(p_credit_id, p_wallet_address, p_enabled,
+      p_threshold, p_amount)` changes the auto top-up of a credit account of
+      that wallet
+
+  3. Security
+    - Drops "Anonymous can update sessions" and "Anonymous can manage
+      credits", which let anyone set any session's status and balance, or any
+      credit account's balance and settings
+    - Anonymous callers may only insert pending requests
+    - Both functions are revoked from anon and authenticated; sessions expire
+      and deplete in `x402_debit_session`
+*/
+
+DROP POLICY IF EXISTS "Anonymous can update sessions" ON x402_payment_sessions;
+DROP POLICY IF EXISTS "Anonymous can manage credits" ON x402_payment_credits;
+
+CREATE TABLE IF NOT EXISTS x402_account_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL,
+  wallet_address text NOT NULL,
+  target_id uuid,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  signature text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  result jsonb,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  processed_at timestamptz,
+  CONSTRAINT valid_account_request_kind CHECK (kind IN ('session_revoke', 'credit_auto_topup')),
+  CONSTRAINT valid_account_request_status CHECK (status IN ('pending', 'processed', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_x402_account_requests_pending
+ON x402_account_requests(created_at)
+WHERE status = 'pending';
+
+ALTER TABLE x402_account_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view account requests"
+  ON x402_account_requests FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can request account changes"
+  ON x402_account_requests FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'pending' AND result IS NULL AND error IS NULL AND processed_at IS NULL);
+
+CREATE OR REPLACE FUNCTION x402_revoke_session(
+  p_session_id uuid,
+  p_wallet_address text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  IF v_session.wallet_address IS DISTINCT FROM p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Session belongs to another wallet');
+  END IF;
+
+  IF v_session.status = 'revoked' THEN
+    RETURN jsonb_build_object('success', true, 'replayed', true, 'session_id', v_session.id, 'status', v_session.status);
+  END IF;
+
+  UPDATE x402_payment_sessions
+  SET
+    status = 'revoked',
+    auto_renew = false
+  WHERE id = v_session.id;
+
+  RETURN jsonb_build_object('success', true, 'replayed', false, 'session_id', v_session.id, 'status', 'revoked');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_set_credit_auto_topup(
+  p_credit_id uuid,
+  p_wallet_address text,
+  p_enabled boolean,
+  p_threshold numeric DEFAULT NULL,
+  p_amount numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit x402_payment_credits%ROWTYPE;
+BEGIN
+  IF p_enabled AND (p_threshold IS NULL OR p_threshold < 0 OR p_amount IS NULL OR p_amount <= 0) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Auto top-up needs a threshold and a positive amount');
+  END IF;
+
+  SELECT * INTO v_credit
+  FROM x402_payment_credits
+  WHERE id = p_credit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CREDITS_NOT_FOUND', 'error', 'Credit account not found');
+  END IF;
+
+  IF v_credit.wallet_address IS DISTINCT FROM p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Credit account belongs to another wallet');
+  END IF;
+
+  UPDATE x402_payment_credits
+  SET
+    auto_topup_enabled = p_enabled,
+    auto_topup_threshold = CASE WHEN p_enabled THEN p_threshold ELSE auto_topup_threshold END,
+    auto_topup_amount = CASE WHEN p_enabled THEN p_amount ELSE auto_topup_amount END,
+    updated_at = now()
+  WHERE id = v_credit.id;
+
+  RETURN jsonb_build_object('success', true, 'credit_id', v_credit.id, 'auto_topup_enabled', p_enabled);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION x402_revoke_session(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_set_credit_auto_topup(uuid, text, boolean, numeric, numeric) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE x402_account_requests IS 'Session and credit account changes signed by the wallet, applied by the funding worker';
+COMMENT ON FUNCTION x402_revoke_session IS 'Revokes a session of the given wallet; service role only';
+COMMENT ON FUNCTION x402_set_credit_auto_topup IS 'Changes the auto top-up of a credit account of the given wallet; service role only';
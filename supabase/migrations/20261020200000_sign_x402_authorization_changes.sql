@@ -0,0 +1,223 @@
+/*
+  # Sign x402 Authorization Changes
+
+  1. Changed tables
+    - `x402_account_requests` also takes `authorization_create`,
+      `authorization_limits`, `authorization_pause`, `authorization_resume`
+      and `authorization_revoke` requests, signed by the wallet over the
+      authorization's parameters. The funding worker checks the signature
+      before it calls the functions below
+
+  2. New functions
+    - `x402_create_authorization(...)` creates the wallet's authorization for
+      a service, or replaces the limits and token of its existing one
+    - `x402_update_authorization_limits(...)` changes the limits of an active
+      or paused authorization of the wallet
+    - `x402_set_authorization_status(p_authorization_id, p_wallet_address,
+      p_status)` pauses (from active), resumes (from paused) or revokes (from
+      active or paused) an authorization of the wallet
+
+  3. Security
+    - Drops "Anonymous can manage authorizations", which let anyone create,
+      raise or resume spending authorizations on any wallet's credits
+    - All three functions are revoked from anon and authenticated
+*/
+
+DROP POLICY IF EXISTS "Anonymous can manage authorizations" ON x402_payment_authorizations;
+
+ALTER TABLE x402_account_requests DROP CONSTRAINT IF EXISTS valid_account_request_kind;
+ALTER TABLE x402_account_requests ADD CONSTRAINT valid_account_request_kind CHECK (kind IN (
+  'session_revoke',
+  'credit_auto_topup',
+  'authorization_create',
+  'authorization_limits',
+  'authorization_pause',
+  'authorization_resume',
+  'authorization_revoke'
+));
+
+CREATE OR REPLACE FUNCTION x402_create_authorization(
+  p_wallet_address text,
+  p_service_id uuid,
+  p_service_type text,
+  p_total_authorized numeric,
+  p_per_request numeric DEFAULT NULL,
+  p_per_day numeric DEFAULT NULL,
+  p_per_month numeric DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_authorization_id uuid;
+BEGIN
+  IF p_total_authorized IS NULL OR p_total_authorized <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Total authorized amount must be positive');
+  END IF;
+
+  IF p_service_id IS NULL OR p_service_type NOT IN ('agent', 'api', 'web_service') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_SERVICE', 'error', 'Authorization needs a service');
+  END IF;
+
+  INSERT INTO x402_payment_authorizations (
+    wallet_address,
+    service_id,
+    service_type,
+    authorization_token,
+    spending_limit_per_request,
+    spending_limit_per_day,
+    spending_limit_per_month,
+    total_authorized,
+    status,
+    expires_at
+  )
+  VALUES (
+    p_wallet_address,
+    p_service_id,
+    p_service_type,
+    replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    p_per_request,
+    p_per_day,
+    p_per_month,
+    p_total_authorized,
+    'active',
+    p_expires_at
+  )
+  ON CONFLICT (wallet_address, service_id, service_type) DO UPDATE
+  SET
+    authorization_token = EXCLUDED.authorization_token,
+    spending_limit_per_request = EXCLUDED.spending_limit_per_request,
+    spending_limit_per_day = EXCLUDED.spending_limit_per_day,
+    spending_limit_per_month = EXCLUDED.spending_limit_per_month,
+    total_authorized = EXCLUDED.total_authorized,
+    status = 'active',
+    expires_at = EXCLUDED.expires_at,
+    updated_at = now()
+  RETURNING id INTO v_authorization_id;
+
+  RETURN jsonb_build_object('success', true, 'authorization_id', v_authorization_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_update_authorization_limits(
+  p_authorization_id uuid,
+  p_wallet_address text,
+  p_total_authorized numeric,
+  p_per_request numeric DEFAULT NULL,
+  p_per_day numeric DEFAULT NULL,
+  p_per_month numeric DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auth x402_payment_authorizations%ROWTYPE;
+BEGIN
+  IF p_total_authorized IS NULL OR p_total_authorized <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Total authorized amount must be positive');
+  END IF;
+
+  SELECT * INTO v_auth
+  FROM x402_payment_authorizations
+  WHERE id = p_authorization_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_NOT_FOUND', 'error', 'Authorization not found');
+  END IF;
+
+  IF v_auth.wallet_address IS DISTINCT FROM p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Authorization belongs to another wallet');
+  END IF;
+
+  IF v_auth.status NOT IN ('active', 'paused') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_INACTIVE', 'error', 'Authorization is ' || v_auth.status);
+  END IF;
+
+  UPDATE x402_payment_authorizations
+  SET
+    spending_limit_per_request = p_per_request,
+    spending_limit_per_day = p_per_day,
+    spending_limit_per_month = p_per_month,
+    total_authorized = p_total_authorized,
+    expires_at = p_expires_at,
+    updated_at = now()
+  WHERE id = v_auth.id;
+
+  RETURN jsonb_build_object('success', true, 'authorization_id', v_auth.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_set_authorization_status(
+  p_authorization_id uuid,
+  p_wallet_address text,
+  p_status text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auth x402_payment_authorizations%ROWTYPE;
+  v_allowed_from text[];
+BEGIN
+  v_allowed_from := CASE p_status
+    WHEN 'paused' THEN ARRAY['active']
+    WHEN 'active' THEN ARRAY['paused']
+    WHEN 'revoked' THEN ARRAY['active', 'paused']
+  END;
+
+  IF v_allowed_from IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_STATUS', 'error', 'Authorizations can only be paused, resumed or revoked');
+  END IF;
+
+  SELECT * INTO v_auth
+  FROM x402_payment_authorizations
+  WHERE id = p_authorization_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'AUTHORIZATION_NOT_FOUND', 'error', 'Authorization not found');
+  END IF;
+
+  IF v_auth.wallet_address IS DISTINCT FROM p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Authorization belongs to another wallet');
+  END IF;
+
+  IF v_auth.status = p_status THEN
+    RETURN jsonb_build_object('success', true, 'replayed', true, 'authorization_id', v_auth.id, 'status', v_auth.status);
+  END IF;
+
+  IF NOT v_auth.status = ANY (v_allowed_from) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_TRANSITION',
+      'error', format('Authorization is %s and cannot become %s', v_auth.status, p_status)
+    );
+  END IF;
+
+  UPDATE x402_payment_authorizations
+  SET
+    status = p_status,
+    updated_at = now()
+  WHERE id = v_auth.id;
+
+  RETURN jsonb_build_object('success', true, 'replayed', false, 'authorization_id', v_auth.id, 'status', p_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION x402_create_authorization(text, uuid, text, numeric, numeric, numeric, numeric, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_update_authorization_limits(uuid, text, numeric, numeric, numeric, numeric, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_set_authorization_status(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE x402_account_requests IS 'Session, credit account and authorization changes signed by the wallet, applied by the funding worker';
+COMMENT ON FUNCTION x402_create_authorization IS 'Creates or replaces the wallet''s authorization for a service; service role only, after the wallet signature is checked';
+COMMENT ON FUNCTION x402_update_authorization_limits IS 'Changes the limits of an authorization of the given wallet; service role only';
+COMMENT ON FUNCTION x402_set_authorization_status IS 'Pauses, resumes or revokes an authorization of the given wallet; service role only';
@@ -0,0 +1,26 @@
+/*
+  # Verify Payment Splits on the Server
+
+  1. Security
+    - Replaces "Anonymous can insert payment splits" with a policy that only
+      lets browsers record pending, unverified legs
+    - Drops "Anonymous can update payment split status": a verified leg is
+      posted to the ledger and creator earnings, so only the funding worker
+      marks legs verified or failed, with the service role, after checking
+      the transaction on-chain
+
+  2. Indexes
+    - `idx_payment_splits_pending` for the worker's scan of pending legs
+*/
+
+DROP POLICY IF EXISTS "Anonymous can insert payment splits" ON payment_splits;
+DROP POLICY IF EXISTS "Anonymous can update payment split status" ON payment_splits;
+
+CREATE POLICY "Anyone can record pending payment splits"
+  ON payment_splits FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'pending' AND verified_at IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_payment_splits_pending
+ON payment_splits(created_at)
+WHERE status = 'pending';
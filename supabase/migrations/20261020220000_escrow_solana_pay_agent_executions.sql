@@ -0,0 +1,276 @@
+/*
+  # Escrow Solana Pay Agent Executions
+
+  1. Changed functions
+    - `solana_pay_fulfill_request(...)` no longer starts agent executions
+      paid by QR code directly. Like `escrow_open_execution` followed by
+      `escrow_fund_execution`, it creates the execution in
+      `payment_required` with a funded `execution_escrows` row for the
+      transfer; the escrow settlement worker verifies the deposit, starts the
+      execution and releases or refunds the payment once it is over
+    - A signature that already funded an escrow is rejected as
+      `SIGNATURE_ALREADY_USED`
+
+  2. Security
+    - `escrow_cancel_execution` is revoked from anon and authenticated. It
+      took any execution id, so anyone could cancel another payer's escrow
+      before the deposit was recorded. Abandoned escrows are cancelled by
+      `claim_escrow_settlements` once `funding_expires_at` has passed
+    - `solana_pay_fulfill_request` stays revoked from anon and authenticated
+
+  3. Notes
+    - Solana Pay requests for agent executions pay the escrow wallet; the
+      funding worker rejects requests with any other recipient
+*/
+
+CREATE OR REPLACE FUNCTION solana_pay_fulfill_request(
+  p_reference text,
+  p_signature text,
+  p_payer_wallet text,
+  p_amount_base_units numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request solana_pay_requests%ROWTYPE;
+  v_target_id text;
+  v_session_token text;
+  v_credit_id uuid;
+  v_service_id uuid;
+  v_service_type text;
+  v_agent agents%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM solana_pay_requests
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'REQUEST_NOT_FOUND', 'error', 'Payment request not found');
+  END IF;
+
+  IF v_request.status = 'confirmed' THEN
+    IF v_request.transaction_signature = p_signature THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'replayed', true,
+        'request_id', v_request.id,
+        'purpose', v_request.purpose,
+        'target_id', v_request.target_id,
+        'session_token', (SELECT session_token FROM x402_payment_sessions WHERE id::text = v_request.target_id AND v_request.purpose = 'x402_session')
+      );
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error_code', 'ALREADY_FULFILLED', 'error', 'Payment request was already paid by another transaction');
+  END IF;
+
+  IF p_amount_base_units < v_request.amount_base_units THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'AMOUNT_MISMATCH',
+      'error', format('Expected %s base units, received %s', v_request.amount_base_units, p_amount_base_units)
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM solana_pay_requests WHERE transaction_signature = p_signature)
+    OR EXISTS (SELECT 1 FROM ledger_journal_entries WHERE idempotency_key = 'payment:' || p_signature)
+    OR EXISTS (SELECT 1 FROM execution_escrows WHERE funding_signature = p_signature)
+    OR EXISTS (
+      SELECT 1
+      FROM payment_transactions
+      WHERE transaction_signature = p_signature
+        AND status <> 'pending'
+    )
+  THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SIGNATURE_ALREADY_USED', 'error', 'Transaction already paid for another request');
+  END IF;
+
+  IF v_request.purpose = 'agent_execution' THEN
+    SELECT * INTO v_agent
+    FROM agents
+    WHERE id = (v_request.params->>'agent_id')::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'AGENT_NOT_FOUND', 'error', 'Agent not found');
+    END IF;
+
+    INSERT INTO agent_executions (
+      agent_id,
+      status,
+      cost_usdc,
+      payment_required,
+      transaction_signature,
+      input_data
+    )
+    VALUES (
+      v_agent.id,
+      'payment_required',
+      v_request.amount_usd,
+      true,
+      p_signature,
+      COALESCE(v_request.params->'input_data', '{}'::jsonb)
+    )
+    RETURNING id::text INTO v_target_id;
+
+    -- Funded like escrow_fund_execution; the escrow settlement worker checks
+    -- the deposit, starts the execution and later releases or refunds it
+    INSERT INTO execution_escrows (
+      execution_id,
+      agent_id,
+      payer_wallet,
+      creator_wallet,
+      currency,
+      amount,
+      amount_base_units,
+      amount_usd,
+      platform_fee_percent,
+      status,
+      funding_signature,
+      funded_at
+    )
+    VALUES (
+      v_target_id::uuid,
+      v_agent.id,
+      p_payer_wallet,
+      NULLIF(btrim(v_agent.wallet_address), ''),
+      v_request.currency,
+      v_request.amount,
+      v_request.amount_base_units,
+      v_request.amount_usd,
+      platform_fee_percent_setting(),
+      'funded',
+      p_signature,
+      now()
+    );
+
+  ELSIF v_request.purpose = 'x402_session' THEN
+    v_session_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+    INSERT INTO x402_payment_sessions (
+      wallet_address,
+      session_token,
+      authorized_amount,
+      spent_amount,
+      remaining_amount,
+      resource_pattern,
+      resource_patterns,
+      status,
+      expires_at,
+      initial_payment_signature,
+      payment_currency
+    )
+    SELECT
+      p_payer_wallet,
+      v_session_token,
+      v_request.amount_usd,
+      0,
+      0,
+      patterns[1],
+      patterns,
+      'active',
+      now() + make_interval(hours => COALESCE((v_request.params->>'duration_hours')::integer, 24)),
+      p_signature,
+      v_request.currency
+    FROM (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(v_request.params->'resource_patterns')) AS patterns
+    ) p
+    RETURNING id::text INTO v_target_id;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_request.amount_usd),
+        ledger_leg('session', v_target_id, -v_request.amount_usd)
+      ),
+      'x402_session',
+      v_target_id,
+      'payment:' || p_signature,
+      'Session paid in ' || p_signature
+    );
+
+  ELSIF v_request.purpose = 'credit_top_up' THEN
+    v_service_id := NULLIF(v_request.params->>'service_id', '')::uuid;
+    v_service_type := COALESCE(v_request.params->>'service_type', 'api');
+
+    SELECT id INTO v_credit_id
+    FROM x402_payment_credits
+    WHERE wallet_address = p_payer_wallet
+      AND service_id IS NOT DISTINCT FROM v_service_id
+      AND service_type = v_service_type
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE x402_payment_credits
+      SET
+        total_purchased = total_purchased + v_request.amount_usd,
+        last_topup_tx = p_signature,
+        last_topup_amount = v_request.amount_usd,
+        last_topup_at = now(),
+        updated_at = now()
+      WHERE id = v_credit_id;
+    ELSE
+      INSERT INTO x402_payment_credits (
+        wallet_address,
+        service_id,
+        service_type,
+        credit_balance,
+        total_purchased,
+        total_spent,
+        last_topup_tx,
+        last_topup_amount,
+        last_topup_at
+      )
+      VALUES (
+        p_payer_wallet,
+        v_service_id,
+        v_service_type,
+        0,
+        v_request.amount_usd,
+        0,
+        p_signature,
+        v_request.amount_usd,
+        now()
+      )
+      RETURNING id INTO v_credit_id;
+    END IF;
+
+    PERFORM ledger_post(
+      'top_up',
+      jsonb_build_array(
+        ledger_leg('platform_cash', '', v_request.amount_usd),
+        ledger_leg('credits', v_credit_id::text, -v_request.amount_usd)
+      ),
+      'x402_credits',
+      v_credit_id::text,
+      'payment:' || p_signature,
+      'Credits paid in ' || p_signature
+    );
+
+    v_target_id := v_credit_id::text;
+  END IF;
+
+  UPDATE solana_pay_requests
+  SET
+    status = 'confirmed',
+    transaction_signature = p_signature,
+    payer_wallet = p_payer_wallet,
+    target_id = v_target_id,
+    confirmed_at = now()
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'replayed', false,
+    'request_id', v_request.id,
+    'purpose', v_request.purpose,
+    'target_id', v_target_id,
+    'session_token', v_session_token
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION solana_pay_fulfill_request(text, text, text, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION escrow_cancel_execution(uuid) FROM PUBLIC, anon, authenticated;
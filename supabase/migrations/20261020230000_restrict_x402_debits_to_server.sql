@@ -0,0 +1,213 @@
+/*
+  # Restrict x402 Debits to the Server
+
+  1. Changed functions
+    - `x402_debit_session` and `x402_hold_session` take `p_wallet_address`
+      as a required second argument and always reject debits of another
+      wallet's session with `WALLET_MISMATCH`; a missing wallet no longer
+      skips the check
+
+  2. Security
+    - `x402_debit_session`, `x402_hold_session`, `x402_spend_credits` and
+      `x402_charge_authorization` are revoked from anon and authenticated.
+      Anyone holding a session token, or knowing a wallet address, could
+      charge it from the browser. Charges are made by `X402ServerMiddleware`
+      after it verified the wallet's signed payment header, and by the
+      execution worker, both with the service role
+*/
+
+DROP FUNCTION IF EXISTS x402_debit_session(text, numeric, text, text, text, text, text, text, text);
+DROP FUNCTION IF EXISTS x402_hold_session(text, numeric, text, text, text, text, text, text, jsonb, text);
+
+CREATE OR REPLACE FUNCTION x402_debit_session(
+  p_session_token text,
+  p_wallet_address text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL,
+  p_resource text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session x402_payment_sessions%ROWTYPE;
+  v_existing_tx uuid;
+  v_tx_id uuid;
+  v_remaining numeric(18, 6);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_session
+  FROM x402_payment_sessions
+  WHERE session_token = p_session_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  -- The wallet that signed the payment header has to own the session
+  IF v_session.wallet_address IS DISTINCT FROM p_wallet_address THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'WALLET_MISMATCH', 'error', 'Session belongs to another wallet');
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_INACTIVE', 'error', 'Session is ' || v_session.status);
+  END IF;
+
+  IF v_session.expires_at < now() THEN
+    UPDATE x402_payment_sessions SET status = 'expired' WHERE id = v_session.id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'SESSION_EXPIRED', 'error', 'Session expired');
+  END IF;
+
+  -- Fails closed: without an explicit resource key the URL has to match.
+  IF NOT EXISTS (
+    SELECT 1
+    FROM unnest(v_session.resource_patterns) AS pattern
+    WHERE COALESCE(p_resource, p_resource_url) ~ x402_glob_to_regex(pattern)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'RESOURCE_NOT_AUTHORIZED',
+      'error', 'Session is not authorized for ' || COALESCE(p_resource, p_resource_url)
+    );
+  END IF;
+
+  -- Checked under the row lock, so concurrent retries with the same key are
+  -- serialised behind the first one, and only once the session is valid for
+  -- this request. A key only replays a charge made on the same session.
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_tx
+    FROM x402_transactions
+    WHERE idempotency_key = p_idempotency_key
+      AND session_id = v_session.id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', true,
+        'transaction_id', v_existing_tx,
+        'remaining_amount', v_session.remaining_amount,
+        'replayed', true
+      );
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM x402_transactions WHERE idempotency_key = p_idempotency_key) THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'IDEMPOTENCY_KEY_CONFLICT', 'error', 'Idempotency key was used for another payment');
+    END IF;
+  END IF;
+
+  IF v_session.remaining_amount < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_BALANCE',
+      'error', 'Insufficient session balance',
+      'remaining_amount', v_session.remaining_amount
+    );
+  END IF;
+
+  INSERT INTO x402_transactions (
+    session_id,
+    wallet_address,
+    resource_url,
+    resource_type,
+    http_method,
+    amount_charged,
+    x402_header,
+    status,
+    response_code,
+    idempotency_key,
+    metadata
+  ) VALUES (
+    v_session.id,
+    v_session.wallet_address,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_amount,
+    COALESCE(p_x402_header, 'session=' || p_session_token),
+    'completed',
+    200,
+    p_idempotency_key,
+    jsonb_build_object('resource', COALESCE(p_resource, p_resource_url))
+  )
+  RETURNING id INTO v_tx_id;
+
+  PERFORM ledger_post_charge('charge', v_tx_id, 'session', v_session.id::text, p_amount, false, 'x402_charge:' || v_tx_id);
+
+  UPDATE x402_payment_sessions
+  SET
+    spent_amount = spent_amount + p_amount,
+    last_used_at = now(),
+    status = CASE WHEN remaining_amount <= 0 THEN 'depleted' ELSE 'active' END
+  WHERE id = v_session.id
+  RETURNING remaining_amount INTO v_remaining;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'remaining_amount', v_remaining,
+    'replayed', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION x402_hold_session(
+  p_session_token text,
+  p_wallet_address text,
+  p_amount numeric,
+  p_resource_url text,
+  p_resource_type text,
+  p_http_method text,
+  p_idempotency_key text DEFAULT NULL,
+  p_x402_header text DEFAULT NULL,
+  p_resource text DEFAULT NULL,
+  p_billing jsonb DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  v_result := x402_debit_session(
+    p_session_token,
+    p_wallet_address,
+    p_amount,
+    p_resource_url,
+    p_resource_type,
+    p_http_method,
+    p_idempotency_key,
+    p_x402_header,
+    p_resource
+  );
+
+  IF (v_result->>'success')::boolean AND NOT COALESCE((v_result->>'replayed')::boolean, false) THEN
+    UPDATE x402_transactions
+    SET
+      status = 'pending',
+      response_code = NULL,
+      metadata = metadata || jsonb_build_object('billing', p_billing || jsonb_build_object('hold_amount', p_amount))
+    WHERE id = (v_result->>'transaction_id')::uuid;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION x402_debit_session(text, text, numeric, text, text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_hold_session(text, text, numeric, text, text, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_spend_credits(text, uuid, text, numeric, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION x402_charge_authorization(text, text, numeric, text, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION x402_debit_session IS 'Atomically debits a session of the given wallet for an authorized resource; service role only';
+COMMENT ON FUNCTION x402_hold_session IS 'Holds the upper bound of a metered x402 charge on a session of the given wallet; service role only';
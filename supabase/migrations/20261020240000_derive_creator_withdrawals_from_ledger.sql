@@ -0,0 +1,221 @@
+/*
+  # Derive Creator Withdrawals From the Ledger
+
+  1. New functions
+    - `creator_available_balance(p_creator_wallet, p_hold_seconds)` - what a
+      creator can withdraw: the creator's ledger balance, less charges
+      posted within the hold window (24 hours, like `sync_creator_earnings`)
+      and less withdrawals that are requested or processing. Completed
+      withdrawals are already in the ledger as payouts
+
+  2. Changed functions
+    - `request_creator_withdrawal` checks the amount against
+      `creator_available_balance` instead of `creator_earnings_balance`,
+      which is rebuilt from `creator_earnings` by a batch job and could
+      disagree with the ledger
+    - `creator_earnings_balance` reports the same `available` amount
+    - `ledger_post_charge` takes the fee from `platform_fee_percent_setting()`,
+      the setting escrows, channels and `sync_creator_earnings` already use
+
+  3. Removed functions
+    - `ledger_platform_fee_percent()`, a second copy of the fee setting
+*/
+
+CREATE OR REPLACE FUNCTION creator_available_balance(
+  p_creator_wallet text,
+  p_hold_seconds integer DEFAULT 86400
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_balance numeric;
+  v_held numeric;
+  v_processing numeric;
+BEGIN
+  -- Creator accounts are liabilities, so credits are what the platform owes
+  SELECT COALESCE(-sum(p.amount), 0) INTO v_balance
+  FROM ledger_postings p
+  JOIN ledger_accounts a ON a.id = p.account_id
+  WHERE a.owner_type = 'creator'
+    AND a.owner_id = p_creator_wallet;
+
+  -- Recent charges stay held so refunds can still be taken out of them.
+  -- Refunds and releases reduce the balance at once; direct payments credit
+  -- and settle the creator in one entry and are never held
+  SELECT COALESCE(sum(GREATEST(-e.amount, 0)), 0) INTO v_held
+  FROM (
+    SELECT sum(p.amount) AS amount
+    FROM ledger_postings p
+    JOIN ledger_accounts a ON a.id = p.account_id
+    WHERE a.owner_type = 'creator'
+      AND a.owner_id = p_creator_wallet
+      AND p.created_at > now() - make_interval(secs => p_hold_seconds)
+    GROUP BY p.journal_entry_id
+  ) e;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_processing
+  FROM creator_withdrawals
+  WHERE creator_wallet = p_creator_wallet
+    AND status IN ('requested', 'processing');
+
+  RETURN GREATEST(v_balance - v_held - v_processing, 0);
+END;
+$$;
+
+-- Charges move money from the payer to the creator, minus the platform fee;
+-- releases and refunds move it back. Calls that no service config claims
+-- are kept by the platform. Direct calls (proofs, channels) took no fee.
+CREATE OR REPLACE FUNCTION ledger_post_charge(
+  p_entry_type text,
+  p_transaction_id uuid,
+  p_payer_type text,
+  p_payer_id text,
+  p_amount numeric,
+  p_direct boolean DEFAULT false,
+  p_idempotency_key text DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config x402_service_configs%ROWTYPE;
+  v_sign integer;
+  v_fee numeric(18, 6);
+BEGIN
+  v_sign := CASE WHEN p_entry_type = 'charge' THEN 1 ELSE -1 END;
+  v_config := x402_transaction_service(p_transaction_id);
+
+  IF v_config.id IS NULL OR v_config.owner_wallet IS NULL THEN
+    RETURN ledger_post(
+      p_entry_type,
+      jsonb_build_array(
+        ledger_leg(p_payer_type, p_payer_id, v_sign * p_amount),
+        ledger_leg('platform_fees', '', -v_sign * p_amount)
+      ),
+      'x402_transaction',
+      p_transaction_id::text,
+      p_idempotency_key,
+      p_description
+    );
+  END IF;
+
+  v_fee := CASE WHEN p_direct THEN 0 ELSE round(p_amount * platform_fee_percent_setting() / 100, 6) END;
+
+  RETURN ledger_post(
+    p_entry_type,
+    jsonb_build_array(
+      ledger_leg(p_payer_type, p_payer_id, v_sign * p_amount),
+      ledger_leg('creator', v_config.owner_wallet, -v_sign * (p_amount - v_fee), v_config.service_type, v_config.service_id),
+      ledger_leg('platform_fees', '', -v_sign * v_fee, v_config.service_type, v_config.service_id)
+    ),
+    'x402_transaction',
+    p_transaction_id::text,
+    p_idempotency_key,
+    p_description
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION creator_earnings_balance(p_creator_wallet text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_pending numeric;
+  v_direct numeric;
+  v_earned numeric;
+  v_fees numeric;
+  v_refunded numeric;
+  v_processing numeric;
+  v_withdrawn numeric;
+BEGIN
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE settlement = 'custodial' AND available_at > now()), 0),
+    COALESCE(sum(amount) FILTER (WHERE settlement = 'direct'), 0),
+    COALESCE(sum(amount) FILTER (WHERE entry_type = 'earning'), 0),
+    COALESCE(-sum(amount) FILTER (WHERE entry_type = 'platform_fee'), 0),
+    COALESCE(-sum(amount) FILTER (WHERE entry_type = 'refund'), 0)
+  INTO v_pending, v_direct, v_earned, v_fees, v_refunded
+  FROM creator_earnings
+  WHERE creator_wallet = p_creator_wallet;
+
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE status IN ('requested', 'processing')), 0),
+    COALESCE(sum(amount) FILTER (WHERE status = 'completed'), 0)
+  INTO v_processing, v_withdrawn
+  FROM creator_withdrawals
+  WHERE creator_wallet = p_creator_wallet;
+
+  RETURN jsonb_build_object(
+    'pending', v_pending,
+    'available', creator_available_balance(p_creator_wallet),
+    'processing', v_processing,
+    'paid', v_direct + v_withdrawn,
+    'withdrawn', v_withdrawn,
+    'earned', v_earned,
+    'platform_fees', v_fees,
+    'refunded', v_refunded
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_creator_withdrawal(
+  p_creator_wallet text,
+  p_amount numeric,
+  p_currency text DEFAULT 'USDC'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Same as MIN_WITHDRAWAL_USD in the app, so payouts are not eaten by fees
+  v_minimum_amount CONSTANT numeric := 1;
+  v_available numeric;
+  v_withdrawal_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_AMOUNT', 'error', 'Withdrawal amount must be positive');
+  END IF;
+
+  IF p_amount < v_minimum_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'BELOW_MINIMUM_WITHDRAWAL',
+      'error', format('Withdrawals start at $%s', v_minimum_amount)
+    );
+  END IF;
+
+  -- Serializes withdrawals per wallet so two requests cannot both spend the
+  -- same available balance
+  PERFORM pg_advisory_xact_lock(hashtext('creator_withdrawal:' || p_creator_wallet));
+
+  v_available := creator_available_balance(p_creator_wallet);
+
+  IF p_amount > v_available THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'INSUFFICIENT_AVAILABLE_BALANCE',
+      'error', 'Amount exceeds your available balance',
+      'available', v_available
+    );
+  END IF;
+
+  INSERT INTO creator_withdrawals (creator_wallet, amount, currency)
+  VALUES (p_creator_wallet, p_amount, p_currency)
+  RETURNING id INTO v_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'withdrawal_id', v_withdrawal_id, 'available', v_available - p_amount);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS ledger_platform_fee_percent();
+
+COMMENT ON FUNCTION creator_available_balance IS 'Withdrawable creator balance from the ledger, less held charges and open withdrawals';